@@ -0,0 +1,51 @@
+import { FlipAbortedError } from './errors';
+
+/**
+ * AbortSignal helpers shared by the entropy system and the simulation.
+ *
+ * Every cancellation surfaces as a FlipAbortedError, whichever layer
+ * notices it first, so callers only need one catch.
+ */
+
+/**
+ * Throws FlipAbortedError if the signal has been aborted.
+ *
+ * @param signal Optional signal to check
+ * @throws FlipAbortedError if `signal.aborted` is true
+ */
+export function throwIfAborted(signal: AbortSignal | undefined): void {
+    if (signal?.aborted) {
+        throw new FlipAbortedError(signal.reason);
+    }
+}
+
+/**
+ * Waits for the given time, or until the signal aborts.
+ *
+ * With `ms = 0` this is a macrotask yield that also lets a pending abort
+ * through, which is how the busy physics loop stays cancellable.
+ *
+ * @param ms Time to wait in milliseconds
+ * @param signal Optional signal that cuts the wait short
+ * @returns Promise that resolves after `ms`
+ * @throws FlipAbortedError if the signal aborts before or during the wait
+ */
+export function abortableSleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new FlipAbortedError(signal.reason));
+            return;
+        }
+
+        const onAbort = (): void => {
+            clearTimeout(timeoutId);
+            reject(new FlipAbortedError(signal?.reason));
+        };
+        const timeoutId = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
@@ -0,0 +1,25 @@
+import { BaseError } from './BaseError';
+import type { BaseErrorOptions } from './BaseErrorOptions';
+
+/**
+ * Thrown when a flip or an entropy collection is cancelled through its
+ * AbortSignal.
+ *
+ * The signal's `reason` is kept as the error's cause, so
+ * `controller.abort(new Error('user navigated away'))` stays visible in
+ * `error.context.cause`.
+ *
+ * Example:
+ * → const controller = new AbortController();
+ * → const flip = flipCoin({ entropyLevel: 'paranoid', signal: controller.signal });
+ * → controller.abort();
+ * → flip rejects with FlipAbortedError right away, not after 5000ms
+ */
+export class FlipAbortedError extends BaseError {
+    constructor(reason?: unknown, options?: BaseErrorOptions) {
+        super('Flip aborted', {
+            ...options,
+            cause: options?.cause ?? reason,
+        });
+    }
+}
@@ -1,2 +1,3 @@
 export { BaseError } from './BaseError';
-export type { BaseErrorOptions } from './BaseErrorOptions';
\ No newline at end of file
+export type { BaseErrorOptions } from './BaseErrorOptions';
+export { FlipAbortedError } from './FlipAbortedError';
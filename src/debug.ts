@@ -1,4 +1,6 @@
 import { collectEntropy, fromSeed } from './entropy/pool';
+import { redactProvenance } from './entropy/provenance';
+import { zeroize } from './entropy/zeroize';
 import { generateInitialCondition } from './simulation/initial';
 import { integrate } from './physics/integrator';
 import { handleCollision } from './physics/collision';
@@ -9,12 +11,15 @@ import { Mat3 } from './physics/math/mat3';
 import { Vec3 } from './physics/math/vec3';
 import { Quaternion } from './physics/math/quaternion';
 import type { RigidBodyState } from './physics/types/rigid-body-state';
+import type { EntropyProvenance } from './entropy/types';
+import type { EntropySourceHealthError } from './entropy/errors/EntropySourceHealthError';
 
 import type { CoinConfig } from './types/coin-config';
 import type { TossProfile } from './types/toss-profile';
 import type { LaunchParameters } from './simulation/types/launch-parameters';
 import { DEFAULT_LAUNCH_PARAMETERS } from './simulation/types/launch-parameters';
 import { SimulationTimeoutError } from './simulation/errors/simulation-timeout-error';
+import { throwIfAborted, abortableSleep } from './common/abort';
 import type { DebugFlipOptions } from './types/debug-flip-options';
 import type { DebugFlipResult } from './types/debug-flip-result';
 
@@ -54,6 +59,14 @@ export type { RigidBodyState };
 export async function debugFlipCoin(options: DebugFlipOptions = {}): Promise<DebugFlipResult> {
     const {
         entropyLevel = 'standard',
+        entropySources,
+        strict = false,
+        provenance = false,
+        signal,
+        entropyAccumulator,
+        entropyPrefetcher,
+        entropyHooks,
+        redactSeed = false,
         coinConfig: userCoinConfig = {},
         tossProfile = {},
         /**
@@ -75,6 +88,9 @@ export async function debugFlipCoin(options: DebugFlipOptions = {}): Promise<Deb
 
     const dt = 0.0001;
     const maxConsecutiveStableFrames = 10;
+    const abortCheckIntervalSteps = 2000;
+
+    throwIfAborted(signal);
 
     /**
      * We don't implement full retry logic in debug for simplicity.
@@ -88,27 +104,46 @@ export async function debugFlipCoin(options: DebugFlipOptions = {}): Promise<Deb
     /**
      * 1. Resolve Entropy / Seed
      */
-    let entropyBytes: Uint8Array;
     let seedUsed: Uint8Array;
+    let degraded = false;
+    let healthErrors: EntropySourceHealthError[] = [];
+    let entropyProvenance: EntropyProvenance | undefined;
 
     if (providedSeed) {
         /**
-         * Expand the provided seed to ensure we have enough bytes for generation.
-         * fromSeed utility in pool.ts does this.
+         * The provided seed is expanded below, via the fromSeed utility
+         * in pool.ts, to ensure we have enough bytes for generation.
          */
         seedUsed = providedSeed;
-        entropyBytes = await fromSeed(providedSeed);
     } else {
-        const entropyResult = await collectEntropy({ level: entropyLevel });
+        const entropyResult = await collectEntropy({
+            level: entropyLevel,
+            sources: entropySources,
+            strict,
+            provenance,
+            signal,
+            accumulator: entropyAccumulator,
+            prefetcher: entropyPrefetcher,
+            hooks: entropyHooks,
+        });
         /**
          * We use the collected entropy as the SEED for this run.
          * We then expand it via fromSeed() to ensure we have a consistent,
          * reproducible stream of bytes (and enough of them!) for the simulation.
          */
         seedUsed = entropyResult.bytes;
-        entropyBytes = await fromSeed(seedUsed);
+        degraded = entropyResult.stats.degraded;
+        healthErrors = entropyResult.stats.healthErrors;
+        entropyProvenance = entropyResult.provenance;
     }
 
+    /**
+     * Debug runs are single-shot, so they always use the 'launch' stream.
+     * The wobble gets its own 'perturbation' stream from the same seed.
+     */
+    const entropyBytes = await fromSeed(seedUsed, 64, 'launch');
+    const perturbationBytes = await fromSeed(seedUsed, 64, 'perturbation');
+
     /**
      * Generate Initial Conditions
      * First we define the default launch params.
@@ -117,7 +152,16 @@ export async function debugFlipCoin(options: DebugFlipOptions = {}): Promise<Deb
      * let it rip.
      */
     const launchParams = mapTossProfileToLaunchParams(tossProfile, DEFAULT_LAUNCH_PARAMETERS);
-    const generatedState = generateInitialCondition(entropyBytes, launchParams);
+    const generatedState = generateInitialCondition(entropyBytes, launchParams, perturbationBytes);
+    zeroize(entropyBytes, perturbationBytes);
+
+    /**
+     * With redactSeed a collected seed is wiped here, like in flipCoin.
+     * A provided seed belongs to the caller and is left alone.
+     */
+    if (redactSeed && !providedSeed) {
+        zeroize(seedUsed);
+    }
     const initialState: RigidBodyState = {
         position: overrideInitialConditions?.position ?? generatedState.position,
         orientation: overrideInitialConditions?.orientation ?? generatedState.orientation,
@@ -154,6 +198,7 @@ export async function debugFlipCoin(options: DebugFlipOptions = {}): Promise<Deb
     let elapsedSimulationTime = 0;
 
     let bounceCount = 0;
+    let steps = 0;
     while (elapsedSimulationTime < timeout) {
         integrate(body, dt);
 
@@ -202,6 +247,15 @@ export async function debugFlipCoin(options: DebugFlipOptions = {}): Promise<Deb
         }
 
         elapsedSimulationTime += dt * 1000;
+        steps++;
+
+        /**
+         * Same cancellation point as flipCoin: yield now and then so an
+         * abort can get through the busy loop.
+         */
+        if (signal && steps % abortCheckIntervalSteps === 0) {
+            await abortableSleep(0, signal);
+        }
     }
 
     const runTime = performance.now() - startTimeStamp;
@@ -217,15 +271,21 @@ export async function debugFlipCoin(options: DebugFlipOptions = {}): Promise<Deb
 
     return {
         outcome: face,
-        seed: seedUsed,
+        seed: redactSeed ? undefined : seedUsed,
         initialConditions: initialState,
         trajectory: recordTrajectory ? trajectory : undefined,
         stats: {
             simulationTime: runTime,
             entropyBitsUsed: entropyBytes.length * 8,
             bounceCount: bounceCount,
-            retryCount: 0
-        }
+            retryCount: 0,
+            degraded,
+            healthErrors,
+            prefetch: entropyPrefetcher?.getStats(),
+        },
+        provenance: redactSeed && entropyProvenance
+            ? redactProvenance(entropyProvenance)
+            : entropyProvenance,
     };
 }
 
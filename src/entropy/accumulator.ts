@@ -0,0 +1,420 @@
+/**
+ * Persistent, Fortuna-style entropy accumulator.
+ *
+ * ## Why?
+ *
+ * `collectEntropy()` is stateless: every call sweeps the sources from scratch
+ * and waits at least the level's `minTimeMs` (200ms at `standard`). For a
+ * single flip that is fine, but an app flipping many coins pays it every time.
+ *
+ * The accumulator moves collection into the background. Once seeded, reads
+ * are served from a generator and return in well under a millisecond.
+ *
+ * ## Design (after Ferguson & Schneier, "Cryptography Engineering", ch. 9)
+ *
+ * ```
+ *   background sweeps ──► event ──► pool[i] (round-robin per source)
+ *
+ *   ┌────────┐ ┌────────┐ ┌────────┐       ┌─────────┐
+ *   │ pool 0 │ │ pool 1 │ │ pool 2 │  ...  │ pool 31 │
+ *   └───┬────┘ └───┬────┘ └───┬────┘       └────┬────┘
+ *       │ every    │ every    │ every           │ every
+ *       │ reseed   │ 2nd      │ 4th             │ 2^31st
+ *       └──────────┴────┬─────┴─────────────────┘
+ *                       ▼
+ *              key = SHA-256(key || pools)
+ *                       ▼
+ *              generator (HKDF-SHA-256 per counter)
+ *                       ▼
+ *                    read()
+ * ```
+ *
+ * - **Pools**: each pool is a running SHA-256 hash chain over the events
+ *   added to it. A source's successive results go to successive pools.
+ * - **Reseed**: when pool 0 holds `minReseedBits` and at least
+ *   `minReseedIntervalMs` passed since the last reseed. Reseed number r
+ *   drains pool i if 2^i divides r.
+ * - **Generator**: output is the HKDF expansion of SHA-256(key || counter),
+ *   one counter value per 8160-byte chunk. Each read
+ *   replaces the key with extra output, so a later state compromise cannot
+ *   reveal earlier reads (forward secrecy).
+ *
+ * The point of the pool schedule: if an attacker can observe or inject some
+ * events, they can predict what goes into pool 0, but pool i accumulates
+ * 2^i times longer before it is used. Eventually some pool holds more
+ * entropy than the attacker can guess, and the generator recovers. Crucially,
+ * this works without trusting any source's entropy estimate.
+ *
+ * ## Lifecycle
+ *
+ * Collection only runs between `start()` and `stop()`. `stop()` resolves
+ * after the in-flight sweep has finished, so tests can await it and leave
+ * no timers behind.
+ */
+
+import { mixEntropy, expandEntropy, maxExpansionLength } from './mixer';
+import { performEntropySweep, resolveEntropySources } from './pool';
+import { resolveEntropyLevel } from './levels';
+import { createHealthMonitor } from './health';
+import { creditEntropy } from './estimators';
+import type {
+  EntropyAccumulator,
+  EntropyAccumulatorOptions,
+  EntropyAccumulatorStats,
+  EntropyResult,
+} from './types';
+import { EntropyAccumulatorNotSeededError } from './errors';
+import { zeroize, makeDisposable } from './zeroize';
+
+/**
+ * Default configuration values.
+ */
+const DEFAULT_SWEEP_INTERVAL_MS = 100;
+const DEFAULT_POOL_COUNT = 32;
+const DEFAULT_MIN_RESEED_BITS = 128;
+const DEFAULT_MIN_RESEED_INTERVAL_MS = 100;
+
+/**
+ * Fortuna uses 32 pools: with a reseed at most every 100ms, pool 31 would
+ * be drained once every 13 years, so more pools are pointless.
+ */
+const MAX_POOL_COUNT = 32;
+
+/**
+ * Fortuna caps a single request at 2^20 bytes, so no single read can
+ * reveal too much of one key's output.
+ */
+const MAX_READ_BYTES = 1 << 20;
+
+/**
+ * One sub-pool: a hash chain plus bookkeeping for the reseed decision.
+ */
+interface SubPool {
+  digest: Uint8Array;
+  bits: number;
+  claimedBits: number;
+  sources: Set<string>;
+}
+
+/**
+ * Creates a persistent entropy accumulator.
+ *
+ * Example:
+ * ```typescript
+ * const accumulator = createEntropyAccumulator();
+ * accumulator.start();
+ *
+ * // Flips fall back to inline collection until the first reseed,
+ * // then are served from the accumulator without waiting.
+ * const result = await flipCoin({ entropyAccumulator: accumulator });
+ *
+ * await accumulator.stop();
+ * ```
+ *
+ * @param options Pool and schedule configuration
+ * @returns A stopped accumulator; call start() to begin collecting
+ * @throws RangeError if poolCount is not an integer in 1-32
+ * @throws InvalidEntropyLevelError if `options.level` is unknown or invalid
+ */
+export function createEntropyAccumulator(
+  options: EntropyAccumulatorOptions = {}
+): EntropyAccumulator {
+  const { name: level, config } = resolveEntropyLevel(options.level ?? 'fast');
+  const sweepIntervalMs = options.sweepIntervalMs ?? DEFAULT_SWEEP_INTERVAL_MS;
+  const poolCount = options.poolCount ?? DEFAULT_POOL_COUNT;
+  const minReseedBits = options.minReseedBits ?? DEFAULT_MIN_RESEED_BITS;
+  const minReseedIntervalMs = options.minReseedIntervalMs ?? DEFAULT_MIN_RESEED_INTERVAL_MS;
+
+  if (!Number.isInteger(poolCount) || poolCount < 1 || poolCount > MAX_POOL_COUNT) {
+    throw new RangeError(`poolCount must be an integer between 1 and ${MAX_POOL_COUNT}, got ${poolCount}`);
+  }
+
+  const pools: SubPool[] = Array.from({ length: poolCount }, () => ({
+    digest: new Uint8Array(0),
+    bits: 0,
+    claimedBits: 0,
+    sources: new Set<string>(),
+  }));
+
+  /**
+   * Next pool index per source, so each source walks through all pools.
+   */
+  const nextPool = new Map<string, number>();
+
+  /**
+   * Health state lives as long as the accumulator, so the tests run
+   * continuously across all background sweeps.
+   */
+  const health = createHealthMonitor();
+
+  let key: Uint8Array = new Uint8Array(32);
+  let counter = 0;
+  let reseedCount = 0;
+  let lastReseedTime = -Infinity;
+  let seedBits = 0;
+  const seedSources = new Set<string>();
+
+  /**
+   * Credit behind the current key only. A reseed replaces it with what the
+   * drained pools held, and a read spends it: output from a key that was
+   * fed 64 bits is worth 64 bits, however many reseeds came before.
+   */
+  let keyBits = 0;
+  let keyClaimedBits = 0;
+  const keySources = new Set<string>();
+  let sweepCount = 0;
+
+  let running = false;
+  let generation = 0;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let wakeUp: (() => void) | undefined;
+  let loop: Promise<void> | undefined;
+
+  /**
+   * Pools and generator state are updated across awaits (WebCrypto is async),
+   * so every mutation runs through this chain to keep them consistent.
+   */
+  let exclusive: Promise<unknown> = Promise.resolve();
+  const withLock = <T>(fn: () => Promise<T>): Promise<T> => {
+    const next = exclusive.then(fn);
+    exclusive = next.catch(() => undefined);
+    return next;
+  };
+
+  /**
+   * Runs one sweep, feeds the results into the pools and reseeds if due.
+   */
+  const sweepOnce = async (): Promise<void> => {
+    const sources = resolveEntropySources(options).filter((source) => health.isHealthy(source.name));
+    const results = await performEntropySweep(sources, config, config.maxTimeMs);
+    sweepCount++;
+
+    await withLock(async () => {
+      for (const result of results) {
+        const source = sources.find((candidate) => candidate.name === result.name);
+        if (result.success && !health.check(result, source?.assessedEntropyPerByte)) {
+          await addEvent(result.name, result.bytes, result.estimatedBits);
+        }
+        zeroize(result.bytes);
+      }
+
+      if (pools[0]!.bits >= minReseedBits && performance.now() - lastReseedTime >= minReseedIntervalMs) {
+        await reseed();
+      }
+    });
+  };
+
+  /**
+   * Appends one event to the source's next pool.
+   *
+   * Event encoding: len(name) || name || len(bytes) (4 bytes, big-endian) || bytes.
+   * Length prefixes keep two different event sequences from hashing the same.
+   */
+  const addEvent = async (name: string, bytes: Uint8Array, estimatedBits: number): Promise<void> => {
+    const index = nextPool.get(name) ?? 0;
+    nextPool.set(name, (index + 1) % poolCount);
+
+    const nameBytes = new TextEncoder().encode(name);
+    const header = new Uint8Array(1 + nameBytes.length + 4);
+    header[0] = nameBytes.length;
+    header.set(nameBytes, 1);
+    new DataView(header.buffer).setUint32(1 + nameBytes.length, bytes.length);
+
+    const pool = pools[index]!;
+    const digest = await mixEntropy([pool.digest, header, bytes]);
+    zeroize(pool.digest);
+    pool.digest = digest;
+    pool.bits += creditEntropy(bytes, estimatedBits);
+    pool.claimedBits += estimatedBits;
+    pool.sources.add(name);
+  };
+
+  /**
+   * Folds the scheduled pools into the key and empties them.
+   */
+  const reseed = async (): Promise<void> => {
+    reseedCount++;
+    const drained = selectReseedPools(reseedCount, poolCount);
+
+    const nextKey = await mixEntropy([key, ...drained.map((i) => pools[i]!.digest)]);
+    zeroize(key);
+    key = nextKey;
+    counter++;
+    lastReseedTime = performance.now();
+    keyBits = 0;
+    keyClaimedBits = 0;
+    keySources.clear();
+
+    for (const i of drained) {
+      const pool = pools[i]!;
+      seedBits += pool.bits;
+      keyBits += pool.bits;
+      keyClaimedBits += pool.claimedBits;
+      pool.sources.forEach((name) => {
+        seedSources.add(name);
+        keySources.add(name);
+      });
+      zeroize(pool.digest);
+      pool.digest = new Uint8Array(0);
+      pool.bits = 0;
+      pool.claimedBits = 0;
+      pool.sources.clear();
+    }
+  };
+
+  /**
+   * Sweeps, waits sweepIntervalMs, repeats. The generation check stops an
+   * old loop that is still finishing its sweep when stop() and start()
+   * are called back to back.
+   */
+  const runLoop = async (loopGeneration: number): Promise<void> => {
+    while (running && loopGeneration === generation) {
+      await sweepOnce().catch(() => undefined);
+
+      if (!running || loopGeneration !== generation) {
+        break;
+      }
+
+      await new Promise<void>((resolve) => {
+        wakeUp = resolve;
+        timer = setTimeout(resolve, sweepIntervalMs);
+      });
+      timer = undefined;
+      wakeUp = undefined;
+    }
+  };
+
+  /**
+   * Generates output from the current key and rekeys. Callers hold the lock
+   * and have checked that the generator is seeded.
+   */
+  const generate = async (outputBytes: number): Promise<EntropyResult> => {
+    if (!Number.isInteger(outputBytes) || outputBytes < 1 || outputBytes > MAX_READ_BYTES) {
+      throw new RangeError(`outputBytes must be an integer between 1 and ${MAX_READ_BYTES}, got ${outputBytes}`);
+    }
+
+    const startTime = performance.now();
+
+    /**
+     * Generate 32 extra bytes and make them the new key (rekey after
+     * every read), so this output cannot be recomputed later.
+     */
+    const material = new Uint8Array(outputBytes + 32);
+    const chunkSize = maxExpansionLength();
+
+    /**
+     * One HKDF expansion tops out at 8160 bytes, so larger reads take
+     * a fresh counter block per chunk.
+     */
+    for (let offset = 0; offset < material.length; offset += chunkSize) {
+      const counterBytes = new Uint8Array(8);
+      const view = new DataView(counterBytes.buffer);
+      view.setUint32(0, Math.floor(counter / 2 ** 32));
+      view.setUint32(4, counter >>> 0);
+      counter++;
+
+      const block = await mixEntropy([key, counterBytes]);
+      const chunk = await expandEntropy(block, Math.min(chunkSize, material.length - offset));
+      material.set(chunk, offset);
+      zeroize(block, chunk);
+    }
+    zeroize(key);
+    key = material.slice(outputBytes);
+    const bytes = material.slice(0, outputBytes);
+    zeroize(material);
+
+    const result = makeDisposable({
+      bytes,
+      stats: {
+        totalBits: keyBits,
+        claimedBits: keyClaimedBits,
+        collectionTimeMs: performance.now() - startTime,
+        sourcesUsed: [...keySources],
+        level,
+        levelConfig: { ...config },
+        healthErrors: health.getFailures(),
+        degraded: keyBits < config.targetBits,
+      },
+    });
+
+    keyBits = 0;
+    keyClaimedBits = 0;
+    return result;
+  };
+
+  return {
+    start(): void {
+      if (running) {
+        return;
+      }
+      running = true;
+      generation++;
+      loop = runLoop(generation);
+    },
+
+    async stop(): Promise<void> {
+      running = false;
+      if (timer !== undefined) {
+        clearTimeout(timer);
+      }
+      wakeUp?.();
+      await loop;
+    },
+
+    isRunning(): boolean {
+      return running;
+    },
+
+    isSeeded(): boolean {
+      return reseedCount > 0;
+    },
+
+    read(outputBytes: number = 64): Promise<EntropyResult> {
+      return withLock(async () => {
+        if (reseedCount === 0) {
+          throw new EntropyAccumulatorNotSeededError();
+        }
+        return generate(outputBytes);
+      });
+    },
+
+    readIfCredited(outputBytes: number, minBits: number): Promise<EntropyResult | undefined> {
+      return withLock(async () => (reseedCount > 0 && keyBits >= minBits ? generate(outputBytes) : undefined));
+    },
+
+    getStats(): EntropyAccumulatorStats {
+      return {
+        sweepCount,
+        reseedCount,
+        poolBits: pools.map((pool) => pool.bits),
+        seedBits,
+        keyBits,
+        sourcesUsed: [...seedSources],
+      };
+    },
+  };
+}
+
+/**
+ * Returns the pools drained by a given reseed: pool i is used when 2^i
+ * divides the reseed number.
+ *
+ * Example:
+ * → reseed 1: [0]
+ * → reseed 2: [0, 1]
+ * → reseed 12: [0, 1, 2]   (12 = 4 * 3)
+ *
+ * @param reseedNumber 1-based reseed counter
+ * @param poolCount Number of pools
+ * @returns Ascending pool indices
+ */
+export function selectReseedPools(reseedNumber: number, poolCount: number): number[] {
+  const drained: number[] = [];
+  for (let i = 0; i < poolCount; i++) {
+    if (reseedNumber % 2 ** i !== 0) {
+      break;
+    }
+    drained.push(i);
+  }
+  return drained;
+}
@@ -0,0 +1,640 @@
+/**
+ * Randomness quality assessment: a subset of the NIST SP 800-22 statistical
+ * test suite.
+ *
+ * ## Why?
+ *
+ * The min-entropy estimators (`estimators.ts`) decide how many bits a source
+ * gets credited with during collection. They answer "how predictable is
+ * this?" with a number. The tests here answer a different question after
+ * the fact: "does this look like a fair coin?", with a p-value per test.
+ * They work on anything that can be read as bits: `collectEntropy()`
+ * output, raw source output, or a long sequence of flip outcomes.
+ *
+ * ## The Tests
+ *
+ * | Test                | Detects                                   |
+ * |---------------------|-------------------------------------------|
+ * | Frequency           | Too many 0s or 1s overall                 |
+ * | Block frequency     | Bias within blocks of M bits              |
+ * | Runs                | Oscillating too fast or too slow          |
+ * | Longest run         | Runs of ones too long or too short        |
+ * | Serial              | Uneven frequencies of all m-bit patterns  |
+ * | Approximate entropy | Patterns of length m vs. m + 1            |
+ * | Cumulative sums     | Random walk straying too far from zero    |
+ *
+ * ## Reading p-values
+ *
+ * A p-value is the probability that a truly random sequence would look at
+ * least this non-random. With α = 0.01, a perfect generator fails each test
+ * about 1% of the time: one failure proves little, a test that keeps
+ * failing across fresh samples does.
+ *
+ * SP 800-22 recommends at least 100 bits per sequence; `assessRandomness()`
+ * refuses anything shorter.
+ */
+
+import { unpackBits } from './estimators';
+import type {
+  RandomnessAssessment,
+  RandomnessAssessmentOptions,
+  RandomnessTestResult,
+} from './types';
+
+/**
+ * Default significance level (SP 800-22, 1.1.5).
+ */
+const DEFAULT_ALPHA = 0.01;
+
+/**
+ * Shortest sequence `assessRandomness()` accepts.
+ */
+const MIN_ASSESSMENT_BITS = 100;
+
+/**
+ * Block frequency test: smallest block length and largest block count
+ * SP 800-22 recommends (M ≥ 20, N < 100).
+ */
+const MIN_BLOCK_FREQUENCY_BLOCK_LENGTH = 20;
+const MAX_BLOCK_FREQUENCY_BLOCKS = 99;
+
+/**
+ * Largest pattern lengths used by default (the NIST reference suite's).
+ */
+const MAX_DEFAULT_SERIAL_BLOCK_LENGTH = 16;
+const MAX_DEFAULT_APPROXIMATE_ENTROPY_BLOCK_LENGTH = 10;
+
+/**
+ * Longest run test parameters by sequence length (SP 800-22, 2.4.2 and
+ * 3.4): block length M, the run length classes and their probabilities.
+ * A run of `lengths[i]` falls into class i; shorter runs into the first
+ * class, longer runs into the last.
+ */
+const LONGEST_RUN_TABLES = [
+  {
+    minBits: 750_000,
+    blockLength: 10_000,
+    lengths: [10, 11, 12, 13, 14, 15, 16],
+    probabilities: [0.0882, 0.2092, 0.2483, 0.1933, 0.1208, 0.0675, 0.0727],
+  },
+  {
+    minBits: 6272,
+    blockLength: 128,
+    lengths: [4, 5, 6, 7, 8, 9],
+    probabilities: [0.1174, 0.2430, 0.2493, 0.1752, 0.1027, 0.1124],
+  },
+  {
+    minBits: 128,
+    blockLength: 8,
+    lengths: [1, 2, 3, 4],
+    probabilities: [0.2148, 0.3672, 0.2305, 0.1875],
+  },
+];
+
+/**
+ * Runs the SP 800-22 subset over a sequence.
+ *
+ * A `Uint8Array` is read as packed bytes, MSB first (the layout of
+ * `collectEntropy()` and source output). Any other array is read as one
+ * bit per element, e.g. flip outcomes:
+ *
+ * ```typescript
+ * assessRandomness(outcomes.map((outcome) => (outcome === 'HEADS' ? 1 : 0)));
+ * ```
+ *
+ * Example (1 KiB from crypto.getRandomValues):
+ * → { sampleBits: 8192, frequency: { pValue: ~U(0, 1), passed: true }, ..., passed: true }
+ *
+ * @param input Packed bytes, or an array of 0/1 values
+ * @param options Significance level and block lengths
+ * @returns p-values and pass/fail per test
+ * @throws RangeError if the sequence is shorter than 100 bits, contains
+ *   values other than 0 and 1, or an option is out of range
+ */
+export function assessRandomness(
+  input: Uint8Array | readonly number[],
+  options: RandomnessAssessmentOptions = {}
+): RandomnessAssessment {
+  const bits = input instanceof Uint8Array ? unpackBits(input) : toBits(input);
+  const n = bits.length;
+  if (n < MIN_ASSESSMENT_BITS) {
+    throw new RangeError(`assessRandomness needs at least ${MIN_ASSESSMENT_BITS} bits, got ${n}`);
+  }
+
+  const { alpha = DEFAULT_ALPHA } = options;
+  if (!(alpha > 0 && alpha < 1)) {
+    throw new RangeError(`alpha must be between 0 and 1, got ${alpha}`);
+  }
+
+  const log2n = Math.floor(Math.log2(n));
+  const {
+    blockFrequencyBlockLength = Math.max(
+      MIN_BLOCK_FREQUENCY_BLOCK_LENGTH,
+      Math.floor(n / (MAX_BLOCK_FREQUENCY_BLOCKS + 1)) + 1
+    ),
+    serialBlockLength = Math.max(2, Math.min(MAX_DEFAULT_SERIAL_BLOCK_LENGTH, log2n - 3)),
+    approximateEntropyBlockLength = Math.min(MAX_DEFAULT_APPROXIMATE_ENTROPY_BLOCK_LENGTH, log2n - 6),
+  } = options;
+
+  const judge = (pValues: number[] | undefined): RandomnessTestResult | undefined =>
+    pValues && {
+      pValues,
+      pValue: Math.min(...pValues),
+      passed: pValues.every((p) => p >= alpha),
+    };
+
+  const assessment = {
+    sampleBits: n,
+    alpha,
+    frequency: judge([frequencyTest(bits)])!,
+    blockFrequency: judge([blockFrequencyTest(bits, blockFrequencyBlockLength)])!,
+    runs: judge([runsTest(bits)])!,
+    longestRun: judge(optionalPValues(longestRunTest(bits))),
+    serial: judge(serialTest(bits, serialBlockLength))!,
+    approximateEntropy: judge(
+      approximateEntropyBlockLength >= 1
+        ? [approximateEntropyTest(bits, approximateEntropyBlockLength)]
+        : undefined
+    ),
+    cumulativeSums: judge(cumulativeSumsTest(bits))!,
+  };
+
+  const results = [
+    assessment.frequency,
+    assessment.blockFrequency,
+    assessment.runs,
+    assessment.longestRun,
+    assessment.serial,
+    assessment.approximateEntropy,
+    assessment.cumulativeSums,
+  ];
+
+  return {
+    ...assessment,
+    passed: results.every((result) => result === undefined || result.passed),
+  };
+}
+
+/**
+ * Frequency (monobit) test (SP 800-22, 2.1).
+ *
+ * S = Σ (2ε − 1), s_obs = |S| / √n, p = erfc(s_obs / √2)
+ *
+ * Example (SP 800-22, 2.1.8): the first 100 bits of π
+ * → p = 0.109599
+ *
+ * @param bits Array of 0/1 values
+ * @returns p-value
+ */
+export function frequencyTest(bits: ArrayLike<number>): number {
+  const n = bits.length;
+  let sum = 0;
+  for (let i = 0; i < n; i++) {
+    sum += 2 * bits[i]! - 1;
+  }
+  return erfc(Math.abs(sum) / Math.sqrt(n) / Math.SQRT2);
+}
+
+/**
+ * Frequency test within a block (SP 800-22, 2.2).
+ *
+ * Splits the sequence into N = ⌊n / M⌋ blocks (discarding the rest) and
+ * compares each block's proportion of ones π_i with 1/2:
+ *
+ * χ² = 4M Σ (π_i − 1/2)², p = igamc(N / 2, χ² / 2)
+ *
+ * Example (SP 800-22, 2.2.8): the first 100 bits of π, M = 10
+ * → p = 0.706438
+ *
+ * @param bits Array of 0/1 values
+ * @param blockLength Block length M
+ * @returns p-value
+ * @throws RangeError if M is not a positive integer or exceeds n
+ */
+export function blockFrequencyTest(bits: ArrayLike<number>, blockLength: number): number {
+  const n = bits.length;
+  if (!Number.isInteger(blockLength) || blockLength < 1 || blockLength > n) {
+    throw new RangeError(`blockLength must be an integer between 1 and ${n}, got ${blockLength}`);
+  }
+
+  const blockCount = Math.floor(n / blockLength);
+  let chiSquared = 0;
+  for (let block = 0; block < blockCount; block++) {
+    let ones = 0;
+    for (let j = 0; j < blockLength; j++) {
+      ones += bits[block * blockLength + j]!;
+    }
+    chiSquared += (ones / blockLength - 0.5) ** 2;
+  }
+  chiSquared *= 4 * blockLength;
+
+  return igamc(blockCount / 2, chiSquared / 2);
+}
+
+/**
+ * Runs test (SP 800-22, 2.3).
+ *
+ * A run is a maximal block of identical bits. With π the proportion of
+ * ones and V the number of runs:
+ *
+ * p = erfc(|V − 2nπ(1 − π)| / (2√(2n) π(1 − π)))
+ *
+ * The test presumes the frequency test passed: if |π − 1/2| ≥ 2/√n, it
+ * isn't run and p = 0.
+ *
+ * Example (SP 800-22, 2.3.8): the first 100 bits of π
+ * → V = 52, p = 0.500798
+ *
+ * @param bits Array of 0/1 values
+ * @returns p-value
+ */
+export function runsTest(bits: ArrayLike<number>): number {
+  const n = bits.length;
+  let ones = 0;
+  let runs = 1;
+  for (let i = 0; i < n; i++) {
+    ones += bits[i]!;
+    if (i > 0 && bits[i] !== bits[i - 1]) {
+      runs++;
+    }
+  }
+
+  const pi = ones / n;
+  if (Math.abs(pi - 0.5) >= 2 / Math.sqrt(n)) {
+    return 0;
+  }
+
+  const expected = 2 * n * pi * (1 - pi);
+  return erfc(Math.abs(runs - expected) / (2 * Math.sqrt(2 * n) * pi * (1 - pi)));
+}
+
+/**
+ * Test for the longest run of ones in a block (SP 800-22, 2.4).
+ *
+ * Splits the sequence into blocks of M bits (M = 8, 128 or 10⁴ by
+ * sequence length), sorts each block's longest run of ones into K + 1
+ * classes and compares the class counts v_i with their probabilities π_i:
+ *
+ * χ² = Σ (v_i − Nπ_i)² / (Nπ_i), p = igamc(K / 2, χ² / 2)
+ *
+ * Example (SP 800-22, 2.4.8): 128 bits, M = 8
+ * → χ² = 4.882605, p = 0.180598
+ *
+ * @param bits Array of 0/1 values
+ * @returns p-value, or undefined for fewer than 128 bits
+ */
+export function longestRunTest(bits: ArrayLike<number>): number | undefined {
+  const n = bits.length;
+  const table = LONGEST_RUN_TABLES.find((candidate) => n >= candidate.minBits);
+  if (!table) {
+    return undefined;
+  }
+
+  const { blockLength, lengths, probabilities } = table;
+  const blockCount = Math.floor(n / blockLength);
+  const counts = new Array<number>(lengths.length).fill(0);
+
+  for (let block = 0; block < blockCount; block++) {
+    let longest = 0;
+    let current = 0;
+    for (let j = 0; j < blockLength; j++) {
+      current = bits[block * blockLength + j] === 1 ? current + 1 : 0;
+      longest = Math.max(longest, current);
+    }
+
+    const index = Math.min(Math.max(longest - lengths[0]!, 0), lengths.length - 1);
+    counts[index]!++;
+  }
+
+  let chiSquared = 0;
+  for (let i = 0; i < counts.length; i++) {
+    const expected = blockCount * probabilities[i]!;
+    chiSquared += (counts[i]! - expected) ** 2 / expected;
+  }
+
+  return igamc((lengths.length - 1) / 2, chiSquared / 2);
+}
+
+/**
+ * Serial test (SP 800-22, 2.11).
+ *
+ * Counts every overlapping m-bit pattern (the sequence wraps around) and
+ * checks that all 2^m patterns are about equally common:
+ *
+ * ψ²_m = (2^m / n) Σ count² − n   (ψ²_0 = ψ²_−1 = 0)
+ * ∇ψ²_m = ψ²_m − ψ²_{m−1},  ∇²ψ²_m = ψ²_m − 2ψ²_{m−1} + ψ²_{m−2}
+ * p1 = igamc(2^(m−2), ∇ψ²_m / 2),  p2 = igamc(2^(m−3), ∇²ψ²_m / 2)
+ *
+ * Example (SP 800-22, 2.11.4): ε = 0011011101, m = 3
+ * → p1 = 0.808792, p2 = 0.670320
+ *
+ * @param bits Array of 0/1 values
+ * @param blockLength Pattern length m
+ * @returns [p1, p2]
+ * @throws RangeError if m is not an integer between 2 and n
+ */
+export function serialTest(bits: ArrayLike<number>, blockLength: number): [number, number] {
+  const n = bits.length;
+  if (!Number.isInteger(blockLength) || blockLength < 2 || blockLength > n) {
+    throw new RangeError(`blockLength must be an integer between 2 and ${n}, got ${blockLength}`);
+  }
+
+  const m = blockLength;
+  const psi = (length: number): number => {
+    if (length <= 0) {
+      return 0;
+    }
+    const sumOfSquares = patternCounts(bits, length).reduce((sum, count) => sum + count * count, 0);
+    return (2 ** length / n) * sumOfSquares - n;
+  };
+
+  const psiM = psi(m);
+  const psiM1 = psi(m - 1);
+  const psiM2 = psi(m - 2);
+
+  return [
+    igamc(2 ** (m - 2), (psiM - psiM1) / 2),
+    igamc(2 ** (m - 3), (psiM - 2 * psiM1 + psiM2) / 2),
+  ];
+}
+
+/**
+ * Approximate entropy test (SP 800-22, 2.12).
+ *
+ * Compares how often overlapping patterns of length m and m + 1 occur
+ * (the sequence wraps around):
+ *
+ * φ(m) = Σ π_i ln π_i over all m-bit patterns
+ * ApEn(m) = φ(m) − φ(m + 1),  χ² = 2n(ln 2 − ApEn(m))
+ * p = igamc(2^(m−1), χ² / 2)
+ *
+ * Example (SP 800-22, 2.12.4): ε = 0100110101, m = 3
+ * → p = 0.261961
+ *
+ * @param bits Array of 0/1 values
+ * @param blockLength Pattern length m
+ * @returns p-value
+ * @throws RangeError if m is not an integer between 1 and n − 1
+ */
+export function approximateEntropyTest(bits: ArrayLike<number>, blockLength: number): number {
+  const n = bits.length;
+  if (!Number.isInteger(blockLength) || blockLength < 1 || blockLength >= n) {
+    throw new RangeError(`blockLength must be an integer between 1 and ${n - 1}, got ${blockLength}`);
+  }
+
+  const phi = (length: number): number =>
+    patternCounts(bits, length).reduce(
+      (sum, count) => (count === 0 ? sum : sum + (count / n) * Math.log(count / n)),
+      0
+    );
+
+  const apEn = phi(blockLength) - phi(blockLength + 1);
+  const chiSquared = 2 * n * (Math.LN2 - apEn);
+  return igamc(2 ** (blockLength - 1), chiSquared / 2);
+}
+
+/**
+ * Cumulative sums test (SP 800-22, 2.13).
+ *
+ * Walks ±1 per bit and takes z, the largest distance from zero. For a
+ * random walk, z should be about √n:
+ *
+ * p = 1 − Σ_k [Φ((4k + 1)z/√n) − Φ((4k − 1)z/√n)]
+ *       + Σ_k [Φ((4k + 3)z/√n) − Φ((4k + 1)z/√n)]
+ *
+ * Run once from the first bit and once from the last.
+ *
+ * Example (SP 800-22, 2.13.8): the first 100 bits of π
+ * → forward p = 0.219194, backward p = 0.114866
+ *
+ * @param bits Array of 0/1 values
+ * @returns [forward p, backward p]
+ */
+export function cumulativeSumsTest(bits: ArrayLike<number>): [number, number] {
+  const n = bits.length;
+  let sum = 0;
+  let forwardMax = 0;
+  let backwardMax = 0;
+
+  for (let i = 0; i < n; i++) {
+    sum += 2 * bits[i]! - 1;
+    forwardMax = Math.max(forwardMax, Math.abs(sum));
+  }
+
+  /**
+   * Backward partial sums are total − forward partial sums; the full total
+   * is the first backward sum.
+   */
+  let forwardSum = 0;
+  for (let i = 0; i < n; i++) {
+    backwardMax = Math.max(backwardMax, Math.abs(sum - forwardSum));
+    forwardSum += 2 * bits[i]! - 1;
+  }
+
+  return [cumulativeSumsPValue(n, forwardMax), cumulativeSumsPValue(n, backwardMax)];
+}
+
+/**
+ * The p-value of 2.13.4 for maximum excursion z. The summation bounds use
+ * the reference implementation's integer division (truncation toward zero).
+ */
+function cumulativeSumsPValue(n: number, z: number): number {
+  const sqrtN = Math.sqrt(n);
+  const quotient = Math.trunc(n / z);
+
+  let sum1 = 0;
+  for (let k = Math.trunc((-quotient + 1) / 4); k <= Math.trunc((quotient - 1) / 4); k++) {
+    sum1 += normalCdf(((4 * k + 1) * z) / sqrtN) - normalCdf(((4 * k - 1) * z) / sqrtN);
+  }
+
+  let sum2 = 0;
+  for (let k = Math.trunc((-quotient - 3) / 4); k <= Math.trunc((quotient - 1) / 4); k++) {
+    sum2 += normalCdf(((4 * k + 3) * z) / sqrtN) - normalCdf(((4 * k + 1) * z) / sqrtN);
+  }
+
+  return Math.min(1, Math.max(0, 1 - sum1 + sum2));
+}
+
+/**
+ * Counts overlapping patterns of `length` bits, wrapping around the end
+ * of the sequence. Index = the pattern read as a binary number.
+ */
+function patternCounts(bits: ArrayLike<number>, length: number): number[] {
+  const n = bits.length;
+  const counts = new Array<number>(2 ** length).fill(0);
+  for (let i = 0; i < n; i++) {
+    let pattern = 0;
+    for (let j = 0; j < length; j++) {
+      pattern = pattern * 2 + bits[(i + j) % n]!;
+    }
+    counts[pattern]!++;
+  }
+  return counts;
+}
+
+/**
+ * Validates one-bit-per-element input.
+ */
+function toBits(values: readonly number[]): Uint8Array {
+  const bits = new Uint8Array(values.length);
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i]!;
+    if (value !== 0 && value !== 1) {
+      throw new RangeError(`Bit ${i} must be 0 or 1, got ${value}`);
+    }
+    bits[i] = value;
+  }
+  return bits;
+}
+
+/**
+ * Wraps an optional single p-value for judging.
+ */
+function optionalPValues(pValue: number | undefined): number[] | undefined {
+  return pValue === undefined ? undefined : [pValue];
+}
+
+/**
+ * Standard normal cumulative distribution function.
+ */
+function normalCdf(x: number): number {
+  return 0.5 * erfc(-x / Math.SQRT2);
+}
+
+/**
+ * Complementary error function: erfc(x) = igamc(1/2, x²) for x ≥ 0.
+ */
+function erfc(x: number): number {
+  const upper = igamc(0.5, x * x);
+  return x >= 0 ? upper : 2 - upper;
+}
+
+/**
+ * Constants of the Cephes incomplete gamma routines, which the NIST
+ * reference suite also uses.
+ */
+const MACHINE_EPSILON = 1.11022302462515654042e-16;
+const MAX_LOG = 709.782712893384;
+const BIG = 4503599627370496.0;
+const BIG_INVERSE = 2.22044604925031308085e-16;
+
+/**
+ * Regularized upper incomplete gamma function Q(a, x) (Cephes igamc):
+ * a continued fraction, or 1 − P(a, x) where the series converges faster.
+ */
+function igamc(a: number, x: number): number {
+  if (x <= 0 || a <= 0) {
+    return 1;
+  }
+  if (x < 1 || x < a) {
+    return 1 - igam(a, x);
+  }
+
+  const logPrefix = a * Math.log(x) - x - logGamma(a);
+  if (logPrefix < -MAX_LOG) {
+    return 0;
+  }
+  const prefix = Math.exp(logPrefix);
+
+  let y = 1 - a;
+  let z = x + y + 1;
+  let c = 0;
+  let pkm2 = 1;
+  let qkm2 = x;
+  let pkm1 = x + 1;
+  let qkm1 = z * x;
+  let answer = pkm1 / qkm1;
+  let change: number;
+
+  do {
+    c += 1;
+    y += 1;
+    z += 2;
+    const yc = y * c;
+    const pk = pkm1 * z - pkm2 * yc;
+    const qk = qkm1 * z - qkm2 * yc;
+    if (qk !== 0) {
+      const ratio = pk / qk;
+      change = Math.abs((answer - ratio) / ratio);
+      answer = ratio;
+    } else {
+      change = 1;
+    }
+
+    pkm2 = pkm1;
+    pkm1 = pk;
+    qkm2 = qkm1;
+    qkm1 = qk;
+
+    /**
+     * Rescale before the convergents overflow.
+     */
+    if (Math.abs(pk) > BIG) {
+      pkm2 *= BIG_INVERSE;
+      pkm1 *= BIG_INVERSE;
+      qkm2 *= BIG_INVERSE;
+      qkm1 *= BIG_INVERSE;
+    }
+  } while (change > MACHINE_EPSILON);
+
+  return answer * prefix;
+}
+
+/**
+ * Regularized lower incomplete gamma function P(a, x) (Cephes igam), by
+ * its power series.
+ */
+function igam(a: number, x: number): number {
+  if (x <= 0 || a <= 0) {
+    return 0;
+  }
+  if (x > 1 && x > a) {
+    return 1 - igamc(a, x);
+  }
+
+  const logPrefix = a * Math.log(x) - x - logGamma(a);
+  if (logPrefix < -MAX_LOG) {
+    return 0;
+  }
+
+  let r = a;
+  let term = 1;
+  let sum = 1;
+  do {
+    r += 1;
+    term *= x / r;
+    sum += term;
+  } while (term / sum > MACHINE_EPSILON);
+
+  return (sum * Math.exp(logPrefix)) / a;
+}
+
+/**
+ * Lanczos approximation coefficients (g = 7, n = 9).
+ */
+const LANCZOS_G = 7;
+const LANCZOS_COEFFICIENTS = [
+  0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+  -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6,
+  1.5056327351493116e-7,
+];
+
+/**
+ * ln Γ(x) for x > 0 (Lanczos; about 15 significant digits).
+ */
+function logGamma(x: number): number {
+  if (x < 0.5) {
+    /**
+     * Reflection: Γ(x)Γ(1 − x) = π / sin(πx).
+     */
+    return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  }
+
+  const shifted = x - 1;
+  let series = LANCZOS_COEFFICIENTS[0]!;
+  for (let i = 1; i < LANCZOS_COEFFICIENTS.length; i++) {
+    series += LANCZOS_COEFFICIENTS[i]! / (shifted + i);
+  }
+  const t = shifted + LANCZOS_G + 0.5;
+  return 0.5 * Math.log(2 * Math.PI) + (shifted + 0.5) * Math.log(t) - t + Math.log(series);
+}
@@ -0,0 +1,431 @@
+/**
+ * Multi-party commit-reveal seed combination.
+ *
+ * ## Why?
+ *
+ * A seed collected on one machine is only as fair as that machine. For a
+ * group decision, every participant contributes their own random bytes,
+ * and the seed is derived from all of them: as long as one participant's
+ * contribution is unpredictable, so is the seed.
+ *
+ * Revealing contributions directly would let the last participant pick
+ * theirs after seeing everyone else's. So the protocol runs in two phases:
+ *
+ * ```
+ *   commit phase                         reveal phase
+ *   ────────────                         ────────────
+ *   alice ── SHA-256(a) ──►              alice ── a ──►  checked against SHA-256(a)
+ *   bob   ── SHA-256(b) ──►   all in →   bob   ── b ──►  checked against SHA-256(b)
+ *   carol ── SHA-256(c) ──►              carol ── c ──►  checked against SHA-256(c)
+ *                                                         │
+ *                                        seed = mixEntropy([a, b, c])
+ * ```
+ *
+ * Once committed, a participant can't change their contribution, and no
+ * one learns anything about it until every commitment is in.
+ *
+ * ## Timeouts
+ *
+ * Each phase waits at most its timeout for missing messages:
+ *
+ * - Whoever hasn't committed when the commit phase ends is **absent**: they
+ *   are left out, and the session continues if at least `minParticipants`
+ *   committed.
+ * - Whoever committed but hasn't revealed when the reveal phase ends has
+ *   **withheld** their contribution. That is the one way left to bias the
+ *   seed (reveal, or don't), so by default the session fails. With
+ *   `allowWithheld` it completes without them.
+ *
+ * ## Transcript
+ *
+ * The session's result is a plain-JSON transcript: every participant's
+ * status, commitment and contribution, the session's policy, the mixer and
+ * the seed. Anyone can check it offline with `verifyCommitRevealTranscript()`,
+ * which holds the entries to the policy and returns the seed. Participants
+ * should pass the policy they agreed on, and check their own entry: the
+ * publisher could still mark someone absent who did commit. Feed it to `fromSeed()` or `debugFlipCoin({ seed })` to replay the
+ * flip everyone agreed on.
+ */
+
+import { mixEntropy, getMixer } from './mixer';
+import { sha256 } from './hashes';
+import { bytesToHex, equalBytes, hexToBytes, isHex } from './hex';
+import type {
+  CommitRevealEntry,
+  CommitRevealOptions,
+  CommitRevealPhase,
+  CommitRevealPolicy,
+  CommitRevealSession,
+  CommitRevealStatus,
+  CommitRevealTranscript,
+  MixerAlgorithm,
+} from './types';
+import { CommitRevealError } from './errors';
+import { FlipAbortedError } from '../common/errors';
+import { throwIfAborted } from '../common/abort';
+
+/**
+ * Default configuration values.
+ */
+const DEFAULT_COMMIT_TIMEOUT_MS = 60_000;
+const DEFAULT_REVEAL_TIMEOUT_MS = 60_000;
+const DEFAULT_MIXER: MixerAlgorithm = 'SHA-256';
+
+/**
+ * Commitments are SHA-256 digests.
+ */
+const COMMITMENT_BYTES = 32;
+
+/**
+ * A contribution shorter than this could be guessed from its commitment.
+ */
+const MIN_CONTRIBUTION_BYTES = 32;
+
+const STATUSES: readonly CommitRevealStatus[] = ['revealed', 'withheld', 'absent'];
+
+/**
+ * A participant's progress through the session.
+ */
+interface ParticipantState {
+  commitment?: Uint8Array;
+  contribution?: Uint8Array;
+}
+
+/**
+ * Computes the commitment for a contribution: its SHA-256.
+ *
+ * Example:
+ * → const contribution = crypto.getRandomValues(new Uint8Array(32))
+ * → session.commit('alice', commitContribution(contribution))
+ * → ... once everyone has committed:
+ * → session.reveal('alice', contribution)
+ *
+ * @param contribution The participant's secret random bytes
+ * @returns The 32-byte commitment
+ * @throws RangeError if the contribution is shorter than 32 bytes
+ */
+export function commitContribution(contribution: Uint8Array): Uint8Array {
+  if (contribution.length < MIN_CONTRIBUTION_BYTES) {
+    throw new RangeError(
+      `contribution must be at least ${MIN_CONTRIBUTION_BYTES} bytes, got ${contribution.length}`
+    );
+  }
+  return sha256(contribution);
+}
+
+/**
+ * Starts a commit-reveal session. The commit phase, and its timeout, start
+ * immediately.
+ *
+ * Example:
+ * → const session = createCommitReveal({ participants: ['alice', 'bob'] })
+ * → session.commit('alice', ...); session.commit('bob', ...)   → phase 'reveal'
+ * → session.reveal('alice', ...); session.reveal('bob', ...)   → phase 'complete'
+ * → await session.result()
+ * → { mixer: 'SHA-256', entries: [...], seed: '3f1c...' }
+ *
+ * @param options Participants, timeouts and mixer
+ * @returns The session
+ * @throws RangeError if participants are empty, blank or duplicated, or
+ *   minParticipants or a timeout is out of range
+ * @throws FlipAbortedError if the signal is already aborted
+ */
+export function createCommitReveal(options: CommitRevealOptions): CommitRevealSession {
+  const { participants, signal } = options;
+  const minParticipants = options.minParticipants ?? Math.min(2, participants.length);
+  const commitTimeoutMs = options.commitTimeoutMs ?? DEFAULT_COMMIT_TIMEOUT_MS;
+  const revealTimeoutMs = options.revealTimeoutMs ?? DEFAULT_REVEAL_TIMEOUT_MS;
+  const allowWithheld = options.allowWithheld ?? false;
+  const mixer = options.mixer ?? DEFAULT_MIXER;
+
+  if (participants.length === 0) {
+    throw new RangeError('participants must not be empty');
+  }
+  if (participants.some((name) => name.length === 0)) {
+    throw new RangeError('participant names must not be empty');
+  }
+  if (new Set(participants).size !== participants.length) {
+    throw new RangeError('participant names must be unique');
+  }
+  if (!Number.isInteger(minParticipants) || minParticipants < 1 || minParticipants > participants.length) {
+    throw new RangeError(
+      `minParticipants must be an integer between 1 and ${participants.length}, got ${minParticipants}`
+    );
+  }
+  for (const [name, value] of [['commitTimeoutMs', commitTimeoutMs], ['revealTimeoutMs', revealTimeoutMs]] as const) {
+    if (!(value > 0)) {
+      throw new RangeError(`${name} must be positive, got ${value}`);
+    }
+  }
+  getMixer(mixer);
+  throwIfAborted(signal);
+
+  const states = new Map<string, ParticipantState>(participants.map((name) => [name, {}]));
+  let phase: CommitRevealPhase = 'commit';
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  let resolveResult!: (transcript: CommitRevealTranscript) => void;
+  let rejectResult!: (error: Error) => void;
+  const resultPromise = new Promise<CommitRevealTranscript>((resolve, reject) => {
+    resolveResult = resolve;
+    rejectResult = reject;
+  });
+
+  /**
+   * A session nobody awaits may still fail; that isn't an unhandled error.
+   */
+  resultPromise.catch(() => undefined);
+
+  const committed = (): string[] => participants.filter((name) => states.get(name)!.commitment !== undefined);
+  const revealed = (): string[] => participants.filter((name) => states.get(name)!.contribution !== undefined);
+
+  const settle = (): void => {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  };
+
+  const fail = (error: Error): void => {
+    settle();
+    phase = 'failed';
+    rejectResult(error);
+  };
+
+  const onAbort = (): void => fail(new FlipAbortedError(signal?.reason));
+
+  const endCommitPhase = (): void => {
+    clearTimeout(timer);
+    const count = committed().length;
+    if (count < minParticipants) {
+      fail(new CommitRevealError(`only ${count} of ${minParticipants} required participants committed`));
+      return;
+    }
+    phase = 'reveal';
+    timer = setTimeout(endRevealPhase, revealTimeoutMs);
+  };
+
+  const endRevealPhase = (): void => {
+    const count = revealed().length;
+    const withheld = committed().filter((name) => states.get(name)!.contribution === undefined);
+
+    if (withheld.length > 0 && !allowWithheld) {
+      fail(new CommitRevealError(`withheld by ${withheld.map((name) => `"${name}"`).join(', ')}`));
+      return;
+    }
+    if (count < minParticipants) {
+      fail(new CommitRevealError(`only ${count} of ${minParticipants} required participants revealed`));
+      return;
+    }
+
+    /**
+     * Complete from here on: a late reveal can't slip in while the seed is
+     * being mixed.
+     */
+    settle();
+    phase = 'complete';
+    void buildTranscript().then(resolveResult, fail);
+  };
+
+  const buildTranscript = async (): Promise<CommitRevealTranscript> => {
+    const entries = participants.map((name): CommitRevealEntry => {
+      const { commitment, contribution } = states.get(name)!;
+      return {
+        participant: name,
+        status: contribution !== undefined ? 'revealed' : commitment !== undefined ? 'withheld' : 'absent',
+        ...(commitment !== undefined && { commitment: bytesToHex(commitment) }),
+        ...(contribution !== undefined && { contribution: bytesToHex(contribution) }),
+      };
+    });
+    const contributions = revealed().map((name) => states.get(name)!.contribution!);
+
+    return {
+      mixer,
+      policy: { minParticipants, allowWithheld },
+      entries,
+      seed: bytesToHex(await mixEntropy(contributions, mixer)),
+    };
+  };
+
+  const stateOf = (participant: string): ParticipantState => {
+    const state = states.get(participant);
+    if (state === undefined) {
+      throw new CommitRevealError('not a participant', participant);
+    }
+    return state;
+  };
+
+  signal?.addEventListener('abort', onAbort, { once: true });
+  timer = setTimeout(endCommitPhase, commitTimeoutMs);
+
+  return {
+    commit(participant: string, commitment: Uint8Array | string): void {
+      const state = stateOf(participant);
+      if (phase !== 'commit') {
+        throw new CommitRevealError(`commitment received in the ${phase} phase`, participant);
+      }
+      if (state.commitment !== undefined) {
+        throw new CommitRevealError('already committed', participant);
+      }
+
+      const bytes = toBytes(commitment, 'commitment');
+      if (bytes.length !== COMMITMENT_BYTES) {
+        throw new RangeError(`commitment must be ${COMMITMENT_BYTES} bytes, got ${bytes.length}`);
+      }
+      state.commitment = bytes;
+
+      if (committed().length === participants.length) {
+        endCommitPhase();
+      }
+    },
+
+    reveal(participant: string, contribution: Uint8Array | string): void {
+      const state = stateOf(participant);
+      if (phase !== 'reveal') {
+        throw new CommitRevealError(`reveal received in the ${phase} phase`, participant);
+      }
+      if (state.commitment === undefined) {
+        throw new CommitRevealError('revealed without committing', participant);
+      }
+      if (state.contribution !== undefined) {
+        throw new CommitRevealError('already revealed', participant);
+      }
+
+      const bytes = toBytes(contribution, 'contribution');
+      if (bytes.length < MIN_CONTRIBUTION_BYTES || !equalBytes(sha256(bytes), state.commitment)) {
+        throw new CommitRevealError('contribution does not match the commitment', participant);
+      }
+      state.contribution = bytes;
+
+      if (revealed().length === committed().length) {
+        endRevealPhase();
+      }
+    },
+
+    getPhase: () => phase,
+
+    result: () => resultPromise,
+  };
+}
+
+/**
+ * Checks a commit-reveal transcript and recomputes its seed.
+ *
+ * Needs nothing but the transcript: every revealed contribution must hash
+ * to its commitment, statuses must agree with the fields present, the
+ * entries must satisfy the recorded policy (no withheld entries unless
+ * allowed, at least `minParticipants` revealed), and the seed must be
+ * `mixEntropy()` over the revealed contributions in entry order.
+ *
+ * The recorded policy comes from the publisher. Pass `expectedPolicy` (the
+ * options the participants agreed on) to reject a transcript whose policy
+ * was loosened after the fact.
+ *
+ * Example:
+ * → const seed = await verifyCommitRevealTranscript(JSON.parse(published), { minParticipants: 3 })
+ * → await debugFlipCoin({ seed })   // the flip everyone agreed on
+ *
+ * @param transcript A transcript from `CommitRevealSession.result()`
+ * @param expectedPolicy Policy fields the transcript must record exactly
+ * @returns The verified seed
+ * @throws CommitRevealError if any check fails
+ */
+export async function verifyCommitRevealTranscript(
+  transcript: CommitRevealTranscript,
+  expectedPolicy: Partial<CommitRevealPolicy> = {}
+): Promise<Uint8Array> {
+  const { mixer, policy, entries, seed } = transcript;
+
+  try {
+    getMixer(mixer);
+  } catch (error) {
+    throw new CommitRevealError(`unknown mixer "${String(mixer)}"`, undefined, { cause: error });
+  }
+  if (!Array.isArray(entries) || entries.length === 0) {
+    throw new CommitRevealError('transcript has no entries');
+  }
+  if (
+    typeof policy !== 'object' || policy === null ||
+    !Number.isInteger(policy.minParticipants) || policy.minParticipants < 1 ||
+    typeof policy.allowWithheld !== 'boolean'
+  ) {
+    throw new CommitRevealError('transcript has no valid policy');
+  }
+  for (const field of ['minParticipants', 'allowWithheld'] as const) {
+    if (expectedPolicy[field] !== undefined && expectedPolicy[field] !== policy[field]) {
+      throw new CommitRevealError(
+        `policy ${field} is ${String(policy[field])}, expected ${String(expectedPolicy[field])}`
+      );
+    }
+  }
+
+  const names = new Set<string>();
+  const contributions: Uint8Array[] = [];
+
+  for (const entry of entries) {
+    const { participant, status } = entry;
+    if (typeof participant !== 'string' || participant.length === 0 || names.has(participant)) {
+      throw new CommitRevealError(`invalid or duplicate participant name "${String(participant)}"`);
+    }
+    names.add(participant);
+
+    if (!STATUSES.includes(status)) {
+      throw new CommitRevealError(`unknown status "${String(status)}"`, participant);
+    }
+    if ((entry.commitment === undefined) !== (status === 'absent')) {
+      throw new CommitRevealError(`a ${status} entry ${status === 'absent' ? 'has' : 'lacks'} a commitment`, participant);
+    }
+    if ((entry.contribution === undefined) !== (status !== 'revealed')) {
+      throw new CommitRevealError(`a ${status} entry ${status === 'revealed' ? 'lacks' : 'has'} a contribution`, participant);
+    }
+    if (status === 'withheld' && !policy.allowWithheld) {
+      throw new CommitRevealError('withheld a reveal, which the policy does not allow', participant);
+    }
+    if (status !== 'revealed') {
+      continue;
+    }
+
+    const commitment = parseHex(entry.commitment!, 'commitment', participant);
+    const contribution = parseHex(entry.contribution!, 'contribution', participant);
+    if (contribution.length < MIN_CONTRIBUTION_BYTES || !equalBytes(sha256(contribution), commitment)) {
+      throw new CommitRevealError('contribution does not match the commitment', participant);
+    }
+    contributions.push(contribution);
+  }
+
+  if (contributions.length < policy.minParticipants) {
+    throw new CommitRevealError(
+      `only ${contributions.length} of ${policy.minParticipants} required participants revealed`
+    );
+  }
+
+  const expected = await mixEntropy(contributions, mixer);
+  if (!equalBytes(parseHex(seed, 'seed'), expected)) {
+    throw new CommitRevealError('seed does not match the revealed contributions');
+  }
+  return expected;
+}
+
+/**
+ * Accepts raw bytes or hex, copying so later changes by the caller don't
+ * reach the session.
+ *
+ * @throws RangeError if a string is not hex
+ */
+function toBytes(value: Uint8Array | string, field: string): Uint8Array {
+  if (typeof value !== 'string') {
+    return value.slice();
+  }
+  if (!isHex(value)) {
+    throw new RangeError(`${field} must be a hex string`);
+  }
+  return hexToBytes(value);
+}
+
+/**
+ * Decodes a transcript field, blaming the participant it belongs to.
+ */
+function parseHex(value: unknown, field: string, participant?: string): Uint8Array {
+  if (!isHex(value)) {
+    throw new CommitRevealError(`${field} is not a hex string`, participant);
+  }
+  return hexToBytes(value);
+}
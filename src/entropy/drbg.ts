@@ -0,0 +1,192 @@
+/**
+ * HMAC-DRBG (NIST SP 800-90A, 10.1.2) with HMAC-SHA-256.
+ *
+ * ## Why?
+ *
+ * A flip needs an unknown number of random values: a few Gaussians for the
+ * launch, more if the toss profile grows. Reading them straight out of a
+ * fixed 64-byte buffer means something has to happen when the bytes run
+ * out, and falling back to `Math.random()` both weakens the output and
+ * breaks replay of seeded flips.
+ *
+ * A DRBG turns one well-seeded buffer into an unlimited deterministic
+ * stream: same seed, same stream, on every platform.
+ *
+ * ## The Algorithm
+ *
+ * State is a key K and a value V (32 bytes each):
+ *
+ * → Instantiate: K = 0x00..., V = 0x01..., Update(entropy || nonce || personalization)
+ * → Update(data): K = HMAC(K, V || 0x00 || data), V = HMAC(K, V)
+ *                 and, if data is non-empty, again with 0x01
+ * → Generate:     V = HMAC(K, V) per 32-byte block, then Update(additional input)
+ * → Reseed:       Update(entropy || additional input), reseed counter = 1
+ *
+ * The Update after every Generate gives backtracking resistance: the state
+ * after a request cannot be used to recompute what it returned.
+ *
+ * ## Reseed Counter
+ *
+ * Every generate request increments the reseed counter. Past the reseed
+ * interval (default 2^48, the SP 800-90A maximum), generate throws until
+ * `reseed()` is called.
+ *
+ * ## Zeroization
+ *
+ * Every K and V is wiped as soon as it is replaced, and so is every
+ * buffer holding seed material. Disposing of the instance
+ * (`drbg[DISPOSE]()`) wipes the current state too: SP 800-90A's
+ * Uninstantiate.
+ */
+
+import { hmacSha256, SHA256_LENGTH } from './hashes';
+import type { HmacDrbg, HmacDrbgOptions } from './types';
+import { DrbgReseedRequiredError, InsufficientEntropyBufferError } from './errors';
+import { zeroize, DISPOSE } from './zeroize';
+
+/**
+ * Security strength of HMAC-DRBG with SHA-256 in bytes (256 bits).
+ * Instantiation needs at least this much entropy input.
+ */
+const MIN_ENTROPY_BYTES = 32;
+
+/**
+ * SP 800-90A, Table 2: at most 2^19 bits per request.
+ */
+const MAX_REQUEST_BYTES = (1 << 19) / 8;
+
+/**
+ * SP 800-90A, Table 2: at most 2^48 requests between reseeds.
+ */
+const MAX_RESEED_INTERVAL = 2 ** 48;
+
+/**
+ * Creates an HMAC-DRBG instantiated from the given entropy.
+ *
+ * Example:
+ * → const drbg = createHmacDrbg(entropyResult.bytes)
+ * → drbg.generate(64)   // same bytes for the same entropy, every time
+ *
+ * @param entropy Entropy input, at least 32 bytes (pool or fromSeed output)
+ * @param options Nonce, personalization and reseed interval
+ * @returns A new HmacDrbg
+ * @throws InsufficientEntropyBufferError if entropy is shorter than 32 bytes
+ * @throws RangeError if reseedInterval is not an integer in 1..2^48
+ */
+export function createHmacDrbg(entropy: Uint8Array, options: HmacDrbgOptions = {}): HmacDrbg {
+  const {
+    nonce = new Uint8Array(0),
+    personalization = new Uint8Array(0),
+    reseedInterval = MAX_RESEED_INTERVAL,
+  } = options;
+
+  if (!Number.isInteger(reseedInterval) || reseedInterval < 1 || reseedInterval > MAX_RESEED_INTERVAL) {
+    throw new RangeError(`reseedInterval must be an integer between 1 and 2^48, got ${reseedInterval}`);
+  }
+  requireEntropy(entropy);
+
+  let key: Uint8Array = new Uint8Array(SHA256_LENGTH);
+  let value: Uint8Array = new Uint8Array(SHA256_LENGTH).fill(0x01);
+  let reseedCounter = 1;
+  let generateCount = 0;
+
+  /**
+   * HMAC_DRBG_Update (SP 800-90A, 10.1.2.2).
+   */
+  const update = (providedData: Uint8Array): void => {
+    for (const separator of [0x00, 0x01]) {
+      if (separator === 0x01 && providedData.length === 0) {
+        return;
+      }
+      const input = concat(value, [separator], providedData);
+      const nextKey = hmacSha256(key, input);
+      zeroize(input, key);
+      key = nextKey;
+
+      const nextValue = hmacSha256(key, value);
+      zeroize(value);
+      value = nextValue;
+    }
+  };
+
+  const personalizationBytes = typeof personalization === 'string'
+    ? new TextEncoder().encode(personalization)
+    : personalization;
+  const seedMaterial = concat(entropy, nonce, personalizationBytes);
+  update(seedMaterial);
+  zeroize(seedMaterial);
+
+  return {
+    generate(outputBytes: number, additionalInput: Uint8Array = new Uint8Array(0)): Uint8Array {
+      if (!Number.isInteger(outputBytes) || outputBytes < 1 || outputBytes > MAX_REQUEST_BYTES) {
+        throw new RangeError(`outputBytes must be an integer between 1 and ${MAX_REQUEST_BYTES}, got ${outputBytes}`);
+      }
+      if (reseedCounter > reseedInterval) {
+        throw new DrbgReseedRequiredError(reseedInterval);
+      }
+
+      if (additionalInput.length > 0) {
+        update(additionalInput);
+      }
+
+      const output = new Uint8Array(Math.ceil(outputBytes / SHA256_LENGTH) * SHA256_LENGTH);
+      for (let offset = 0; offset < outputBytes; offset += SHA256_LENGTH) {
+        const nextValue = hmacSha256(key, value);
+        zeroize(value);
+        value = nextValue;
+        output.set(value, offset);
+      }
+
+      update(additionalInput);
+      reseedCounter++;
+      generateCount++;
+
+      const result = output.slice(0, outputBytes);
+      zeroize(output);
+      return result;
+    },
+
+    reseed(freshEntropy: Uint8Array, additionalInput: Uint8Array = new Uint8Array(0)): void {
+      requireEntropy(freshEntropy);
+      const seedMaterial = concat(freshEntropy, additionalInput);
+      update(seedMaterial);
+      zeroize(seedMaterial);
+      reseedCounter = 1;
+    },
+
+    getReseedCounter(): number {
+      return reseedCounter;
+    },
+
+    getGenerateCount(): number {
+      return generateCount;
+    },
+
+    [DISPOSE](): void {
+      zeroize(key, value);
+      reseedCounter = Infinity;
+    },
+  };
+}
+
+/**
+ * Rejects entropy input below the security strength.
+ */
+function requireEntropy(entropy: Uint8Array): void {
+  if (entropy.length < MIN_ENTROPY_BYTES) {
+    throw new InsufficientEntropyBufferError(MIN_ENTROPY_BYTES, entropy.length);
+  }
+}
+
+/**
+ * Concatenates byte arrays (and literal byte lists).
+ */
+function concat(...parts: (Uint8Array | number[])[]): Uint8Array {
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+}
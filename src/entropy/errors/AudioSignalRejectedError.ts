@@ -0,0 +1,18 @@
+import { BaseError, type BaseErrorOptions } from '../../common/errors';
+
+/**
+ * Thrown when audio input is unusable as a noise source.
+ *
+ * Example causes:
+ * - Silent input (muted microphone, digital silence in a WAV file)
+ * - Clipped input (samples pinned at full scale have constant LSBs)
+ * - Malformed or unsupported WAV data
+ */
+export class AudioSignalRejectedError extends BaseError {
+  constructor(reason: string, options?: BaseErrorOptions) {
+    super(`Audio input rejected: ${reason}`, {
+      ...options,
+      context: { ...options?.context, reason },
+    });
+  }
+}
@@ -0,0 +1,25 @@
+import { BaseError, type BaseErrorOptions } from '../../common/errors';
+
+/**
+ * Thrown when a beacon round fails verification against the configured
+ * public key.
+ *
+ * Unlike EntropySourceResponseError, the round was well-formed: it just
+ * wasn't produced by the beacon we trust, or doesn't belong to its chain.
+ *
+ * Example causes:
+ * - The signature doesn't verify against the public key
+ * - `randomness` is not SHA-256 of `signature`
+ * - `previous_signature` doesn't match the previous round's signature
+ */
+export class BeaconVerificationError extends BaseError {
+  public readonly round: number;
+
+  constructor(round: number, reason: string, options?: BaseErrorOptions) {
+    super(`Beacon round ${round} failed verification: ${reason}`, {
+      ...options,
+      context: { ...options?.context, round, reason },
+    });
+    this.round = round;
+  }
+}
@@ -0,0 +1,29 @@
+import { BaseError, type BaseErrorOptions } from '../../common/errors';
+
+/**
+ * Thrown when a commit-reveal session rejects a message or fails, and when
+ * a transcript doesn't verify.
+ *
+ * `participant` names who is at fault, if anyone in particular is.
+ *
+ * Example causes:
+ * - A reveal doesn't match the participant's commitment
+ * - Too few participants committed or revealed before the timeout
+ * - A transcript's seed differs from the recomputed one
+ */
+export class CommitRevealError extends BaseError {
+  public readonly participant: string | undefined;
+
+  constructor(reason: string, participant?: string, options?: BaseErrorOptions) {
+    super(
+      participant === undefined
+        ? `Commit-reveal failed: ${reason}`
+        : `Commit-reveal failed for "${participant}": ${reason}`,
+      {
+        ...options,
+        context: { ...options?.context, reason, participant },
+      }
+    );
+    this.participant = participant;
+  }
+}
@@ -0,0 +1,19 @@
+import { BaseError, type BaseErrorOptions } from '../../common/errors';
+
+/**
+ * Thrown when an HMAC-DRBG is asked to generate after its reseed interval
+ * is used up (SP 800-90A, 9.3.1: "reseed required").
+ *
+ * Call `reseed()` with fresh entropy to continue.
+ */
+export class DrbgReseedRequiredError extends BaseError {
+  public readonly reseedInterval: number;
+
+  constructor(reseedInterval: number, options?: BaseErrorOptions) {
+    super(`HMAC-DRBG reseed required after ${reseedInterval} generate requests`, {
+      ...options,
+      context: { ...options?.context, reseedInterval },
+    });
+    this.reseedInterval = reseedInterval;
+  }
+}
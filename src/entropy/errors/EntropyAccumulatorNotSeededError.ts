@@ -0,0 +1,14 @@
+import { BaseError, type BaseErrorOptions } from '../../common/errors';
+
+/**
+ * Thrown when output is requested from an entropy accumulator whose
+ * generator has not been seeded yet.
+ *
+ * The first reseed happens once pool 0 holds enough estimated entropy,
+ * which takes a few background sweeps after `start()`.
+ */
+export class EntropyAccumulatorNotSeededError extends BaseError {
+  constructor(options?: BaseErrorOptions) {
+    super('Entropy accumulator has not been seeded yet', options);
+  }
+}
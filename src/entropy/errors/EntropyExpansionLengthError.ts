@@ -0,0 +1,22 @@
+import { BaseError, type BaseErrorOptions } from '../../common/errors';
+
+/**
+ * Thrown when an HKDF expansion is asked for more output than it can give.
+ *
+ * HKDF-Expand has a one-byte block counter, so a single expansion is
+ * limited to 255 blocks: 8160 bytes with SHA-256, 16320 with SHA-512.
+ * Asking for more used to silently repeat blocks; now it is an error.
+ */
+export class EntropyExpansionLengthError extends BaseError {
+  public readonly requested: number;
+  public readonly maxLength: number;
+
+  constructor(requested: number, maxLength: number, options?: BaseErrorOptions) {
+    super(`Cannot expand entropy to ${requested} bytes: must be an integer between 0 and ${maxLength}`, {
+      ...options,
+      context: { ...options?.context, requested, maxLength },
+    });
+    this.requested = requested;
+    this.maxLength = maxLength;
+  }
+}
@@ -0,0 +1,17 @@
+import { BaseError, type BaseErrorOptions } from '../../common/errors';
+
+/**
+ * Thrown when a named entropy level cannot be registered.
+ *
+ * Example causes:
+ * - A level with the same name is already registered
+ * - The name is empty, a preset, or the reserved name 'custom'
+ */
+export class EntropyLevelRegistrationError extends BaseError {
+  constructor(level: string, reason: string, options?: BaseErrorOptions) {
+    super(`Cannot register entropy level "${level}": ${reason}`, {
+      ...options,
+      context: { ...options?.context, level, reason },
+    });
+  }
+}
@@ -0,0 +1,33 @@
+import { BaseError, type BaseErrorOptions } from '../../common/errors';
+import type { HealthTestName } from '../types/HealthTestName';
+
+/**
+ * Reported when an entropy source fails a continuous health test.
+ *
+ * Unlike most errors, this one is not thrown: the pool marks the source
+ * unhealthy, drops its output, and lists the error in
+ * `EntropyStats.healthErrors` (and `FlipResult.stats.healthErrors`) so
+ * callers can see which source broke.
+ *
+ * Example: a timing source on a coarse clock returning all-zero bytes
+ * → repetition-count test, 6 identical bytes at an assessed 4 bits/byte
+ */
+export class EntropySourceHealthError extends BaseError {
+  public readonly source: string;
+  public readonly test: HealthTestName;
+
+  constructor(
+    source: string,
+    test: HealthTestName,
+    observed: number,
+    cutoff: number,
+    options?: BaseErrorOptions
+  ) {
+    super(`Entropy source "${source}" failed the ${test} health test (${observed} >= cutoff ${cutoff})`, {
+      ...options,
+      context: { ...options?.context, source, test, observed, cutoff },
+    });
+    this.source = source;
+    this.test = test;
+  }
+}
@@ -0,0 +1,17 @@
+import { BaseError, type BaseErrorOptions } from '../../common/errors';
+
+/**
+ * Thrown when an entropy source cannot be added to the source registry.
+ *
+ * Example causes:
+ * - A source with the same name is already registered
+ * - The source has an empty name
+ */
+export class EntropySourceRegistrationError extends BaseError {
+  constructor(source: string, reason: string, options?: BaseErrorOptions) {
+    super(`Cannot register entropy source "${source}": ${reason}`, {
+      ...options,
+      context: { ...options?.context, source, reason },
+    });
+  }
+}
@@ -0,0 +1,18 @@
+import { BaseError, type BaseErrorOptions } from '../../common/errors';
+
+/**
+ * Thrown when an entropy source answers, but with something we cannot use.
+ *
+ * Example causes:
+ * - Quantum API returned a non-2xx status
+ * - Response body does not match the expected JSON format
+ * - Response contains values outside the byte range
+ */
+export class EntropySourceResponseError extends BaseError {
+  constructor(source: string, reason: string, options?: BaseErrorOptions) {
+    super(`Entropy source "${source}" returned an invalid response: ${reason}`, {
+      ...options,
+      context: { ...options?.context, source, reason },
+    });
+  }
+}
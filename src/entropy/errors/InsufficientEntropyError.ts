@@ -0,0 +1,32 @@
+import { BaseError, type BaseErrorOptions } from '../../common/errors';
+
+/**
+ * Thrown in strict mode when collection ends without reaching the level's
+ * targetBits.
+ *
+ * Without `strict`, the same shortfall is not an error: the result is
+ * returned with `stats.degraded = true` instead.
+ *
+ * Example: paranoid level (512 bits) with only the timing source available
+ * → 5000ms budget spent, 380 bits credited → InsufficientEntropyError
+ */
+export class InsufficientEntropyError extends BaseError {
+  public readonly collectedBits: number;
+  public readonly targetBits: number;
+  public readonly sourcesTried: string[];
+
+  constructor(
+    collectedBits: number,
+    targetBits: number,
+    sourcesTried: string[],
+    options?: BaseErrorOptions
+  ) {
+    super(`Insufficient entropy: collected ${collectedBits} of ${targetBits} target bits`, {
+      ...options,
+      context: { ...options?.context, collectedBits, targetBits, sourcesTried },
+    });
+    this.collectedBits = collectedBits;
+    this.targetBits = targetBits;
+    this.sourcesTried = sourcesTried;
+  }
+}
@@ -0,0 +1,17 @@
+import { BaseError, type BaseErrorOptions } from '../../common/errors';
+
+/**
+ * Thrown when an entropy level can't be resolved to a usable config.
+ *
+ * Example causes:
+ * - The name is neither a preset nor a registered level
+ * - A custom config has maxTimeMs < minTimeMs, or a non-positive targetBits
+ */
+export class InvalidEntropyLevelError extends BaseError {
+  constructor(level: string, reason: string, options?: BaseErrorOptions) {
+    super(`Invalid entropy level "${level}": ${reason}`, {
+      ...options,
+      context: { ...options?.context, level, reason },
+    });
+  }
+}
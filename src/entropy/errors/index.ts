@@ -2,3 +2,15 @@ export { EntropySourceUnavailableError } from './EntropySourceUnavailableError';
 export { EntropyCollectionTimeoutError } from './EntropyCollectionTimeoutError';
 export { EntropyCollectionFailedError } from './EntropyCollectionFailedError';
 export { InsufficientEntropyBufferError } from './InsufficientEntropyBufferError';
+export { EntropySourceResponseError } from './EntropySourceResponseError';
+export { AudioSignalRejectedError } from './AudioSignalRejectedError';
+export { EntropySourceRegistrationError } from './EntropySourceRegistrationError';
+export { EntropyAccumulatorNotSeededError } from './EntropyAccumulatorNotSeededError';
+export { EntropySourceHealthError } from './EntropySourceHealthError';
+export { InsufficientEntropyError } from './InsufficientEntropyError';
+export { EntropyExpansionLengthError } from './EntropyExpansionLengthError';
+export { DrbgReseedRequiredError } from './DrbgReseedRequiredError';
+export { InvalidEntropyLevelError } from './InvalidEntropyLevelError';
+export { EntropyLevelRegistrationError } from './EntropyLevelRegistrationError';
+export { BeaconVerificationError } from './BeaconVerificationError';
+export { CommitRevealError } from './CommitRevealError';
@@ -0,0 +1,423 @@
+/**
+ * Min-entropy estimators from NIST SP 800-90B, section 6.3.
+ *
+ * ## Why?
+ *
+ * Every source reports an `estimatedBits` for its own output: the timing
+ * source claims one bit per sample, the crypto source eight bits per byte.
+ * Those are claims, not measurements. If `totalBits` simply adds them up,
+ * the level's `targetBits` is only as honest as the least honest source.
+ *
+ * The estimators here look at the raw output instead and ask: how
+ * predictable is it, really? The pool then credits each source with the
+ * smaller of its claim and the measured estimate.
+ *
+ * ## The Estimators
+ *
+ * All four run on the output unpacked into bits (the sources either emit
+ * one bit per sample, like timing and audio, or full-entropy bytes):
+ *
+ * | Estimator         | Detects                           | Min. sample |
+ * |-------------------|-----------------------------------|-------------|
+ * | Most Common Value | Bias (too many 0s or 1s)          | 2 bits      |
+ * | Collision         | Bias, via time to first repeat    | 6 bits      |
+ * | Markov            | Dependence on the previous bit    | 2 bits      |
+ * | Compression       | Long-range structure (Maurer)     | 6006 bits   |
+ *
+ * Each one is a lower-confidence-bound estimate (99%, z = 2.576): with few
+ * samples, even perfect output gets credited well below 1 bit per bit.
+ * For 128 bits of perfect output, MCV alone gives about 0.7 bits per bit.
+ * That is the point: small samples prove little.
+ *
+ * ## Credit
+ *
+ * ```
+ * credited = min(claimed, floor(bits × min(MCV, collision, Markov, compression)))
+ * ```
+ *
+ * The estimators cost O(n) each (compression about 100 passes), so they
+ * only ever see the last `MAX_ESTIMATION_BYTES` of a sample; the per-bit
+ * estimate from that window is applied to the whole sample.
+ */
+
+import type { MinEntropyEstimate } from './types';
+
+/**
+ * z-score for the 99% upper confidence bound used throughout SP 800-90B.
+ */
+const Z_99 = 2.576;
+
+/**
+ * Markov estimator sequence length (SP 800-90B, 6.3.3).
+ */
+const MARKOV_SEQUENCE_LENGTH = 128;
+
+/**
+ * Compression estimator parameters (SP 800-90B, 6.3.4):
+ * b = 6 bits per symbol, d = 1000 dictionary initialization symbols.
+ */
+const COMPRESSION_BLOCK_BITS = 6;
+const COMPRESSION_DICTIONARY_SIZE = 1000;
+
+/**
+ * Compression estimator correction factor for b = 6.
+ */
+const COMPRESSION_C = 0.5907;
+
+/**
+ * Most output the estimators look at at once: 32768 bits, well past the
+ * 6006 the compression estimator needs, and about 50ms of CPU.
+ */
+export const MAX_ESTIMATION_BYTES = 4096;
+
+/**
+ * Runs every estimator over a block of raw output.
+ *
+ * Example (16 random bytes):
+ * → estimateMinEntropy(crypto.getRandomValues(new Uint8Array(16)))
+ * → { sampleBits: 128, mostCommonValue: ~0.7, markov: ~0.8, ..., minEntropyPerBit: ~0.7 }
+ *
+ * @param bytes Raw source output
+ * @returns Estimates in bits of min-entropy per bit
+ */
+export function estimateMinEntropy(bytes: Uint8Array): MinEntropyEstimate {
+  return estimateBitMinEntropy(unpackBits(bytes));
+}
+
+/**
+ * Runs every estimator over output that is already one bit per sample,
+ * e.g. the bits an extractor produced before packing.
+ *
+ * @param bits Array of 0/1 values
+ * @returns Estimates in bits of min-entropy per bit
+ */
+export function estimateBitMinEntropy(bits: ArrayLike<number>): MinEntropyEstimate {
+  const mostCommonValue = mostCommonValueEstimate(bits);
+  const collision = collisionEstimate(bits);
+  const markov = markovEstimate(bits);
+  const compression = compressionEstimate(bits);
+
+  const available = [mostCommonValue, collision, markov, compression].filter(
+    (estimate): estimate is number => estimate !== undefined
+  );
+
+  return {
+    sampleBits: bits.length,
+    mostCommonValue,
+    collision,
+    markov,
+    compression,
+    minEntropyPerBit: Math.max(0, Math.min(...available)),
+  };
+}
+
+/**
+ * Credits a block of output with the conservative minimum of its claim
+ * and the measured estimate.
+ *
+ * Example: timing source, 64 bits claimed, estimate 0.45 bits per bit
+ * → min(64, floor(64 × 0.45)) = 28 bits
+ *
+ * Samples over MAX_ESTIMATION_BYTES are estimated on their last
+ * MAX_ESTIMATION_BYTES, and the rate is applied to all of them.
+ *
+ * @param bytes Raw source output
+ * @param claimedBits The source's own estimate
+ * @returns Bits of entropy to credit
+ */
+export function creditEntropy(bytes: Uint8Array, claimedBits: number): number {
+  if (bytes.length === 0 || claimedBits <= 0) {
+    return 0;
+  }
+
+  const window = bytes.subarray(Math.max(0, bytes.length - MAX_ESTIMATION_BYTES));
+  const { minEntropyPerBit } = estimateMinEntropy(window);
+  return Math.min(claimedBits, Math.floor(bytes.length * 8 * minEntropyPerBit));
+}
+
+/**
+ * Unpacks bytes into one bit per element, MSB first (the packing order
+ * used by the timing, input and audio sources).
+ *
+ * @param bytes Packed bits
+ * @returns Array of 0/1 values, 8 per byte
+ */
+export function unpackBits(bytes: Uint8Array): Uint8Array {
+  const bits = new Uint8Array(bytes.length * 8);
+  for (let i = 0; i < bits.length; i++) {
+    bits[i] = (bytes[i >> 3]! >> (7 - (i & 7))) & 1;
+  }
+  return bits;
+}
+
+/**
+ * Most Common Value estimate (SP 800-90B, 6.3.1).
+ *
+ * p̂ = frequency of the most common symbol
+ * p_u = min(1, p̂ + 2.576 × sqrt(p̂(1 − p̂) / (L − 1)))
+ * H = −log2(p_u)
+ *
+ * Example: 128 bits, 64 ones
+ * → p̂ = 0.5, p_u = 0.5 + 2.576 × 0.0445 ≈ 0.615
+ * → H ≈ 0.70 bits per bit
+ *
+ * @param samples Symbols (bits here, but any alphabet works)
+ * @returns Min-entropy per sample; 0 for fewer than 2 samples
+ */
+export function mostCommonValueEstimate(samples: ArrayLike<number>): number {
+  const length = samples.length;
+  if (length < 2) {
+    return 0;
+  }
+
+  const counts = new Map<number, number>();
+  let maxCount = 0;
+  for (let i = 0; i < length; i++) {
+    const count = (counts.get(samples[i]!) ?? 0) + 1;
+    counts.set(samples[i]!, count);
+    maxCount = Math.max(maxCount, count);
+  }
+
+  const pHat = maxCount / length;
+  const pUpper = Math.min(1, pHat + Z_99 * Math.sqrt((pHat * (1 - pHat)) / (length - 1)));
+  return minEntropyOf(pUpper);
+}
+
+/**
+ * Collision estimate for binary data (SP 800-90B, 6.3.2).
+ *
+ * Walks the bits and records how many it takes to see a repeat: 2 if the
+ * next bit equals the current one, otherwise 3 (among three bits, two must
+ * match). For a bit that is 1 with probability p:
+ *
+ * E[t] = 2 + 2p(1 − p)  →  p = 0.5 + sqrt(1.25 − 0.5 × X̄')
+ *
+ * where X̄' is the lower confidence bound of the mean of t.
+ *
+ * @param bits Array of 0/1 values
+ * @returns Min-entropy per bit, or undefined if fewer than 2 collisions fit
+ */
+export function collisionEstimate(bits: ArrayLike<number>): number | undefined {
+  const times: number[] = [];
+  let index = 0;
+
+  while (index + 1 < bits.length) {
+    if (bits[index] === bits[index + 1]) {
+      times.push(2);
+      index += 2;
+    } else if (index + 2 < bits.length) {
+      times.push(3);
+      index += 3;
+    } else {
+      break;
+    }
+  }
+
+  const v = times.length;
+  if (v < 2) {
+    return undefined;
+  }
+
+  const mean = times.reduce((sum, t) => sum + t, 0) / v;
+  const variance = times.reduce((sum, t) => sum + (t - mean) ** 2, 0) / (v - 1);
+  const meanLower = mean - (Z_99 * Math.sqrt(variance)) / Math.sqrt(v);
+
+  /**
+   * X̄' ≥ 2.5 is what an unbiased source produces (or better): full entropy.
+   * X̄' ≤ 2 means every step was a collision: no entropy.
+   */
+  const discriminant = 1.25 - 0.5 * meanLower;
+  const p = discriminant <= 0 ? 0.5 : Math.min(1, 0.5 + Math.sqrt(discriminant));
+  return minEntropyOf(p);
+}
+
+/**
+ * Markov estimate for binary data (SP 800-90B, 6.3.3).
+ *
+ * Fits a first-order Markov model (initial probabilities P0, P1 and
+ * transition probabilities P00, P01, P10, P11), then finds the most likely
+ * 128-bit sequence. Its probability bounds how well an attacker who knows
+ * the model can guess the output.
+ *
+ * Example: a source that alternates 0101... perfectly
+ * → P01 = P10 = 1, sequence 0101... has probability 0.5
+ * → H = −log2(0.5) / 128 ≈ 0.008 bits per bit
+ *
+ * @param bits Array of 0/1 values
+ * @returns Min-entropy per bit (at most 1), or undefined for fewer than 2 bits
+ */
+export function markovEstimate(bits: ArrayLike<number>): number | undefined {
+  const length = bits.length;
+  if (length < 2) {
+    return undefined;
+  }
+
+  let ones = 0;
+  const transitions = [
+    [0, 0],
+    [0, 0],
+  ];
+  for (let i = 0; i < length; i++) {
+    ones += bits[i]!;
+    if (i + 1 < length) {
+      transitions[bits[i]!]![bits[i + 1]!]!++;
+    }
+  }
+
+  /**
+   * Work in log space: 0.5^127 is fine, but a strongly biased source
+   * easily takes these products below the smallest double.
+   */
+  const logP1 = Math.log2(ones / length);
+  const logP0 = Math.log2((length - ones) / length);
+  const logTransition = (from: number, to: number): number => {
+    const row = transitions[from]!;
+    const total = row[0]! + row[1]!;
+    return total === 0 ? -Infinity : Math.log2(row[to]! / total);
+  };
+  const l00 = logTransition(0, 0);
+  const l01 = logTransition(0, 1);
+  const l10 = logTransition(1, 0);
+  const l11 = logTransition(1, 1);
+
+  const n = MARKOV_SEQUENCE_LENGTH;
+  const candidates = [
+    logP0 + (n - 1) * l00,                          // 000...0
+    logP0 + (n / 2) * l01 + (n / 2 - 1) * l10,      // 0101...01
+    logP0 + l01 + (n - 2) * l11,                    // 011...1
+    logP1 + l10 + (n - 2) * l00,                    // 100...0
+    logP1 + (n / 2) * l10 + (n / 2 - 1) * l01,      // 1010...10
+    logP1 + (n - 1) * l11,                          // 111...1
+  ];
+
+  /**
+   * Transitions that never occurred have log-probability −∞, which rules
+   * out every candidate using them. If all are ruled out (only possible
+   * for a handful of bits), -logMax is +∞ and we report the 1-bit cap.
+   */
+  const logMax = Math.max(...candidates);
+  return Math.min(1, -logMax / n);
+}
+
+/**
+ * Compression estimate for binary data (SP 800-90B, 6.3.4), based on
+ * Maurer's universal statistical test.
+ *
+ * The bits are grouped into 6-bit symbols. The first 1000 symbols fill a
+ * dictionary of "last seen" positions; for every later symbol we record
+ * log2 of the distance since it was last seen. Predictable data repeats
+ * symbols sooner, giving a smaller mean distance.
+ *
+ * The estimate is the p for which a source with most-likely symbol
+ * probability p (and the rest uniform) would produce that mean distance.
+ *
+ * @param bits Array of 0/1 values
+ * @returns Min-entropy per bit, or undefined for 6006 bits or fewer
+ */
+export function compressionEstimate(bits: ArrayLike<number>): number | undefined {
+  const b = COMPRESSION_BLOCK_BITS;
+  const d = COMPRESSION_DICTIONARY_SIZE;
+  const symbolCount = Math.floor(bits.length / b);
+  const v = symbolCount - d;
+
+  if (v < 2) {
+    return undefined;
+  }
+
+  const symbols = new Uint8Array(symbolCount);
+  for (let i = 0; i < symbolCount; i++) {
+    let symbol = 0;
+    for (let j = 0; j < b; j++) {
+      symbol = (symbol << 1) | bits[i * b + j]!;
+    }
+    symbols[i] = symbol;
+  }
+
+  /**
+   * Positions are 1-based as in the spec; 0 means "not seen yet".
+   */
+  const lastSeen = new Float64Array(2 ** b);
+  for (let i = 1; i <= d; i++) {
+    lastSeen[symbols[i - 1]!] = i;
+  }
+
+  let sum = 0;
+  let sumSquares = 0;
+  for (let i = d + 1; i <= symbolCount; i++) {
+    const symbol = symbols[i - 1]!;
+    const distance = lastSeen[symbol] === 0 ? i : i - lastSeen[symbol]!;
+    const logDistance = Math.log2(distance);
+    sum += logDistance;
+    sumSquares += logDistance ** 2;
+    lastSeen[symbol] = i;
+  }
+
+  const mean = sum / v;
+  const sigma = COMPRESSION_C * Math.sqrt(Math.max(0, sumSquares / (v - 1) - mean ** 2));
+  const meanLower = mean - (Z_99 * sigma) / Math.sqrt(v);
+
+  /**
+   * Expected mean log-distance for a source whose likeliest symbol has
+   * probability p and whose other 2^b − 1 symbols share the rest evenly.
+   * Decreasing in p, so we can bisect.
+   */
+  const alphabet = 2 ** b;
+  const expected = (p: number): number => {
+    const q = (1 - p) / (alphabet - 1);
+    return compressionG(p, d, symbolCount) + (alphabet - 1) * compressionG(q, d, symbolCount);
+  };
+
+  let low = 1 / alphabet;
+  let high = 1;
+  if (meanLower >= expected(low)) {
+    return 1;
+  }
+
+  for (let iteration = 0; iteration < 50; iteration++) {
+    const mid = (low + high) / 2;
+    if (expected(mid) > meanLower) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+
+  return -Math.log2((low + high) / 2) / b;
+}
+
+/**
+ * Min-entropy of an outcome with probability p: −log2(p).
+ * Returns +0 rather than −0 for p = 1, so stats print cleanly.
+ */
+function minEntropyOf(p: number): number {
+  return p >= 1 ? 0 : -Math.log2(p);
+}
+
+/**
+ * G(z) from SP 800-90B 6.3.4:
+ *
+ * G(z) = 1/v × Σ_{t=d+1..L} Σ_{u=1..t} log2(u) × F(z, t, u)
+ * F(z, t, u) = z²(1 − z)^(u−1) for u < t, z(1 − z)^(t−1) for u = t
+ *
+ * The inner sum over u < t grows by one term per t, so we keep it as a
+ * running total instead of recomputing it (O(L) instead of O(L²)).
+ */
+function compressionG(z: number, d: number, symbolCount: number): number {
+  const v = symbolCount - d;
+  let total = 0;
+  let innerSum = 0;
+  let power = 1;
+
+  for (let t = 1; t <= symbolCount; t++) {
+    /**
+     * power = (1 − z)^(t−1); innerSum covers u = 1..t−1.
+     */
+    if (t > d) {
+      total += innerSum + Math.log2(t) * z * power;
+    }
+    innerSum += Math.log2(t) * z * z * power;
+    power *= 1 - z;
+  }
+
+  return total / v;
+}
@@ -0,0 +1,197 @@
+/**
+ * Synchronous BLAKE2b (RFC 7693).
+ *
+ * ## Why?
+ *
+ * BLAKE2b is built on the ChaCha quarter round rather than on SHA-2 or
+ * Keccak, is fast in software and has no Web Crypto binding. Offering it
+ * next to SHA-256 and SHA3-256 gives the mixer three unrelated designs.
+ *
+ * ## Words
+ *
+ * BLAKE2b works on 64-bit words. As in `sha3.ts`, each word is a pair of
+ * 32-bit halves: index 2i holds the low half of word i, 2i + 1 the high
+ * half. Additions carry from the low into the high half by hand.
+ *
+ * Unkeyed only; one call hashes one complete message.
+ */
+
+/**
+ * Block size in bytes.
+ */
+const BLOCK_SIZE = 128;
+
+/**
+ * Default (and maximum) digest size in bytes.
+ */
+export const BLAKE2B_LENGTH = 64;
+
+/**
+ * Initialization vector: the SHA-512 IV, as [low, high] word pairs.
+ */
+const IV = new Uint32Array([
+  0xf3bcc908, 0x6a09e667, 0x84caa73b, 0xbb67ae85, 0xfe94f82b, 0x3c6ef372, 0x5f1d36f1, 0xa54ff53a,
+  0xade682d1, 0x510e527f, 0x2b3e6c1f, 0x9b05688c, 0xfb41bd6b, 0x1f83d9ab, 0x137e2179, 0x5be0cd19,
+]);
+
+/**
+ * Message word permutations, one row per round (rounds 10 and 11 reuse
+ * rows 0 and 1).
+ */
+const SIGMA = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15],
+  [14, 10, 4, 8, 9, 15, 13, 6, 1, 12, 0, 2, 11, 7, 5, 3],
+  [11, 8, 12, 0, 5, 2, 15, 13, 10, 14, 3, 6, 7, 1, 9, 4],
+  [7, 9, 3, 1, 13, 12, 11, 14, 2, 6, 5, 10, 4, 0, 15, 8],
+  [9, 0, 5, 7, 2, 4, 10, 15, 14, 1, 11, 12, 6, 8, 3, 13],
+  [2, 12, 6, 10, 0, 11, 8, 3, 4, 13, 7, 5, 15, 14, 1, 9],
+  [12, 5, 1, 15, 14, 13, 4, 10, 0, 7, 6, 3, 9, 2, 8, 11],
+  [13, 11, 7, 14, 12, 1, 3, 9, 5, 0, 15, 4, 8, 6, 2, 10],
+  [6, 15, 14, 9, 11, 3, 0, 8, 12, 2, 13, 7, 1, 4, 10, 5],
+  [10, 2, 8, 4, 7, 6, 1, 5, 15, 11, 9, 14, 3, 12, 13, 0],
+];
+
+/**
+ * Compression rounds.
+ */
+const ROUNDS = 12;
+
+/**
+ * Hashes a complete message with BLAKE2b.
+ *
+ * Example:
+ * → blake2b(new TextEncoder().encode('abc'))
+ * → ba80a53f 981c4d0d 6a2797b6 9f12f6e9 ... d4009923 (64 bytes)
+ *
+ * @param data The message
+ * @param outputLength Digest size in bytes, 1-64. Default: 64 (BLAKE2b-512)
+ * @returns The digest
+ * @throws RangeError if outputLength is out of range
+ */
+export function blake2b(data: Uint8Array, outputLength: number = BLAKE2B_LENGTH): Uint8Array {
+  if (!Number.isInteger(outputLength) || outputLength < 1 || outputLength > BLAKE2B_LENGTH) {
+    throw new RangeError(`outputLength must be an integer between 1 and ${BLAKE2B_LENGTH}, got ${outputLength}`);
+  }
+
+  /**
+   * Parameter block folded into h[0]: depth 1, fanout 1, no key, digest length.
+   */
+  const h = new Uint32Array(IV);
+  h[0]! ^= 0x01010000 ^ outputLength;
+
+  const v = new Uint32Array(32);
+  const m = new Uint32Array(32);
+  const block = new Uint8Array(BLOCK_SIZE);
+
+  /**
+   * Every block but the last is compressed as it comes. The last one
+   * (possibly partial, or empty for an empty message) is zero-padded and
+   * flagged as final; the counter always holds the bytes hashed so far.
+   */
+  const blockCount = Math.max(1, Math.ceil(data.length / BLOCK_SIZE));
+  for (let index = 0; index < blockCount; index++) {
+    const offset = index * BLOCK_SIZE;
+    const end = Math.min(offset + BLOCK_SIZE, data.length);
+    block.fill(0);
+    block.set(data.subarray(offset, end));
+
+    const isLast = index === blockCount - 1;
+    compress(h, v, m, block, end, isLast);
+  }
+
+  const digest = new Uint8Array(outputLength);
+  for (let i = 0; i < outputLength; i++) {
+    digest[i] = (h[i >> 2]! >>> (8 * (i & 3))) & 0xff;
+  }
+  return digest;
+}
+
+/**
+ * The compression function F: folds one block into h.
+ *
+ * @param counter Total bytes hashed including this block
+ * @param isLast Whether this is the final block
+ */
+function compress(
+  h: Uint32Array,
+  v: Uint32Array,
+  m: Uint32Array,
+  block: Uint8Array,
+  counter: number,
+  isLast: boolean
+): void {
+  for (let i = 0; i < 32; i++) {
+    m[i] = block[4 * i]! | (block[4 * i + 1]! << 8) | (block[4 * i + 2]! << 16) | (block[4 * i + 3]! << 24);
+  }
+
+  v.set(h, 0);
+  v.set(IV, 16);
+
+  /**
+   * v[12] ^= t (the low 64 bits of the 128-bit counter is plenty),
+   * v[14] inverted on the last block.
+   */
+  v[24]! ^= counter >>> 0;
+  v[25]! ^= Math.floor(counter / 2 ** 32);
+  if (isLast) {
+    v[28] = ~v[28]!;
+    v[29] = ~v[29]!;
+  }
+
+  for (let round = 0; round < ROUNDS; round++) {
+    const s = SIGMA[round % 10]!;
+    mix(v, m, 0, 8, 16, 24, s[0]!, s[1]!);
+    mix(v, m, 2, 10, 18, 26, s[2]!, s[3]!);
+    mix(v, m, 4, 12, 20, 28, s[4]!, s[5]!);
+    mix(v, m, 6, 14, 22, 30, s[6]!, s[7]!);
+    mix(v, m, 0, 10, 20, 30, s[8]!, s[9]!);
+    mix(v, m, 2, 12, 22, 24, s[10]!, s[11]!);
+    mix(v, m, 4, 14, 16, 26, s[12]!, s[13]!);
+    mix(v, m, 6, 8, 18, 28, s[14]!, s[15]!);
+  }
+
+  for (let i = 0; i < 16; i++) {
+    h[i]! ^= v[i]! ^ v[i + 16]!;
+  }
+}
+
+/**
+ * The mixing function G on words a, b, c, d (given as low-half indices)
+ * with message words x and y. Rotations: 32, 24, 16, 63 to the right.
+ */
+function mix(v: Uint32Array, m: Uint32Array, a: number, b: number, c: number, d: number, x: number, y: number): void {
+  add(v, a, v[b]!, v[b + 1]!);
+  add(v, a, m[2 * x]!, m[2 * x + 1]!);
+  let lo = v[d]! ^ v[a]!;
+  let hi = v[d + 1]! ^ v[a + 1]!;
+  v[d] = hi;
+  v[d + 1] = lo;
+
+  add(v, c, v[d]!, v[d + 1]!);
+  lo = v[b]! ^ v[c]!;
+  hi = v[b + 1]! ^ v[c + 1]!;
+  v[b] = (lo >>> 24) | (hi << 8);
+  v[b + 1] = (hi >>> 24) | (lo << 8);
+
+  add(v, a, v[b]!, v[b + 1]!);
+  add(v, a, m[2 * y]!, m[2 * y + 1]!);
+  lo = v[d]! ^ v[a]!;
+  hi = v[d + 1]! ^ v[a + 1]!;
+  v[d] = (lo >>> 16) | (hi << 16);
+  v[d + 1] = (hi >>> 16) | (lo << 16);
+
+  add(v, c, v[d]!, v[d + 1]!);
+  lo = v[b]! ^ v[c]!;
+  hi = v[b + 1]! ^ v[c + 1]!;
+  v[b] = (hi >>> 31) | (lo << 1);
+  v[b + 1] = (lo >>> 31) | (hi << 1);
+}
+
+/**
+ * 64-bit addition in place: word a += (hi, lo), modulo 2^64.
+ */
+function add(v: Uint32Array, a: number, lo: number, hi: number): void {
+  const sum = v[a]! + lo;
+  v[a + 1] = v[a + 1]! + hi + (sum >= 2 ** 32 ? 1 : 0);
+  v[a] = sum;
+}
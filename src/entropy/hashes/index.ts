@@ -0,0 +1,11 @@
+/**
+ * Synchronous hash primitives.
+ *
+ * SHA-256 exists for code that has to hash inline, such as the HMAC-DRBG
+ * behind initial condition sampling. SHA3-256 and BLAKE2b back the mixers
+ * Web Crypto doesn't offer.
+ */
+
+export { sha256, hmacSha256, SHA256_LENGTH } from './sha256';
+export { sha3_256, SHA3_256_LENGTH } from './sha3';
+export { blake2b, BLAKE2B_LENGTH } from './blake2b';
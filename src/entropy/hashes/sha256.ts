@@ -0,0 +1,168 @@
+/**
+ * Synchronous SHA-256 (FIPS 180-4) and HMAC-SHA-256 (RFC 2104).
+ *
+ * ## Why not Web Crypto?
+ *
+ * `crypto.subtle` is async only. The mixer can await it, but initial
+ * condition sampling runs synchronously inside `generateInitialCondition`,
+ * and the HMAC-DRBG it draws from needs an HMAC it can call inline.
+ *
+ * This is a straightforward implementation: no streaming, one call hashes
+ * one complete message. Inputs are a few hundred bytes at most.
+ */
+
+/**
+ * SHA-256 block size in bytes (also the HMAC block size).
+ */
+const BLOCK_SIZE = 64;
+
+/**
+ * SHA-256 digest size in bytes.
+ */
+export const SHA256_LENGTH = 32;
+
+/**
+ * Round constants: first 32 bits of the fractional parts of the cube roots
+ * of the first 64 primes.
+ */
+const K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+/**
+ * Initial hash value: first 32 bits of the fractional parts of the square
+ * roots of the first 8 primes.
+ */
+const H0 = new Uint32Array([
+  0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+]);
+
+/**
+ * Hashes a complete message with SHA-256.
+ *
+ * Example:
+ * → sha256(new TextEncoder().encode('abc'))
+ * → ba7816bf 8f01cfea 414140de 5dae2223 b00361a3 96177a9c b410ff61 f20015ad
+ *
+ * @param data The message
+ * @returns 32-byte digest
+ */
+export function sha256(data: Uint8Array): Uint8Array {
+  /**
+   * Padding: message || 0x80 || zeros || 64-bit big-endian bit length,
+   * rounded up to a whole number of 64-byte blocks.
+   */
+  const paddedLength = Math.ceil((data.length + 9) / BLOCK_SIZE) * BLOCK_SIZE;
+  const padded = new Uint8Array(paddedLength);
+  padded.set(data, 0);
+  padded[data.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  const bitLength = data.length * 8;
+  view.setUint32(paddedLength - 8, Math.floor(bitLength / 2 ** 32));
+  view.setUint32(paddedLength - 4, bitLength >>> 0);
+
+  const state = new Uint32Array(H0);
+  const w = new Uint32Array(64);
+
+  for (let offset = 0; offset < paddedLength; offset += BLOCK_SIZE) {
+    /**
+     * Message schedule.
+     */
+    for (let t = 0; t < 16; t++) {
+      w[t] = view.getUint32(offset + t * 4);
+    }
+    for (let t = 16; t < 64; t++) {
+      const w15 = w[t - 15]!;
+      const w2 = w[t - 2]!;
+      const s0 = rotr(w15, 7) ^ rotr(w15, 18) ^ (w15 >>> 3);
+      const s1 = rotr(w2, 17) ^ rotr(w2, 19) ^ (w2 >>> 10);
+      w[t] = (w[t - 16]! + s0 + w[t - 7]! + s1) >>> 0;
+    }
+
+    /**
+     * Compression.
+     */
+    let a = state[0]!;
+    let b = state[1]!;
+    let c = state[2]!;
+    let d = state[3]!;
+    let e = state[4]!;
+    let f = state[5]!;
+    let g = state[6]!;
+    let h = state[7]!;
+
+    for (let t = 0; t < 64; t++) {
+      const s1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+      const ch = (e & f) ^ (~e & g);
+      const temp1 = (h + s1 + ch + K[t]! + w[t]!) >>> 0;
+      const s0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+      const maj = (a & b) ^ (a & c) ^ (b & c);
+      const temp2 = (s0 + maj) >>> 0;
+
+      h = g;
+      g = f;
+      f = e;
+      e = (d + temp1) >>> 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (temp1 + temp2) >>> 0;
+    }
+
+    state[0] = state[0]! + a;
+    state[1] = state[1]! + b;
+    state[2] = state[2]! + c;
+    state[3] = state[3]! + d;
+    state[4] = state[4]! + e;
+    state[5] = state[5]! + f;
+    state[6] = state[6]! + g;
+    state[7] = state[7]! + h;
+  }
+
+  const digest = new Uint8Array(SHA256_LENGTH);
+  const digestView = new DataView(digest.buffer);
+  for (let i = 0; i < 8; i++) {
+    digestView.setUint32(i * 4, state[i]!);
+  }
+  return digest;
+}
+
+/**
+ * HMAC-SHA-256 (RFC 2104):
+ * → HMAC(K, m) = H((K' ^ opad) || H((K' ^ ipad) || m))
+ *
+ * K' is the key zero-padded to the block size, or its hash if longer.
+ *
+ * @param key The key (any length)
+ * @param data The message
+ * @returns 32-byte MAC
+ */
+export function hmacSha256(key: Uint8Array, data: Uint8Array): Uint8Array {
+  const blockKey = new Uint8Array(BLOCK_SIZE);
+  blockKey.set(key.length > BLOCK_SIZE ? sha256(key) : key);
+
+  const inner = new Uint8Array(BLOCK_SIZE + data.length);
+  const outer = new Uint8Array(BLOCK_SIZE + SHA256_LENGTH);
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    inner[i] = blockKey[i]! ^ 0x36;
+    outer[i] = blockKey[i]! ^ 0x5c;
+  }
+  inner.set(data, BLOCK_SIZE);
+  outer.set(sha256(inner), BLOCK_SIZE);
+
+  return sha256(outer);
+}
+
+/**
+ * 32-bit rotate right.
+ */
+function rotr(value: number, bits: number): number {
+  return ((value >>> bits) | (value << (32 - bits))) >>> 0;
+}
@@ -0,0 +1,187 @@
+/**
+ * Synchronous SHA3-256 (FIPS 202).
+ *
+ * ## Why?
+ *
+ * Web Crypto has no SHA-3. SHA3-256 is a sponge over Keccak-f[1600], a
+ * completely different construction from SHA-2: a mixer that must not
+ * depend on a single hash design can pick it without pulling in a
+ * dependency.
+ *
+ * ## Lanes
+ *
+ * The 1600-bit state is 25 lanes of 64 bits. JavaScript has no fast 64-bit
+ * integers, so each lane is two 32-bit words: `state[2i]` holds the low
+ * half of lane i, `state[2i + 1]` the high half. Lane i is at x = i mod 5,
+ * y = floor(i / 5).
+ *
+ * Like `sha256`, one call hashes one complete message.
+ */
+
+/**
+ * Rate (bytes absorbed per permutation) for a 256-bit capacity: 200 - 2 × 32.
+ */
+const RATE = 136;
+
+/**
+ * SHA3-256 digest size in bytes.
+ */
+export const SHA3_256_LENGTH = 32;
+
+/**
+ * Keccak-f[1600] rounds.
+ */
+const ROUNDS = 24;
+
+/**
+ * Round constants for the ι step, as [low, high] word pairs.
+ */
+const ROUND_CONSTANTS = new Uint32Array([
+  0x00000001, 0x00000000, 0x00008082, 0x00000000, 0x0000808a, 0x80000000, 0x80008000, 0x80000000,
+  0x0000808b, 0x00000000, 0x80000001, 0x00000000, 0x80008081, 0x80000000, 0x00008009, 0x80000000,
+  0x0000008a, 0x00000000, 0x00000088, 0x00000000, 0x80008009, 0x00000000, 0x8000000a, 0x00000000,
+  0x8000808b, 0x00000000, 0x0000008b, 0x80000000, 0x00008089, 0x80000000, 0x00008003, 0x80000000,
+  0x00008002, 0x80000000, 0x00000080, 0x80000000, 0x0000800a, 0x00000000, 0x8000000a, 0x80000000,
+  0x80008081, 0x80000000, 0x00008080, 0x80000000, 0x80000001, 0x00000000, 0x80008008, 0x80000000,
+]);
+
+/**
+ * ρ step rotation offsets, indexed by lane (x + 5y).
+ */
+const ROTATIONS = [
+  0, 1, 62, 28, 27,
+  36, 44, 6, 55, 20,
+  3, 10, 43, 25, 39,
+  41, 45, 15, 21, 8,
+  18, 2, 61, 56, 14,
+];
+
+/**
+ * π step: lane (x, y) moves to (y, 2x + 3y), indexed by source lane.
+ */
+const PI_TARGETS = Array.from({ length: 25 }, (_, lane) => {
+  const x = lane % 5;
+  const y = Math.floor(lane / 5);
+  return y + 5 * ((2 * x + 3 * y) % 5);
+});
+
+/**
+ * Hashes a complete message with SHA3-256.
+ *
+ * Example:
+ * → sha3_256(new TextEncoder().encode('abc'))
+ * → 3a985da7 4fe225b2 045c172d 6bd390bd 855f086e 3e9d525b 46bfe245 11431532
+ *
+ * @param data The message
+ * @returns 32-byte digest
+ */
+export function sha3_256(data: Uint8Array): Uint8Array {
+  const state = new Uint32Array(50);
+
+  /**
+   * Padding: message || 0x06 || zeros || 0x80 (the SHA-3 domain bits 01
+   * plus pad10*1), up to a whole number of RATE-byte blocks. When only
+   * one byte is free, 0x06 and 0x80 share it as 0x86.
+   */
+  const paddedLength = (Math.floor(data.length / RATE) + 1) * RATE;
+  const padded = new Uint8Array(paddedLength);
+  padded.set(data, 0);
+  padded[data.length] = 0x06;
+  padded[paddedLength - 1]! |= 0x80;
+
+  for (let offset = 0; offset < paddedLength; offset += RATE) {
+    for (let i = 0; i < RATE; i++) {
+      xorByte(state, i, padded[offset + i]!);
+    }
+    keccakF1600(state);
+  }
+
+  const digest = new Uint8Array(SHA3_256_LENGTH);
+  for (let i = 0; i < SHA3_256_LENGTH; i++) {
+    digest[i] = (state[i >> 2]! >>> (8 * (i & 3))) & 0xff;
+  }
+  return digest;
+}
+
+/**
+ * XORs one byte into the state at byte position i (lanes are little-endian).
+ */
+function xorByte(state: Uint32Array, i: number, byte: number): void {
+  state[i >> 2]! ^= byte << (8 * (i & 3));
+}
+
+/**
+ * The Keccak-f[1600] permutation, in place.
+ */
+function keccakF1600(state: Uint32Array): void {
+  const c = new Uint32Array(10);
+  const b = new Uint32Array(50);
+
+  for (let round = 0; round < ROUNDS; round++) {
+    /**
+     * θ: XOR each lane with the parities of two neighbouring columns.
+     */
+    for (let x = 0; x < 5; x++) {
+      c[2 * x] = state[2 * x]! ^ state[2 * x + 10]! ^ state[2 * x + 20]! ^ state[2 * x + 30]! ^ state[2 * x + 40]!;
+      c[2 * x + 1] = state[2 * x + 1]! ^ state[2 * x + 11]! ^ state[2 * x + 21]! ^ state[2 * x + 31]! ^ state[2 * x + 41]!;
+    }
+    for (let x = 0; x < 5; x++) {
+      const left = (x + 4) % 5;
+      const right = (x + 1) % 5;
+      const rightLo = c[2 * right]!;
+      const rightHi = c[2 * right + 1]!;
+      const dLo = c[2 * left]! ^ ((rightLo << 1) | (rightHi >>> 31));
+      const dHi = c[2 * left + 1]! ^ ((rightHi << 1) | (rightLo >>> 31));
+      for (let y = 0; y < 25; y += 5) {
+        state[2 * (x + y)]! ^= dLo;
+        state[2 * (x + y) + 1]! ^= dHi;
+      }
+    }
+
+    /**
+     * ρ and π: rotate every lane and move it to its new position.
+     */
+    for (let lane = 0; lane < 25; lane++) {
+      const target = PI_TARGETS[lane]!;
+      const [lo, hi] = rotateLeft(state[2 * lane]!, state[2 * lane + 1]!, ROTATIONS[lane]!);
+      b[2 * target] = lo;
+      b[2 * target + 1] = hi;
+    }
+
+    /**
+     * χ: the only non-linear step, row by row.
+     */
+    for (let y = 0; y < 25; y += 5) {
+      for (let x = 0; x < 5; x++) {
+        const lane = 2 * (x + y);
+        const next = 2 * (((x + 1) % 5) + y);
+        const afterNext = 2 * (((x + 2) % 5) + y);
+        state[lane] = b[lane]! ^ (~b[next]! & b[afterNext]!);
+        state[lane + 1] = b[lane + 1]! ^ (~b[next + 1]! & b[afterNext + 1]!);
+      }
+    }
+
+    /**
+     * ι: break the symmetry between rounds.
+     */
+    state[0]! ^= ROUND_CONSTANTS[2 * round]!;
+    state[1]! ^= ROUND_CONSTANTS[2 * round + 1]!;
+  }
+}
+
+/**
+ * Rotates a 64-bit lane, given as [low, high] words, left by n bits.
+ */
+function rotateLeft(lo: number, hi: number, n: number): [number, number] {
+  if (n === 0) {
+    return [lo, hi];
+  }
+  if (n === 32) {
+    return [hi, lo];
+  }
+  if (n < 32) {
+    return [(lo << n) | (hi >>> (32 - n)), (hi << n) | (lo >>> (32 - n))];
+  }
+  const m = n - 32;
+  return [(hi << m) | (lo >>> (32 - m)), (lo << m) | (hi >>> (32 - m))];
+}
@@ -0,0 +1,279 @@
+/**
+ * Continuous health tests for raw entropy source output (NIST SP 800-90B, 4.4).
+ *
+ * ## Why?
+ *
+ * Entropy estimates are claims made by the source about itself. A timing
+ * source on a platform with a coarse clock can return nothing but zero bits
+ * and still report `estimatedBits = samplesCollected`. Mixing would hide the
+ * failure perfectly: SHA-256 of all zeros looks just as random as anything
+ * else. The only place a broken source is visible is its raw output.
+ *
+ * ## The Two Tests
+ *
+ * Both tests treat each raw output byte as one sample and derive their
+ * cutoffs from the source's entropy H per byte. SP 800-90B expects H to be
+ * the assessed entropy, not a claim: a source that claims 8 bits per byte
+ * for output worth 5 fails healthy runs of 4 repeats. So H is the source's
+ * `assessedEntropyPerByte` where it sets one (timing: 4), capped by the
+ * per-result claim; sources without one are held to their claim.
+ *
+ * - **Repetition Count Test (RCT)**: fails if the same byte repeats C times
+ *   in a row, C = 1 + ceil(20 / H).
+ *   → H = 8 (crypto): 4 identical bytes in a row fail
+ *   → H = 4 (timing): 6 identical bytes in a row fail
+ *   → H = 1: 21 identical bytes in a row fail
+ *
+ * - **Adaptive Proportion Test (APT)**: takes the first byte of each
+ *   512-byte window and fails if it occurs C times within the window,
+ *   C = 1 + CRITBINOM(512, 2^-H, 1 - α).
+ *   → Catches a source that still changes, but far too rarely
+ *
+ * Both use a false positive rate of α = 2^-20, as recommended by SP 800-90B:
+ * a healthy source fails a given check with probability of about one in a
+ * million, which is rare enough to never matter for a coin flip.
+ *
+ * ## Continuous
+ *
+ * State carries over between results of the same source, so a run of
+ * repeated bytes split across two sweeps is still caught. Once a source
+ * fails, it stays unhealthy for the lifetime of the monitor (one
+ * `collectEntropy()` call, or one accumulator).
+ */
+
+import type { SourceResult } from './types';
+import { EntropySourceHealthError } from './errors';
+
+/**
+ * False positive probability per test: α = 2^-20.
+ */
+const ALPHA_EXPONENT = 20;
+
+/**
+ * APT window size for non-binary samples (bytes), per SP 800-90B.
+ */
+const APT_WINDOW_SIZE = 512;
+
+/**
+ * Monitors the raw output of every source seen during one collection.
+ */
+export interface HealthMonitor {
+  /**
+   * Runs both tests over a result's bytes.
+   * Results from an already unhealthy source are rejected without testing.
+   *
+   * @param result The source's output
+   * @param assessedEntropyPerByte The source's assessed H, if it has one
+   * @returns The failure, or undefined if the source is (still) healthy
+   */
+  check(result: SourceResult, assessedEntropyPerByte?: number): EntropySourceHealthError | undefined;
+
+  /**
+   * Whether a source has not failed any test so far.
+   */
+  isHealthy(name: string): boolean;
+
+  /**
+   * All failures so far, one per unhealthy source.
+   */
+  getFailures(): EntropySourceHealthError[];
+}
+
+/**
+ * Per-source test state.
+ */
+interface SourceHealthState {
+  /** RCT: last byte and how often it has repeated */
+  lastByte: number | undefined;
+  repetitions: number;
+
+  /** APT: first byte of the current window, its count and the window fill */
+  windowByte: number | undefined;
+  windowMatches: number;
+  windowFill: number;
+  windowCutoff: number;
+
+  failure: EntropySourceHealthError | undefined;
+}
+
+/**
+ * Creates a health monitor with fresh state for every source.
+ *
+ * Example:
+ * → const monitor = createHealthMonitor();
+ * → monitor.check({ name: 'timing', bytes: new Uint8Array(8), estimatedBits: 64, success: true })
+ * → EntropySourceHealthError (repetition-count, 4 >= cutoff 4)
+ *
+ * @returns A new HealthMonitor
+ */
+export function createHealthMonitor(): HealthMonitor {
+  const states = new Map<string, SourceHealthState>();
+
+  const stateFor = (name: string): SourceHealthState => {
+    let state = states.get(name);
+    if (!state) {
+      state = {
+        lastByte: undefined,
+        repetitions: 0,
+        windowByte: undefined,
+        windowMatches: 0,
+        windowFill: 0,
+        windowCutoff: 0,
+        failure: undefined,
+      };
+      states.set(name, state);
+    }
+    return state;
+  };
+
+  return {
+    check(result: SourceResult, assessedEntropyPerByte?: number): EntropySourceHealthError | undefined {
+      const state = stateFor(result.name);
+      if (state.failure) {
+        return state.failure;
+      }
+
+      /**
+       * A byte can't carry more than 8 bits. Results that credit nothing
+       * have nothing to protect, so there is nothing to test.
+       */
+      if (result.bytes.length === 0 || result.estimatedBits <= 0) {
+        return undefined;
+      }
+      const entropyPerByte = Math.min(8, result.estimatedBits / result.bytes.length, assessedEntropyPerByte ?? 8);
+      const rctCutoff = repetitionCountCutoff(entropyPerByte);
+
+      for (const byte of result.bytes) {
+        /**
+         * Repetition Count Test.
+         */
+        if (byte === state.lastByte) {
+          state.repetitions++;
+          if (state.repetitions >= rctCutoff) {
+            state.failure = new EntropySourceHealthError(result.name, 'repetition-count', state.repetitions, rctCutoff);
+            return state.failure;
+          }
+        } else {
+          state.lastByte = byte;
+          state.repetitions = 1;
+        }
+
+        /**
+         * Adaptive Proportion Test. The cutoff is fixed when the window
+         * opens, so one window is judged by a single H.
+         */
+        if (state.windowByte === undefined) {
+          state.windowByte = byte;
+          state.windowMatches = 1;
+          state.windowFill = 1;
+          state.windowCutoff = adaptiveProportionCutoff(entropyPerByte);
+          continue;
+        }
+
+        if (byte === state.windowByte) {
+          state.windowMatches++;
+          if (state.windowMatches >= state.windowCutoff) {
+            state.failure = new EntropySourceHealthError(
+              result.name,
+              'adaptive-proportion',
+              state.windowMatches,
+              state.windowCutoff
+            );
+            return state.failure;
+          }
+        }
+
+        state.windowFill++;
+        if (state.windowFill >= APT_WINDOW_SIZE) {
+          state.windowByte = undefined;
+        }
+      }
+
+      return undefined;
+    },
+
+    isHealthy(name: string): boolean {
+      return states.get(name)?.failure === undefined;
+    },
+
+    getFailures(): EntropySourceHealthError[] {
+      return [...states.values()]
+        .map((state) => state.failure)
+        .filter((failure): failure is EntropySourceHealthError => failure !== undefined);
+    },
+  };
+}
+
+/**
+ * RCT cutoff: C = 1 + ceil(-log2(α) / H).
+ *
+ * Example: H = 2 → C = 1 + ceil(20 / 2) = 11
+ *
+ * @param entropyPerSample Claimed min-entropy per sample in bits (> 0)
+ * @returns Number of identical consecutive samples that fails the test
+ */
+export function repetitionCountCutoff(entropyPerSample: number): number {
+  return 1 + Math.ceil(ALPHA_EXPONENT / entropyPerSample);
+}
+
+/**
+ * Cache of APT cutoffs by claimed entropy; sources rarely change their claim.
+ */
+const aptCutoffCache = new Map<number, number>();
+
+/**
+ * APT cutoff: C = 1 + CRITBINOM(W, 2^-H, 1 - α).
+ *
+ * CRITBINOM(n, p, q) is the smallest k with P(X <= k) >= q for X ~ Bin(n, p).
+ * We sum the upper tail from k = W downwards in log space: for H = 8,
+ * p^W = 2^-4096 underflows any double.
+ *
+ * @param entropyPerSample Claimed min-entropy per sample in bits (> 0)
+ * @param windowSize Window size W. Default: 512 (non-binary samples)
+ * @returns Number of occurrences of the first sample in a window that fails the test
+ */
+export function adaptiveProportionCutoff(
+  entropyPerSample: number,
+  windowSize: number = APT_WINDOW_SIZE
+): number {
+  if (windowSize === APT_WINDOW_SIZE) {
+    const cached = aptCutoffCache.get(entropyPerSample);
+    if (cached !== undefined) {
+      return cached;
+    }
+  }
+
+  const p = 2 ** -entropyPerSample;
+  const alpha = 2 ** -ALPHA_EXPONENT;
+
+  /**
+   * log P(X = k) for k = 0..W via the pmf recurrence
+   * P(k + 1) = P(k) * (W - k) / (k + 1) * p / (1 - p).
+   */
+  const logPmf = new Float64Array(windowSize + 1);
+  logPmf[0] = windowSize * Math.log1p(-p);
+  const logOdds = Math.log(p) - Math.log1p(-p);
+  for (let k = 0; k < windowSize; k++) {
+    logPmf[k + 1] = logPmf[k]! + Math.log((windowSize - k) / (k + 1)) + logOdds;
+  }
+
+  /**
+   * Walk down from the top while P(X > k) <= α. The first k where adding
+   * P(X = k) pushes the tail above α is CRITBINOM.
+   */
+  let tail = 0;
+  let critical = windowSize;
+  for (let k = windowSize; k >= 0; k--) {
+    tail += Math.exp(logPmf[k]!);
+    if (tail > alpha) {
+      critical = k;
+      break;
+    }
+  }
+
+  const cutoff = 1 + critical;
+  if (windowSize === APT_WINDOW_SIZE) {
+    aptCutoffCache.set(entropyPerSample, cutoff);
+  }
+  return cutoff;
+}
@@ -0,0 +1,42 @@
+/**
+ * Hex encoding and byte comparison for the records the library exchanges
+ * as JSON: provenance commitments, beacon rounds, commit-reveal transcripts.
+ */
+
+/**
+ * Decodes a hex string. Check it with isHex() first: invalid digits
+ * decode to 0 rather than throwing.
+ *
+ * Example: hexToBytes('00ff10') → Uint8Array [0, 255, 16]
+ */
+export function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(2 * i, 2 * i + 2), 16);
+  }
+  return bytes;
+}
+
+/**
+ * Encodes bytes as lowercase hex, two digits per byte.
+ *
+ * Example: bytesToHex(Uint8Array [0, 255, 16]) → '00ff10'
+ */
+export function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Checks for an even-length string of hex digits (no prefix, any case).
+ */
+export function isHex(value: unknown): value is string {
+  return typeof value === 'string' && value.length % 2 === 0 && /^[0-9a-fA-F]*$/.test(value);
+}
+
+/**
+ * Byte-wise equality. Not constant-time: only for public values such as
+ * commitments and digests.
+ */
+export function equalBytes(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
@@ -0,0 +1,198 @@
+/**
+ * Entropy level registry.
+ *
+ * A level is a time budget plus an entropy target (`EntropyLevelConfig`).
+ * Wherever a level is requested, callers can pass:
+ *
+ * | Form            | Example                                              | Reported as |
+ * |-----------------|------------------------------------------------------|-------------|
+ * | Preset          | `'standard'`                                         | `standard`  |
+ * | Registered name | `'audit'` after `registerEntropyLevel('audit', …)`   | `audit`     |
+ * | Inline config   | `{ minTimeMs: 150, targetBits: 96, maxTimeMs: 600 }` | `custom`    |
+ *
+ * Every config is validated before collection starts, and the resolved
+ * config is echoed in `EntropyStats.levelConfig`, so a result always says
+ * which budget and target it was collected under.
+ *
+ * ## Scope
+ *
+ * Like the source registry, registered levels are module-global. The four
+ * presets can't be replaced or removed.
+ */
+
+import type {
+  EntropyLevel,
+  EntropyLevelConfig,
+  EntropyLevelName,
+  EntropyLevelSpec,
+} from './types';
+import { EntropyLevelRegistrationError, InvalidEntropyLevelError } from './errors';
+
+/**
+ * Name reported for inline configs; can't be registered.
+ */
+const CUSTOM_LEVEL_NAME = 'custom';
+
+/**
+ * Preset configurations for each entropy level.
+ */
+const ENTROPY_LEVEL_CONFIGS: Record<EntropyLevel, EntropyLevelConfig> = {
+  fast: {
+    minTimeMs: 100,
+    targetBits: 64,
+    maxTimeMs: 500,
+  },
+  standard: {
+    minTimeMs: 200,
+    targetBits: 128,
+    maxTimeMs: 1000,
+  },
+  high: {
+    minTimeMs: 500,
+    targetBits: 256,
+    maxTimeMs: 2000,
+  },
+  paranoid: {
+    minTimeMs: 2000,
+    targetBits: 512,
+    maxTimeMs: 5000,
+  },
+};
+
+/**
+ * User-registered levels keyed by name.
+ */
+const registry = new Map<string, EntropyLevelConfig>();
+
+/**
+ * A level spec resolved to its reported name and validated config.
+ */
+export interface ResolvedEntropyLevel {
+  name: EntropyLevelName;
+  config: EntropyLevelConfig;
+}
+
+/**
+ * Adds a named level that every later collection can request by name.
+ *
+ * Example:
+ * ```typescript
+ * registerEntropyLevel('audit', { minTimeMs: 3000, targetBits: 1024, maxTimeMs: 10000 });
+ * const result = await flipCoin({ entropyLevel: 'audit', strict: true });
+ * ```
+ *
+ * @param name Name to request the level by
+ * @param config The level's time budget and entropy target
+ * @throws EntropyLevelRegistrationError if the name is empty, reserved or already taken
+ * @throws InvalidEntropyLevelError if the config is invalid
+ */
+export function registerEntropyLevel(name: string, config: EntropyLevelConfig): void {
+  if (!name) {
+    throw new EntropyLevelRegistrationError(name, 'name must not be empty');
+  }
+
+  if (isPreset(name) || name === CUSTOM_LEVEL_NAME) {
+    throw new EntropyLevelRegistrationError(name, 'the name is reserved');
+  }
+
+  if (registry.has(name)) {
+    throw new EntropyLevelRegistrationError(name, 'a level with this name is already registered');
+  }
+
+  validateEntropyLevelConfig(config, name);
+  registry.set(name, { ...config });
+}
+
+/**
+ * Removes a registered level. Presets can't be removed.
+ *
+ * @param name Name of the level to remove
+ * @returns true if a level was removed
+ */
+export function unregisterEntropyLevel(name: string): boolean {
+  return registry.delete(name);
+}
+
+/**
+ * Returns the names of all levels that can be requested by name:
+ * the presets first, then registered levels in registration order.
+ *
+ * @returns A snapshot; mutating it does not affect the registry
+ */
+export function getEntropyLevelNames(): EntropyLevelName[] {
+  return [...Object.keys(ENTROPY_LEVEL_CONFIGS), ...registry.keys()];
+}
+
+/**
+ * Returns the collection parameters for an entropy level.
+ *
+ * @param level Preset, registered name or inline config
+ * @returns A copy of the level's time budget and entropy target
+ * @throws InvalidEntropyLevelError if the name is unknown or the config is invalid
+ */
+export function getEntropyLevelConfig(level: EntropyLevelSpec): EntropyLevelConfig {
+  return resolveEntropyLevel(level).config;
+}
+
+/**
+ * Resolves a level spec to the name results report and a validated config.
+ *
+ * Names are looked up once, here: a collection or accumulator keeps the
+ * config it started with even if the level is unregistered meanwhile.
+ *
+ * @param level Preset, registered name or inline config
+ * @returns The reported name and a copy of the config
+ * @throws InvalidEntropyLevelError if the name is unknown or the config is invalid
+ */
+export function resolveEntropyLevel(level: EntropyLevelSpec): ResolvedEntropyLevel {
+  if (typeof level !== 'string') {
+    validateEntropyLevelConfig(level, CUSTOM_LEVEL_NAME);
+    return { name: CUSTOM_LEVEL_NAME, config: { ...level } };
+  }
+
+  const config = isPreset(level) ? ENTROPY_LEVEL_CONFIGS[level] : registry.get(level);
+  if (!config) {
+    throw new InvalidEntropyLevelError(level, 'not a preset or registered level');
+  }
+
+  return { name: level, config: { ...config } };
+}
+
+/**
+ * Checks that a config describes a collection that can finish.
+ *
+ * Rules:
+ * - minTimeMs: finite, >= 0
+ * - targetBits: finite, > 0
+ * - maxTimeMs: finite, > 0 and >= minTimeMs
+ *
+ * @param config The config to check
+ * @param name Level name for the error message
+ * @throws InvalidEntropyLevelError on the first rule that fails
+ */
+export function validateEntropyLevelConfig(config: EntropyLevelConfig, name: string = CUSTOM_LEVEL_NAME): void {
+  const { minTimeMs, targetBits, maxTimeMs } = config;
+
+  if (!Number.isFinite(minTimeMs) || minTimeMs < 0) {
+    throw new InvalidEntropyLevelError(name, `minTimeMs must be a non-negative number, got ${minTimeMs}`);
+  }
+
+  if (!Number.isFinite(targetBits) || targetBits <= 0) {
+    throw new InvalidEntropyLevelError(name, `targetBits must be a positive number, got ${targetBits}`);
+  }
+
+  if (!Number.isFinite(maxTimeMs) || maxTimeMs <= 0) {
+    throw new InvalidEntropyLevelError(name, `maxTimeMs must be a positive number, got ${maxTimeMs}`);
+  }
+
+  if (maxTimeMs < minTimeMs) {
+    throw new InvalidEntropyLevelError(name, `maxTimeMs (${maxTimeMs}) must not be below minTimeMs (${minTimeMs})`);
+  }
+}
+
+/**
+ * Own-property check, so names like 'toString' aren't mistaken for presets.
+ */
+function isPreset(name: string): name is EntropyLevel {
+  return Object.prototype.hasOwnProperty.call(ENTROPY_LEVEL_CONFIGS, name);
+}
@@ -39,37 +39,99 @@
  *
  * ## Implementation
  *
- * We use SHA-256 from the Web Crypto API (available in browsers and Node.js 15+).
  * The mixing process:
- * 1. Concatenate all input buffers
- * 2. Hash the concatenation with SHA-256
- * 3. Return the 256-bit (32-byte) digest
+ * 1. Prefix every input buffer with its length (4 bytes, big-endian)
+ * 2. Concatenate the framed buffers
+ * 3. Hash the concatenation with the selected mixer and return the digest
  *
- * For cases where we need more than 256 bits, we use a counter mode:
- * → H(input || 0) || H(input || 1) || H(input || 2) || ...
+ * The length prefix makes source boundaries unambiguous: without it,
+ * ['ab', 'c'] and ['a', 'bc'] would hash to the same seed.
+ *
+ * The mixer defaults to SHA-256 from the Web Crypto API. SHA-512 (Web
+ * Crypto), SHA3-256 and BLAKE2b (pure TS, `./hashes`) can be selected by
+ * name, or any `Mixer` passed in (see MixerAlgorithm).
+ *
+ * For cases where we need more than 256 bits, we expand with HKDF (RFC 5869):
+ * → T(1) || T(2) || ... with T(i) = HMAC(seed, T(i-1) || info || i)
+ *
+ * The `info` label gives every purpose its own stream (see EntropyLabel):
+ * the bytes for the launch, a retry and the axis perturbation are unrelated,
+ * even when they come from the same seed.
+ */
+
+import { EntropyExpansionLengthError, InsufficientEntropyBufferError } from './errors';
+import { sha3_256, SHA3_256_LENGTH, blake2b, BLAKE2B_LENGTH } from './hashes';
+import type { HkdfHash, Mixer, MixerAlgorithm } from './types';
+import { zeroize } from './zeroize';
+
+/**
+ * Output size of each supported hash in bytes (HashLen in RFC 5869).
+ */
+const HASH_LENGTHS: Record<HkdfHash, number> = {
+  'SHA-256': 32,
+  'SHA-512': 64,
+};
+
+/**
+ * HKDF-Expand has a one-byte block counter starting at 1.
  */
+const MAX_HKDF_BLOCKS = 255;
 
-import { InsufficientEntropyBufferError } from './errors';
+/**
+ * Size of the big-endian length prefix in front of every mixed source.
+ */
+const LENGTH_PREFIX_BYTES = 4;
 
 /**
- * Mixes multiple entropy sources into a single buffer using SHA-256.
+ * Shortest seed a mixer may produce: the HKDF-SHA-256 key size.
+ */
+const MIN_MIXER_DIGEST_LENGTH = 32;
+
+/**
+ * The built-in mixers by name.
+ */
+const MIXERS: Record<MixerAlgorithm, Mixer> = {
+  'SHA-256': webCryptoMixer('SHA-256'),
+  'SHA-512': webCryptoMixer('SHA-512'),
+  'SHA3-256': {
+    name: 'SHA3-256',
+    digestLength: SHA3_256_LENGTH,
+    digest: async (data) => sha3_256(data),
+  },
+  'BLAKE2b': {
+    name: 'BLAKE2b',
+    digestLength: BLAKE2B_LENGTH,
+    digest: async (data) => blake2b(data),
+  },
+};
+
+/**
+ * Mixes multiple entropy sources into a single seed.
  *
- * The mixing function concatenates all inputs and hashes them together,
- * producing a uniformly distributed 256-bit output.
+ * Every source is framed with its length before concatenation, then the
+ * framed buffer is hashed with the selected mixer.
  *
  * For entropy sources A, B, C:
- * → output = SHA-256(A || B || C)
+ * → output = H(len(A) || A || len(B) || B || len(C) || C)
  *
- * Where || denotes concatenation.
+ * Where || denotes concatenation and len() is a 4-byte big-endian length.
  *
  * Example:
  * → mixEntropy([timerBytes, cryptoBytes, audioBytes])
- * → Returns: 32-byte Uint8Array with mixed entropy
+ * → Returns: 32-byte Uint8Array with mixed entropy (SHA-256)
+ *
+ * → mixEntropy([timerBytes, cryptoBytes], 'BLAKE2b')
+ * → Returns: 64-byte Uint8Array
  *
  * @param sources Array of Uint8Array buffers from various entropy sources
- * @returns Promise resolving to a 32-byte Uint8Array of mixed entropy
+ * @param mixer Mixer name or implementation. Default: 'SHA-256'
+ * @returns Promise resolving to the mixer's digest (empty for no sources)
+ * @throws RangeError if the mixer name is unknown
  */
-export async function mixEntropy(sources: Uint8Array[]): Promise<Uint8Array> {
+export async function mixEntropy(
+  sources: Uint8Array[],
+  mixer: MixerAlgorithm | Mixer = 'SHA-256'
+): Promise<Uint8Array> {
   /**
    * Handle edge cases:
    * - No sources: Return empty array (caller should validate)
@@ -80,102 +142,262 @@ export async function mixEntropy(sources: Uint8Array[]): Promise<Uint8Array> {
   }
 
   /**
-   * Calculate total length needed for the concatenated buffer.
+   * The framed copy holds every source byte: wipe it once hashed.
+   */
+  const framed = frameSources(sources);
+  try {
+    return await getMixer(mixer).digest(framed);
+  } finally {
+    zeroize(framed);
+  }
+}
+
+/**
+ * Resolves a mixer name to its implementation; custom mixers pass through.
+ *
+ * @param mixer Mixer name or implementation. Default: 'SHA-256'
+ * @returns The mixer
+ * @throws RangeError if the mixer name is unknown or a custom mixer's
+ *   digest is shorter than 32 bytes
+ */
+export function getMixer(mixer: MixerAlgorithm | Mixer = 'SHA-256'): Mixer {
+  if (typeof mixer !== 'string') {
+    if (!Number.isInteger(mixer.digestLength) || mixer.digestLength < MIN_MIXER_DIGEST_LENGTH) {
+      throw new RangeError(
+        `Mixer "${mixer.name}" must produce at least ${MIN_MIXER_DIGEST_LENGTH} bytes, got ${mixer.digestLength}`
+      );
+    }
+    return mixer;
+  }
+
+  if (!Object.prototype.hasOwnProperty.call(MIXERS, mixer)) {
+    throw new RangeError(`Unknown mixer algorithm "${String(mixer)}"`);
+  }
+  return MIXERS[mixer];
+}
+
+/**
+ * Concatenates sources, each prefixed with its 4-byte big-endian length.
+ *
+ * Example with 2 sources of lengths [3, 1]:
+ * → 00 00 00 03 | a b c | 00 00 00 01 | d
+ *
+ * @param sources The buffers to frame
+ * @returns One buffer of 4 × count + total length bytes
+ */
+export function frameSources(sources: Uint8Array[]): Uint8Array {
+  /**
+   * Calculate total length needed for the framed buffer.
    * This avoids multiple array resizes during concatenation.
    */
-  const totalLength = sources.reduce((sum, source) => sum + source.length, 0);
-  const concatenated = new Uint8Array(totalLength);
+  const totalLength = sources.reduce((sum, source) => sum + LENGTH_PREFIX_BYTES + source.length, 0);
+  const framed = new Uint8Array(totalLength);
+  const view = new DataView(framed.buffer);
 
   /**
-   * Concatenate all sources into a single buffer.
-   * We use a running offset to place each source at the correct position.
-   *
-   * Example with 3 sources of lengths [8, 4, 16]:
-   * → offset starts at 0
-   * → copy source[0] (8 bytes) at position 0, offset becomes 8
-   * → copy source[1] (4 bytes) at position 8, offset becomes 12
-   * → copy source[2] (16 bytes) at position 12, offset becomes 28
+   * We use a running offset to place each prefix and source at the
+   * correct position.
    */
   let offset = 0;
   for (const source of sources) {
-    concatenated.set(source, offset);
-    offset += source.length;
+    view.setUint32(offset, source.length);
+    framed.set(source, offset + LENGTH_PREFIX_BYTES);
+    offset += LENGTH_PREFIX_BYTES + source.length;
   }
 
+  return framed;
+}
+
+/**
+ * Largest output a single HKDF expansion can produce: 255 × HashLen.
+ *
+ * → SHA-256: 8160 bytes
+ * → SHA-512: 16320 bytes
+ *
+ * @param hash The HKDF hash function
+ * @returns Maximum output length in bytes
+ */
+export function maxExpansionLength(hash: HkdfHash = 'SHA-256'): number {
+  return MAX_HKDF_BLOCKS * HASH_LENGTHS[hash];
+}
+
+/**
+ * HKDF-Extract (RFC 5869, 2.2): PRK = HMAC-Hash(salt, IKM).
+ *
+ * Condenses input keying material of any length and quality into a
+ * HashLen-byte pseudorandom key. An empty salt means HashLen zero bytes.
+ *
+ * @param salt Optional salt (non-secret random value)
+ * @param ikm Input keying material
+ * @param hash Hash function. Default: SHA-256
+ * @returns Promise resolving to the HashLen-byte PRK
+ */
+export async function hkdfExtract(
+  salt: Uint8Array,
+  ikm: Uint8Array,
+  hash: HkdfHash = 'SHA-256'
+): Promise<Uint8Array> {
+  return hmac(hash, salt, ikm);
+}
+
+/**
+ * HKDF-Expand (RFC 5869, 2.3).
+ *
+ * → T(0) = empty
+ * → T(i) = HMAC-Hash(PRK, T(i-1) || info || i)   for i = 1..N
+ * → OKM  = first L bytes of T(1) || T(2) || ... || T(N)
+ *
+ * The counter is a single byte starting at 1, so L is limited to
+ * 255 × HashLen. Longer requests throw instead of repeating blocks.
+ *
+ * @param prk Pseudorandom key (at least HashLen bytes)
+ * @param info Context label; a string is encoded as UTF-8
+ * @param length Output length L in bytes
+ * @param hash Hash function. Default: SHA-256
+ * @returns Promise resolving to L bytes of output keying material
+ * @throws EntropyExpansionLengthError if L is not an integer in 0..255 × HashLen
+ */
+export async function hkdfExpand(
+  prk: Uint8Array,
+  info: Uint8Array | string,
+  length: number,
+  hash: HkdfHash = 'SHA-256'
+): Promise<Uint8Array> {
+  const maxLength = maxExpansionLength(hash);
+  if (!Number.isInteger(length) || length < 0 || length > maxLength) {
+    throw new EntropyExpansionLengthError(length, maxLength);
+  }
+
+  const hashLength = HASH_LENGTHS[hash];
+  const infoBytes = typeof info === 'string' ? new TextEncoder().encode(info) : info;
+  const blocksNeeded = Math.ceil(length / hashLength);
+  const output = new Uint8Array(blocksNeeded * hashLength);
+
   /**
-   * Hash the concatenated buffer using SHA-256.
-   *
-   * The Web Crypto API is available in:
-   * - Browsers: window.crypto.subtle
-   * - Node.js 15+: globalThis.crypto.subtle (with --experimental-global-webcrypto in older versions)
-   *
-   * SHA-256 produces a 256-bit (32-byte) digest.
+   * Each block input is T(i-1) || info || i. T(0) is empty, so the
+   * first input is shorter than the rest.
    */
-  const hashBuffer = await crypto.subtle.digest('SHA-256', concatenated);
+  let previous: Uint8Array = new Uint8Array(0);
+  try {
+    for (let i = 1; i <= blocksNeeded; i++) {
+      const input = new Uint8Array(previous.length + infoBytes.length + 1);
+      input.set(previous, 0);
+      input.set(infoBytes, previous.length);
+      input[input.length - 1] = i;
+      zeroize(previous);
+
+      previous = await hmac(hash, prk, input);
+      zeroize(input);
+      output.set(previous, (i - 1) * hashLength);
+    }
 
-  return new Uint8Array(hashBuffer);
+    return output.slice(0, length);
+  } finally {
+    zeroize(previous, output);
+  }
 }
 
 /**
- * Expands mixed entropy to a larger size using counter mode.
+ * Full HKDF: Extract, then Expand.
  *
- * When we need more than 256 bits (32 bytes) of output, we use a
- * counter mode construction similar to HKDF-Expand:
+ * Use this when the input is not already a uniform key, e.g. a user
+ * supplied seed or a pool output that should feed several purposes.
  *
- * → output = H(seed || 0x00) || H(seed || 0x01) || H(seed || 0x02) || ...
+ * Example:
+ * → const launch = await deriveEntropy(seed, 'launch', 64)
+ * → const wobble = await deriveEntropy(seed, 'perturbation', 64)
+ * → launch and wobble are unrelated
+ *
+ * @param ikm Input keying material
+ * @param info Context label; a string is encoded as UTF-8
+ * @param length Output length in bytes
+ * @param hash Hash function. Default: SHA-256
+ * @param salt Optional salt. Default: HashLen zero bytes
+ * @returns Promise resolving to `length` derived bytes
+ */
+export async function deriveEntropy(
+  ikm: Uint8Array,
+  info: Uint8Array | string,
+  length: number,
+  hash: HkdfHash = 'SHA-256',
+  salt: Uint8Array = new Uint8Array(0)
+): Promise<Uint8Array> {
+  const prk = await hkdfExtract(salt, ikm, hash);
+  try {
+    return await hkdfExpand(prk, info, length, hash);
+  } finally {
+    zeroize(prk);
+  }
+}
+
+/**
+ * Expands mixed entropy to a larger size using HKDF-Expand.
  *
- * This is cryptographically secure as long as the seed has sufficient entropy.
- * Each 32-byte block is independent and uniformly distributed.
+ * The seed is already a uniform SHA-256 digest (from mixEntropy), so it
+ * is used as the PRK directly; RFC 5869 allows skipping Extract for input
+ * that is already a good key.
  *
  * Example: Expand 32-byte seed to 64 bytes
- * → block0 = SHA-256(seed || 0x00) = 32 bytes
- * → block1 = SHA-256(seed || 0x01) = 32 bytes
- * → output = block0 || block1 = 64 bytes
+ * → block1 = HMAC(seed, info || 0x01) = 32 bytes
+ * → block2 = HMAC(seed, block1 || info || 0x02) = 32 bytes
+ * → output = block1 || block2 = 64 bytes
  *
  * @param seed The mixed entropy seed (should be at least 32 bytes for security)
- * @param outputLength Desired output length in bytes
+ * @param outputLength Desired output length in bytes (at most 255 × HashLen)
+ * @param info Context label separating this stream from others. Default: none
+ * @param hash Hash function. Default: SHA-256
  * @returns Promise resolving to a Uint8Array of the requested length
+ * @throws EntropyExpansionLengthError if outputLength exceeds the HKDF limit
  */
 export async function expandEntropy(
   seed: Uint8Array,
-  outputLength: number
+  outputLength: number,
+  info: Uint8Array | string = '',
+  hash: HkdfHash = 'SHA-256'
 ): Promise<Uint8Array> {
-  /**
-   * Calculate how many 32-byte blocks we need.
-   * Round up to ensure we generate enough bytes.
-   *
-   * Example: outputLength = 50
-   * → blocks = ceil(50 / 32) = ceil(1.5625) = 2
-   * → We'll generate 64 bytes, then truncate to 50
-   */
-  const blockSize = 32;
-  const blocksNeeded = Math.ceil(outputLength / blockSize);
-
-  const output = new Uint8Array(blocksNeeded * blockSize);
+  return hkdfExpand(seed, info, outputLength, hash);
+}
 
-  /**
-   * Generate each block by hashing seed || counter.
-   * The counter is a single byte, limiting us to 256 blocks (8192 bytes).
-   * This is sufficient for our use case (initial conditions need ~64-128 bytes).
-   */
-  for (let i = 0; i < blocksNeeded; i++) {
-    /**
-     * Create input buffer: seed || counter
-     * The counter ensures each block is different even with the same seed.
-     */
-    const input = new Uint8Array(seed.length + 1);
-    input.set(seed, 0);
-    input[seed.length] = i;
+/**
+ * A mixer backed by Web Crypto's digest().
+ */
+function webCryptoMixer(hash: HkdfHash): Mixer {
+  return {
+    name: hash,
+    digestLength: HASH_LENGTHS[hash],
+    digest: async (data): Promise<Uint8Array> => {
+      const copy = new Uint8Array(data);
+      try {
+        return new Uint8Array(await crypto.subtle.digest(hash, copy));
+      } finally {
+        zeroize(copy);
+      }
+    },
+  };
+}
 
-    const blockHash = await crypto.subtle.digest('SHA-256', input);
-    output.set(new Uint8Array(blockHash), i * blockSize);
+/**
+ * HMAC via the Web Crypto API.
+ *
+ * Web Crypto rejects zero-length HMAC keys. HMAC pads the key with zeros
+ * to the block size anyway, so an empty key is the same as HashLen zeros
+ * (which is also what RFC 5869 prescribes for a missing salt).
+ */
+async function hmac(hash: HkdfHash, key: Uint8Array, data: Uint8Array): Promise<Uint8Array> {
+  const keyBytes = key.length > 0 ? new Uint8Array(key) : new Uint8Array(HASH_LENGTHS[hash]);
+  const dataBytes = new Uint8Array(data);
+  try {
+    const cryptoKey = await crypto.subtle.importKey(
+      'raw',
+      keyBytes,
+      { name: 'HMAC', hash },
+      false,
+      ['sign']
+    );
+    return new Uint8Array(await crypto.subtle.sign('HMAC', cryptoKey, dataBytes));
+  } finally {
+    zeroize(keyBytes, dataBytes);
   }
-
-  /**
-   * Truncate to the exact requested length.
-   * The extra bytes (if any) are discarded.
-   */
-  return output.slice(0, outputLength);
 }
 
 /**
@@ -12,44 +12,58 @@
  * │                    collectEntropy() Call                        │
  * ├─────────────────────────────────────────────────────────────────┤
  * │                                                                 │
- * │   ┌─────────┐  ┌─────────┐                                      │
- * │   │ Timing  │  │ Crypto  │  (+ future: quantum, audio, input)   │
- * │   │ Source  │  │ Source  │                                      │
- * │   └────┬────┘  └────┬────┘                                      │
- * │        │            │                                           │
- * │        └──────┬─────┘                                           │
+ * │   ┌────────┐ ┌────────┐ ┌────────┐ ┌────────┐ ┌────────┐        │
+ * │   │ Timing │ │ Crypto │ │Quantum │ │ Input  │ │ Audio  │  ...   │
+ * │   │        │ │        │ │(opt-in)│ │(opt-in)│ │(opt-in)│        │
+ * │   └───┬────┘ └───┬────┘ └───┬────┘ └───┬────┘ └───┬────┘        │
+ * │       │          │          │          │          │             │
+ * │       └───────┬──┴──────────┴──────────┴──────────┘             │
  * │               ▼                                                 │
  * │        ┌─────────────┐                                          │
- * │        │   Mixer     │  (SHA-256 based)                         │
+ * │        │   Mixer     │  (SHA-256 by default)                    │
  * │        └──────┬──────┘                                          │
  * │               ▼                                                 │
  * │        ┌─────────────┐                                          │
- * │        │  Expansion  │  (counter mode for more bytes)           │
+ * │        │  Expansion  │  (HKDF-Expand for more bytes)            │
  * │        └──────┬──────┘                                          │
  * │               ▼                                                 │
  * │            Output                                               │
  * └─────────────────────────────────────────────────────────────────┘
  * ```
  *
- * **Note:** This implementation is stateless - it does NOT maintain a persistent
- * entropy buffer that accumulates over time and depletes on extraction.
- * Each `collectEntropy()` call is independent. This is simpler and sufficient
- * for the coin flip use case where each flip requests fresh entropy.
+ * **Note:** `collectEntropy()` itself is stateless - it does NOT maintain a
+ * persistent entropy buffer that accumulates over time. Each call is
+ * independent. Callers that want flips served without the collection wait
+ * can run a persistent accumulator (`accumulator.ts`) and pass it as
+ * `options.accumulator`; once it is seeded, it answers instead.
+ *
+ * ## Sources
+ *
+ * The pool does not know about individual sources. Each sweep iterates over
+ * the `EntropySource` adapters from the registry (`registry.ts`), plus any
+ * built-ins enabled through option blocks and any per-call
+ * `options.sources`. See `resolveEntropySources()` for precedence.
  *
  * ## Collection Strategy
  *
  * We use an accumulation loop approach with **graceful degradation**:
  * 1. Perform sweeps of ALL available entropy sources in parallel
- * 2. Each source has its own timeout (sources that fail are silently skipped)
+ * 2. Each source has its own timeout (sources that fail are skipped)
+ *    and its raw output runs through SP 800-90B health tests (`health.ts`);
+ *    a source that fails them is excluded for the rest of the collection
  * 3. Accumulate entropy bits, targeting the level's targetBits goal
  * 4. Enforce minTimeMs as floor (keep collecting even if target met early)
  * 5. Enforce maxTimeMs as ceiling
- * 6. Mix all accumulated results together using SHA-256
+ * 6. Mix all accumulated results together (SHA-256 unless `options.mixer` is set)
  *
  * **Graceful Degradation:** If targetBits cannot be met within maxTimeMs,
  * we proceed with whatever entropy was collected (as long as at least one
- * source succeeded). This ensures the system works with "minimum viable
- * timer jitter" per ARCHITECTURE.md. Only if ALL sources fail do we throw.
+ * source succeeded) and flag the result with `stats.degraded = true`.
+ * This ensures the system works with "minimum viable timer jitter" per
+ * ARCHITECTURE.md. Only if ALL sources fail do we throw.
+ *
+ * **Strict Mode:** With `strict: true`, a missed target throws an
+ * `InsufficientEntropyError` instead of returning a degraded result.
  *
  * ## Quality Levels
  *
@@ -67,55 +81,63 @@
  *
  * ## Entropy Estimation
  *
- * Each source provides an estimate of the entropy it collected.
- * These estimates are conservative (underestimate rather than overestimate).
- * The pool tracks total estimated entropy for reporting purposes.
+ * Each source provides an estimate of the entropy it collected, but that is
+ * only a claim. The pool runs the SP 800-90B min-entropy estimators
+ * (`estimators.ts`) over each source's raw output and credits the source
+ * with the smaller of its claim and the measured estimate. `totalBits` (and
+ * therefore `targetBits`) counts credited bits; `claimedBits` keeps the sum
+ * of the claims for comparison.
+ *
+ * ## Observing Collection
+ *
+ * `options.hooks` reports each step as it happens: `onSweepStart`, one
+ * `onSourceResult` per source (with the error when it failed or timed out),
+ * `onDegraded` when the target is missed, and `onComplete` with the final
+ * stats. Hooks only observe; whatever they throw is dropped.
  */
 
-import { mixEntropy, expandEntropy } from './mixer';
-import {
-  collectTimingEntropy,
-} from './sources/timing';
-import {
-  collectCryptoEntropy,
-  isCryptoEntropyAvailable,
-} from './sources/crypto';
+import { mixEntropy, expandEntropy, deriveEntropy } from './mixer';
+import { createHealthMonitor } from './health';
+import { estimateMinEntropy, MAX_ESTIMATION_BYTES } from './estimators';
+import { createProvenanceRecorder, createAccumulatorProvenance } from './provenance';
+import { getRegisteredEntropySources } from './registry';
+import { createTimingEntropySource } from './sources/timing';
+import { createCryptoEntropySource } from './sources/crypto';
+import { createHardwareEntropySource } from './sources/hardware';
+import { createQuantumEntropySource } from './sources/quantum';
+import { createBeaconEntropySource } from './sources/beacon';
+import { createNodeEntropySource } from './sources/node';
+import { createInputEntropySource } from './sources/input';
+import { createAudioEntropySource } from './sources/audio';
+import { withTimeout } from './sources/timeout';
+import { zeroize, makeDisposable } from './zeroize';
+import { resolveEntropyLevel } from './levels';
+import { throwIfAborted, abortableSleep } from '../common/abort';
+import { FlipAbortedError } from '../common/errors';
 import type {
-  EntropyLevel,
+  EntropyHooks,
+  EntropyLabel,
   EntropyLevelConfig,
-  CryptoEntropyOptions,
-  TimingEntropyOptions,
   EntropyResult,
   EntropyPoolOptions,
+  EntropySource,
+  EntropySweepStartEvent,
   SourceResult,
 } from './types';
-import { EntropyCollectionFailedError } from './errors';
+import {
+  EntropyCollectionFailedError,
+  EntropyCollectionTimeoutError,
+  InsufficientEntropyError,
+} from './errors';
 
 /**
- * Preset configurations for each entropy level.
+ * The last estimate of one source's min-entropy rate, and how many bytes
+ * it had delivered when it was taken.
  */
-const ENTROPY_LEVEL_CONFIGS: Record<EntropyLevel, EntropyLevelConfig> = {
-  fast: {
-    minTimeMs: 100,
-    targetBits: 64,
-    maxTimeMs: 500,
-  },
-  standard: {
-    minTimeMs: 200,
-    targetBits: 128,
-    maxTimeMs: 1000,
-  },
-  high: {
-    minTimeMs: 500,
-    targetBits: 256,
-    maxTimeMs: 2000,
-  },
-  paranoid: {
-    minTimeMs: 2000,
-    targetBits: 512,
-    maxTimeMs: 5000,
-  },
-};
+interface SourceEstimate {
+  minEntropyPerBit: number;
+  deliveredBytes: number;
+}
 
 /**
  * Collects entropy from all available sources and returns mixed output.
@@ -136,13 +158,52 @@ const ENTROPY_LEVEL_CONFIGS: Record<EntropyLevel, EntropyLevelConfig> = {
  *
  * @param options Collection options
  * @returns Promise resolving to EntropyResult
+ * @throws InvalidEntropyLevelError if `options.level` is unknown or invalid
+ * @throws FlipAbortedError if `options.signal` aborts
  */
 export async function collectEntropy(
   options: EntropyPoolOptions = {}
 ): Promise<EntropyResult> {
-  const level = options.level ?? 'standard';
+  const { name: level, config } = resolveEntropyLevel(options.level ?? 'standard');
   const outputBytes = options.outputBytes ?? 64;
-  const config = ENTROPY_LEVEL_CONFIGS[level];
+
+  const { accumulator, prefetcher, signal, hooks } = options;
+  throwIfAborted(signal);
+
+  /**
+   * A prefetched result is a complete collection that already ran; taking
+   * it removes it from the queue, so it serves exactly this one request.
+   */
+  const prefetched = prefetcher?.take({
+    minBits: config.targetBits,
+    outputBytes,
+    provenance: options.provenance,
+    sources: options.sources,
+    mixer: options.mixer,
+    strict: options.strict,
+  });
+  if (prefetched) {
+    notify(() => hooks?.onComplete?.({ stats: prefetched.stats, servedBy: 'prefetcher', sweeps: 0 }));
+    return prefetched;
+  }
+
+  /**
+   * A seeded accumulator already did the collecting in the background.
+   * It only serves the request while its current key holds the level's
+   * targetBits, so neither a fresh accumulator nor a long-running 'fast' one
+   * silently weakens a 'high' flip. Check and read are one locked step: a
+   * concurrent flip that finds the credit spent collects inline below,
+   * where strict mode applies as usual.
+   */
+  const startedAt = new Date().toISOString();
+  const generated = await accumulator?.readIfCredited(outputBytes, config.targetBits);
+  if (generated) {
+    if (options.provenance) {
+      generated.provenance = await createAccumulatorProvenance(generated, startedAt);
+    }
+    notify(() => hooks?.onComplete?.({ stats: generated.stats, servedBy: 'accumulator', sweeps: 0 }));
+    return generated;
+  }
 
   const startTime = performance.now();
 
@@ -150,247 +211,441 @@ export async function collectEntropy(
    * Accumulate entropy until we reach the target OR hit max time.
    * We keep collecting in sweeps until requirements are met.
    */
-  const allResults: SourceResult[] = [];
+  let sources = resolveEntropySources(options);
+  const sourceNames = sources.map((source) => source.name);
+  const health = createHealthMonitor();
+  const recorder = options.provenance ? createProvenanceRecorder() : undefined;
+  let allResults: SourceResult[] = [];
   let totalBits = 0;
+  let degraded = false;
+  let sweeps = 0;
+  const sourcesTried = new Set<string>();
 
-  while (true) {
-    const elapsed = performance.now() - startTime;
+  /**
+   * Our copy of every buffer a source handed over, kept or discarded: all of
+   * them are wiped when the collection ends, however it ends.
+   */
+  const received: Uint8Array[] = [];
+
+  /**
+   * Credited bits per source, from the min-entropy estimators.
+   * Larger samples give tighter (less pessimistic) estimates, so a source's
+   * rate is re-estimated as it delivers more, but only once its output has
+   * doubled since the last estimate, and only over its last
+   * MAX_ESTIMATION_BYTES. Long collections thus cost linear CPU, not
+   * quadratic; in between, the last rate is applied to the new total.
+   */
+  const credits = new Map<string, number>();
+  const estimates = new Map<string, SourceEstimate>();
+
+  try {
+    while (true) {
+      throwIfAborted(signal);
+      const elapsed = performance.now() - startTime;
 
-    /**
-     * Check if we've exceeded max time.
-     * Only throw if we've exhausted all attempts AND have no entropy.
-     * This implements graceful degradation per ARCHITECTURE.md.
-     */
-    if (elapsed >= config.maxTimeMs) {
       /**
-       * Critical failure: no sources succeeded after exhausting time budget.
-       * This should be rare since timer jitter is always available.
+       * Check if we've exceeded max time.
+       * Only throw if we've exhausted all attempts AND have no entropy.
+       * This implements graceful degradation per ARCHITECTURE.md.
        */
-      if (allResults.length === 0) {
-        throw new EntropyCollectionFailedError(config.maxTimeMs);
+      if (elapsed >= config.maxTimeMs) {
+        /**
+         * Critical failure: no sources succeeded after exhausting time budget.
+         * This should be rare since timer jitter is always available.
+         */
+        if (allResults.length === 0) {
+          throw new EntropyCollectionFailedError(config.maxTimeMs);
+        }
+
+        /**
+         * We have some entropy but didn't meet target bits.
+         * Per ARCHITECTURE.md: work with whatever is available, unless the
+         * caller asked for strict mode.
+         */
+        if (totalBits < config.targetBits) {
+          if (options.strict) {
+            throw new InsufficientEntropyError(totalBits, config.targetBits, [...sourcesTried]);
+          }
+
+          /**
+           * Graceful degradation rationale:
+           * - Liveness beats perfection: returning slightly less entropy is better
+           *   than blocking the caller indefinitely.
+           * - Minimum viable entropy is guaranteed by the timer source, so the
+           *   result is still unpredictable even if the target was missed.
+           *
+           * Example: Target = 128 bits, collected = 96 bits when maxTimeMs hit.
+           * -> We still mix and expand the 96 bits because the flip must proceed.
+           * -> The result carries `degraded: true` so the shortfall is visible.
+           */
+          degraded = true;
+          notify(() => hooks?.onDegraded?.({
+            totalBits,
+            targetBits: config.targetBits,
+            sourcesTried: [...sourcesTried],
+            elapsedMs: elapsed,
+          }));
+        }
+        break;
       }
 
       /**
-       * We have some entropy but didn't meet target bits.
-       * Per ARCHITECTURE.md: work with whatever is available.
-       * Log a warning but don't fail - graceful degradation.
+       * Check if we've met both requirements:
+       * 1. Collected enough entropy bits
+       * 2. Spent at least the minimum time
+       */
+      if (totalBits >= config.targetBits && elapsed >= config.minTimeMs) {
+        break;
+      }
+
+      /**
+       * Perform a sweep of all sources.
+       * Calculate remaining time for this sweep's timeout.
+       */
+      const remainingTime = config.maxTimeMs - elapsed;
+      sweeps++;
+      const sweepResults = await performEntropySweep(sources, config, remainingTime, signal, hooks, {
+        sweep: sweeps,
+        totalBits,
+        elapsedMs: elapsed,
+      });
+
+      /**
+       * Accumulate successful results.
+       * Failed sources are skipped per ARCHITECTURE.md (hooks have seen why).
+       *
+       * Every result also goes through the continuous health tests. A source
+       * that fails is dropped from later sweeps, and everything it contributed
+       * earlier in this collection is discarded too: once it is known broken,
+       * its earlier output can't be trusted either.
+       */
+      const updated = new Set<string>();
+      for (const result of sweepResults) {
+        sourcesTried.add(result.name);
+        recorder?.record(result);
+        if (!result.success) {
+          continue;
+        }
+        received.push(result.bytes);
+
+        const source = sources.find((candidate) => candidate.name === result.name);
+        if (health.check(result, source?.assessedEntropyPerByte)) {
+          sources = sources.filter((source) => source.name !== result.name);
+          allResults = allResults.filter((r) => r.name !== result.name);
+          credits.delete(result.name);
+          estimates.delete(result.name);
+          recorder?.discard(result.name);
+          continue;
+        }
+
+        allResults.push(result);
+        recorder?.accept(result);
+        updated.add(result.name);
+      }
+
+      /**
+       * Credit each source with min(claimed, measured), not the claim alone.
+       */
+      for (const name of updated) {
+        const results = allResults.filter((r) => r.name === name);
+        const deliveredBytes = results.reduce((sum, r) => sum + r.bytes.length, 0);
+        const claimedBits = results.reduce((sum, r) => sum + r.estimatedBits, 0);
+        if (deliveredBytes === 0 || claimedBits <= 0) {
+          credits.set(name, 0);
+          continue;
+        }
+
+        let estimate = estimates.get(name);
+        if (!estimate || deliveredBytes >= 2 * estimate.deliveredBytes) {
+          const window = tailBytes(results.map((r) => r.bytes), MAX_ESTIMATION_BYTES);
+          estimate = { minEntropyPerBit: estimateMinEntropy(window).minEntropyPerBit, deliveredBytes };
+          estimates.set(name, estimate);
+          zeroize(window);
+        }
+        credits.set(name, Math.min(claimedBits, Math.floor(deliveredBytes * 8 * estimate.minEntropyPerBit)));
+      }
+      totalBits = [...credits.values()].reduce((sum, bits) => sum + bits, 0);
+
+      /**
+       * Small delay before next sweep to avoid busy-looping.
+       * This also gives the OS entropy pool time to replenish.
+       * Continue trying even if this sweep had no successes - another
+       * sweep might succeed (graceful degradation principle).
        */
       if (totalBits < config.targetBits) {
-        /**
-         * Graceful degradation rationale:
-         * - Liveness beats perfection: returning slightly less entropy is better
-         *   than blocking the caller indefinitely.
-         * - Minimum viable entropy is guaranteed by the timer source, so the
-         *   result is still unpredictable even if the target was missed.
-         *
-         * Example: Target = 128 bits, collected = 96 bits when maxTimeMs hit.
-         * -> We still mix and expand the 96 bits because the flip must proceed.
-         * -> In production we would emit a warning metric/log to surface the
-         *    entropy shortfall for operational visibility.
-         */
+        await abortableSleep(10, signal);
       }
-      break;
     }
 
     /**
-     * Check if we've met both requirements:
-     * 1. Collected enough entropy bits
-     * 2. Spent at least the minimum time
+     * If we still haven't met minimum time, wait.
+     * This ensures consistent timing behavior.
      */
-    if (totalBits >= config.targetBits && elapsed >= config.minTimeMs) {
-      break;
+    const elapsed = performance.now() - startTime;
+    if (elapsed < config.minTimeMs) {
+      await abortableSleep(config.minTimeMs - elapsed, signal);
     }
 
     /**
-     * Perform a sweep of all sources.
-     * Calculate remaining time for this sweep's timeout.
+     * Mix all accumulated entropy together.
      */
-    const remainingTime = config.maxTimeMs - elapsed;
-    const sweepResults = await performEntropySweep(options, config, remainingTime);
+    const sourceBytes = allResults.map((r) => r.bytes);
+    const mixedEntropy = await mixEntropy(sourceBytes, options.mixer);
 
     /**
-     * Accumulate successful results.
-     * Failed sources are silently skipped per ARCHITECTURE.md.
+     * Expand the mixed entropy to the requested output size.
      */
-    for (const result of sweepResults) {
-      if (result.success) {
-        allResults.push(result);
-        totalBits += result.estimatedBits;
-      }
-    }
+    const expandedEntropy = await expandEntropy(mixedEntropy, outputBytes);
+    zeroize(mixedEntropy);
+
+    const endTime = performance.now();
 
     /**
-     * Small delay before next sweep to avoid busy-looping.
-     * This also gives the OS entropy pool time to replenish.
-     * Continue trying even if this sweep had no successes - another
-     * sweep might succeed (graceful degradation principle).
+     * Deduplicate source names for stats (a source may have contributed multiple times).
      */
-    if (totalBits < config.targetBits) {
-      await sleep(10);
-    }
-  }
+    const sourcesUsed = [...new Set(allResults.map((r) => r.name))];
 
-  /**
-   * If we still haven't met minimum time, wait.
-   * This ensures consistent timing behavior.
-   */
-  const elapsed = performance.now() - startTime;
-  if (elapsed < config.minTimeMs) {
-    await sleep(config.minTimeMs - elapsed);
-  }
-
-  /**
-   * Mix all accumulated entropy together.
-   */
-  const sourceBytes = allResults.map((r) => r.bytes);
-  const mixedEntropy = await mixEntropy(sourceBytes);
-
-  /**
-   * Expand the mixed entropy to the requested output size.
-   */
-  const expandedEntropy = await expandEntropy(mixedEntropy, outputBytes);
-
-  const endTime = performance.now();
-
-  /**
-   * Deduplicate source names for stats (a source may have contributed multiple times).
-   */
-  const sourcesUsed = [...new Set(allResults.map((r) => r.name))];
-
-  return {
-    bytes: expandedEntropy,
-    stats: {
+    const stats = {
       totalBits,
+      claimedBits: allResults.reduce((sum, r) => sum + r.estimatedBits, 0),
       collectionTimeMs: endTime - startTime,
       sourcesUsed,
       level,
-    },
-  };
+      levelConfig: config,
+      healthErrors: health.getFailures(),
+      degraded,
+    };
+
+    const result: EntropyResult = makeDisposable({ bytes: expandedEntropy, stats });
+    if (recorder) {
+      result.provenance = await recorder.finish({
+        ...stats,
+        startedAt,
+        sourceNames,
+        credits,
+        output: expandedEntropy,
+      });
+    }
+
+    notify(() => hooks?.onComplete?.({ stats, servedBy: 'sweep', sweeps }));
+    return result;
+  } finally {
+    zeroize(...received);
+  }
 }
 
 /**
  * Performs a single sweep of all available entropy sources.
  *
  * Each source is queried in parallel with per-source timeouts.
- * Failed sources are silently skipped.
+ * Failed sources come back as unsuccessful results carrying their error;
+ * `hooks.onSourceResult` sees each result as soon as its source settles.
  *
- * @param options User-provided options
+ * @param sources Sources to sweep (see resolveEntropySources)
  * @param config Level-specific configuration
  * @param maxSweepTime Maximum time for this sweep (based on remaining time budget)
+ * @param signal Optional AbortSignal, passed to every source
+ * @param hooks Optional lifecycle hooks (onSweepStart, onSourceResult)
+ * @param progress Sweep number and collection state reported to the hooks
  * @returns Array of source results (including failed ones)
+ * @throws FlipAbortedError if the signal aborts during the sweep
  */
-async function performEntropySweep(
-  options: EntropyPoolOptions,
+export async function performEntropySweep(
+  sources: EntropySource[],
   config: EntropyLevelConfig,
-  maxSweepTime: number
+  maxSweepTime: number,
+  signal?: AbortSignal,
+  hooks?: EntropyHooks,
+  progress: Omit<EntropySweepStartEvent, 'sources'> = { sweep: 1, totalBits: 0, elapsedMs: 0 }
 ): Promise<SourceResult[]> {
-  const sourcePromises: Promise<SourceResult>[] = [];
+  const available = sources.filter((source) => source.isAvailable());
+  notify(() => hooks?.onSweepStart?.({ ...progress, sources: available.map((source) => source.name) }));
 
-  /**
-   * Timing source: Always available.
-   * Request enough samples to contribute meaningfully toward target.
-   */
-  const timingSamples = Math.max(Math.ceil(config.targetBits / 4), 64);
-  const timingTimeout = Math.min(
-    options.timingOptions?.timeoutMs ?? 200,
-    maxSweepTime
-  );
-
-  sourcePromises.push(
-    collectFromTimingSource({
-      ...options.timingOptions,
-      sampleCount: timingSamples,
-      timeoutMs: timingTimeout,
-    })
-  );
+  const sourcePromises = available.map(async (source) => {
+    const result = await collectFromSource(
+      source,
+      config.targetBits,
+      Math.min(source.timeoutMs, maxSweepTime),
+      signal
+    );
+    notify(() => hooks?.onSourceResult?.({
+      sweep: progress.sweep,
+      name: result.name,
+      bits: result.estimatedBits,
+      durationMs: result.durationMs ?? 0,
+      success: result.success,
+      ...(result.error && { error: result.error }),
+    }));
+    return result;
+  });
 
   /**
-   * Crypto source: Available in modern browsers and Node.js.
+   * Every source promise resolves (failures become unsuccessful results),
+   * so this waits for the slowest source, which is capped by maxSweepTime.
+   * The only rejection is an abort, which ends the sweep right away.
    */
-  if (isCryptoEntropyAvailable()) {
-    const cryptoBytes = Math.max(Math.ceil(config.targetBits / 8), 16);
-    const cryptoTimeout = Math.min(
-      options.cryptoOptions?.timeoutMs ?? 100,
-      maxSweepTime
-    );
+  return Promise.all(sourcePromises);
+}
 
-    sourcePromises.push(
-      collectFromCryptoSource({
-        ...options.cryptoOptions,
-        byteCount: cryptoBytes,
-        timeoutMs: cryptoTimeout,
-      })
-    );
+/**
+ * Builds the list of sources for one collection.
+ *
+ * Order of precedence (later entries replace earlier ones with the same name):
+ * 1. Registered sources (timing and crypto by default)
+ * 2. Built-in sources configured through their legacy option blocks
+ *    (`timingOptions`, `cryptoOptions`, `quantumOptions`, `beaconOptions`, ...)
+ * 3. Extra sources passed through `options.sources`
+ *
+ * Example: `{ timingOptions: { timeoutMs: 50 } }` swaps the registered timing
+ * source for one with a 50ms budget, for this call only.
+ */
+export function resolveEntropySources(options: EntropyPoolOptions): EntropySource[] {
+  const sources = new Map<string, EntropySource>();
+
+  for (const source of getRegisteredEntropySources()) {
+    sources.set(source.name, source);
   }
 
   /**
-   * Wait for all sources to complete (or fail).
+   * Option blocks only override built-ins that are still registered, so an
+   * unregistered timing source stays unregistered even if options mention it.
    */
-  const settledResults = await Promise.allSettled(sourcePromises);
+  if (options.timingOptions && sources.has('timing')) {
+    sources.set('timing', createTimingEntropySource(options.timingOptions));
+  }
 
-  const results: SourceResult[] = [];
-  for (const result of settledResults) {
-    if (result.status === 'fulfilled') {
-      results.push(result.value);
-    }
+  if (options.cryptoOptions && sources.has('crypto')) {
+    sources.set('crypto', createCryptoEntropySource(options.cryptoOptions));
+  }
+
+  if (options.nodeOptions) {
+    sources.set('node', createNodeEntropySource(options.nodeOptions));
+  }
+
+  if (options.hardwareOptions) {
+    sources.set('hardware', createHardwareEntropySource(options.hardwareOptions));
+  }
+
+  if (options.quantumOptions) {
+    sources.set('quantum', createQuantumEntropySource(options.quantumOptions));
+  }
+
+  if (options.beaconOptions) {
+    sources.set('beacon', createBeaconEntropySource(options.beaconOptions));
+  }
+
+  if (options.inputOptions) {
+    sources.set('input', createInputEntropySource(options.inputOptions));
+  }
+
+  if (options.audioOptions) {
+    sources.set('audio', createAudioEntropySource(options.audioOptions));
+  }
+
+  for (const source of options.sources ?? []) {
+    sources.set(source.name, source);
   }
 
-  return results;
+  return [...sources.values()];
 }
 
 /**
- * Collects entropy from the timing source with error handling.
+ * Collects entropy from a single source with error handling.
+ *
+ * The pool enforces the timeout itself, so a third-party source that ignores
+ * its budget cannot stall the sweep. Any error, including a timeout, turns
+ * into an unsuccessful result that the accumulation loop skips; the error
+ * stays on the result for hooks to report.
+ *
+ * An abort is the exception: it is not the source's failure, so it
+ * propagates as FlipAbortedError and ends the whole collection.
+ *
+ * The bytes are copied on receipt. The pool wipes its copy once used and
+ * leaves the source's buffer alone, since a source may cache or share it.
  */
-async function collectFromTimingSource(
-  options: TimingEntropyOptions
+async function collectFromSource(
+  source: EntropySource,
+  targetBits: number,
+  timeoutMs: number,
+  signal?: AbortSignal
 ): Promise<SourceResult> {
+  const startTime = performance.now();
   try {
-    const result = await collectTimingEntropy(options);
+    const result = await withTimeout(
+      () => source.collect({ targetBits, timeoutMs, signal }),
+      timeoutMs,
+      new EntropyCollectionTimeoutError(source.name, timeoutMs),
+      signal
+    );
     return {
-      name: 'timing',
-      bytes: result.bytes,
+      name: source.name,
+      bytes: result.bytes.slice(),
       estimatedBits: result.estimatedBits,
       success: true,
+      durationMs: performance.now() - startTime,
+      ...(result.metadata && { metadata: { ...result.metadata } }),
     };
-  } catch {
+  } catch (error) {
+    if (error instanceof FlipAbortedError) {
+      throw error;
+    }
+    if (signal?.aborted) {
+      throw new FlipAbortedError(signal.reason);
+    }
     return {
-      name: 'timing',
+      name: source.name,
       bytes: new Uint8Array(0),
       estimatedBits: 0,
       success: false,
+      durationMs: performance.now() - startTime,
+      error: error instanceof Error ? error : new Error(String(error)),
     };
   }
 }
 
 /**
- * Collects entropy from the crypto source with error handling.
+ * Calls a hook, dropping anything it throws: a broken telemetry callback
+ * must not fail the collection it observes.
  */
-async function collectFromCryptoSource(
-  options: CryptoEntropyOptions
-): Promise<SourceResult> {
+function notify(callHook: () => void): void {
   try {
-    const result = await collectCryptoEntropy(options);
-    return {
-      name: 'crypto',
-      bytes: result.bytes,
-      estimatedBits: result.estimatedBits,
-      success: true,
-    };
+    callHook();
   } catch {
-    return {
-      name: 'crypto',
-      bytes: new Uint8Array(0),
-      estimatedBits: 0,
-      success: false,
-    };
+    // Deliberately ignored, see above.
   }
 }
 
 /**
- * Sleeps for the specified duration.
+ * Concatenates the last `maxBytes` bytes of byte arrays in order, copying
+ * only the arrays that reach into them.
  */
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+function tailBytes(parts: Uint8Array[], maxBytes: number): Uint8Array {
+  const tail: Uint8Array[] = [];
+  let length = 0;
+  for (let i = parts.length - 1; i >= 0 && length < maxBytes; i--) {
+    tail.unshift(parts[i]!);
+    length += parts[i]!.length;
+  }
+  const joined = concatBytes(tail);
+  if (joined.length <= maxBytes) {
+    return joined;
+  }
+  const window = joined.slice(joined.length - maxBytes);
+  zeroize(joined);
+  return window;
+}
+
+/**
+ * Concatenates byte arrays in order.
+ */
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
 }
 
 /**
@@ -399,22 +654,23 @@ function sleep(ms: number): Promise<void> {
  * This is used by the debug API to provide manual entropy seeds
  * for deterministic replay of simulations.
  *
+ * The seed goes through full HKDF (Extract, then Expand), so biased or
+ * short seeds still give uniform output, and each `info` label gives its
+ * own stream from the same seed.
+ *
+ * Example:
+ * → await fromSeed(seed, 64, 'launch')
+ * → await fromSeed(seed, 64, 'perturbation')   (unrelated to the above)
+ *
  * @param seed The seed bytes (should be at least 32 bytes)
- * @param outputBytes Desired output length
+ * @param outputBytes Desired output length (at most 8160)
+ * @param info Stream label. Default: none
  * @returns Promise resolving to expanded seed bytes
  */
 export async function fromSeed(
   seed: Uint8Array,
-  outputBytes: number = 64
+  outputBytes: number = 64,
+  info: EntropyLabel | '' = ''
 ): Promise<Uint8Array> {
-  /**
-   * Mix the seed to ensure uniform distribution.
-   * This handles cases where the seed might have biased bytes.
-   */
-  const mixed = await mixEntropy([seed]);
-
-  /**
-   * Expand to the requested size.
-   */
-  return expandEntropy(mixed, outputBytes);
+  return deriveEntropy(seed, info, outputBytes);
 }
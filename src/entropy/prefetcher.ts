@@ -0,0 +1,217 @@
+/**
+ * Background entropy prefetcher.
+ *
+ * ## Why?
+ *
+ * Every `flipCoin()` attempt, edge retries included, calls `collectEntropy()`
+ * and waits at least the level's `minTimeMs`. The accumulator avoids the
+ * wait by generating output from a seeded key; the prefetcher avoids it
+ * without changing what a result is: each queued result is an ordinary,
+ * complete `collectEntropy()` run, just finished before it was needed.
+ *
+ * ```
+ *   background: collectEntropy() ──► [ r1 | r2 | r3 | r4 ]  (capacity 4)
+ *                                        │
+ *   flipCoin({ entropyPrefetcher }) ◄────┘ take(), else collect inline
+ * ```
+ *
+ * ## Exactly Once
+ *
+ * take() removes the result from the queue before returning it, and the
+ * queue is the only reference the prefetcher keeps. Two flips can never
+ * share a result, so neither can predict the other's initial conditions.
+ *
+ * ## Requirements
+ *
+ * A result only serves a request it is good enough for: take() skips
+ * results below the request's `minBits`, of a different `outputBytes`,
+ * without provenance when the request asks for it, or degraded when the
+ * request is strict. The whole queue is off limits to a request for extra
+ * sources the prefetcher doesn't sweep, or for a different mixer.
+ * Configure the prefetcher with the level, sources and mixer you flip
+ * with; a 'fast' queue can't serve a 'high' flip, which then collects
+ * inline.
+ *
+ * ## Lifecycle
+ *
+ * Collection only runs between `start()` and `stop()`. `stop()` aborts the
+ * in-flight collection and resolves once it has settled, so tests can await
+ * it and leave no timers behind. It also disposes of the queued results: a
+ * stopped prefetcher holds no entropy, so none lingers on the heap.
+ */
+
+import { collectEntropy } from './pool';
+import { resolveEntropyLevel } from './levels';
+import { getMixer } from './mixer';
+import { DISPOSE } from './zeroize';
+import { FlipAbortedError } from '../common/errors';
+import type {
+  EntropyPrefetcher,
+  EntropyPrefetcherOptions,
+  EntropyPrefetcherStats,
+  EntropyPrefetchRequirements,
+  EntropyResult,
+} from './types';
+
+/**
+ * Default configuration values.
+ */
+const DEFAULT_CAPACITY = 4;
+const DEFAULT_RETRY_DELAY_MS = 100;
+
+/**
+ * Creates a background entropy prefetcher.
+ *
+ * Example:
+ * ```typescript
+ * const prefetcher = createEntropyPrefetcher({ level: 'standard', capacity: 8 });
+ * prefetcher.start();
+ *
+ * // Served from the queue when a result is ready, inline otherwise.
+ * const result = await flipCoin({ entropyPrefetcher: prefetcher });
+ *
+ * await prefetcher.stop();
+ * ```
+ *
+ * @param options Queue and collection configuration
+ * @returns A stopped prefetcher; call start() to begin collecting
+ * @throws RangeError if capacity is not a positive integer, or the mixer is invalid
+ * @throws InvalidEntropyLevelError if `options.level` is unknown or invalid
+ */
+export function createEntropyPrefetcher(
+  options: EntropyPrefetcherOptions = {}
+): EntropyPrefetcher {
+  const { capacity = DEFAULT_CAPACITY, retryDelayMs = DEFAULT_RETRY_DELAY_MS, ...collectOptions } = options;
+
+  if (!Number.isInteger(capacity) || capacity < 1) {
+    throw new RangeError(`capacity must be a positive integer, got ${capacity}`);
+  }
+
+  /**
+   * Fail on a bad level now, not silently on every background attempt.
+   */
+  resolveEntropyLevel(collectOptions.level ?? 'standard');
+  const mixer = getMixer(collectOptions.mixer);
+  const sources = new Set(collectOptions.sources);
+
+  const queue: EntropyResult[] = [];
+  let collected = 0;
+  let served = 0;
+  let misses = 0;
+  let failures = 0;
+
+  let running = false;
+  let generation = 0;
+  let controller: AbortController | undefined;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let wakeUp: (() => void) | undefined;
+  let loop: Promise<void> | undefined;
+
+  /**
+   * Sleeps until take() or stop() wakes the loop, or delayMs passes
+   * (forever if undefined).
+   */
+  const pause = async (delayMs?: number): Promise<void> => {
+    await new Promise<void>((resolve) => {
+      wakeUp = resolve;
+      if (delayMs !== undefined) {
+        timer = setTimeout(resolve, delayMs);
+      }
+    });
+    clearTimeout(timer);
+    timer = undefined;
+    wakeUp = undefined;
+  };
+
+  /**
+   * Collects while there is room in the queue, pauses while it is full.
+   * The generation check stops an old loop that is still finishing its
+   * collection when stop() and start() are called back to back.
+   */
+  const runLoop = async (loopGeneration: number, signal: AbortSignal): Promise<void> => {
+    while (running && loopGeneration === generation) {
+      if (queue.length >= capacity) {
+        await pause();
+        continue;
+      }
+
+      try {
+        const result = await collectEntropy({ ...collectOptions, signal });
+        queue.push(result);
+        collected++;
+      } catch (error) {
+        if (error instanceof FlipAbortedError && signal.aborted) {
+          break;
+        }
+        failures++;
+        await pause(retryDelayMs);
+      }
+    }
+  };
+
+  return {
+    start(): void {
+      if (running) {
+        return;
+      }
+      running = true;
+      generation++;
+      controller = new AbortController();
+      loop = runLoop(generation, controller.signal);
+    },
+
+    async stop(): Promise<void> {
+      running = false;
+      controller?.abort();
+      wakeUp?.();
+      await loop;
+      for (const result of queue.splice(0)) {
+        result[DISPOSE]();
+      }
+    },
+
+    isRunning(): boolean {
+      return running;
+    },
+
+    take(requirements: EntropyPrefetchRequirements = {}): EntropyResult | undefined {
+      const { minBits = 0, outputBytes, provenance = false, strict = false } = requirements;
+
+      /**
+       * Every queued result was collected with the same sources and mixer,
+       * so these two rule out the whole queue.
+       */
+      const collectedAlike =
+        (requirements.sources ?? []).every((source) => sources.has(source)) &&
+        (requirements.mixer === undefined || getMixer(requirements.mixer) === mixer);
+
+      const index = !collectedAlike ? -1 : queue.findIndex((result) =>
+        result.stats.totalBits >= minBits &&
+        (outputBytes === undefined || result.bytes.length === outputBytes) &&
+        (!provenance || result.provenance !== undefined) &&
+        (!strict || !result.stats.degraded)
+      );
+
+      if (index === -1) {
+        misses++;
+        return undefined;
+      }
+
+      const [result] = queue.splice(index, 1);
+      served++;
+      wakeUp?.();
+      return result;
+    },
+
+    getStats(): EntropyPrefetcherStats {
+      return {
+        capacity,
+        queued: queue.length,
+        collected,
+        served,
+        misses,
+        failures,
+      };
+    },
+  };
+}
@@ -0,0 +1,256 @@
+/**
+ * Opt-in audit trail for entropy collection.
+ *
+ * ## Why?
+ *
+ * `EntropyStats.sourcesUsed` says which sources contributed, but not how
+ * much, how fast, or what happened to the ones that didn't. For a flip that
+ * has to be defended later (a draw, a tie-break, a compliance archive) we
+ * want a record of every source that was considered:
+ *
+ * → crypto:   contributed, 3 results, 96 bytes, 768 bits claimed, health passed
+ * → quantum:  failed, 1 attempt, 5000ms (timed out)
+ * → audio:    unavailable
+ *
+ * Each contribution is committed to with SHA-256, which identifies it
+ * without revealing it. The pool wipes source output once it is mixed and
+ * keeps no copy, so the record alone can't be opened. What the commitments
+ * do give:
+ *
+ * - **Distinctness**: equal commitments mean equal bytes, so a source that
+ *   replays the same output across collections shows up in the archive.
+ * - **Checks on the source side**: a source that keeps its own copy of what
+ *   it returns (a custom source, a logged hardware device) can be matched
+ *   against the record later.
+ * - **The output**: `outputCommitment` covers `EntropyResult.bytes`, which
+ *   the caller does receive and can check before disposing of them.
+ *
+ * ## Cost
+ *
+ * Recording only runs when asked for (`provenance: true`): one SHA-256 per
+ * contribution, computed once at the end of the collection.
+ */
+
+import type {
+  EntropyLevelName,
+  EntropyProvenance,
+  EntropyResult,
+  SourceProvenance,
+  SourceResult,
+} from './types';
+import type { EntropySourceHealthError } from './errors';
+import { bytesToHex } from './hex';
+import { zeroize } from './zeroize';
+
+/**
+ * Collects the per-source facts of one collection as it runs.
+ */
+export interface ProvenanceRecorder {
+  /**
+   * Records a collect() call, successful or not.
+   */
+  record(result: SourceResult): void;
+
+  /**
+   * Records a result that went into the mix.
+   */
+  accept(result: SourceResult): void;
+
+  /**
+   * Drops everything a source contributed (it failed a health test).
+   */
+  discard(name: string): void;
+
+  /**
+   * Builds the final record, hashing every contribution.
+   */
+  finish(summary: ProvenanceSummary): Promise<EntropyProvenance>;
+}
+
+/**
+ * Collection-wide facts known only at the end.
+ */
+export interface ProvenanceSummary {
+  level: EntropyLevelName;
+  startedAt: string;
+  collectionTimeMs: number;
+  totalBits: number;
+  claimedBits: number;
+  degraded: boolean;
+
+  /**
+   * Names of every source resolved for the collection, in sweep order.
+   */
+  sourceNames: string[];
+
+  /**
+   * Credited bits per contributing source.
+   */
+  credits: Map<string, number>;
+
+  healthErrors: EntropySourceHealthError[];
+
+  /**
+   * The final output bytes.
+   */
+  output: Uint8Array;
+}
+
+/**
+ * Per-source running totals.
+ */
+interface SourceRecord {
+  attempts: number;
+  collectionTimeMs: number;
+  accepted: SourceResult[];
+}
+
+/**
+ * Creates a recorder with no sources seen yet.
+ *
+ * @returns A new ProvenanceRecorder
+ */
+export function createProvenanceRecorder(): ProvenanceRecorder {
+  const records = new Map<string, SourceRecord>();
+
+  const recordFor = (name: string): SourceRecord => {
+    let record = records.get(name);
+    if (!record) {
+      record = { attempts: 0, collectionTimeMs: 0, accepted: [] };
+      records.set(name, record);
+    }
+    return record;
+  };
+
+  return {
+    record(result: SourceResult): void {
+      const record = recordFor(result.name);
+      record.attempts++;
+      record.collectionTimeMs += result.durationMs ?? 0;
+    },
+
+    accept(result: SourceResult): void {
+      recordFor(result.name).accepted.push(result);
+    },
+
+    discard(name: string): void {
+      recordFor(name).accepted = [];
+    },
+
+    async finish(summary: ProvenanceSummary): Promise<EntropyProvenance> {
+      const sources: SourceProvenance[] = [];
+
+      for (const name of summary.sourceNames) {
+        const record = records.get(name);
+        const failure = summary.healthErrors.find((error) => error.source === name);
+        const accepted = record?.accepted ?? [];
+
+        let status: SourceProvenance['status'] = 'unavailable';
+        if (failure) {
+          status = 'unhealthy';
+        } else if (accepted.length > 0) {
+          status = 'contributed';
+        } else if (record && record.attempts > 0) {
+          status = 'failed';
+        }
+
+        const contributions = [];
+        for (const result of accepted) {
+          contributions.push({
+            bytes: result.bytes.length,
+            estimatedBits: result.estimatedBits,
+            durationMs: result.durationMs ?? 0,
+            commitment: await commit(result.bytes),
+            ...(result.metadata && { metadata: result.metadata }),
+          });
+        }
+
+        sources.push({
+          name,
+          status,
+          health: failure ? failure.test : status === 'contributed' ? 'passed' : 'untested',
+          attempts: record?.attempts ?? 0,
+          bytes: contributions.reduce((sum, c) => sum + c.bytes, 0),
+          estimatedBits: contributions.reduce((sum, c) => sum + c.estimatedBits, 0),
+          creditedBits: summary.credits.get(name) ?? 0,
+          collectionTimeMs: record?.collectionTimeMs ?? 0,
+          contributions,
+        });
+      }
+
+      return {
+        version: 1,
+        mode: 'inline',
+        level: summary.level,
+        startedAt: summary.startedAt,
+        collectionTimeMs: summary.collectionTimeMs,
+        totalBits: summary.totalBits,
+        claimedBits: summary.claimedBits,
+        degraded: summary.degraded,
+        sources,
+        outputCommitment: await commit(summary.output),
+      };
+    },
+  };
+}
+
+/**
+ * Builds the record for a request served by an accumulator.
+ *
+ * @param result The accumulator's result
+ * @param startedAt When the request started, ISO 8601
+ * @returns Record with mode 'accumulator' and no per-source entries
+ */
+export async function createAccumulatorProvenance(
+  result: EntropyResult,
+  startedAt: string
+): Promise<EntropyProvenance> {
+  return {
+    version: 1,
+    mode: 'accumulator',
+    level: result.stats.level,
+    startedAt,
+    collectionTimeMs: result.stats.collectionTimeMs,
+    totalBits: result.stats.totalBits,
+    claimedBits: result.stats.claimedBits,
+    degraded: result.stats.degraded,
+    sources: [],
+    outputCommitment: await commit(result.bytes),
+  };
+}
+
+/**
+ * Returns a copy of the record without any SHA-256 commitment, for flips
+ * with `redactSeed`. Everything else is kept.
+ *
+ * @param provenance The full record
+ * @returns The record without `outputCommitment` and contribution commitments
+ */
+export function redactProvenance(provenance: EntropyProvenance): EntropyProvenance {
+  const record: EntropyProvenance = {
+    ...provenance,
+    sources: provenance.sources.map((source) => ({
+      ...source,
+      contributions: source.contributions.map((contribution) => {
+        const redacted = { ...contribution };
+        delete redacted.commitment;
+        return redacted;
+      }),
+    })),
+  };
+  delete record.outputCommitment;
+  return record;
+}
+
+/**
+ * SHA-256 of the bytes, hex encoded. Web Crypto takes ArrayBuffer-backed
+ * views only, so it hashes a copy, which is wiped afterwards.
+ */
+async function commit(bytes: Uint8Array): Promise<string> {
+  const copy = new Uint8Array(bytes);
+  try {
+    return bytesToHex(new Uint8Array(await crypto.subtle.digest('SHA-256', copy)));
+  } finally {
+    zeroize(copy);
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Entropy source registry.
+ *
+ * The pool no longer knows about individual sources. Instead, every sweep
+ * iterates over the sources registered here, plus any extra sources passed
+ * per call through `EntropyPoolOptions.sources`.
+ *
+ * ## Default Registrations
+ *
+ * | Source   | Quality | Timeout | Why registered by default          |
+ * |----------|---------|---------|------------------------------------|
+ * | `timing` | 3 of 5  | 200ms   | Always available, minimum fallback |
+ * | `crypto` | 4 of 5  | 100ms   | Available in all modern runtimes   |
+ *
+ * Sources that need configuration (network, event target, sample provider)
+ * are never registered by default; callers create them with their factory
+ * (`createQuantumEntropySource`, ...) and register or pass them explicitly.
+ *
+ * ## Scope
+ *
+ * The registry is module-global: registering a source affects every later
+ * `collectEntropy()` and `flipCoin()` call in the process. For per-call
+ * sources, prefer `EntropyPoolOptions.sources` / `FlipOptions.entropySources`.
+ */
+
+import type { EntropySource } from './types/EntropySource';
+import { createTimingEntropySource } from './sources/timing';
+import { createCryptoEntropySource } from './sources/crypto';
+import { EntropySourceRegistrationError } from './errors';
+
+/**
+ * Registered sources keyed by name.
+ * A Map keeps registration order, which is also the sweep order.
+ */
+const registry = new Map<string, EntropySource>([
+  ['timing', createTimingEntropySource()],
+  ['crypto', createCryptoEntropySource()],
+]);
+
+/**
+ * Adds a source to every subsequent entropy collection.
+ *
+ * Example:
+ * ```typescript
+ * registerEntropySource(hardwareRng);
+ * const result = await flipCoin(); // now mixes hwrng output too
+ * ```
+ *
+ * @param source The source to register
+ * @throws EntropySourceRegistrationError if the name is empty or already taken
+ */
+export function registerEntropySource(source: EntropySource): void {
+  if (!source.name) {
+    throw new EntropySourceRegistrationError(source.name, 'name must not be empty');
+  }
+
+  if (registry.has(source.name)) {
+    throw new EntropySourceRegistrationError(source.name, 'a source with this name is already registered');
+  }
+
+  registry.set(source.name, source);
+}
+
+/**
+ * Removes a source from the registry.
+ *
+ * Built-in sources can be removed too, e.g. to run timing-free in an
+ * environment with a known-bad clock. Collection still requires at least
+ * one source to succeed.
+ *
+ * @param name Name of the source to remove
+ * @returns true if a source was removed
+ */
+export function unregisterEntropySource(name: string): boolean {
+  return registry.delete(name);
+}
+
+/**
+ * Returns the currently registered sources in sweep order.
+ *
+ * @returns A snapshot; mutating it does not affect the registry
+ */
+export function getRegisteredEntropySources(): EntropySource[] {
+  return [...registry.values()];
+}
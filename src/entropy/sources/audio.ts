@@ -0,0 +1,343 @@
+/**
+ * Audio noise entropy source.
+ *
+ * ## Where Does the Entropy Come From?
+ *
+ * Every analog-to-digital converter adds noise: thermal (Johnson-Nyquist)
+ * noise in the resistors, shot noise in the semiconductors, and quantization
+ * error. Even with nothing but silence in the room, a microphone input is
+ * never perfectly still; the least significant bit of each sample flickers.
+ *
+ * That flicker is what we harvest. The higher bits carry the actual signal
+ * (speech, music, hum) which an attacker in the same room could record, so
+ * we only use the LSB of each sample.
+ *
+ * ## Sample Providers
+ *
+ * The source reads from an abstract `PcmSampleProvider` instead of calling
+ * `navigator.mediaDevices` directly:
+ * - In the browser the provider wraps a microphone stream
+ * - In Node it reads a raw WAV file or buffer (`createWavSampleProvider`)
+ * - In tests it replays a fixed buffer (`createPcmBufferProvider`)
+ *
+ * ## Input Validation
+ *
+ * Two failure modes produce LSBs that look random-ish but carry nothing:
+ * - **Silence**: a muted input or digital silence. All samples are (nearly)
+ *   equal, so the LSB is constant.
+ * - **Clipping**: samples pinned at full scale share their LSB.
+ * Both are rejected with `AudioSignalRejectedError`, and the pool skips us.
+ *
+ * ## Internally proclaimed entropy quality: 3.5/5
+ *
+ * Real, physical noise, but strongly dependent on hardware. Many sound cards
+ * apply dithering or noise shaping, and adjacent samples are correlated.
+ * We therefore estimate the min-entropy of the LSB from its observed bias
+ * and credit only HALF of that, i.e. never more than 0.5 bits per sample.
+ *
+ * ## Availability
+ *
+ * Requires a sample provider: microphone access in the browser (permission
+ * prompt), a file or buffer in Node.
+ */
+
+import type { AudioEntropyResult } from '../types/AudioEntropyResult';
+import type { AudioEntropyOptions } from '../types/AudioEntropyOptions';
+import type { PcmSampleProvider } from '../types/PcmSampleProvider';
+import type { EntropySource } from '../types/EntropySource';
+import { AudioSignalRejectedError, EntropyCollectionTimeoutError } from '../errors';
+import { withTimeout } from './timeout';
+
+/**
+ * Default configuration values.
+ */
+const DEFAULT_SAMPLE_COUNT = 2048;
+const DEFAULT_TIMEOUT_MS = 1000;
+const DEFAULT_MAX_CLIPPED_RATIO = 0.01;
+
+/**
+ * Samples whose peak-to-peak amplitude stays within this many LSB steps
+ * are treated as silence: there is not enough variation to flip the LSB
+ * unpredictably.
+ */
+const SILENCE_PEAK_TO_PEAK = 1;
+
+/**
+ * Collects entropy from the least significant bits of PCM audio samples.
+ *
+ * Example:
+ * → collectAudioEntropy({ provider: createWavSampleProvider(wavBytes) })
+ * → Returns 256 bytes (2048 LSBs) with up to 1024 bits of estimated entropy
+ *
+ * @param options Configuration options
+ * @returns Promise resolving to AudioEntropyResult
+ * @throws AudioSignalRejectedError if the input is silent, clipped or empty
+ * @throws EntropyCollectionTimeoutError if the provider is too slow
+ */
+export async function collectAudioEntropy(
+  options: AudioEntropyOptions
+): Promise<AudioEntropyResult> {
+  const sampleCount = options.sampleCount ?? DEFAULT_SAMPLE_COUNT;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const maxClippedRatio = options.maxClippedRatio ?? DEFAULT_MAX_CLIPPED_RATIO;
+  const { provider } = options;
+
+  const startTime = performance.now();
+
+  const samples = await withTimeout(
+    () => readSamples(provider, sampleCount),
+    timeoutMs,
+    new EntropyCollectionTimeoutError('audio', timeoutMs),
+    options.signal
+  );
+
+  if (samples.length === 0) {
+    throw new AudioSignalRejectedError('provider returned no samples');
+  }
+
+  validateSignal(samples, provider.bitDepth, maxClippedRatio);
+
+  /**
+   * Pack the LSBs MSB-first, the same layout as the timing source.
+   */
+  const bytes = new Uint8Array(Math.ceil(samples.length / 8));
+  let ones = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const bit = samples[i]! & 1;
+    ones += bit;
+    bytes[i >> 3] = bytes[i >> 3]! | (bit << (7 - (i & 7)));
+  }
+
+  const endTime = performance.now();
+
+  return {
+    bytes,
+    estimatedBits: estimateLsbEntropy(ones, samples.length),
+    samplesRead: samples.length,
+    collectionTimeMs: endTime - startTime,
+  };
+}
+
+/**
+ * Creates the registry adapter for the audio source.
+ *
+ * The source needs a sample provider, so it is not registered by default.
+ * Unless `sampleCount` is set, it reads 4 samples per target bit (each LSB
+ * is credited at most half a bit), with a floor of 1024 samples so the
+ * silence and clipping checks are meaningful.
+ *
+ * @param options Sample provider and validation configuration
+ * @returns EntropySource named 'audio'
+ */
+export function createAudioEntropySource(options: AudioEntropyOptions): EntropySource {
+  return {
+    name: 'audio',
+    quality: 3.5,
+    timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+    isAvailable: () => true,
+    collect: ({ targetBits, timeoutMs, signal }) =>
+      collectAudioEntropy({
+        ...options,
+        sampleCount: options.sampleCount ?? Math.max(targetBits * 4, 1024),
+        timeoutMs,
+        signal: signal ?? options.signal,
+      }),
+  };
+}
+
+/**
+ * Creates a provider that replays a fixed buffer of signed integer samples.
+ *
+ * Example:
+ * → createPcmBufferProvider(new Int16Array(recorded), 16)
+ *
+ * @param samples Signed integer samples (interleaved if multi-channel)
+ * @param bitDepth Bit depth of the samples
+ * @returns A PcmSampleProvider reading through the buffer once
+ */
+export function createPcmBufferProvider(
+  samples: ArrayLike<number>,
+  bitDepth: number
+): PcmSampleProvider {
+  let offset = 0;
+
+  return {
+    bitDepth,
+    async read(count: number): Promise<Int32Array> {
+      const end = Math.min(offset + count, samples.length);
+      const chunk = new Int32Array(end - offset);
+      for (let i = 0; i < chunk.length; i++) {
+        chunk[i] = samples[offset + i]!;
+      }
+      offset = end;
+      return chunk;
+    },
+  };
+}
+
+/**
+ * Creates a provider from the bytes of a RIFF/WAVE file.
+ *
+ * Supports uncompressed integer PCM (format 1, or WAVE_FORMAT_EXTENSIBLE
+ * wrapping PCM) at 8, 16, 24 or 32 bits. In Node, pair it with
+ * `fs.readFile`:
+ *
+ * ```typescript
+ * const provider = createWavSampleProvider(await readFile('noise.wav'));
+ * ```
+ *
+ * @param wav The complete WAV file contents
+ * @returns A PcmSampleProvider reading through the data chunk once
+ * @throws AudioSignalRejectedError if the data is not a supported WAV file
+ */
+export function createWavSampleProvider(wav: Uint8Array): PcmSampleProvider {
+  const view = new DataView(wav.buffer, wav.byteOffset, wav.byteLength);
+
+  if (wav.length < 12 || readTag(wav, 0) !== 'RIFF' || readTag(wav, 8) !== 'WAVE') {
+    throw new AudioSignalRejectedError('not a RIFF/WAVE file');
+  }
+
+  let bitDepth: number | undefined;
+  let data: Uint8Array | undefined;
+
+  /**
+   * Walk the chunk list. Chunks are word aligned, so odd sizes get a pad byte.
+   */
+  let offset = 12;
+  while (offset + 8 <= wav.length) {
+    const tag = readTag(wav, offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (tag === 'fmt ') {
+      if (size < 16 || body + size > wav.length) {
+        throw new AudioSignalRejectedError(`WAV fmt chunk is truncated (${size} bytes at offset ${offset})`);
+      }
+      const format = view.getUint16(body, true);
+      const isPcm = format === 1 || (format === 0xfffe && size >= 40 && view.getUint16(body + 24, true) === 1);
+      if (!isPcm) {
+        throw new AudioSignalRejectedError(`unsupported WAV format tag ${format}`);
+      }
+      bitDepth = view.getUint16(body + 14, true);
+    } else if (tag === 'data') {
+      data = wav.subarray(body, Math.min(body + size, wav.length));
+    }
+
+    offset = body + size + (size % 2);
+  }
+
+  if (bitDepth === undefined || data === undefined) {
+    throw new AudioSignalRejectedError('WAV file is missing its fmt or data chunk');
+  }
+
+  if (bitDepth !== 8 && bitDepth !== 16 && bitDepth !== 24 && bitDepth !== 32) {
+    throw new AudioSignalRejectedError(`unsupported WAV bit depth ${bitDepth}`);
+  }
+
+  return createPcmBufferProvider(decodePcm(data, bitDepth), bitDepth);
+}
+
+/**
+ * Reads from the provider until `count` samples arrive or it runs dry.
+ */
+async function readSamples(provider: PcmSampleProvider, count: number): Promise<Int32Array> {
+  const samples = new Int32Array(count);
+  let filled = 0;
+
+  while (filled < count) {
+    const chunk = await provider.read(count - filled);
+    if (chunk.length === 0) {
+      break;
+    }
+    samples.set(chunk.subarray(0, count - filled), filled);
+    filled += Math.min(chunk.length, count - filled);
+  }
+
+  return samples.subarray(0, filled);
+}
+
+/**
+ * Rejects silent and clipped input.
+ *
+ * Example (16-bit):
+ * → full scale is [-32768, 32767]
+ * → 30 of 2048 samples at ±full scale = 1.5% > 1% → clipped
+ */
+function validateSignal(samples: Int32Array, bitDepth: number, maxClippedRatio: number): void {
+  const fullScaleMax = 2 ** (bitDepth - 1) - 1;
+  const fullScaleMin = -(2 ** (bitDepth - 1));
+
+  let min = Infinity;
+  let max = -Infinity;
+  let clipped = 0;
+
+  for (const sample of samples) {
+    if (sample < min) min = sample;
+    if (sample > max) max = sample;
+    if (sample >= fullScaleMax || sample <= fullScaleMin) clipped++;
+  }
+
+  if (max - min <= SILENCE_PEAK_TO_PEAK) {
+    throw new AudioSignalRejectedError('input is silent');
+  }
+
+  if (clipped / samples.length > maxClippedRatio) {
+    throw new AudioSignalRejectedError(
+      `input is clipped (${clipped} of ${samples.length} samples at full scale)`
+    );
+  }
+}
+
+/**
+ * Conservative entropy estimate for the packed LSBs.
+ *
+ * We compute the min-entropy of a single LSB from its observed bias and
+ * credit half of it per sample to account for correlation between adjacent
+ * samples (dithering, filtering) that the bias alone does not reveal.
+ *
+ * Example: 2048 samples, 1100 ones
+ * → p_max = 1100 / 2048 ≈ 0.537
+ * → H_min = -log2(0.537) ≈ 0.897 bits per sample
+ * → credited = floor(2048 * 0.897 / 2) = 918 bits
+ */
+function estimateLsbEntropy(ones: number, total: number): number {
+  const pMax = Math.max(ones, total - ones) / total;
+  const minEntropyPerSample = -Math.log2(pMax);
+  return Math.floor((total * minEntropyPerSample) / 2);
+}
+
+/**
+ * Decodes little-endian PCM bytes into signed integers.
+ * 8-bit WAV is unsigned with a 128 offset; every other depth is signed.
+ */
+function decodePcm(data: Uint8Array, bitDepth: number): Int32Array {
+  const bytesPerSample = bitDepth / 8;
+  const count = Math.floor(data.length / bytesPerSample);
+  const samples = new Int32Array(count);
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+  for (let i = 0; i < count; i++) {
+    const at = i * bytesPerSample;
+    switch (bitDepth) {
+      case 8:
+        samples[i] = data[at]! - 128;
+        break;
+      case 16:
+        samples[i] = view.getInt16(at, true);
+        break;
+      case 24: {
+        const unsigned = data[at]! | (data[at + 1]! << 8) | (data[at + 2]! << 16);
+        samples[i] = (unsigned << 8) >> 8;
+        break;
+      }
+      default:
+        samples[i] = view.getInt32(at, true);
+    }
+  }
+
+  return samples;
+}
+
+function readTag(bytes: Uint8Array, offset: number): string {
+  return String.fromCharCode(bytes[offset]!, bytes[offset + 1]!, bytes[offset + 2]!, bytes[offset + 3]!);
+}
@@ -0,0 +1,353 @@
+/**
+ * Public randomness beacon entropy source (drand-style).
+ *
+ * ## What is a Randomness Beacon?
+ *
+ * A beacon publishes a fresh random value at fixed intervals (every 30s for
+ * drand mainnet), produced jointly by independent operators with a
+ * threshold signature. No single operator can predict or bias a round, and
+ * anyone with the group public key can check that a round is genuine.
+ *
+ * ## Why Mix in Something Public?
+ *
+ * Beacon rounds are public, so this source credits 0 bits: it never helps
+ * reach targetBits. What it adds is a contribution to the seed that every
+ * party can check after the fact. When several parties agree on a flip, the
+ * beacon round is one input none of them could have chosen: with
+ * `provenance: true`, the record lists its number (`metadata.rounds` on
+ * the beacon's contribution), so anyone can fetch and verify the same round.
+ * Requests served by an accumulator carry no per-source record.
+ *
+ * ## Verification
+ *
+ * A round is only mixed in once all of these hold:
+ * 1. `randomness` is SHA-256 of `signature`
+ * 2. `signature` verifies against the configured public key over the round
+ *    message (see BeaconScheme)
+ * 3. With a chained scheme and `rounds > 1`: each `previous_signature`
+ *    matches the signature of the round before it
+ *
+ * The signature check itself is injected (`verifySignature`). drand uses
+ * BLS12-381 pairings, which are out of scope for this library's hand-rolled
+ * hashes; pass the verify function of a pairing library. The verifier is
+ * required: an unverified round is never used.
+ *
+ * ## API
+ *
+ * - `GET <endpoint>/public/latest`
+ * - `GET <endpoint>/public/<round>`
+ *   → `{ "round": 123, "randomness": "..", "signature": "..", "previous_signature": ".." }`
+ *
+ * ## Availability
+ *
+ * Network required. Not registered by default; enable it with
+ * `EntropyPoolOptions.beaconOptions` or `createBeaconEntropySource()`.
+ */
+
+import type { BeaconEntropyResult } from '../types/BeaconEntropyResult';
+import type { BeaconEntropyOptions } from '../types/BeaconEntropyOptions';
+import type { BeaconRound, BeaconScheme } from '../types/BeaconRound';
+import type { QuantumTransport } from '../types/QuantumTransport';
+import type { EntropySource, EntropySourceOutput } from '../types/EntropySource';
+import {
+  BeaconVerificationError,
+  EntropySourceUnavailableError,
+  EntropyCollectionTimeoutError,
+  EntropySourceResponseError,
+} from '../errors';
+import { withTimeout } from './timeout';
+import { sha256 } from '../hashes';
+import { bytesToHex, hexToBytes, isHex } from '../hex';
+
+/**
+ * Default configuration values.
+ */
+const DEFAULT_ENDPOINT = 'https://api.drand.sh';
+const DEFAULT_SCHEME: BeaconScheme = 'chained';
+const DEFAULT_ROUNDS = 1;
+const DEFAULT_TIMEOUT_MS = 3000;
+
+/**
+ * Upper bound on rounds per collection: one request each.
+ */
+const MAX_ROUNDS = 16;
+
+/**
+ * Collects and verifies rounds from a randomness beacon.
+ *
+ * The newest round is fetched first (it fixes the round numbers when
+ * `round` isn't pinned), then the older ones in parallel.
+ *
+ * Example:
+ * → collectBeaconEntropy({ publicKey, verifySignature })
+ * → 32 bytes (the latest round's randomness), 0 bits, rounds: [{ round: 4242, ... }]
+ *
+ * @param options Beacon, key and verifier configuration
+ * @returns Promise resolving to BeaconEntropyResult
+ * @throws RangeError if `round` or `rounds` is out of range, or `publicKey` is not hex
+ * @throws EntropySourceUnavailableError if no transport is available
+ * @throws EntropyCollectionTimeoutError if fetching exceeds timeoutMs
+ * @throws EntropySourceResponseError if the beacon answers with something unusable
+ * @throws BeaconVerificationError if a round fails verification
+ */
+export async function collectBeaconEntropy(
+  options: BeaconEntropyOptions
+): Promise<BeaconEntropyResult> {
+  const scheme = options.scheme ?? DEFAULT_SCHEME;
+  const roundCount = options.rounds ?? DEFAULT_ROUNDS;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const endpoint = (options.endpoint ?? DEFAULT_ENDPOINT).replace(/\/+$/, '');
+  const transport = resolveTransport(options);
+
+  if (!Number.isInteger(roundCount) || roundCount < 1 || roundCount > MAX_ROUNDS) {
+    throw new RangeError(`rounds must be an integer between 1 and ${MAX_ROUNDS}, got ${roundCount}`);
+  }
+  if (options.round !== undefined && (!Number.isInteger(options.round) || options.round < 1)) {
+    throw new RangeError(`round must be a positive integer, got ${options.round}`);
+  }
+
+  if (!transport) {
+    throw new EntropySourceUnavailableError('beacon', 'no fetch-compatible transport is available');
+  }
+
+  const publicKey = typeof options.publicKey === 'string'
+    ? decodeHex(options.publicKey, 'publicKey')
+    : options.publicKey;
+
+  const startTime = performance.now();
+
+  /**
+   * Tears down open requests when the timeout fires or the caller aborts,
+   * as in the quantum source.
+   */
+  const controller = new AbortController();
+  const timeoutError = new EntropyCollectionTimeoutError('beacon', timeoutMs);
+  const { signal } = options;
+
+  let rounds: BeaconRound[];
+  try {
+    rounds = await withTimeout(
+      async () => {
+        const fetchRound = (round: number | 'latest'): Promise<BeaconRound> =>
+          requestRound(transport, endpoint, round, controller.signal);
+
+        const newest = await fetchRound(options.round ?? 'latest');
+        if (options.round !== undefined && newest.round !== options.round) {
+          throw new EntropySourceResponseError('beacon', `asked for round ${options.round}, got ${newest.round}`);
+        }
+        if (newest.round < roundCount) {
+          throw new EntropySourceResponseError('beacon', `round ${newest.round} has fewer than ${roundCount} rounds before it`);
+        }
+
+        const older = await Promise.all(
+          Array.from({ length: roundCount - 1 }, (_, i) => fetchRound(newest.round - roundCount + 1 + i))
+        );
+        const fetched = [...older, newest];
+
+        for (let i = 0; i < fetched.length; i++) {
+          await verifyRound(fetched[i]!, fetched[i - 1], scheme, publicKey, options);
+        }
+        return fetched;
+      },
+      timeoutMs,
+      timeoutError,
+      signal
+    );
+  } catch (error) {
+    controller.abort();
+    throw error;
+  }
+
+  const bytes = new Uint8Array(rounds.length * 32);
+  rounds.forEach((round, i) => bytes.set(decodeHex(round.randomness, 'randomness'), i * 32));
+
+  const endTime = performance.now();
+
+  return {
+    bytes,
+    estimatedBits: 0,
+    collectionTimeMs: endTime - startTime,
+    rounds,
+  };
+}
+
+/**
+ * Checks if the beacon source can be attempted: a transport is configured
+ * or fetch is available. Connectivity is found out by the request.
+ *
+ * @param options The options that would be passed to collectBeaconEntropy
+ * @returns true if a transport is available
+ */
+export function isBeaconEntropyAvailable(options: Pick<BeaconEntropyOptions, 'transport'> = {}): boolean {
+  return resolveTransport(options) !== undefined;
+}
+
+/**
+ * Creates the registry adapter for the beacon source.
+ *
+ * The source needs the network and a verifier, so it is not registered by
+ * default. It credits 0 bits (see the module docs), whatever the target.
+ *
+ * @param options Beacon, key and verifier configuration
+ * @returns EntropySource named 'beacon'
+ */
+export function createBeaconEntropySource(options: BeaconEntropyOptions): EntropySource {
+  return {
+    name: 'beacon',
+    quality: 1,
+    timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+    isAvailable: () => isBeaconEntropyAvailable(options),
+    collect: async ({ timeoutMs, signal }): Promise<EntropySourceOutput> => {
+      const result = await collectBeaconEntropy({
+        ...options,
+        timeoutMs,
+        signal: signal ?? options.signal,
+      });
+      return { ...result, metadata: { rounds: result.rounds.map((round) => round.round) } };
+    },
+  };
+}
+
+/**
+ * Picks the user-supplied transport, falling back to the global fetch.
+ */
+function resolveTransport(options: Pick<BeaconEntropyOptions, 'transport'>): QuantumTransport | undefined {
+  if (options.transport) {
+    return options.transport;
+  }
+
+  if (typeof globalThis.fetch === 'function') {
+    return (url, init) => globalThis.fetch(url, init);
+  }
+
+  return undefined;
+}
+
+/**
+ * Fetches one round and checks its shape.
+ *
+ * @throws EntropySourceResponseError on HTTP errors or a malformed round
+ */
+async function requestRound(
+  transport: QuantumTransport,
+  endpoint: string,
+  round: number | 'latest',
+  signal: AbortSignal
+): Promise<BeaconRound> {
+  const response = await transport(`${endpoint}/public/${round}`, {
+    method: 'GET',
+    headers: { Accept: 'application/json' },
+    signal,
+  });
+
+  if (!response.ok) {
+    throw new EntropySourceResponseError('beacon', `HTTP status ${response.status} for round ${round}`);
+  }
+
+  return toBeaconRound(await response.json());
+}
+
+/**
+ * Validates an untrusted round body: a positive integer round and hex
+ * strings where hex is expected. Unknown fields are dropped.
+ *
+ * @throws EntropySourceResponseError if a field is missing or malformed
+ */
+function toBeaconRound(body: unknown): BeaconRound {
+  if (!isRecord(body)) {
+    throw new EntropySourceResponseError('beacon', 'response body is not a JSON object');
+  }
+
+  const { round, randomness, signature } = body;
+  const previousSignature = body['previous_signature'];
+
+  if (typeof round !== 'number' || !Number.isInteger(round) || round < 1) {
+    throw new EntropySourceResponseError('beacon', 'round is not a positive integer');
+  }
+  for (const [field, value] of [['randomness', randomness], ['signature', signature]] as const) {
+    if (!isHex(value)) {
+      throw new EntropySourceResponseError('beacon', `${field} of round ${round} is not hex`);
+    }
+  }
+  if (previousSignature !== undefined && !isHex(previousSignature)) {
+    throw new EntropySourceResponseError('beacon', `previous_signature of round ${round} is not hex`);
+  }
+
+  return {
+    round,
+    randomness: (randomness as string).toLowerCase(),
+    signature: (signature as string).toLowerCase(),
+    ...(previousSignature !== undefined && { previous_signature: (previousSignature as string).toLowerCase() }),
+  };
+}
+
+/**
+ * Verifies one round, and its link to the previous one when given.
+ *
+ * @throws BeaconVerificationError on the first check that fails
+ */
+async function verifyRound(
+  round: BeaconRound,
+  previous: BeaconRound | undefined,
+  scheme: BeaconScheme,
+  publicKey: Uint8Array,
+  options: BeaconEntropyOptions
+): Promise<void> {
+  const signature = decodeHex(round.signature, 'signature');
+
+  if (bytesToHex(sha256(signature)) !== round.randomness) {
+    throw new BeaconVerificationError(round.round, 'randomness is not SHA-256 of the signature');
+  }
+
+  if (scheme === 'chained' && round.previous_signature === undefined) {
+    throw new BeaconVerificationError(round.round, 'chained round has no previous_signature');
+  }
+  if (scheme === 'chained' && previous && round.previous_signature !== previous.signature) {
+    throw new BeaconVerificationError(round.round, `previous_signature does not match round ${previous.round}`);
+  }
+
+  let valid: boolean;
+  try {
+    valid = await options.verifySignature(publicKey, roundMessage(round, scheme), signature);
+  } catch (error) {
+    throw new BeaconVerificationError(round.round, 'signature verifier failed', { cause: error });
+  }
+  if (!valid) {
+    throw new BeaconVerificationError(round.round, 'signature does not verify against the public key');
+  }
+}
+
+/**
+ * The digest a beacon signs for a round, as passed to `verifySignature`.
+ *
+ * → chained:   SHA-256(previous_signature || uint64be(round))
+ * → unchained: SHA-256(uint64be(round))
+ *
+ * @param round The round (only `round` and `previous_signature` are read)
+ * @param scheme What the beacon signs
+ * @returns 32-byte message digest
+ */
+export function roundMessage(round: BeaconRound, scheme: BeaconScheme): Uint8Array {
+  const previous = scheme === 'chained' ? decodeHex(round.previous_signature ?? '', 'previous_signature') : new Uint8Array(0);
+  const message = new Uint8Array(previous.length + 8);
+  message.set(previous);
+  new DataView(message.buffer).setBigUint64(previous.length, BigInt(round.round));
+  return sha256(message);
+}
+
+/**
+ * Decodes a hex string (no prefix, even length). Round fields are checked
+ * by toBeaconRound first, so only configuration can fail here.
+ *
+ * @throws RangeError if it isn't valid hex
+ */
+function decodeHex(hex: string, field: string): Uint8Array {
+  if (!isHex(hex)) {
+    throw new RangeError(`${field} must be a hex string`);
+  }
+  return hexToBytes(hex);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
@@ -53,10 +53,13 @@
 
 import type { CryptoEntropyResult } from '../types/CryptoEntropyResult';
 import type { CryptoEntropyOptions } from '../types/CryptoEntropyOptions';
+import type { EntropySource } from '../types/EntropySource';
 import {
   EntropySourceUnavailableError,
   EntropyCollectionTimeoutError,
 } from '../errors';
+import { withTimeout } from './timeout';
+import { throwIfAborted } from '../../common/abort';
 
 /**
  * Default configuration values.
@@ -84,7 +87,9 @@ export async function collectCryptoEntropy(
 ): Promise<CryptoEntropyResult> {
   const byteCount = options.byteCount ?? DEFAULT_BYTE_COUNT;
   const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const { signal } = options;
 
+  throwIfAborted(signal);
   const startTime = performance.now();
 
   /**
@@ -109,7 +114,8 @@ export async function collectCryptoEntropy(
       return buffer;
     },
     timeoutMs,
-    new EntropyCollectionTimeoutError('crypto', timeoutMs)
+    new EntropyCollectionTimeoutError('crypto', timeoutMs),
+    signal
   );
 
   const endTime = performance.now();
@@ -138,36 +144,26 @@ export function isCryptoEntropyAvailable(): boolean {
 }
 
 /**
- * Wraps a promise with a timeout.
+ * Creates the registry adapter for the crypto source.
  *
- * If the promise doesn't resolve within the timeout, the returned promise
- * rejects with the given error message.
+ * Requests targetBits / 8 bytes per sweep (at least 16), so a single sweep
+ * can cover the level's target on its own.
  *
- * This is used to prevent entropy collection from blocking indefinitely.
- *
- * @param fn Async function to execute
- * @param timeoutMs Maximum time to wait
- * @param error Error to throw if timeout exceeded
- * @returns Promise that resolves with fn's result or rejects on timeout
+ * @param options Overrides applied to every collection
+ * @returns EntropySource named 'crypto'
  */
-function withTimeout<T>(
-  fn: () => Promise<T>,
-  timeoutMs: number,
-  error: Error
-): Promise<T> {
-  return new Promise((resolve, reject) => {
-    const timeoutId = setTimeout(() => {
-      reject(error);
-    }, timeoutMs);
-
-    fn()
-      .then((result) => {
-        clearTimeout(timeoutId);
-        resolve(result);
-      })
-      .catch((error) => {
-        clearTimeout(timeoutId);
-        reject(error);
-      });
-  });
+export function createCryptoEntropySource(options: CryptoEntropyOptions = {}): EntropySource {
+  return {
+    name: 'crypto',
+    quality: 4,
+    timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+    isAvailable: isCryptoEntropyAvailable,
+    collect: ({ targetBits, timeoutMs, signal }) =>
+      collectCryptoEntropy({
+        ...options,
+        byteCount: Math.max(Math.ceil(targetBits / 8), 16),
+        timeoutMs,
+        signal: signal ?? options.signal,
+      }),
+  };
 }
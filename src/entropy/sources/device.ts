@@ -0,0 +1,295 @@
+/**
+ * Non-blocking device reads shared by the hardware and Node OS sources.
+ *
+ * ## Why?
+ *
+ * A plain `open()`/`read()` of a FIFO without a writer, or of a hardware
+ * RNG that has nothing to hand out, waits. Node does that wait on a libuv
+ * threadpool thread it can't take back: a few silent devices would starve
+ * every fs, dns and crypto call in the process. So nothing here ever waits
+ * in a syscall:
+ *
+ * | Path is     | Opened              | Read through                        |
+ * |-------------|---------------------|-------------------------------------|
+ * | FIFO        | O_NONBLOCK, async   | `net.Socket` on the fd (epoll)      |
+ * | Anything    | O_NONBLOCK, async   | `fs.read` on the fd, polled again   |
+ * | else        |                     | after POLL_INTERVAL_MS on EAGAIN    |
+ *
+ * A character device opened with O_NONBLOCK answers EAGAIN instead of
+ * waiting, so each `fs.read` returns at once; regular files ignore the flag.
+ * libuv can't watch character devices for readiness (it treats them as
+ * files), hence the polling.
+ *
+ * Both kinds come back as a paused-mode stream, read by `readStream()`.
+ */
+
+import type { HardwareByteStream } from '../types/HardwareByteStream';
+import {
+  EntropySourceUnavailableError,
+  EntropyCollectionTimeoutError,
+  EntropySourceResponseError,
+} from '../errors';
+import { loadNodeModule } from './runtime';
+
+/**
+ * How long to wait before reading a device again after it said EAGAIN.
+ */
+const POLL_INTERVAL_MS = 5;
+
+/**
+ * A byte stream opened on a device path; the caller must destroy it.
+ */
+export type DeviceByteStream = HardwareByteStream & { destroy(): void };
+
+/**
+ * Errors from `node:fs` carry the errno name.
+ */
+type NodeSystemError = Error & { code?: string };
+
+/**
+ * The parts of callback `node:fs` this module uses.
+ */
+interface NodeFsModule {
+  constants: { O_RDONLY: number; O_NONBLOCK?: number };
+  open(path: string, flags: number, callback: (error: NodeSystemError | null, fd: number) => void): void;
+  fstat(fd: number, callback: (error: NodeSystemError | null, stats: { isFIFO(): boolean }) => void): void;
+  read(
+    fd: number,
+    buffer: Uint8Array,
+    offset: number,
+    length: number,
+    position: null,
+    callback: (error: NodeSystemError | null, bytesRead: number) => void
+  ): void;
+  close(fd: number, callback: (error: NodeSystemError | null) => void): void;
+}
+
+/**
+ * The part of `node:net` this module uses: a socket over an open pipe.
+ */
+interface NodeNetModule {
+  Socket: new (options: { fd: number; readable: boolean; writable: boolean }) => DeviceByteStream;
+}
+
+/**
+ * The part of `node:stream` this module uses: a Readable with custom
+ * `read` and `destroy` implementations.
+ */
+interface NodeStreamModule {
+  Readable: new (options: {
+    highWaterMark: number;
+    read(): void;
+    destroy(error: Error | null, callback: (error: Error | null) => void): void;
+  }) => DeviceByteStream & {
+    push(chunk: Uint8Array | null): boolean;
+    destroy(error?: Error): void;
+  };
+}
+
+/**
+ * What waiting for the next chunk can end with.
+ */
+type ReadWait = 'readable' | 'end' | 'timeout';
+
+/**
+ * Opens a device path for reading without ever blocking a thread.
+ *
+ * The open and fstat run asynchronously with O_NONBLOCK, so neither the
+ * main thread nor a threadpool thread waits for a FIFO writer. A FIFO is
+ * read through a `net.Socket`; anything else through a stream that polls
+ * the non-blocking descriptor.
+ *
+ * @param source Source name for errors
+ * @param path Device, FIFO or file to open
+ * @param chunkSize Bytes per read of a polled device
+ * @returns A paused-mode stream that owns the descriptor
+ * @throws EntropySourceUnavailableError if the path can't be opened
+ */
+export async function openDevice(source: string, path: string, chunkSize: number): Promise<DeviceByteStream> {
+  const fs = await loadNodeModule<NodeFsModule>('node:fs');
+
+  let fd: number;
+  try {
+    fd = await new Promise<number>((resolve, reject) => {
+      fs.open(path, fs.constants.O_RDONLY | (fs.constants.O_NONBLOCK ?? 0), (error, opened) =>
+        (error ? reject(error) : resolve(opened)));
+    });
+  } catch (error) {
+    throw new EntropySourceUnavailableError(source, `cannot open ${path}`, { cause: error });
+  }
+
+  try {
+    const isFIFO = await new Promise<boolean>((resolve, reject) => {
+      fs.fstat(fd, (error, stats) => (error ? reject(error) : resolve(stats.isFIFO())));
+    });
+    if (isFIFO) {
+      const net = await loadNodeModule<NodeNetModule>('node:net');
+      return new net.Socket({ fd, readable: true, writable: false });
+    }
+    const { Readable } = await loadNodeModule<NodeStreamModule>('node:stream');
+    return createPollingStream(fs, Readable, fd, chunkSize);
+  } catch (error) {
+    fs.close(fd, () => undefined);
+    throw new EntropySourceUnavailableError(source, `cannot read ${path}`, { cause: error });
+  }
+}
+
+/**
+ * Reads up to byteCount bytes from a paused-mode stream.
+ *
+ * Takes whatever is buffered, waits up to readTimeoutMs for more, and puts
+ * back any excess of the last chunk.
+ *
+ * @param source Source name for errors
+ * @param label What is being read, for error messages (a path or 'stream')
+ * @throws EntropySourceUnavailableError if the stream emits an error
+ * @throws EntropyCollectionTimeoutError if nothing arrives within readTimeoutMs
+ * @throws EntropySourceResponseError if the stream ends without data
+ */
+export async function readStream(
+  source: string,
+  stream: HardwareByteStream,
+  byteCount: number,
+  readTimeoutMs: number,
+  isCancelled: () => boolean,
+  label: string
+): Promise<Uint8Array> {
+  const buffer = new Uint8Array(byteCount);
+  let filled = 0;
+  let ended = false;
+
+  while (filled < byteCount && !isCancelled()) {
+    const chunk = stream.read();
+    if (chunk !== null) {
+      const taken = Math.min(chunk.length, byteCount - filled);
+      buffer.set(chunk.subarray(0, taken), filled);
+      filled += taken;
+      if (taken < chunk.length) {
+        stream.unshift(chunk.subarray(taken));
+      }
+      continue;
+    }
+
+    if (stream.readableEnded) {
+      ended = true;
+      break;
+    }
+
+    const wait = await waitForData(source, stream, readTimeoutMs, label);
+    if (wait === 'end') {
+      ended = true;
+      break;
+    }
+    if (wait === 'timeout') {
+      break;
+    }
+  }
+
+  if (filled === 0 && !isCancelled()) {
+    throw ended
+      ? new EntropySourceResponseError(source, `${label} ended without data`)
+      : new EntropyCollectionTimeoutError(source, readTimeoutMs);
+  }
+
+  return buffer.slice(0, filled);
+}
+
+/**
+ * Wraps a non-blocking descriptor in a Readable that reads it on demand.
+ *
+ * EAGAIN means "nothing yet": the read is retried after POLL_INTERVAL_MS.
+ * A read of 0 bytes ends the stream. Destroying it stops the polling and
+ * closes the descriptor, after the read in flight if there is one.
+ */
+function createPollingStream(
+  fs: NodeFsModule,
+  Readable: NodeStreamModule['Readable'],
+  fd: number,
+  chunkSize: number
+): DeviceByteStream {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let reading = false;
+  let destroyed = false;
+
+  const close = (): void => fs.close(fd, () => undefined);
+
+  const poll = (): void => {
+    timer = undefined;
+    reading = true;
+    const chunk = new Uint8Array(chunkSize);
+    fs.read(fd, chunk, 0, chunkSize, null, (error, bytesRead) => {
+      reading = false;
+      if (destroyed) {
+        close();
+        return;
+      }
+      if (error?.code === 'EAGAIN' || error?.code === 'EWOULDBLOCK') {
+        timer = setTimeout(poll, POLL_INTERVAL_MS);
+        return;
+      }
+      if (error) {
+        stream.destroy(error);
+        return;
+      }
+      stream.push(bytesRead === 0 ? null : chunk.subarray(0, bytesRead));
+    });
+  };
+
+  const stream = new Readable({
+    highWaterMark: chunkSize,
+    read: poll,
+    destroy: (error, callback): void => {
+      destroyed = true;
+      clearTimeout(timer);
+      if (!reading) {
+        close();
+      }
+      callback(error);
+    },
+  });
+
+  return stream;
+}
+
+/**
+ * Waits for the stream to become readable or end, at most timeoutMs.
+ * Listeners are removed either way, so a long-lived stream doesn't
+ * collect one per sweep.
+ *
+ * @throws EntropySourceUnavailableError if the stream emits an error
+ */
+function waitForData(
+  source: string,
+  stream: HardwareByteStream,
+  timeoutMs: number,
+  label: string
+): Promise<ReadWait> {
+  return new Promise((resolve, reject) => {
+    const settle = (): void => {
+      clearTimeout(timer);
+      stream.removeListener('readable', onReadable);
+      stream.removeListener('end', onEnd);
+      stream.removeListener('error', onError);
+    };
+    const onReadable = (): void => {
+      settle();
+      resolve('readable');
+    };
+    const onEnd = (): void => {
+      settle();
+      resolve('end');
+    };
+    const onError = (error: Error): void => {
+      settle();
+      reject(new EntropySourceUnavailableError(source, `cannot read ${label}`, { cause: error }));
+    };
+    const timer = setTimeout(() => {
+      settle();
+      resolve('timeout');
+    }, timeoutMs);
+
+    stream.once('readable', onReadable);
+    stream.once('end', onEnd);
+    stream.once('error', onError);
+  });
+}
@@ -0,0 +1,181 @@
+/**
+ * Hardware RNG entropy source: character devices, FIFOs and byte streams.
+ *
+ * ## Why?
+ *
+ * USB hardware RNGs show up either as a character device (`/dev/hwrng`,
+ * `/dev/ttyACM0`) or as a serial stream opened by a driver library. The
+ * Node OS source can read a device file, but it can't hold a stream open
+ * across sweeps, and it waits on a device for its whole budget. This source
+ * covers both:
+ *
+ * | Option   | Reads from                        | Between collections    |
+ * |----------|-----------------------------------|------------------------|
+ * | `path`   | O_NONBLOCK fd (see `device.ts`)   | Closed, reopened       |
+ * | `stream` | Any paused-mode `Readable`        | Left open, excess kept |
+ *
+ * ## FIFOs
+ *
+ * Opening a FIFO normally blocks until a writer shows up, and Node does
+ * that on a threadpool thread it can't take back. Paths are therefore
+ * opened asynchronously with O_NONBLOCK and never read with a blocking
+ * call (`device.ts`); a FIFO without a writer or an idle hwrng then simply
+ * delivers nothing, and the read times out like a silent device.
+ *
+ * ## Bounded Reads
+ *
+ * A collection reads at most `byteCount` bytes (never more than `maxBytes`),
+ * chunk by chunk. If the next chunk doesn't arrive within `readTimeoutMs`,
+ * it stops and keeps what it has: a slow device contributes fewer bytes
+ * instead of holding up the sweep. Only a collection that got nothing at
+ * all fails.
+ *
+ * ## Availability
+ *
+ * `stream`: anywhere. `path`: Node.js only (the `fs` module is loaded on
+ * first use, see `runtime.ts`). Not registered by default; enable it with
+ * `EntropyPoolOptions.hardwareOptions` or `createHardwareEntropySource()`.
+ */
+
+import type { HardwareEntropyResult } from '../types/HardwareEntropyResult';
+import type { HardwareEntropyOptions } from '../types/HardwareEntropyOptions';
+import type { EntropySource } from '../types/EntropySource';
+import { EntropySourceUnavailableError, EntropyCollectionTimeoutError } from '../errors';
+import { withTimeout } from './timeout';
+import { openDevice, readStream } from './device';
+import { isNodeRuntime } from './runtime';
+import { throwIfAborted } from '../../common/abort';
+
+/**
+ * Default configuration values.
+ */
+const DEFAULT_BYTE_COUNT = 32;
+const DEFAULT_MAX_BYTES = 256;
+const DEFAULT_BITS_PER_BYTE = 8;
+const DEFAULT_READ_TIMEOUT_MS = 100;
+const DEFAULT_TIMEOUT_MS = 500;
+
+/**
+ * Collects entropy from a hardware RNG device or stream.
+ *
+ * Example:
+ * → collectHardwareEntropy({ path: '/dev/hwrng', byteCount: 32 })
+ * → 32 bytes, 256 bits, path '/dev/hwrng'
+ *
+ * → collectHardwareEntropy({ stream: serialPort, bitsPerByte: 4, readTimeoutMs: 50 })
+ * → up to 32 bytes (whatever arrived), 4 bits credited per byte
+ *
+ * @param options Device or stream configuration
+ * @returns Promise resolving to HardwareEntropyResult
+ * @throws RangeError if both or neither of `path` and `stream` are set
+ * @throws EntropySourceUnavailableError if the device can't be opened or the stream fails
+ * @throws EntropyCollectionTimeoutError if no byte arrives within readTimeoutMs, or the whole read exceeds timeoutMs
+ * @throws EntropySourceResponseError if the device or stream ends without data
+ */
+export async function collectHardwareEntropy(
+  options: HardwareEntropyOptions
+): Promise<HardwareEntropyResult> {
+  const { path, stream, signal } = options;
+  const maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+  const byteCount = Math.min(options.byteCount ?? DEFAULT_BYTE_COUNT, maxBytes);
+  const readTimeoutMs = options.readTimeoutMs ?? DEFAULT_READ_TIMEOUT_MS;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+  if ((path === undefined) === (stream === undefined)) {
+    throw new RangeError('set exactly one of path and stream');
+  }
+
+  throwIfAborted(signal);
+  if (path !== undefined && !isNodeRuntime()) {
+    throw new EntropySourceUnavailableError('hardware', 'device paths need Node.js');
+  }
+
+  const startTime = performance.now();
+
+  /**
+   * A read that loses the race stops at its next chunk instead of taking
+   * bytes from the stream that no one will use.
+   */
+  let cancelled = false;
+  let bytes: Uint8Array;
+  try {
+    bytes = await withTimeout(
+      () => (path === undefined
+        ? readStream('hardware', stream!, byteCount, readTimeoutMs, () => cancelled, 'stream')
+        : readPath(path, byteCount, readTimeoutMs, () => cancelled)),
+      timeoutMs,
+      new EntropyCollectionTimeoutError('hardware', timeoutMs),
+      signal
+    );
+  } finally {
+    cancelled = true;
+  }
+
+  const endTime = performance.now();
+
+  return {
+    bytes,
+    estimatedBits: bytes.length * Math.min(8, options.bitsPerByte ?? DEFAULT_BITS_PER_BYTE),
+    collectionTimeMs: endTime - startTime,
+    ...(path !== undefined && { path }),
+  };
+}
+
+/**
+ * Checks if the hardware source can be attempted: a stream is configured,
+ * or a path on Node.js. Whether the device exists is found out by reading.
+ *
+ * @param options The options that would be passed to collectHardwareEntropy
+ * @returns true if there is something to read from
+ */
+export function isHardwareEntropyAvailable(options: HardwareEntropyOptions): boolean {
+  if (options.stream !== undefined) {
+    return true;
+  }
+  return options.path !== undefined && isNodeRuntime();
+}
+
+/**
+ * Creates the registry adapter for the hardware source.
+ *
+ * Requests enough bytes for the target at `bitsPerByte` (at least 16),
+ * capped at `maxBytes`.
+ *
+ * @param options Device or stream configuration
+ * @returns EntropySource named 'hardware'
+ */
+export function createHardwareEntropySource(options: HardwareEntropyOptions): EntropySource {
+  const bitsPerByte = Math.min(8, options.bitsPerByte ?? DEFAULT_BITS_PER_BYTE);
+
+  return {
+    name: 'hardware',
+    quality: 5,
+    timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+    isAvailable: () => isHardwareEntropyAvailable(options),
+    collect: ({ targetBits, timeoutMs, signal }) =>
+      collectHardwareEntropy({
+        ...options,
+        byteCount: Math.max(Math.ceil(targetBits / bitsPerByte), 16),
+        timeoutMs,
+        signal: signal ?? options.signal,
+      }),
+  };
+}
+
+/**
+ * Opens a device or FIFO, reads from it and closes it again.
+ */
+async function readPath(
+  path: string,
+  byteCount: number,
+  readTimeoutMs: number,
+  isCancelled: () => boolean
+): Promise<Uint8Array> {
+  const stream = await openDevice('hardware', path, byteCount);
+
+  try {
+    return await readStream('hardware', stream, byteCount, readTimeoutMs, isCancelled, path);
+  } finally {
+    stream.destroy();
+  }
+}
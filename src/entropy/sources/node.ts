@@ -0,0 +1,211 @@
+/**
+ * Node.js operating system entropy source.
+ *
+ * ## Why a Second OS Source?
+ *
+ * The `crypto` source only needs `globalThis.crypto.getRandomValues`, which
+ * works everywhere but hides where the bytes come from. On a server we often
+ * know better, and want to say so in the audit trail:
+ *
+ * | Backend       | Reads from                          | When                    |
+ * |---------------|-------------------------------------|-------------------------|
+ * | `node:crypto` | `randomBytes()` (OpenSSL CSPRNG)    | Default                 |
+ * | `device`      | `devicePath`, e.g. `/dev/hwrng`     | `devicePath` is set     |
+ *
+ * Every result reports the backend it used, so a flip collected with
+ * `/dev/hwrng` can be told apart from one collected with the CSPRNG.
+ *
+ * ## Lazy Loading
+ *
+ * The library ships one bundle for browsers and Node. A static
+ * `import 'node:crypto'` would break every browser build, so the Node
+ * modules are imported on first use, through a specifier the bundler can't
+ * see (`loadNodeModule` in `runtime.ts`). Browsers never reach that code: the source
+ * reports itself unavailable outside Node and is skipped by the pool.
+ *
+ * ## Devices
+ *
+ * `/dev/urandom` never runs dry. `/dev/hwrng` may have nothing until the
+ * hardware produces more output, which is why this source gets a longer
+ * default timeout than `crypto`. Devices are opened with O_NONBLOCK and
+ * polled (`device.ts`), so waiting on one never ties up a thread. A device that can't be opened fails the collection
+ * instead of silently falling back to `randomBytes()`: a caller who asked for
+ * the hardware RNG should see in `sourcesUsed` that it wasn't used.
+ *
+ * ## Availability
+ *
+ * Node.js only. Not registered by default; enable it with
+ * `EntropyPoolOptions.nodeOptions` or `createNodeEntropySource()`.
+ */
+
+import type { NodeEntropyResult } from '../types/NodeEntropyResult';
+import type { NodeEntropyOptions } from '../types/NodeEntropyOptions';
+import type { EntropySource } from '../types/EntropySource';
+import { EntropySourceUnavailableError, EntropyCollectionTimeoutError } from '../errors';
+import { withTimeout } from './timeout';
+import { openDevice, readStream } from './device';
+import { zeroize } from '../zeroize';
+import { isNodeRuntime, loadNodeModule } from './runtime';
+import { throwIfAborted } from '../../common/abort';
+
+/**
+ * Default configuration values.
+ */
+const DEFAULT_BYTE_COUNT = 32;
+const DEFAULT_TIMEOUT_MS = 250;
+const DEFAULT_DEVICE_BITS_PER_BYTE = 8;
+
+/**
+ * The parts of `node:crypto` this source uses.
+ * Declared locally: the library doesn't depend on @types/node.
+ */
+interface NodeCryptoModule {
+  randomBytes(size: number): Uint8Array;
+}
+
+/**
+ * Collects entropy from the Node OS backends.
+ *
+ * Example:
+ * → collectNodeEntropy({ byteCount: 32 })
+ * → 32 bytes, 256 bits, backend 'node:crypto'
+ *
+ * → collectNodeEntropy({ devicePath: '/dev/hwrng', deviceBitsPerByte: 4 })
+ * → 32 bytes, 128 bits, backend 'device'
+ *
+ * @param options Configuration options
+ * @returns Promise resolving to NodeEntropyResult
+ * @throws EntropySourceUnavailableError if not running on Node or the device can't be read
+ * @throws EntropyCollectionTimeoutError if the backend exceeds timeoutMs
+ * @throws EntropySourceResponseError if the device returns no data
+ */
+export async function collectNodeEntropy(
+  options: NodeEntropyOptions = {}
+): Promise<NodeEntropyResult> {
+  const byteCount = options.byteCount ?? DEFAULT_BYTE_COUNT;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const { devicePath, signal } = options;
+
+  throwIfAborted(signal);
+  if (!isNodeEntropyAvailable()) {
+    throw new EntropySourceUnavailableError('node', 'not running on Node.js');
+  }
+
+  const startTime = performance.now();
+
+  /**
+   * A device read that loses the race keeps running in the background;
+   * the flag stops it from issuing further reads.
+   */
+  let cancelled = false;
+  let bytes: Uint8Array;
+  try {
+    bytes = await withTimeout(
+      () => (devicePath === undefined ? readRandomBytes(byteCount) : readDevice(devicePath, byteCount, timeoutMs, () => cancelled)),
+      timeoutMs,
+      new EntropyCollectionTimeoutError('node', timeoutMs),
+      signal
+    );
+  } catch (error) {
+    cancelled = true;
+    throw error;
+  }
+
+  const endTime = performance.now();
+
+  if (devicePath === undefined) {
+    return {
+      bytes,
+      estimatedBits: bytes.length * 8,
+      collectionTimeMs: endTime - startTime,
+      backend: 'node:crypto',
+    };
+  }
+
+  return {
+    bytes,
+    estimatedBits: bytes.length * Math.min(8, options.deviceBitsPerByte ?? DEFAULT_DEVICE_BITS_PER_BYTE),
+    collectionTimeMs: endTime - startTime,
+    backend: 'device',
+    devicePath,
+  };
+}
+
+/**
+ * Checks if the Node OS source can be attempted.
+ *
+ * Only checks for a Node runtime. Whether a configured device exists is
+ * found out by reading it, which the sweep does anyway.
+ *
+ * @returns true when running on Node.js
+ */
+export function isNodeEntropyAvailable(): boolean {
+  return isNodeRuntime();
+}
+
+/**
+ * Creates the registry adapter for the Node OS source.
+ *
+ * Requests targetBits / 8 bytes per sweep (at least 16), like `crypto`.
+ *
+ * @param options Backend and device configuration
+ * @returns EntropySource named 'node'
+ */
+export function createNodeEntropySource(options: NodeEntropyOptions = {}): EntropySource {
+  return {
+    name: 'node',
+    quality: 4,
+    timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+    isAvailable: isNodeEntropyAvailable,
+    collect: ({ targetBits, timeoutMs, signal }) =>
+      collectNodeEntropy({
+        ...options,
+        byteCount: Math.max(Math.ceil(targetBits / 8), 16),
+        timeoutMs,
+        signal: signal ?? options.signal,
+      }),
+  };
+}
+
+/**
+ * Draws from `node:crypto.randomBytes()`.
+ * The Buffer is copied so callers get a plain Uint8Array, then wiped, so
+ * the copy is the only one left.
+ */
+async function readRandomBytes(byteCount: number): Promise<Uint8Array> {
+  const nodeCrypto = await loadNodeModule<NodeCryptoModule>('node:crypto');
+  const buffer = nodeCrypto.randomBytes(byteCount);
+  try {
+    return new Uint8Array(buffer);
+  } finally {
+    zeroize(buffer);
+  }
+}
+
+/**
+ * Reads up to byteCount bytes from a device file.
+ *
+ * Character devices may return short reads (hwrng hands out what it has),
+ * so we read until the buffer is full, the file ends, nothing more arrives
+ * within timeoutMs, or we're cancelled. The device is opened and read
+ * without blocking (`device.ts`), so a silent hwrng or FIFO never holds a
+ * threadpool thread past the timeout.
+ *
+ * @throws EntropySourceUnavailableError if the device can't be opened or read
+ * @throws EntropyCollectionTimeoutError if not a single byte arrived in time
+ * @throws EntropySourceResponseError if the device ended without data
+ */
+async function readDevice(
+  path: string,
+  byteCount: number,
+  timeoutMs: number,
+  isCancelled: () => boolean
+): Promise<Uint8Array> {
+  const stream = await openDevice('node', path, byteCount);
+
+  try {
+    return await readStream('node', stream, byteCount, timeoutMs, isCancelled, path);
+  } finally {
+    stream.destroy();
+  }
+}
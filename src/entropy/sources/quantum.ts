@@ -0,0 +1,315 @@
+/**
+ * Quantum random number generator (QRNG) entropy source.
+ *
+ * ## What is a QRNG?
+ *
+ * Quantum random number generators derive randomness from physical processes
+ * that are fundamentally unpredictable according to quantum mechanics, such as
+ * vacuum fluctuations of the electromagnetic field (ANU QRNG) or atmospheric
+ * noise (random.org, not strictly quantum but physically random).
+ *
+ * Unlike the OS CSPRNG, there is no deterministic algorithm in the path between
+ * the physical process and the bytes we receive, which is why ARCHITECTURE.md
+ * rates this source 5/5.
+ *
+ * ## Supported Formats
+ *
+ * - **ANU QRNG** (`anu`): `GET <endpoint>?length=N&type=uint8`
+ *   → `{ "type": "uint8", "length": N, "data": [..], "success": true }`
+ *
+ * - **random.org** (`random-org`): JSON-RPC 2.0 `generateIntegers` via POST
+ *   → `{ "jsonrpc": "2.0", "result": { "random": { "data": [..] } }, "id": 1 }`
+ *
+ * ## Transport
+ *
+ * The network call goes through an injectable, fetch-like `QuantumTransport`.
+ * By default this is `globalThis.fetch`, but tests (and users behind proxies)
+ * can supply their own function, e.g. one pointing at a local stub server.
+ *
+ * ## Trust Model
+ *
+ * The bytes arrive over the network from a third party. We therefore:
+ * 1. Validate every value strictly (integers in 0-255, nothing else)
+ * 2. Credit only the bytes actually received, never the requested count
+ * 3. Always MIX the result with local sources, never use it alone
+ *
+ * Even a malicious service cannot reduce the entropy of the final mix below
+ * that of the local sources, because SHA-256 mixing preserves the entropy of
+ * every independent input.
+ *
+ * ## Availability
+ *
+ * Network required. If the network is unavailable, the request fails or times
+ * out after 3000ms and the pool silently skips this source, like any other.
+ */
+
+import type { QuantumEntropyResult } from '../types/QuantumEntropyResult';
+import type { QuantumEntropyOptions } from '../types/QuantumEntropyOptions';
+import type {
+  QuantumProvider,
+  QuantumTransport,
+  QuantumTransportRequest,
+} from '../types/QuantumTransport';
+import type { EntropySource } from '../types/EntropySource';
+import {
+  EntropySourceUnavailableError,
+  EntropyCollectionTimeoutError,
+  EntropySourceResponseError,
+} from '../errors';
+import { withTimeout } from './timeout';
+
+/**
+ * Default configuration values.
+ */
+const DEFAULT_PROVIDER: QuantumProvider = 'anu';
+const DEFAULT_BYTE_COUNT = 32;
+const DEFAULT_TIMEOUT_MS = 3000;
+
+/**
+ * Public endpoints of the supported services.
+ */
+const DEFAULT_ENDPOINTS: Record<QuantumProvider, string> = {
+  anu: 'https://qrng.anu.edu.au/API/jsonI.php',
+  'random-org': 'https://api.random.org/json-rpc/4/invoke',
+};
+
+/**
+ * Upper bound on bytes per request.
+ * The ANU API rejects `length` above 1024, and we never need more than that
+ * for a single sweep (paranoid targets 512 bits = 64 bytes).
+ */
+const MAX_BYTES_PER_REQUEST = 1024;
+
+/**
+ * Collects entropy from a quantum random number service.
+ *
+ * Example:
+ * → collectQuantumEntropy({ provider: 'anu', byteCount: 32 })
+ * → Returns up to 32 bytes with 8 bits of estimated entropy per received byte
+ *
+ * @param options Configuration options
+ * @returns Promise resolving to QuantumEntropyResult
+ * @throws EntropySourceUnavailableError if no transport is available
+ * @throws EntropyCollectionTimeoutError if the round trip exceeds timeoutMs
+ * @throws EntropySourceResponseError if the service answers with unusable data
+ */
+export async function collectQuantumEntropy(
+  options: QuantumEntropyOptions = {}
+): Promise<QuantumEntropyResult> {
+  const provider = options.provider ?? DEFAULT_PROVIDER;
+  const byteCount = Math.min(
+    options.byteCount ?? DEFAULT_BYTE_COUNT,
+    MAX_BYTES_PER_REQUEST
+  );
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const endpoint = options.endpoint ?? DEFAULT_ENDPOINTS[provider];
+  const transport = resolveTransport(options);
+
+  if (!transport) {
+    throw new EntropySourceUnavailableError('quantum', 'no fetch-compatible transport is available');
+  }
+
+  if (provider === 'random-org' && !options.apiKey) {
+    throw new EntropySourceUnavailableError('quantum', 'the random-org provider requires an apiKey');
+  }
+
+  const startTime = performance.now();
+
+  /**
+   * The abort controller lets us tear down the connection when the timeout
+   * fires or the caller aborts. Without it, a hung request would keep a socket open long after
+   * the sweep moved on.
+   */
+  const controller = new AbortController();
+  const timeoutError = new EntropyCollectionTimeoutError('quantum', timeoutMs);
+  const { signal } = options;
+
+  let values: unknown;
+  try {
+    values = await withTimeout(
+      async () => {
+        const { url, init } = buildRequest(provider, endpoint, byteCount, options.apiKey);
+        const response = await transport(url, { ...init, signal: controller.signal });
+
+        if (!response.ok) {
+          throw new EntropySourceResponseError('quantum', `HTTP status ${response.status}`);
+        }
+
+        return extractValues(provider, await response.json());
+      },
+      timeoutMs,
+      timeoutError,
+      signal
+    );
+  } catch (error) {
+    controller.abort();
+    throw error;
+  }
+
+  const bytes = toValidatedBytes(values, byteCount);
+  const endTime = performance.now();
+
+  return {
+    bytes,
+    /**
+     * 8 bits per byte, but only for bytes we actually received.
+     * A service that returns fewer values than requested is credited
+     * for exactly what it delivered.
+     */
+    estimatedBits: bytes.length * 8,
+    collectionTimeMs: endTime - startTime,
+    provider,
+  };
+}
+
+/**
+ * Checks if the quantum entropy source can be attempted.
+ *
+ * This only checks for a transport, not for connectivity: the only reliable
+ * way to know the network is up is to make the request, which the sweep does
+ * anyway (and skips the source on failure).
+ *
+ * @param options The options that would be passed to collectQuantumEntropy
+ * @returns true if a transport is configured or fetch is available
+ */
+export function isQuantumEntropyAvailable(options: QuantumEntropyOptions = {}): boolean {
+  return resolveTransport(options) !== undefined;
+}
+
+/**
+ * Creates the registry adapter for the quantum source.
+ *
+ * The source needs the network, so it is not registered by default. Pass it
+ * through `EntropyPoolOptions.sources` / `FlipOptions.entropySources`, or set
+ * `EntropyPoolOptions.quantumOptions`.
+ *
+ * @param options Provider, transport and endpoint configuration
+ * @returns EntropySource named 'quantum'
+ */
+export function createQuantumEntropySource(options: QuantumEntropyOptions = {}): EntropySource {
+  return {
+    name: 'quantum',
+    quality: 5,
+    timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+    isAvailable: () => isQuantumEntropyAvailable(options),
+    collect: ({ targetBits, timeoutMs, signal }) =>
+      collectQuantumEntropy({
+        ...options,
+        byteCount: Math.max(Math.ceil(targetBits / 8), 16),
+        timeoutMs,
+        signal: signal ?? options.signal,
+      }),
+  };
+}
+
+/**
+ * Picks the user-supplied transport, falling back to the global fetch.
+ */
+function resolveTransport(options: QuantumEntropyOptions): QuantumTransport | undefined {
+  if (options.transport) {
+    return options.transport;
+  }
+
+  if (typeof globalThis.fetch === 'function') {
+    return (url, init) => globalThis.fetch(url, init);
+  }
+
+  return undefined;
+}
+
+/**
+ * Builds the provider-specific request.
+ *
+ * Example (anu, 16 bytes):
+ * → GET https://qrng.anu.edu.au/API/jsonI.php?length=16&type=uint8
+ */
+function buildRequest(
+  provider: QuantumProvider,
+  endpoint: string,
+  byteCount: number,
+  apiKey: string | undefined
+): { url: string; init: QuantumTransportRequest } {
+  if (provider === 'anu') {
+    const separator = endpoint.includes('?') ? '&' : '?';
+    return {
+      url: `${endpoint}${separator}length=${byteCount}&type=uint8`,
+      init: { method: 'GET', headers: { Accept: 'application/json' } },
+    };
+  }
+
+  return {
+    url: endpoint,
+    init: {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        method: 'generateIntegers',
+        params: { apiKey, n: byteCount, min: 0, max: 255, replacement: true },
+        id: 1,
+      }),
+    },
+  };
+}
+
+/**
+ * Pulls the array of random values out of the provider's JSON envelope.
+ *
+ * @throws EntropySourceResponseError if the envelope doesn't match the format
+ */
+function extractValues(provider: QuantumProvider, body: unknown): unknown {
+  if (!isRecord(body)) {
+    throw new EntropySourceResponseError('quantum', 'response body is not a JSON object');
+  }
+
+  if (provider === 'anu') {
+    if (body['success'] !== true) {
+      throw new EntropySourceResponseError('quantum', 'ANU response did not report success');
+    }
+    return body['data'];
+  }
+
+  /**
+   * JSON-RPC errors come back with HTTP 200, so we must check the envelope.
+   */
+  if (isRecord(body['error'])) {
+    const message = String(body['error']['message'] ?? 'unknown error');
+    throw new EntropySourceResponseError('quantum', `random.org error: ${message}`);
+  }
+
+  const result = body['result'];
+  const random = isRecord(result) ? result['random'] : undefined;
+  return isRecord(random) ? random['data'] : undefined;
+}
+
+/**
+ * Converts the untrusted value array into bytes.
+ *
+ * Every value must be an integer in [0, 255]. We reject the whole response
+ * on the first bad value rather than skipping it: a service that sends
+ * garbage is not one whose other values we want to trust.
+ *
+ * @throws EntropySourceResponseError if the data is missing, empty or out of range
+ */
+function toValidatedBytes(values: unknown, maxBytes: number): Uint8Array {
+  if (!Array.isArray(values) || values.length === 0) {
+    throw new EntropySourceResponseError('quantum', 'response contains no random data');
+  }
+
+  const count = Math.min(values.length, maxBytes);
+  const bytes = new Uint8Array(count);
+
+  for (let i = 0; i < count; i++) {
+    const value: unknown = values[i];
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0 || value > 255) {
+      throw new EntropySourceResponseError('quantum', `value at index ${i} is not a byte`);
+    }
+    bytes[i] = value;
+  }
+
+  return bytes;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
@@ -0,0 +1,28 @@
+/**
+ * Runtime detection and Node built-in loading shared by entropy sources.
+ *
+ * The library ships one bundle for browsers and Node, so sources that can
+ * use Node built-ins (`node:crypto`, `node:worker_threads`, ...) check the
+ * runtime first and import them on first use.
+ */
+
+/**
+ * Checks whether we're running on Node.js (or a runtime that presents
+ * itself as Node, like Bun).
+ *
+ * @returns true when `process.versions.node` is set
+ */
+export function isNodeRuntime(): boolean {
+  const runtime = globalThis as { process?: { versions?: { node?: string } } };
+  return typeof runtime.process?.versions?.node === 'string';
+}
+
+/**
+ * Imports a Node built-in at runtime.
+ *
+ * The specifier is a parameter on purpose: bundlers only resolve literal
+ * `import('...')` calls, so the browser bundle never tries to include it.
+ */
+export function loadNodeModule<T>(specifier: string): Promise<T> {
+  return import(/* @vite-ignore */ specifier) as Promise<T>;
+}
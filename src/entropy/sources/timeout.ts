@@ -0,0 +1,63 @@
+/**
+ * Shared timeout helper for entropy sources.
+ *
+ * Every source in the sweep has its own per-source budget (see the source
+ * table in ARCHITECTURE.md). This helper gives all of them the same
+ * "reject with a typed error when the budget runs out" behaviour.
+ */
+
+import { FlipAbortedError } from '../../common/errors';
+
+/**
+ * Wraps a promise with a timeout.
+ *
+ * If the promise doesn't resolve within the timeout, the returned promise
+ * rejects with the given error message.
+ *
+ * This is used to prevent entropy collection from blocking indefinitely.
+ * With a signal, an abort rejects right away with FlipAbortedError instead
+ * of waiting for the source or the timeout.
+ *
+ * @param fn Async function to execute
+ * @param timeoutMs Maximum time to wait
+ * @param error Error to throw if timeout exceeded
+ * @param signal Optional AbortSignal that cancels the wait
+ * @returns Promise that resolves with fn's result or rejects on timeout
+ */
+export function withTimeout<T>(
+  fn: () => Promise<T>,
+  timeoutMs: number,
+  error: Error,
+  signal?: AbortSignal
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new FlipAbortedError(signal.reason));
+      return;
+    }
+
+    const cleanup = (): void => {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = (): void => {
+      cleanup();
+      reject(new FlipAbortedError(signal?.reason));
+    };
+    const timeoutId = setTimeout(() => {
+      cleanup();
+      reject(error);
+    }, timeoutMs);
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    fn()
+      .then((result) => {
+        cleanup();
+        resolve(result);
+      })
+      .catch((error) => {
+        cleanup();
+        reject(error);
+      });
+  });
+}
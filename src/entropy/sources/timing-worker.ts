@@ -0,0 +1,287 @@
+/**
+ * Off-main-thread sampling for the timing source.
+ *
+ * ## Why?
+ *
+ * In-thread collection spins on the main thread and only yields every 64
+ * samples: the page stutters in a browser, and a Node server's event loop
+ * waits for it. With `worker: true` the sampling loop runs in a Web Worker
+ * or a `node:worker_threads` worker instead and streams its deltas back:
+ *
+ * ```
+ *   main thread                        worker
+ *   ───────────                        ──────
+ *   postMessage({ sampleCount, ... }) ─►  work, time, work, time, ...
+ *   deltas = [...]  ◄── { deltas: [64 deltas] }
+ *   deltas = [...]  ◄── { deltas: [64 deltas] }
+ *   extract bits    ◄── { deltas: [rest], done: true }
+ * ```
+ *
+ * Only the sampling moves: clock ticks, min-entropy and the extractors are
+ * computed on the main thread, exactly as for in-thread samples.
+ *
+ * ## Jitter
+ *
+ * The worker never yields, so every time the scheduler preempts it, or
+ * moves it to another core, the interruption lands inside a measured
+ * delta. That cross-thread scheduling noise is jitter the in-thread loop
+ * doesn't see.
+ *
+ * ## The Worker Script
+ *
+ * There is no separate worker file to bundle or serve: the script is built
+ * from a string, with the sampling work function embedded as source
+ * (`Function.prototype.toString`). The work function must therefore be
+ * self-contained: no imports, no closures.
+ *
+ * ## Fallback
+ *
+ * `collectDeltasInWorker` resolves to `undefined` whenever no worker runs:
+ * no worker API, a worker that can't be created (e.g. a CSP that blocks
+ * blob: URLs) or one that fails. The caller then samples in-thread.
+ */
+
+import { FlipAbortedError } from '../../common/errors';
+import { throwIfAborted } from '../../common/abort';
+import { isNodeRuntime, loadNodeModule } from './runtime';
+
+/**
+ * Deltas per message: the same cadence the in-thread loop yields at.
+ */
+const BATCH_SIZE = 64;
+
+/**
+ * The sampling work: takes a scratch buffer and a position, returns the
+ * next position. Timed around each call.
+ */
+export type TimingWork = (buffer: Uint8Array, index: number) => number;
+
+/**
+ * What the worker is asked to do.
+ */
+interface TimingWorkerRequest {
+  sampleCount: number;
+  timeoutMs: number;
+  batchSize: number;
+  bufferSize: number;
+}
+
+/**
+ * What the worker streams back.
+ */
+interface TimingWorkerMessage {
+  deltas: number[];
+  done: boolean;
+}
+
+/**
+ * The parts of a Web Worker or a `node:worker_threads` Worker we use,
+ * behind one interface.
+ */
+interface TimingWorkerHandle {
+  post(request: TimingWorkerRequest): void;
+  onMessage(listener: (message: TimingWorkerMessage) => void): void;
+  onError(listener: () => void): void;
+  terminate(): void;
+}
+
+/**
+ * The parts of `node:worker_threads` this module uses.
+ * Declared locally: the library doesn't depend on @types/node.
+ */
+interface NodeWorkerThreadsModule {
+  Worker: new (script: string, options: { eval: true }) => NodeWorker;
+}
+
+interface NodeWorker {
+  postMessage(message: unknown): void;
+  on(event: 'message', listener: (message: TimingWorkerMessage) => void): void;
+  on(event: 'error' | 'messageerror', listener: () => void): void;
+  unref(): void;
+  terminate(): Promise<number>;
+}
+
+/**
+ * Options for one worker collection.
+ */
+export interface TimingWorkerOptions {
+  /**
+   * Samples to take.
+   */
+  sampleCount: number;
+
+  /**
+   * Time budget in milliseconds, worker startup included.
+   */
+  timeoutMs: number;
+
+  /**
+   * Size of the work function's scratch buffer in bytes.
+   */
+  bufferSize: number;
+
+  /**
+   * Cancels collection: the worker is terminated.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Takes timing samples in a worker thread.
+ *
+ * The worker stops after `sampleCount` samples or `timeoutMs`, whichever
+ * comes first. If it is still running (or still starting) when `timeoutMs`
+ * has passed on the main thread, it is terminated and the deltas streamed
+ * so far are returned.
+ *
+ * Example:
+ * → collectDeltasInWorker(performChaoticWork, { sampleCount: 256, timeoutMs: 200, bufferSize: 1024 })
+ * → [0.000412, 0.000398, ...] (256 deltas, in ms)
+ *
+ * @param work Self-contained function timed around each call
+ * @param options Sample count, budget and cancellation
+ * @returns The measured deltas in milliseconds, or undefined if no worker could run
+ * @throws FlipAbortedError if the signal aborts
+ */
+export async function collectDeltasInWorker(
+  work: TimingWork,
+  options: TimingWorkerOptions
+): Promise<number[] | undefined> {
+  const { sampleCount, timeoutMs, bufferSize, signal } = options;
+  throwIfAborted(signal);
+
+  const worker = await startWorker(work);
+  if (worker === undefined) {
+    return undefined;
+  }
+
+  return new Promise<number[] | undefined>((resolve, reject) => {
+    const deltas: number[] = [];
+
+    const finish = (outcome: () => void): void => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      worker.terminate();
+      outcome();
+    };
+
+    const onAbort = (): void => finish(() => reject(new FlipAbortedError(signal?.reason)));
+    const timer = setTimeout(() => finish(() => resolve(deltas)), timeoutMs);
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    /**
+     * The signal may have aborted while the worker was starting.
+     */
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+
+    worker.onMessage((message) => {
+      deltas.push(...message.deltas);
+      if (message.done) {
+        finish(() => resolve(deltas));
+      }
+    });
+    worker.onError(() => finish(() => resolve(undefined)));
+
+    worker.post({ sampleCount, timeoutMs, batchSize: BATCH_SIZE, bufferSize });
+  });
+}
+
+/**
+ * Starts a worker running the sampling script: a `node:worker_threads`
+ * worker on Node, a Web Worker from a blob: URL elsewhere.
+ *
+ * @returns The worker, or undefined if none can be created here
+ */
+async function startWorker(work: TimingWork): Promise<TimingWorkerHandle | undefined> {
+  try {
+    if (isNodeRuntime()) {
+      const { Worker } = await loadNodeModule<NodeWorkerThreadsModule>('node:worker_threads');
+      const worker = new Worker(workerScript(work, 'node'), { eval: true });
+      worker.unref();
+      return {
+        post: (request) => worker.postMessage(request),
+        onMessage: (listener) => worker.on('message', listener),
+        onError: (listener): void => {
+          worker.on('error', listener);
+          worker.on('messageerror', listener);
+        },
+        terminate: () => void worker.terminate(),
+      };
+    }
+
+    if (typeof Worker === 'undefined' || typeof Blob === 'undefined' || typeof URL.createObjectURL !== 'function') {
+      return undefined;
+    }
+
+    /**
+     * The script is fetched asynchronously, so the URL stays valid until
+     * the worker is terminated.
+     */
+    const url = URL.createObjectURL(new Blob([workerScript(work, 'web')], { type: 'text/javascript' }));
+    let worker: Worker;
+    try {
+      worker = new Worker(url);
+    } catch (error) {
+      URL.revokeObjectURL(url);
+      throw error;
+    }
+    return {
+      post: (request) => worker.postMessage(request),
+      onMessage: (listener) => worker.addEventListener('message', (event: MessageEvent<TimingWorkerMessage>) => listener(event.data)),
+      onError: (listener): void => {
+        worker.addEventListener('error', listener);
+        worker.addEventListener('messageerror', listener);
+      },
+      terminate: (): void => {
+        worker.terminate();
+        URL.revokeObjectURL(url);
+      },
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Builds the worker's source code.
+ *
+ * The sampling loop mirrors the in-thread one in `timing.ts`, without the
+ * periodic yield: nothing else runs on this thread.
+ */
+function workerScript(work: TimingWork, runtime: 'node' | 'web'): string {
+  const listen = runtime === 'node'
+    ? `const { parentPort } = require('node:worker_threads');
+       parentPort.once('message', (request) => sample(request, (message) => parentPort.postMessage(message)));`
+    : `self.addEventListener('message', (event) => sample(event.data, (message) => self.postMessage(message)), { once: true });`;
+
+  return `'use strict';
+const work = ${work.toString()};
+
+function sample(request, post) {
+  const buffer = new Uint8Array(request.bufferSize);
+  const startTime = performance.now();
+  let index = 0;
+  let taken = 0;
+  let deltas = [];
+
+  while (taken < request.sampleCount && performance.now() - startTime <= request.timeoutMs) {
+    const jitterStart = performance.now();
+    index = work(buffer, index);
+    deltas.push(performance.now() - jitterStart);
+    taken++;
+
+    if (deltas.length === request.batchSize) {
+      post({ deltas, done: false });
+      deltas = [];
+    }
+  }
+
+  post({ deltas, done: true });
+}
+
+${listen}
+`;
+}
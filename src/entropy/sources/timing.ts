@@ -28,14 +28,50 @@
  * unpredictable because they're dominated by hardware noise rather than
  * the deterministic work we're performing.
  *
+ * ## Clock Resolution
+ *
+ * Browsers clamp `performance.now()` (to 100µs, or 1ms without
+ * cross-origin isolation) against timing attacks. Scaling a clamped delta
+ * by 1e9 and folding its low bits mostly folds zeros. Instead, we detect
+ * the resolution once (`detectClockResolution()`) and count deltas in
+ * ticks: the low bits of a tick count are the jitter the clock can show.
+ *
+ * ## Extractors
+ *
+ * How ticks become output bits is selectable (`options.extractor`):
+ *
+ * - `xor-fold` (default): XOR of the 4 low bits of each delta, 1 bit per
+ *   sample. Fast, but passes any bias straight through.
+ * - `von-neumann`: pairs of xor-fold bits; 01 → 0, 10 → 1, 00 and 11 are
+ *   dropped. Unbiased if the bits are independent, at ≥ 3/4 of them lost.
+ * - `jitter-fold`: in the style of jitterentropy. Skips "stuck" samples
+ *   (zero first, second or third derivative), folds every bit of each
+ *   remaining delta and XORs two samples per output bit.
+ * - `toeplitz`: multiplies the xor-fold bits by a Toeplitz matrix over
+ *   GF(2), compressing n bits to n × H / 2. A universal hash: its output
+ *   is close to uniform whenever the input has the min-entropy we measured.
+ *
  * ## Entropy Quality
  *
  * Timer jitter provides approximately 1-4 bits of entropy per sample,
- * depending on system load and timer resolution. We conservatively estimate
- * ~1 bit per sample, meaning:
+ * depending on system load and timer resolution, but the extractors only
+ * keep one bit of it, and that bit is what gets credited. So each
+ * collection runs the SP 800-90B estimators over the xor-fold bits (H per
+ * sample, at most 1), and every extractor credits at most H per sample it
+ * consumed; jitter-fold, whose bits differ, is also held to an estimate
+ * over its own output:
+ *
+ * → 256 samples with H = 0.65  → xor-fold credits 166 bits
+ * → 256 samples on a 1ms clock → H ≈ 0, all extractors credit ≈ 0
  *
- * → 64 bits of entropy ≈ 64 samples
- * → 256 bits of entropy ≈ 256 samples
+ * `result.estimates` reports what every extractor would have credited.
+ *
+ * ## Worker Threads
+ *
+ * With `options.worker`, sampling runs in a Web Worker or a
+ * `node:worker_threads` worker and the main thread only extracts (see
+ * `timing-worker.ts`). Where no worker can be started, collection falls
+ * back to the main thread; `result.thread` says which one sampled.
  *
  * This is slower than `crypto.getRandomValues()` but has the advantage of
  * being based on observable physical phenomena rather than a DRBG.
@@ -58,12 +94,81 @@
 
 import type { TimingEntropyResult } from '../types/TimingEntropyResult';
 import type { TimingEntropyOptions } from '../types/TimingEntropyOptions';
+import type { TimingExtractor } from '../types/TimingExtractor';
+import type { EntropySource } from '../types/EntropySource';
+import { throwIfAborted } from '../../common/abort';
+import { estimateBitMinEntropy } from '../estimators';
+import { sha256 } from '../hashes';
+import { collectDeltasInWorker } from './timing-worker';
 
 /**
  * Default configuration values.
  */
 const DEFAULT_SAMPLE_COUNT = 256;
 const DEFAULT_TIMEOUT_MS = 200;
+const DEFAULT_EXTRACTOR: TimingExtractor = 'xor-fold';
+
+/**
+ * Assessed min-entropy per output byte for the health tests. The 90B
+ * estimators measure 0.58-0.73 bits per xor-fold output bit; 4 per byte
+ * stays below that with room to spare.
+ */
+const ASSESSED_ENTROPY_PER_BYTE = 4;
+
+/**
+ * Size of the chaotic work buffer in bytes.
+ */
+const CHAOTIC_BUFFER_SIZE = 1024;
+
+/**
+ * Clock resolution detection: number of tick transitions to observe, and
+ * how long to busy-wait for them at most (by `Date.now()`, so a clock that
+ * never advances still ends it). The read cap only matters if both clocks
+ * are frozen, e.g. under fake timers.
+ */
+const RESOLUTION_PROBES = 8;
+const MAX_RESOLUTION_DETECTION_MS = 20;
+const MAX_RESOLUTION_READS = 1_000_000;
+
+/**
+ * Nanoseconds per millisecond. Steps are compared in whole nanoseconds,
+ * the finest resolution any JavaScript timer offers.
+ */
+const NS_PER_MS = 1e6;
+
+/**
+ * jitter-fold: non-stuck samples XORed into each output bit.
+ */
+const JITTER_FOLD_OVERSAMPLING = 2;
+
+/**
+ * Label the public Toeplitz seed is derived from.
+ */
+const TOEPLITZ_SEED_LABEL = 'flip-coin/timing/toeplitz';
+
+/**
+ * Result of one extractor over a set of tick deltas.
+ */
+interface TimingExtraction {
+  bits: number[];
+  estimatedBits: number;
+}
+
+/**
+ * The extractors, by name. Each gets the tick deltas and the measured
+ * min-entropy per sample (at most 1).
+ */
+const EXTRACTORS: Record<TimingExtractor, (ticks: number[], entropyPerSample: number) => TimingExtraction> = {
+  'xor-fold': xorFoldExtract,
+  'von-neumann': vonNeumannExtract,
+  'jitter-fold': jitterFoldExtract,
+  'toeplitz': toeplitzExtract,
+};
+
+/**
+ * Detected once per runtime; the timer's precision doesn't change.
+ */
+let detectedResolutionMs: number | undefined;
 
 /**
  * Collects entropy from high-resolution timer jitter.
@@ -71,49 +176,229 @@ const DEFAULT_TIMEOUT_MS = 200;
  * The collection process:
  * 1. Perform chaotic memory operations to induce timing variance
  * 2. Measure the elapsed time with `performance.now()`
- * 3. Extract the fractional part (sub-millisecond precision)
- * 4. Pack the least significant bits into output bytes
+ * 3. Convert the delta to clock ticks and measure their min-entropy
+ * 4. Turn the ticks into output bits with the selected extractor
  *
  * Example:
  * → collectTimingEntropy({ sampleCount: 64 })
- * → Returns ~8 bytes with ~64 bits of estimated entropy
+ * → Returns 8 bytes with up to 64 bits of estimated entropy
+ *
+ * → collectTimingEntropy({ sampleCount: 256, extractor: 'toeplitz' })
+ * → Returns up to 16 bytes (256 × H / 2 bits)
+ *
+ * → collectTimingEntropy({ sampleCount: 256, worker: true })
+ * → Same output, sampled off the main thread (thread: 'worker')
  *
  * @param options Configuration options
  * @returns Promise resolving to TimingEntropyResult
+ * @throws RangeError if `options.clockResolutionMs` is not positive
  */
 export async function collectTimingEntropy(
   options: TimingEntropyOptions = {}
 ): Promise<TimingEntropyResult> {
   const sampleCount = options.sampleCount ?? DEFAULT_SAMPLE_COUNT;
   const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const extractor = options.extractor ?? DEFAULT_EXTRACTOR;
+  const { signal } = options;
+
+  if (options.clockResolutionMs !== undefined && !(options.clockResolutionMs > 0)) {
+    throw new RangeError(`clockResolutionMs must be positive, got ${options.clockResolutionMs}`);
+  }
 
+  throwIfAborted(signal);
+
+  /**
+   * Detected before the budget starts: the first detection busy-waits for
+   * up to MAX_RESOLUTION_DETECTION_MS, which would otherwise come out of
+   * the sampling time (or the worker's).
+   */
+  const clockResolutionMs = options.clockResolutionMs ?? detectClockResolution();
   const startTime = performance.now();
 
   /**
-   * We'll collect timing samples and pack them into bytes.
-   * Each sample contributes ~1 bit of entropy, but we collect
-   * 8 samples per byte to be conservative.
+   * In a worker if asked and possible, on this thread otherwise.
    */
-  const outputBytes = Math.ceil(sampleCount / 8);
-  const output = new Uint8Array(outputBytes);
+  const workerDeltas = options.worker
+    ? await collectDeltasInWorker(performChaoticWork, {
+      sampleCount,
+      timeoutMs: timeoutMs - (performance.now() - startTime),
+      bufferSize: CHAOTIC_BUFFER_SIZE,
+      signal,
+    })
+    : undefined;
+  const thread = workerDeltas === undefined ? 'main' : 'worker';
+  const deltas = workerDeltas ?? await collectDeltasInThread(sampleCount, timeoutMs, startTime, signal);
+
+  /**
+   * Count each delta in clock ticks.
+   *
+   * Example (5µs resolution):
+   * → jitterDelta = 0.0234 ms
+   * → ticks = round(0.0234 / 0.005) = 5
+   */
+  const ticks = deltas.map((delta) => Math.round(delta / clockResolutionMs));
+
+  /**
+   * Measured on the folded bits, not the tick counts: a multi-bit delta
+   * can score several bits, while the one bit the extractors keep of it
+   * is worth less. On a coarse clock almost every bit is the same.
+   */
+  const minEntropyPerSample = estimateBitMinEntropy(ticks.map((tick) => extractEntropyBit(tick, 1))).minEntropyPerBit;
+
+  const extractions = {} as Record<TimingExtractor, TimingExtraction>;
+  for (const name of Object.keys(EXTRACTORS) as TimingExtractor[]) {
+    extractions[name] = EXTRACTORS[name](ticks, minEntropyPerSample);
+  }
+  const { bits, estimatedBits } = extractions[extractor];
+
+  const endTime = performance.now();
+
+  return {
+    bytes: packBits(bits),
+    estimatedBits,
+    collectionTimeMs: endTime - startTime,
+    extractor,
+    thread,
+    sampleCount: ticks.length,
+    clockResolutionMs,
+    minEntropyPerSample,
+    estimates: {
+      'xor-fold': extractions['xor-fold'].estimatedBits,
+      'von-neumann': extractions['von-neumann'].estimatedBits,
+      'jitter-fold': extractions['jitter-fold'].estimatedBits,
+      'toeplitz': extractions['toeplitz'].estimatedBits,
+    },
+  };
+}
+
+/**
+ * Measures the resolution of `performance.now()`: the step every reading
+ * is a multiple of.
+ *
+ * The smallest step between two distinct readings is no good on a fine
+ * clock: it measures how long a call takes, not the clock. So we observe
+ * a few transitions and take the GCD of their steps: a 100µs clamp gives
+ * multiples of 0.1, Node.js's nanosecond clock multiples of 0.000001.
+ *
+ * The first call busy-waits for RESOLUTION_PROBES ticks (about 8ms on a
+ * 1ms clock), never longer than MAX_RESOLUTION_DETECTION_MS; later calls
+ * return the cached value.
+ *
+ * Example:
+ * → detectClockResolution()
+ * → 0.1 (Firefox, default), 0.000001 (Node.js)
+ *
+ * @returns Resolution in milliseconds; Infinity if the clock never advances
+ */
+export function detectClockResolution(): number {
+  if (detectedResolutionMs !== undefined) {
+    return detectedResolutionMs;
+  }
+
+  let resolutionNs = 0;
+  let reads = 0;
+  const deadline = Date.now() + MAX_RESOLUTION_DETECTION_MS;
+  const inBudget = (): boolean => reads < MAX_RESOLUTION_READS && Date.now() < deadline;
+
+  for (let probe = 0; probe < RESOLUTION_PROBES && inBudget(); probe++) {
+    const start = performance.now();
+    let now = start;
+    while (now === start && inBudget()) {
+      now = performance.now();
+      reads++;
+    }
+    if (now !== start) {
+      resolutionNs = gcd(resolutionNs, Math.max(1, Math.round((now - start) * NS_PER_MS)));
+    }
+  }
+
+  detectedResolutionMs = resolutionNs === 0 ? Infinity : resolutionNs / NS_PER_MS;
+  return detectedResolutionMs;
+}
+
+/**
+ * Greatest common divisor of two non-negative integers; gcd(0, b) = b.
+ */
+function gcd(a: number, b: number): number {
+  while (b !== 0) {
+    [a, b] = [b, a % b];
+  }
+  return a;
+}
+
+/**
+ * Creates the registry adapter for the timing source.
+ *
+ * Requests targetBits / 4 samples per sweep (at least 64). At ~1 bit per
+ * sample that covers a quarter of the target, leaving the rest to faster
+ * sources while still contributing meaningfully to every mix.
+ *
+ * The clock resolution is detected on the first collect() and cached, not
+ * here: the default registry creates this source when it loads, and
+ * importing the library must not busy-wait. The pool's per-source timeout
+ * is already running by then, so the detection time is taken off the
+ * sampling budget rather than overrunning it.
+ *
+ * @param options Overrides applied to every collection
+ * @returns EntropySource named 'timing'
+ */
+export function createTimingEntropySource(options: TimingEntropyOptions = {}): EntropySource {
+  return {
+    name: 'timing',
+    quality: 3,
+    timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+    assessedEntropyPerByte: ASSESSED_ENTROPY_PER_BYTE,
+    /**
+     * performance.now() exists everywhere we run.
+     */
+    isAvailable: () => true,
+    collect: ({ targetBits, timeoutMs, signal }): Promise<TimingEntropyResult> => {
+      const startTime = Date.now();
+      const clockResolutionMs = options.clockResolutionMs ?? detectClockResolution();
+      return collectTimingEntropy({
+        ...options,
+        clockResolutionMs,
+        sampleCount: Math.max(Math.ceil(targetBits / 4), 64),
+        timeoutMs: timeoutMs - (Date.now() - startTime),
+        signal: signal ?? options.signal,
+      });
+    },
+  };
+}
 
+/**
+ * Takes timing samples on the calling thread.
+ *
+ * Yields to the event loop every 64 samples, which is where an abort is
+ * noticed.
+ *
+ * @param sampleCount Samples to take
+ * @param timeoutMs Budget, counted from startTime
+ * @param startTime When the collection started (`performance.now()`)
+ * @param signal Optional AbortSignal
+ * @returns The measured deltas in milliseconds
+ * @throws FlipAbortedError if the signal aborts
+ */
+async function collectDeltasInThread(
+  sampleCount: number,
+  timeoutMs: number,
+  startTime: number,
+  signal: AbortSignal | undefined
+): Promise<number[]> {
   /**
    * Chaotic buffer used to induce timing jitter.
    * Memory access patterns affect CPU cache behavior,
    * introducing unpredictable timing variations.
    */
-  const chaoticBuffer = new Uint8Array(1024);
+  const chaoticBuffer = new Uint8Array(CHAOTIC_BUFFER_SIZE);
   let chaoticIndex = 0;
 
-  let samplesCollected = 0;
-  let currentByte = 0;
-  let bitPosition = 0;
-  let byteIndex = 0;
+  const deltas: number[] = [];
 
   /**
    * Collect timing samples until we reach our target or timeout.
    */
-  while (samplesCollected < sampleCount) {
+  while (deltas.length < sampleCount) {
     /**
      * Check timeout to prevent blocking for too long.
      */
@@ -128,64 +413,19 @@ export async function collectTimingEntropy(
      */
     const jitterStart = performance.now();
     chaoticIndex = performChaoticWork(chaoticBuffer, chaoticIndex);
-    const jitterEnd = performance.now();
-
-    /**
-     * Extract entropy from the timing measurement.
-     *
-     * We use the fractional part of the timing (sub-millisecond precision).
-     * In browsers, performance.now() typically has microsecond resolution.
-     *
-     * Example:
-     * → jitterDelta = 0.00234567 ms
-     * → fractional = 0.00234567
-     * → scaled = 234567 (approximate)
-     * → We extract the least significant bit
-     */
-    const jitterDelta = jitterEnd - jitterStart;
-    const entropyBit = extractEntropyBit(jitterDelta);
-
-    /**
-     * Pack extracted bits into output bytes.
-     * We fill each byte with 8 bits before moving to the next.
-     */
-    currentByte = (currentByte << 1) | entropyBit;
-    bitPosition++;
-
-    if (bitPosition === 8) {
-      if (byteIndex < outputBytes) {
-        output[byteIndex] = currentByte;
-        byteIndex++;
-      }
-      currentByte = 0;
-      bitPosition = 0;
-    }
-
-    samplesCollected++;
+    deltas.push(performance.now() - jitterStart);
 
     /**
      * Yield to the event loop periodically to keep the page responsive.
      * This also introduces additional timing unpredictability.
      */
-    if (samplesCollected % 64 === 0) {
+    if (deltas.length % 64 === 0) {
       await yieldToEventLoop();
+      throwIfAborted(signal);
     }
   }
 
-  /**
-   * Handle any remaining bits in the current byte.
-   */
-  if (bitPosition > 0 && byteIndex < outputBytes) {
-    output[byteIndex] = currentByte << (8 - bitPosition);
-  }
-
-  const endTime = performance.now();
-
-  return {
-    bytes: output.slice(0, Math.ceil(samplesCollected / 8)),
-    estimatedBits: samplesCollected,
-    collectionTimeMs: endTime - startTime,
-  };
+  return deltas;
 }
 
 /**
@@ -196,6 +436,9 @@ export async function collectTimingEntropy(
  * - Perform enough work to be measurable but not too slow
  * - Be deterministic in result but not in timing
  *
+ * It is also sent to the timing worker as source code, so it must stay
+ * self-contained: no imports, no closures, no helpers.
+ *
  * The exact timing depends on:
  * - CPU cache hits/misses
  * - Memory bus contention
@@ -246,15 +489,22 @@ function performChaoticWork(buffer: Uint8Array, startIndex: number): number {
  * → bit0 = 1, bit1 = 1, bit2 = 1, ...
  * → XOR of bits = 1 (for example)
  *
+ * The timing source folds tick counts, which are already integers, so
+ * it passes `scale = 1`. The user input source reuses the fold for its
+ * event deltas, counted in timestamp ticks, and for pixel deltas; both
+ * pass `scale = 1` too, because multiplying them by 1e9 would zero the
+ * low bits we fold.
+ *
  * @param deltaMs Time difference in milliseconds
+ * @param scale Amplification factor applied before folding (default: 1e9)
  * @returns 0 or 1
  */
-function extractEntropyBit(deltaMs: number): number {
+export function extractEntropyBit(deltaMs: number, scale: number = 1e9): number {
   /**
    * Scale to amplify the fractional precision.
    * 1e9 captures nanosecond-level timing if available.
    */
-  const scaled = Math.floor(deltaMs * 1e9);
+  const scaled = Math.floor(deltaMs * scale);
 
   /**
    * XOR multiple bit positions for "whitening".
@@ -268,6 +518,169 @@ function extractEntropyBit(deltaMs: number): number {
   return bit0 ^ bit1 ^ bit2 ^ bit3;
 }
 
+/**
+ * xor-fold: one bit per sample, the existing `extractEntropyBit` fold
+ * applied to the tick count.
+ *
+ * Credit: H per sample.
+ */
+function xorFoldExtract(ticks: number[], entropyPerSample: number): TimingExtraction {
+  return {
+    bits: ticks.map((tick) => extractEntropyBit(tick, 1)),
+    estimatedBits: Math.floor(ticks.length * entropyPerSample),
+  };
+}
+
+/**
+ * von-neumann: debiases the xor-fold bits pairwise.
+ *
+ * Example:
+ * → xor-fold bits 01 11 10 00 10
+ * → output         0     1     1
+ *
+ * Credit: one bit per output bit, but never more than H per sample
+ * consumed (the trick removes bias, not correlation).
+ */
+function vonNeumannExtract(ticks: number[], entropyPerSample: number): TimingExtraction {
+  const bits: number[] = [];
+  for (let i = 0; i + 1 < ticks.length; i += 2) {
+    const first = extractEntropyBit(ticks[i]!, 1);
+    const second = extractEntropyBit(ticks[i + 1]!, 1);
+    if (first !== second) {
+      bits.push(first);
+    }
+  }
+
+  return {
+    bits,
+    estimatedBits: Math.min(bits.length, Math.floor(ticks.length * entropyPerSample)),
+  };
+}
+
+/**
+ * jitter-fold: jitterentropy's stuck test and folding loop.
+ *
+ * A sample is stuck if its delta, or its first or second difference from
+ * the previous deltas, is zero: the clock didn't see any jitter there.
+ * Every other sample is folded to its parity (XOR of all its bits) and
+ * JITTER_FOLD_OVERSAMPLING parities are XORed into one output bit.
+ *
+ * Credit: the 90B estimate over the output bits, never more than H per
+ * sample consumed.
+ */
+function jitterFoldExtract(ticks: number[], entropyPerSample: number): TimingExtraction {
+  const bits: number[] = [];
+  let previousDelta: number | undefined;
+  let previousSecond: number | undefined;
+  let folded = 0;
+  let folds = 0;
+
+  for (const delta of ticks) {
+    const second = previousDelta === undefined ? undefined : delta - previousDelta;
+    const third = second === undefined || previousSecond === undefined ? undefined : second - previousSecond;
+    previousDelta = delta;
+    previousSecond = second;
+
+    if (third === undefined || delta === 0 || second === 0 || third === 0) {
+      continue;
+    }
+
+    folded ^= parity(delta);
+    folds++;
+    if (folds === JITTER_FOLD_OVERSAMPLING) {
+      bits.push(folded);
+      folded = 0;
+      folds = 0;
+    }
+  }
+
+  return {
+    bits,
+    estimatedBits: Math.min(
+      Math.floor(bits.length * estimateBitMinEntropy(bits).minEntropyPerBit),
+      Math.floor(bits.length * JITTER_FOLD_OVERSAMPLING * entropyPerSample)
+    ),
+  };
+}
+
+/**
+ * toeplitz: compresses the n xor-fold bits to m = ⌊n × H / 2⌋ bits with a
+ * Toeplitz matrix over GF(2):
+ *
+ * output_i = XOR_j (T[i][j] AND bit_j),  T[i][j] = seed[i − j + n − 1]
+ *
+ * The n + m − 1 seed bits are public and fixed (derived from
+ * TOEPLITZ_SEED_LABEL); a seeded extractor only needs its seed to be
+ * independent of the source. Keeping half the measured min-entropy is the
+ * leftover hash lemma's safety margin.
+ *
+ * Credit: m, one bit per output bit.
+ */
+function toeplitzExtract(ticks: number[], entropyPerSample: number): TimingExtraction {
+  const n = ticks.length;
+  const m = Math.floor((n * entropyPerSample) / 2);
+  if (m === 0) {
+    return { bits: [], estimatedBits: 0 };
+  }
+
+  const input = ticks.map((tick) => extractEntropyBit(tick, 1));
+  const seed = toeplitzSeedBits(n + m - 1);
+
+  const bits: number[] = [];
+  for (let i = 0; i < m; i++) {
+    let bit = 0;
+    for (let j = 0; j < n; j++) {
+      bit ^= seed[i - j + n - 1]! & input[j]!;
+    }
+    bits.push(bit);
+  }
+
+  return { bits, estimatedBits: m };
+}
+
+/**
+ * The first `count` bits of the public Toeplitz seed:
+ * SHA-256(label || counter) for counter = 0, 1, ..., unpacked MSB first.
+ */
+function toeplitzSeedBits(count: number): Uint8Array {
+  const label = new TextEncoder().encode(TOEPLITZ_SEED_LABEL);
+  const block = new Uint8Array(label.length + 4);
+  block.set(label);
+  const view = new DataView(block.buffer);
+
+  const bits = new Uint8Array(count);
+  for (let counter = 0; counter * 256 < count; counter++) {
+    view.setUint32(label.length, counter);
+    const digest = sha256(block);
+    for (let i = 0; i < 256 && counter * 256 + i < count; i++) {
+      bits[counter * 256 + i] = (digest[i >> 3]! >> (7 - (i & 7))) & 1;
+    }
+  }
+  return bits;
+}
+
+/**
+ * XOR of all bits of a non-negative integer.
+ */
+function parity(value: number): number {
+  let bit = 0;
+  for (let rest = Math.abs(value); rest > 0; rest = Math.floor(rest / 2)) {
+    bit ^= rest % 2;
+  }
+  return bit;
+}
+
+/**
+ * Packs bits into bytes, MSB first; a partial last byte is zero-padded.
+ */
+function packBits(bits: number[]): Uint8Array {
+  const bytes = new Uint8Array(Math.ceil(bits.length / 8));
+  for (let i = 0; i < bits.length; i++) {
+    bytes[i >> 3]! |= bits[i]! << (7 - (i & 7));
+  }
+  return bytes;
+}
+
 /**
  * Yields execution to the event loop.
  *
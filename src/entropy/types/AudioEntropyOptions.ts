@@ -0,0 +1,36 @@
+import type { PcmSampleProvider } from './PcmSampleProvider';
+
+/**
+ * Configuration options for audio noise entropy collection.
+ */
+export interface AudioEntropyOptions {
+  /**
+   * Where to read PCM samples from.
+   */
+  provider: PcmSampleProvider;
+
+  /**
+   * Number of samples to read. Each sample contributes its least
+   * significant bit.
+   * Default: 2048
+   */
+  sampleCount?: number;
+
+  /**
+   * Maximum time allowed for collection in milliseconds.
+   * Default: 1000ms
+   */
+  timeoutMs?: number;
+
+  /**
+   * Fraction of samples allowed at full scale before the input is
+   * rejected as clipped.
+   * Default: 0.01 (1%)
+   */
+  maxClippedRatio?: number;
+
+  /**
+   * Cancels collection. Stops waiting for samples and rejects with FlipAbortedError.
+   */
+  signal?: AbortSignal;
+}
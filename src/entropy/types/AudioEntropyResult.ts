@@ -0,0 +1,26 @@
+/**
+ * The result of collecting entropy from audio noise.
+ */
+export interface AudioEntropyResult {
+  /**
+   * Least significant bits of the samples, packed into bytes.
+   */
+  bytes: Uint8Array;
+
+  /**
+   * Estimated bits of entropy in the collected bytes.
+   * This is a conservative estimate derived from the LSB bias,
+   * at most half a bit per sample.
+   */
+  estimatedBits: number;
+
+  /**
+   * Number of PCM samples that were read.
+   */
+  samplesRead: number;
+
+  /**
+   * Time taken to collect the entropy in milliseconds.
+   */
+  collectionTimeMs: number;
+}
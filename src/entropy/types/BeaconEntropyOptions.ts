@@ -0,0 +1,63 @@
+import type { BeaconScheme, BeaconSignatureVerifier } from './BeaconRound';
+import type { QuantumTransport } from './QuantumTransport';
+
+/**
+ * Configuration options for randomness beacon collection.
+ */
+export interface BeaconEntropyOptions {
+  /**
+   * The beacon's group public key, hex encoded or raw.
+   * Every round is verified against it before it is used.
+   */
+  publicKey: string | Uint8Array;
+
+  /**
+   * Signature check for the beacon's scheme (BLS12-381 for drand).
+   */
+  verifySignature: BeaconSignatureVerifier;
+
+  /**
+   * What the beacon signs each round.
+   * Default: 'chained'
+   */
+  scheme?: BeaconScheme;
+
+  /**
+   * Beacon base URL; rounds are read from `<endpoint>/public/...`.
+   * Default: 'https://api.drand.sh' (drand mainnet, chained)
+   */
+  endpoint?: string;
+
+  /**
+   * Fetch this round instead of the latest one, e.g. a round all parties
+   * agreed on in advance.
+   * Default: the latest round
+   */
+  round?: number;
+
+  /**
+   * Number of consecutive rounds to fetch, ending at `round` (or the
+   * latest). With a chained scheme, each round's previous_signature must
+   * match the round before it.
+   * Default: 1
+   */
+  rounds?: number;
+
+  /**
+   * Fetch-like transport used to reach the beacon (the same shape the
+   * quantum source uses).
+   * Default: `globalThis.fetch` when available.
+   */
+  transport?: QuantumTransport;
+
+  /**
+   * Maximum time allowed for fetching and verifying in milliseconds.
+   * Default: 3000ms
+   */
+  timeoutMs?: number;
+
+  /**
+   * Cancels collection. Cancels the requests and rejects with FlipAbortedError.
+   */
+  signal?: AbortSignal;
+}
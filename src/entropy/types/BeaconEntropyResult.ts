@@ -0,0 +1,29 @@
+import type { BeaconRound } from './BeaconRound';
+
+/**
+ * The result of collecting entropy from a randomness beacon.
+ */
+export interface BeaconEntropyResult {
+  /**
+   * The verified rounds' randomness, oldest first, 32 bytes per round.
+   */
+  bytes: Uint8Array;
+
+  /**
+   * Always 0: a beacon round is public, so it adds nothing an observer
+   * couldn't know. It is mixed in to make the seed publicly checkable,
+   * not to reach targetBits.
+   */
+  estimatedBits: number;
+
+  /**
+   * Time taken to fetch and verify the rounds in milliseconds.
+   */
+  collectionTimeMs: number;
+
+  /**
+   * The rounds that were verified and used, oldest first. Anyone holding
+   * the beacon's public key can check them again.
+   */
+  rounds: BeaconRound[];
+}
@@ -0,0 +1,59 @@
+/**
+ * One round of a drand-style randomness beacon, as served by
+ * `GET <endpoint>/public/<round | latest>`. Byte fields are hex encoded.
+ */
+export interface BeaconRound {
+  /**
+   * Round number, counting from 1 at the chain's genesis.
+   */
+  round: number;
+
+  /**
+   * SHA-256 of the signature: the round's public random value.
+   */
+  randomness: string;
+
+  /**
+   * The beacon's threshold signature over the round message (see BeaconScheme).
+   */
+  signature: string;
+
+  /**
+   * Signature of the previous round. Chained beacons only.
+   */
+  previous_signature?: string;
+}
+
+/**
+ * What a beacon signs each round.
+ *
+ * - `chained`: SHA-256(previous_signature || round), so every round vouches
+ *   for the one before it (drand's `pedersen-bls-chained`)
+ * - `unchained`: SHA-256(round), so rounds can be verified on their own
+ *   (drand's `pedersen-bls-unchained`, `bls-unchained-on-g1`)
+ *
+ * `round` is an unsigned 64-bit big-endian integer in both.
+ */
+export type BeaconScheme = 'chained' | 'unchained';
+
+/**
+ * Checks a beacon signature against the beacon's public key.
+ *
+ * drand signs with BLS12-381 threshold signatures; plug in the verify
+ * function of a pairing library, e.g. with @noble/curves:
+ *
+ * ```typescript
+ * const verifySignature: BeaconSignatureVerifier = (publicKey, message, signature) =>
+ *   bls12_381.verify(signature, message, publicKey);
+ * ```
+ *
+ * @param publicKey The configured group public key
+ * @param message The 32-byte round message digest (see BeaconScheme)
+ * @param signature The round's signature
+ * @returns true if the signature is valid
+ */
+export type BeaconSignatureVerifier = (
+  publicKey: Uint8Array,
+  message: Uint8Array,
+  signature: Uint8Array
+) => boolean | Promise<boolean>;
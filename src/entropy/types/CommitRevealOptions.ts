@@ -0,0 +1,54 @@
+import type { MixerAlgorithm } from './MixerAlgorithm';
+
+/**
+ * Options for a commit-reveal session.
+ */
+export interface CommitRevealOptions {
+  /**
+   * Who takes part, by a name every participant agrees on. Names must be
+   * unique and non-empty. The transcript lists them in this order.
+   */
+  participants: string[];
+
+  /**
+   * How many participants must commit, and later reveal, for the session
+   * to produce a seed.
+   * Default: 2 (or 1 with a single participant)
+   */
+  minParticipants?: number;
+
+  /**
+   * How long the commit phase waits for missing commitments. Whoever hasn't
+   * committed by then is recorded as absent.
+   * Default: 60000ms
+   */
+  commitTimeoutMs?: number;
+
+  /**
+   * How long the reveal phase waits for missing reveals.
+   * Default: 60000ms
+   */
+  revealTimeoutMs?: number;
+
+  /**
+   * Whether the session may complete without participants who committed but
+   * never revealed. They are recorded as withheld.
+   *
+   * Off by default: the last participant to reveal has already seen everyone
+   * else's contribution and could withhold theirs to pick between two seeds.
+   * Default: false
+   */
+  allowWithheld?: boolean;
+
+  /**
+   * Mixer for the combined seed. Only built-in mixers, so the transcript
+   * names one that any verifier has.
+   * Default: 'SHA-256'
+   */
+  mixer?: MixerAlgorithm;
+
+  /**
+   * Cancels the session.
+   */
+  signal?: AbortSignal;
+}
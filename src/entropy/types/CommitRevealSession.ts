@@ -0,0 +1,57 @@
+import type { CommitRevealTranscript } from './CommitRevealTranscript';
+
+/**
+ * Where a commit-reveal session is.
+ *
+ * `commit` → `reveal` → `complete`, or `failed` from either phase.
+ */
+export type CommitRevealPhase = 'commit' | 'reveal' | 'complete' | 'failed';
+
+/**
+ * One run of the commit-reveal protocol, created with `createCommitReveal()`.
+ *
+ * The coordinator relays each participant's messages to `commit()` and
+ * `reveal()`; how they travel is up to the application. The coordinator
+ * can't bias the seed: it never contributes, and everything it accepts ends
+ * up in the transcript.
+ */
+export interface CommitRevealSession {
+  /**
+   * Records a participant's commitment: SHA-256 of their contribution
+   * (see `commitContribution()`).
+   *
+   * @param participant A configured participant name
+   * @param commitment 32-byte commitment, raw or hex encoded
+   * @throws CommitRevealError if the participant is unknown, has already
+   *   committed, or the commit phase is over
+   * @throws RangeError if the commitment is not 32 bytes
+   */
+  commit(participant: string, commitment: Uint8Array | string): void;
+
+  /**
+   * Records a participant's contribution. Only accepted in the reveal
+   * phase, and only if it matches their commitment; a rejected reveal can
+   * be retried until the phase ends.
+   *
+   * @param participant A participant who committed
+   * @param contribution The committed bytes, raw or hex encoded
+   * @throws CommitRevealError if the phase is wrong, the participant didn't
+   *   commit or already revealed, or the contribution doesn't match
+   */
+  reveal(participant: string, contribution: Uint8Array | string): void;
+
+  /**
+   * Returns the current phase.
+   */
+  getPhase(): CommitRevealPhase;
+
+  /**
+   * Resolves with the transcript once every committed participant has
+   * revealed (or the reveal phase timed out, with `allowWithheld`).
+   * Returns the same promise on every call.
+   *
+   * @throws CommitRevealError if too few participants commit or reveal
+   * @throws FlipAbortedError if the signal aborts
+   */
+  result(): Promise<CommitRevealTranscript>;
+}
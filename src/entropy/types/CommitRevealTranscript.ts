@@ -0,0 +1,77 @@
+import type { MixerAlgorithm } from './MixerAlgorithm';
+
+/**
+ * How a participant's part in a commit-reveal session ended.
+ *
+ * - `revealed`: committed, then revealed a matching contribution
+ * - `withheld`: committed, but never revealed
+ * - `absent`: never committed
+ */
+export type CommitRevealStatus = 'revealed' | 'withheld' | 'absent';
+
+/**
+ * One participant's line in a commit-reveal transcript.
+ * Byte fields are hex encoded.
+ */
+export interface CommitRevealEntry {
+  participant: string;
+  status: CommitRevealStatus;
+
+  /**
+   * SHA-256 of the contribution, as committed. Absent participants have none.
+   */
+  commitment?: string;
+
+  /**
+   * The revealed contribution. Revealed participants only.
+   */
+  contribution?: string;
+}
+
+/**
+ * The rules a commit-reveal session ran under, as recorded in its
+ * transcript (see `CommitRevealOptions`).
+ */
+export interface CommitRevealPolicy {
+  /**
+   * How many participants had to reveal for the session to produce a seed.
+   */
+  minParticipants: number;
+
+  /**
+   * Whether the session could complete without participants who committed
+   * but never revealed.
+   */
+  allowWithheld: boolean;
+}
+
+/**
+ * Everything needed to check a commit-reveal seed offline, with
+ * `verifyCommitRevealTranscript()`. Plain JSON: it can be published as is.
+ */
+export interface CommitRevealTranscript {
+  /**
+   * Mixer the seed was combined with.
+   */
+  mixer: MixerAlgorithm;
+
+  /**
+   * The session's rules. The verifier holds the entries to them, so a
+   * publisher can't mark other participants' reveals as withheld and keep
+   * only their own contribution. Recorded by the publisher too: participants
+   * should check it against what they agreed on (`verifyCommitRevealTranscript`'s
+   * `expectedPolicy`).
+   */
+  policy: CommitRevealPolicy;
+
+  /**
+   * One entry per configured participant, in configuration order.
+   */
+  entries: CommitRevealEntry[];
+
+  /**
+   * The combined seed: `mixEntropy()` over the revealed contributions, in
+   * entry order.
+   */
+  seed: string;
+}
@@ -14,4 +14,9 @@ export interface CryptoEntropyOptions {
    * Default: 100ms (crypto.getRandomValues is typically instant)
    */
   timeoutMs?: number;
+
+  /**
+   * Cancels collection. Checked before drawing; rejects with FlipAbortedError.
+   */
+  signal?: AbortSignal;
 }
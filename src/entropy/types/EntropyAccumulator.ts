@@ -0,0 +1,64 @@
+import type { EntropyAccumulatorStats } from './EntropyAccumulatorStats';
+import type { EntropyResult } from './EntropyResult';
+
+/**
+ * Persistent, Fortuna-style entropy pool.
+ *
+ * Created with `createEntropyAccumulator()`. While running it collects from
+ * the entropy sources in the background, so reads return immediately instead
+ * of waiting for a full collection.
+ */
+export interface EntropyAccumulator {
+  /**
+   * Starts background collection. Calling it while running is a no-op.
+   */
+  start(): void;
+
+  /**
+   * Stops background collection.
+   * Resolves once the in-flight sweep (if any) has finished, so no timers
+   * or pending source calls outlive the accumulator.
+   * The generator keeps its seed: reads still work after stopping.
+   */
+  stop(): Promise<void>;
+
+  /**
+   * Whether background collection is running.
+   */
+  isRunning(): boolean;
+
+  /**
+   * Whether the generator has been seeded at least once.
+   */
+  isSeeded(): boolean;
+
+  /**
+   * Generates output from the seeded generator.
+   *
+   * `stats.totalBits` is the credit behind the current key (`keyBits`).
+   * A read spends it, so the next read reports 0 bits and `degraded: true`
+   * until a reseed brings fresh entropy.
+   *
+   * @param outputBytes Number of bytes to generate. Default: 64
+   * @throws EntropyAccumulatorNotSeededError if no reseed has happened yet
+   */
+  read(outputBytes?: number): Promise<EntropyResult>;
+
+  /**
+   * Like read(), but only while the current key holds at least `minBits`.
+   *
+   * The check and the read run as one step under the accumulator's lock,
+   * so of two concurrent callers only one can spend a key's credit; the
+   * other gets `undefined` instead of a 0-bit result.
+   *
+   * @param outputBytes Number of bytes to generate
+   * @param minBits Credit the current key must hold
+   * @returns The result, or undefined if unseeded or short of minBits
+   */
+  readIfCredited(outputBytes: number, minBits: number): Promise<EntropyResult | undefined>;
+
+  /**
+   * Returns a snapshot of the accumulator's state.
+   */
+  getStats(): EntropyAccumulatorStats;
+}
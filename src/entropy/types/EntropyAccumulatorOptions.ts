@@ -0,0 +1,54 @@
+import type { EntropyLevelSpec } from './EntropyLevelSpec';
+import type { EntropyPoolOptions } from './EntropyPoolOptions';
+
+/**
+ * Options for the persistent entropy accumulator.
+ *
+ * The source options (`timingOptions`, `sources`, ...) behave exactly as in
+ * `collectEntropy()`: every background sweep uses the registered sources plus
+ * the ones configured here.
+ */
+export interface EntropyAccumulatorOptions extends Pick<
+  EntropyPoolOptions,
+  | 'timingOptions'
+  | 'cryptoOptions'
+  | 'nodeOptions'
+  | 'hardwareOptions'
+  | 'quantumOptions'
+  | 'beaconOptions'
+  | 'inputOptions'
+  | 'audioOptions'
+  | 'sources'
+> {
+  /**
+   * Level whose targetBits each background sweep asks sources for.
+   * Also reported as `stats.level` of the results the accumulator serves.
+   * Default: 'fast'
+   */
+  level?: EntropyLevelSpec;
+
+  /**
+   * Pause between the end of one background sweep and the start of the next.
+   * Default: 100ms
+   */
+  sweepIntervalMs?: number;
+
+  /**
+   * Number of sub-pools (1-32).
+   * Fewer pools seed faster but recover more slowly from a compromised state.
+   * Default: 32
+   */
+  poolCount?: number;
+
+  /**
+   * Credited bits pool 0 must hold before a reseed.
+   * Default: 128
+   */
+  minReseedBits?: number;
+
+  /**
+   * Minimum time between two reseeds.
+   * Default: 100ms
+   */
+  minReseedIntervalMs?: number;
+}
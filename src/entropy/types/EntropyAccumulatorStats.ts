@@ -0,0 +1,37 @@
+/**
+ * Snapshot of the persistent entropy accumulator's internal state.
+ */
+export interface EntropyAccumulatorStats {
+  /**
+   * Completed background sweeps since creation.
+   */
+  sweepCount: number;
+
+  /**
+   * Generator reseeds since creation. 0 means not seeded yet.
+   */
+  reseedCount: number;
+
+  /**
+   * Credited bits waiting in each sub-pool, indexed by pool number.
+   * Each event is credited with min(claimed, SP 800-90B estimate).
+   */
+  poolBits: number[];
+
+  /**
+   * Credited bits fed into the generator key across all reseeds.
+   * A lifetime total: use `keyBits` to judge what the next read is worth.
+   */
+  seedBits: number;
+
+  /**
+   * Credited bits behind the current key: what the drained pools held at
+   * the last reseed, or 0 once a read has used the key since.
+   */
+  keyBits: number;
+
+  /**
+   * Sources whose output has been fed into the generator key.
+   */
+  sourcesUsed: string[];
+}
@@ -0,0 +1,131 @@
+import type { EntropyStats } from './EntropyStats';
+
+/**
+ * Passed to `onSweepStart` before every sweep of the sources.
+ */
+export interface EntropySweepStartEvent {
+  /**
+   * Sweep number within this collection, starting at 1.
+   */
+  sweep: number;
+
+  /**
+   * Sources this sweep queries (isAvailable() was true).
+   */
+  sources: string[];
+
+  /**
+   * Bits credited before this sweep.
+   */
+  totalBits: number;
+
+  /**
+   * Time since collection started in milliseconds.
+   */
+  elapsedMs: number;
+}
+
+/**
+ * Passed to `onSourceResult` as each source of a sweep settles.
+ */
+export interface EntropySourceResultEvent {
+  sweep: number;
+  name: string;
+
+  /**
+   * Bits the source claimed (0 on failure). The pool may credit fewer.
+   */
+  bits: number;
+
+  /**
+   * Wall-clock time of the collect() call in milliseconds.
+   */
+  durationMs: number;
+
+  success: boolean;
+
+  /**
+   * Why the source failed (thrown error or EntropyCollectionTimeoutError).
+   * Only set when `success` is false.
+   */
+  error?: Error;
+}
+
+/**
+ * Passed to `onDegraded` when maxTimeMs runs out below targetBits in
+ * non-strict mode.
+ */
+export interface EntropyDegradedEvent {
+  totalBits: number;
+  targetBits: number;
+
+  /**
+   * Every source queried during the collection.
+   */
+  sourcesTried: string[];
+
+  elapsedMs: number;
+}
+
+/**
+ * Passed to `onComplete` once a result is ready.
+ */
+export interface EntropyCompleteEvent {
+  /**
+   * The stats of the returned result.
+   */
+  stats: EntropyStats;
+
+  /**
+   * Where the result came from: sweeps run for this call, a prefetched
+   * result, or a seeded accumulator.
+   */
+  servedBy: 'sweep' | 'prefetcher' | 'accumulator';
+
+  /**
+   * Sweeps run for this call (0 unless servedBy is 'sweep').
+   */
+  sweeps: number;
+}
+
+/**
+ * Lifecycle callbacks for one `collectEntropy()` call.
+ *
+ * Hooks are called synchronously, in order, and must not rely on being
+ * awaited. An exception thrown by a hook is caught and dropped: telemetry
+ * must never fail a collection.
+ *
+ * Example:
+ * ```typescript
+ * await collectEntropy({
+ *   hooks: {
+ *     onSourceResult: ({ name, success, error }) => {
+ *       if (!success) metrics.increment('entropy.source_failure', { name, reason: error?.name });
+ *     },
+ *     onDegraded: ({ totalBits, targetBits }) => log.warn('entropy degraded', totalBits, targetBits),
+ *   },
+ * });
+ * ```
+ */
+export interface EntropyHooks {
+  /**
+   * Before every sweep.
+   */
+  onSweepStart?(event: EntropySweepStartEvent): void;
+
+  /**
+   * As each source of a sweep succeeds, fails or times out.
+   */
+  onSourceResult?(event: EntropySourceResultEvent): void;
+
+  /**
+   * When the result will be marked `degraded`.
+   */
+  onDegraded?(event: EntropyDegradedEvent): void;
+
+  /**
+   * When the result is ready, just before collectEntropy() resolves.
+   * Not called when collection throws.
+   */
+  onComplete?(event: EntropyCompleteEvent): void;
+}
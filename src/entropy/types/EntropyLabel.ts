@@ -0,0 +1,10 @@
+/**
+ * HKDF `info` labels that separate the streams derived from one seed.
+ *
+ * - `launch`: initial conditions of the first attempt
+ * - `retry-n`: initial conditions of the n-th edge retry (n >= 1)
+ * - `perturbation`: spin axis wobble
+ *
+ * Same seed, different label → unrelated output.
+ */
+export type EntropyLabel = 'launch' | 'perturbation' | `retry-${number}`;
@@ -0,0 +1,9 @@
+import type { EntropyLevel } from './EntropyLevel';
+
+/**
+ * Name of a preset or registered entropy level.
+ *
+ * Results collected with an inline `EntropyLevelConfig` report `'custom'`.
+ * The `string & {}` keeps editor completion for the four presets.
+ */
+export type EntropyLevelName = EntropyLevel | (string & {});
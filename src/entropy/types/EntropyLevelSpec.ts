@@ -0,0 +1,13 @@
+import type { EntropyLevelName } from './EntropyLevelName';
+import type { EntropyLevelConfig } from './EntropyLevelConfig';
+
+/**
+ * Everything accepted where an entropy level is requested:
+ * a preset (`'standard'`), a registered name, or an inline config.
+ *
+ * Example:
+ * → level: 'high'
+ * → level: 'audit'  (after registerEntropyLevel('audit', ...))
+ * → level: { minTimeMs: 150, targetBits: 96, maxTimeMs: 600 }
+ */
+export type EntropyLevelSpec = EntropyLevelName | EntropyLevelConfig;
@@ -1,16 +1,29 @@
-import type { EntropyLevel } from './EntropyLevel';
+import type { EntropyLevelSpec } from './EntropyLevelSpec';
 import type { TimingEntropyOptions } from './TimingEntropyOptions';
 import type { CryptoEntropyOptions } from './CryptoEntropyOptions';
+import type { NodeEntropyOptions } from './NodeEntropyOptions';
+import type { HardwareEntropyOptions } from './HardwareEntropyOptions';
+import type { QuantumEntropyOptions } from './QuantumEntropyOptions';
+import type { BeaconEntropyOptions } from './BeaconEntropyOptions';
+import type { InputEntropyOptions } from './InputEntropyOptions';
+import type { AudioEntropyOptions } from './AudioEntropyOptions';
+import type { EntropySource } from './EntropySource';
+import type { EntropyAccumulator } from './EntropyAccumulator';
+import type { EntropyPrefetcher } from './EntropyPrefetcher';
+import type { MixerAlgorithm } from './MixerAlgorithm';
+import type { Mixer } from './Mixer';
+import type { EntropyHooks } from './EntropyHooks';
 
 /**
  * Options for entropy collection.
  */
 export interface EntropyPoolOptions {
   /**
-   * Entropy quality level.
+   * Entropy quality level: a preset, a name registered with
+   * `registerEntropyLevel()`, or an inline `EntropyLevelConfig`.
    * Default: 'standard'
    */
-  level?: EntropyLevel;
+  level?: EntropyLevelSpec;
 
   /**
    * Number of output bytes to generate.
@@ -18,6 +31,34 @@ export interface EntropyPoolOptions {
    */
   outputBytes?: number;
 
+  /**
+   * Hash that mixes the collected sources into the seed: a built-in
+   * algorithm name or a custom `Mixer`.
+   * Default: 'SHA-256'
+   */
+  mixer?: MixerAlgorithm | Mixer;
+
+  /**
+   * Fail instead of degrading when targetBits is not reached in time.
+   * If true, collection throws InsufficientEntropyError; otherwise the
+   * result is returned with `stats.degraded = true`.
+   * Default: false
+   */
+  strict?: boolean;
+
+  /**
+   * Attach an audit record (per-source bytes, bits, timing, health and
+   * SHA-256 commitments) to the result.
+   * Default: false
+   */
+  provenance?: boolean;
+
+  /**
+   * Cancels collection: checked between sweeps and passed to every source.
+   * An abort rejects with FlipAbortedError.
+   */
+  signal?: AbortSignal;
+
   /**
    * Override timeout for timing source.
    */
@@ -27,4 +68,71 @@ export interface EntropyPoolOptions {
    * Override timeout for crypto source.
    */
   cryptoOptions?: CryptoEntropyOptions;
+
+  /**
+   * Enable the Node OS source (`node:crypto` or a device file).
+   * Node.js only; in other runtimes the source is skipped.
+   */
+  nodeOptions?: NodeEntropyOptions;
+
+  /**
+   * Enable the hardware RNG source (a device path or an open stream).
+   * Results are reported under the source name 'hardware'.
+   */
+  hardwareOptions?: HardwareEntropyOptions;
+
+  /**
+   * Enable the quantum RNG source.
+   * The source needs the network, so it is opt-in: it is only queried when
+   * this is set. Failures and timeouts skip the source without failing.
+   */
+  quantumOptions?: QuantumEntropyOptions;
+
+  /**
+   * Enable the randomness beacon source.
+   * Opt-in like quantum: it needs the network, the beacon's public key and
+   * a signature verifier. Its rounds are mixed in but credit 0 bits.
+   */
+  beaconOptions?: BeaconEntropyOptions;
+
+  /**
+   * Enable the user input timing source.
+   * Requires an event target to listen on, so it is only queried when set.
+   * If the user doesn't interact within the budget, the source is skipped.
+   */
+  inputOptions?: InputEntropyOptions;
+
+  /**
+   * Enable the audio noise source.
+   * Requires a PCM sample provider, so it is only queried when set.
+   * Silent or clipped input skips the source.
+   */
+  audioOptions?: AudioEntropyOptions;
+
+  /**
+   * Extra sources for this call only, swept alongside the registered ones.
+   * A source with the same name as a registered source replaces it.
+   */
+  sources?: EntropySource[];
+
+  /**
+   * Persistent accumulator to serve the request from.
+   * Used instead of a fresh collection once it is seeded with at least the
+   * level's targetBits; until then, collection runs inline as usual.
+   */
+  accumulator?: EntropyAccumulator;
+
+  /**
+   * Prefetcher to take a ready result from.
+   * Checked before the accumulator; a queued result is used if it carries
+   * at least the level's targetBits (and provenance, when requested).
+   * Otherwise collection falls through as usual.
+   */
+  prefetcher?: EntropyPrefetcher;
+
+  /**
+   * Lifecycle callbacks for observing this collection (sweeps, per-source
+   * results and failures, degradation, completion).
+   */
+  hooks?: EntropyHooks;
 }
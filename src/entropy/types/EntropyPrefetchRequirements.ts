@@ -0,0 +1,47 @@
+import type { EntropySource } from './EntropySource';
+import type { Mixer } from './Mixer';
+import type { MixerAlgorithm } from './MixerAlgorithm';
+
+/**
+ * What a queued result must satisfy to be handed out by take().
+ */
+export interface EntropyPrefetchRequirements {
+  /**
+   * Lowest acceptable `stats.totalBits`, usually the level's targetBits.
+   * Default: 0
+   */
+  minBits?: number;
+
+  /**
+   * Exact output length the caller needs.
+   * Default: any length
+   */
+  outputBytes?: number;
+
+  /**
+   * Only accept results that carry a provenance record.
+   * Default: false
+   */
+  provenance?: boolean;
+
+  /**
+   * Extra sources the caller would have swept. Only served if the
+   * prefetcher sweeps every one of them too (the same objects).
+   * Default: no extra sources required
+   */
+  sources?: EntropySource[];
+
+  /**
+   * Mixer the caller would have used. Only served if the prefetcher mixes
+   * with the same one.
+   * Default: any mixer
+   */
+  mixer?: MixerAlgorithm | Mixer;
+
+  /**
+   * Only accept results whose own collection reached its level's target
+   * (`stats.degraded` false), as a strict collection would have.
+   * Default: false
+   */
+  strict?: boolean;
+}
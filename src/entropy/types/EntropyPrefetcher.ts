@@ -0,0 +1,43 @@
+import type { EntropyPrefetcherStats } from './EntropyPrefetcherStats';
+import type { EntropyPrefetchRequirements } from './EntropyPrefetchRequirements';
+import type { EntropyResult } from './EntropyResult';
+
+/**
+ * Bounded queue of ready entropy results, refilled in the background.
+ *
+ * Created with `createEntropyPrefetcher()`. Every queued result comes from
+ * its own full `collectEntropy()` run and is handed out exactly once.
+ */
+export interface EntropyPrefetcher {
+  /**
+   * Starts background collection. Calling it while running is a no-op.
+   */
+  start(): void;
+
+  /**
+   * Stops background collection.
+   * Cancels the in-flight collection and resolves once it has settled.
+   * Results still queued are disposed of (their bytes wiped) and dropped;
+   * results already taken are the caller's and left alone.
+   */
+  stop(): Promise<void>;
+
+  /**
+   * Whether background collection is running.
+   */
+  isRunning(): boolean;
+
+  /**
+   * Removes and returns the oldest queued result that meets the requirements.
+   * Never returns the same result twice. Returns undefined (and counts a
+   * miss) if nothing queued qualifies; the caller then collects inline.
+   *
+   * @param requirements What the caller will accept. Default: anything queued
+   */
+  take(requirements?: EntropyPrefetchRequirements): EntropyResult | undefined;
+
+  /**
+   * Returns a snapshot of the queue counters.
+   */
+  getStats(): EntropyPrefetcherStats;
+}
@@ -0,0 +1,38 @@
+import type { EntropyPoolOptions } from './EntropyPoolOptions';
+
+/**
+ * Options for the background entropy prefetcher.
+ *
+ * Everything except `capacity` and `retryDelayMs` is passed to each
+ * background `collectEntropy()` call unchanged.
+ */
+export interface EntropyPrefetcherOptions extends Pick<
+  EntropyPoolOptions,
+  | 'level'
+  | 'outputBytes'
+  | 'mixer'
+  | 'strict'
+  | 'provenance'
+  | 'timingOptions'
+  | 'cryptoOptions'
+  | 'nodeOptions'
+  | 'hardwareOptions'
+  | 'quantumOptions'
+  | 'beaconOptions'
+  | 'inputOptions'
+  | 'audioOptions'
+  | 'sources'
+> {
+  /**
+   * Maximum number of results kept ready. Collection pauses while the
+   * queue is full and resumes as soon as a result is taken.
+   * Default: 4
+   */
+  capacity?: number;
+
+  /**
+   * Pause after a failed background collection before trying again.
+   * Default: 100ms
+   */
+  retryDelayMs?: number;
+}
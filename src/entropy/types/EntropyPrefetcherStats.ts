@@ -0,0 +1,34 @@
+/**
+ * Snapshot of an entropy prefetcher's queue.
+ */
+export interface EntropyPrefetcherStats {
+  /**
+   * Maximum number of queued results.
+   */
+  capacity: number;
+
+  /**
+   * Results ready to be taken right now.
+   */
+  queued: number;
+
+  /**
+   * Background collections that completed and were queued.
+   */
+  collected: number;
+
+  /**
+   * Results handed out by take().
+   */
+  served: number;
+
+  /**
+   * take() calls that found no qualifying result.
+   */
+  misses: number;
+
+  /**
+   * Background collections that threw (cancellations by stop() excluded).
+   */
+  failures: number;
+}
@@ -0,0 +1,45 @@
+import type { EntropyLevelName } from './EntropyLevelName';
+import type { SourceProvenance } from './SourceProvenance';
+
+/**
+ * Audit record of one entropy collection.
+ *
+ * Only plain strings, numbers and booleans: `JSON.stringify()` gives an
+ * archivable record, and `JSON.parse()` gives the same record back.
+ */
+export interface EntropyProvenance {
+  /**
+   * Record format version.
+   */
+  version: 1;
+
+  /**
+   * `inline` for a fresh collection, `accumulator` when a seeded accumulator
+   * served the request. Accumulator reads carry no per-source detail: the
+   * accumulator's state mixes everything it was fed since it started.
+   */
+  mode: 'inline' | 'accumulator';
+
+  level: EntropyLevelName;
+
+  /**
+   * Collection start, ISO 8601.
+   */
+  startedAt: string;
+
+  collectionTimeMs: number;
+  totalBits: number;
+  claimedBits: number;
+  degraded: boolean;
+
+  /**
+   * Every source considered, including failed and unavailable ones.
+   */
+  sources: SourceProvenance[];
+
+  /**
+   * SHA-256 of the output bytes, hex encoded.
+   * Omitted from flips with `redactSeed`.
+   */
+  outputCommitment?: string;
+}
@@ -1,11 +1,17 @@
 import type { EntropyStats } from './EntropyStats';
+import type { EntropyProvenance } from './EntropyProvenance';
+import type { DISPOSE } from '../zeroize';
 
 /**
  * Result of entropy collection.
+ *
+ * Disposable: `result[DISPOSE]()` wipes `bytes` once the caller has
+ * derived what it needs from them.
  */
 export interface EntropyResult {
   /**
    * Mixed and expanded entropy bytes ready for use.
+   * All zeros after disposal.
    */
   bytes: Uint8Array;
 
@@ -13,4 +19,14 @@ export interface EntropyResult {
    * Statistics about the collection process.
    */
   stats: EntropyStats;
+
+  /**
+   * Audit record, only present when requested with `provenance: true`.
+   */
+  provenance?: EntropyProvenance;
+
+  /**
+   * Wipes `bytes`. Disposing twice is harmless.
+   */
+  [DISPOSE](): void;
 }
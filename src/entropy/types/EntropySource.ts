@@ -0,0 +1,109 @@
+import type { SourceMetadata } from './SourceMetadata';
+
+/**
+ * What the pool asks of a source in a single sweep.
+ */
+export interface EntropySourceRequest {
+  /**
+   * The level's target entropy bits. Sources size their request from this,
+   * e.g. the crypto source asks for targetBits / 8 bytes.
+   */
+  targetBits: number;
+
+  /**
+   * Time budget for this call in milliseconds.
+   * Already capped by what is left of the collection's maxTimeMs. The pool
+   * enforces it as well, so a source that overruns is simply skipped.
+   */
+  timeoutMs: number;
+
+  /**
+   * Aborted when the caller cancels the flip. Sources that hold resources
+   * (requests, listeners) should release them; the pool stops waiting for
+   * the source either way.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * What a source hands back to the pool.
+ */
+export interface EntropySourceOutput {
+  /**
+   * Raw entropy bytes. They are mixed, never used directly.
+   * The pool copies them on receipt and only wipes its copy, so the
+   * buffer stays the source's; wiping it is up to the source.
+   */
+  bytes: Uint8Array;
+
+  /**
+   * Conservative estimate of the entropy in `bytes`, in bits.
+   */
+  estimatedBits: number;
+
+  /**
+   * Public facts about this result, copied into the provenance record
+   * (see SourceMetadata).
+   */
+  metadata?: SourceMetadata;
+}
+
+/**
+ * A pluggable entropy source.
+ *
+ * The pool sweeps every registered source (plus any passed in options) in
+ * parallel, so implementing this interface is all it takes to feed a new
+ * source, e.g. an in-house hardware RNG, into `collectEntropy` and `flipCoin`.
+ *
+ * Example:
+ * ```typescript
+ * const hardwareRng: EntropySource = {
+ *   name: 'hwrng',
+ *   quality: 5,
+ *   timeoutMs: 250,
+ *   isAvailable: () => device.isOpen,
+ *   collect: async ({ targetBits }) => {
+ *     const bytes = await device.read(Math.ceil(targetBits / 8));
+ *     return { bytes, estimatedBits: bytes.length * 8 };
+ *   },
+ * };
+ * ```
+ */
+export interface EntropySource {
+  /**
+   * Unique name, reported in `EntropyStats.sourcesUsed`.
+   */
+  readonly name: string;
+
+  /**
+   * Quality rating from 1 to 5, as in the ARCHITECTURE.md source table.
+   * Informational: every available source is always mixed in.
+   */
+  readonly quality: number;
+
+  /**
+   * Default per-source timeout in milliseconds.
+   */
+  readonly timeoutMs: number;
+
+  /**
+   * Assessed min-entropy per raw output byte (SP 800-90B's H), from 0 to 8.
+   * The continuous health tests derive their cutoffs from it rather than
+   * from the per-result claim, which may be optimistic; the lower of the
+   * two is used. Set it conservatively for sources whose output is not
+   * full entropy. Default: the claim (`estimatedBits / bytes.length`)
+   */
+  readonly assessedEntropyPerByte?: number;
+
+  /**
+   * Cheap check whether the source can be attempted in this environment.
+   * Unavailable sources are skipped without being called.
+   */
+  isAvailable(): boolean;
+
+  /**
+   * Collects entropy. Throwing (or exceeding the timeout) skips the source
+   * for this sweep; it never fails the collection on its own.
+   */
+  collect(request: EntropySourceRequest): Promise<EntropySourceOutput>;
+}
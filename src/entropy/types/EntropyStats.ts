@@ -1,14 +1,24 @@
-import type { EntropyLevel } from './EntropyLevel';
+import type { EntropyLevelName } from './EntropyLevelName';
+import type { EntropyLevelConfig } from './EntropyLevelConfig';
+import type { EntropySourceHealthError } from '../errors/EntropySourceHealthError';
 
 /**
  * Statistics about entropy collection.
  */
 export interface EntropyStats {
   /**
-   * Total estimated entropy bits collected.
+   * Total entropy bits credited to the collected output.
+   * Each source is credited with the smaller of its own estimate and the
+   * SP 800-90B min-entropy estimate of its raw output.
    */
   totalBits: number;
 
+  /**
+   * Sum of the entropy estimates the sources reported for themselves.
+   * Always >= totalBits; a large gap means a source overstates its quality.
+   */
+  claimedBits: number;
+
   /**
    * Time spent collecting entropy in milliseconds.
    */
@@ -20,7 +30,25 @@ export interface EntropyStats {
   sourcesUsed: string[];
 
   /**
-   * The entropy level that was requested.
+   * The entropy level that was requested: a preset, a registered name,
+   * or 'custom' for an inline config.
+   */
+  level: EntropyLevelName;
+
+  /**
+   * The time budget and entropy target the result was collected under.
+   */
+  levelConfig: EntropyLevelConfig;
+
+  /**
+   * Sources that failed a continuous health test during collection.
+   * Their output was excluded from the mix and from totalBits.
+   */
+  healthErrors: EntropySourceHealthError[];
+
+  /**
+   * True if collection ended (at maxTimeMs) below the level's targetBits.
+   * Only possible in non-strict mode; strict mode throws instead.
    */
-  level: EntropyLevel;
+  degraded: boolean;
 }
@@ -0,0 +1,17 @@
+/**
+ * The parts of a Node `Readable` the hardware source uses, so a serial
+ * port stream, `fs.createReadStream()` or an in-memory stream all fit
+ * without the library depending on @types/node.
+ *
+ * The stream is read in paused mode: the source takes what it needs with
+ * `read()` and puts any excess back with `unshift()`, so a stream that stays
+ * open across sweeps loses no bytes between them.
+ */
+export interface HardwareByteStream {
+  read(size?: number): Uint8Array | null;
+  unshift(chunk: Uint8Array): void;
+  once(event: 'readable' | 'end', listener: () => void): unknown;
+  once(event: 'error', listener: (error: Error) => void): unknown;
+  removeListener(event: 'readable' | 'end' | 'error', listener: (...args: never[]) => void): unknown;
+  readonly readableEnded?: boolean;
+}
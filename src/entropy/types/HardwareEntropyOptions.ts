@@ -0,0 +1,58 @@
+import type { HardwareByteStream } from './HardwareByteStream';
+
+/**
+ * Configuration options for hardware RNG collection.
+ *
+ * Set exactly one of `path` and `stream`.
+ */
+export interface HardwareEntropyOptions {
+  /**
+   * Character device or FIFO to read from, e.g. '/dev/ttyACM0' or
+   * '/dev/hwrng'. Opened for each collection. Node.js only.
+   */
+  path?: string;
+
+  /**
+   * Stream to read from, e.g. an open serial port. Stays open: each
+   * collection reads what it needs and leaves the rest.
+   */
+  stream?: HardwareByteStream;
+
+  /**
+   * Number of bytes to read.
+   * Default: 32 (capped at maxBytes)
+   */
+  byteCount?: number;
+
+  /**
+   * Upper bound on bytes read per collection, whatever the target asks for.
+   * Default: 256
+   */
+  maxBytes?: number;
+
+  /**
+   * Entropy credited per byte read.
+   * Raw hardware RNG output is often biased; the pool's min-entropy
+   * estimators cap this claim either way.
+   * Default: 8
+   */
+  bitsPerByte?: number;
+
+  /**
+   * How long to wait for the next chunk. When it passes, collection stops
+   * with the bytes read so far (and fails if there are none).
+   * Default: 100ms
+   */
+  readTimeoutMs?: number;
+
+  /**
+   * Maximum time allowed for the whole collection in milliseconds.
+   * Default: 500ms
+   */
+  timeoutMs?: number;
+
+  /**
+   * Cancels collection. Stops reading and rejects with FlipAbortedError.
+   */
+  signal?: AbortSignal;
+}
@@ -0,0 +1,24 @@
+/**
+ * The result of collecting entropy from a hardware RNG.
+ */
+export interface HardwareEntropyResult {
+  /**
+   * Bytes read from the device or stream, at most the requested count.
+   */
+  bytes: Uint8Array;
+
+  /**
+   * Estimated bits of entropy: bytes read × bitsPerByte.
+   */
+  estimatedBits: number;
+
+  /**
+   * Time taken to collect the entropy in milliseconds.
+   */
+  collectionTimeMs: number;
+
+  /**
+   * The device path that was read; undefined when reading a stream.
+   */
+  path?: string;
+}
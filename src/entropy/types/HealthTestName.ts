@@ -0,0 +1,7 @@
+/**
+ * SP 800-90B continuous health tests (section 4.4).
+ *
+ * - `repetition-count`: detects a source stuck on one value
+ * - `adaptive-proportion`: detects one value becoming far too common
+ */
+export type HealthTestName = 'repetition-count' | 'adaptive-proportion';
@@ -0,0 +1,7 @@
+/**
+ * Hash functions supported by the HKDF expansion in the mixer.
+ *
+ * - `SHA-256`: 32-byte blocks, up to 8160 bytes per expansion
+ * - `SHA-512`: 64-byte blocks, up to 16320 bytes per expansion
+ */
+export type HkdfHash = 'SHA-256' | 'SHA-512';
@@ -0,0 +1,44 @@
+import type { DISPOSE } from '../zeroize';
+
+/**
+ * An SP 800-90A HMAC-DRBG instance (HMAC-SHA-256).
+ *
+ * Deterministic: the same seed material always yields the same stream,
+ * which is what makes seeded flips replayable.
+ *
+ * Disposable: `[DISPOSE]()` wipes K and V (SP 800-90A's
+ * Uninstantiate). Afterwards generate throws DrbgReseedRequiredError
+ * until `reseed()` starts it over from fresh entropy.
+ */
+export interface HmacDrbg {
+  /**
+   * Generates pseudorandom bytes (SP 800-90A, 10.1.2.5).
+   *
+   * @param outputBytes Number of bytes, 1 to 65536 (2^19 bits per request)
+   * @param additionalInput Optional additional input mixed into this request
+   * @throws DrbgReseedRequiredError once the reseed interval is exhausted
+   */
+  generate(outputBytes: number, additionalInput?: Uint8Array): Uint8Array;
+
+  /**
+   * Mixes fresh entropy into the state and resets the reseed counter
+   * (SP 800-90A, 10.1.2.4).
+   */
+  reseed(entropy: Uint8Array, additionalInput?: Uint8Array): void;
+
+  /**
+   * Number of generate requests since instantiation or the last reseed,
+   * plus one (SP 800-90A's reseed_counter).
+   */
+  getReseedCounter(): number;
+
+  /**
+   * Total generate requests over the lifetime of this instance.
+   */
+  getGenerateCount(): number;
+
+  /**
+   * Wipes K and V (SP 800-90A's Uninstantiate).
+   */
+  [DISPOSE](): void;
+}
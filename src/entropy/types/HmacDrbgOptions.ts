@@ -0,0 +1,22 @@
+/**
+ * Options for createHmacDrbg().
+ */
+export interface HmacDrbgOptions {
+  /**
+   * Nonce appended to the entropy input at instantiation.
+   * Default: none (pool output already carries a fresh 64 bytes)
+   */
+  nonce?: Uint8Array;
+
+  /**
+   * Personalization string appended after the nonce.
+   * Separates instances seeded from the same entropy.
+   */
+  personalization?: Uint8Array | string;
+
+  /**
+   * Generate requests allowed before a reseed is required.
+   * Default: 2^48 (the SP 800-90A maximum)
+   */
+  reseedInterval?: number;
+}
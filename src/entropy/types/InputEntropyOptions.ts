@@ -0,0 +1,42 @@
+/**
+ * Configuration options for user input entropy collection.
+ */
+export interface InputEntropyOptions {
+  /**
+   * Where to listen for pointer and keyboard events.
+   * In the browser this is typically `window` or `document`; in tests any
+   * `EventTarget` that dispatches synthetic events works.
+   */
+  target: EventTarget;
+
+  /**
+   * Event types to listen for.
+   * Default: ['pointermove', 'pointerdown', 'keydown', 'keyup']
+   */
+  eventTypes?: string[];
+
+  /**
+   * Number of entropy bits to extract before stopping early.
+   * Default: 128
+   */
+  sampleCount?: number;
+
+  /**
+   * Resolution of `event.timeStamp` in milliseconds. Browsers coarsen it
+   * (typically to 0.1ms or 1ms), and deltas are counted in these ticks
+   * before folding, so the folded bits aren't stuck at 0.
+   * Default: the `performance.now()` resolution, from `detectClockResolution()`
+   */
+  timestampResolutionMs?: number;
+
+  /**
+   * Maximum time to wait for user interaction in milliseconds.
+   * Default: 500ms
+   */
+  timeoutMs?: number;
+
+  /**
+   * Cancels collection. Stops listening and rejects with FlipAbortedError.
+   */
+  signal?: AbortSignal;
+}
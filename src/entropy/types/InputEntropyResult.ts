@@ -0,0 +1,36 @@
+/**
+ * The result of collecting entropy from user input timing.
+ */
+export interface InputEntropyResult {
+  /**
+   * Raw entropy bytes extracted from event timing and coordinates.
+   */
+  bytes: Uint8Array;
+
+  /**
+   * Estimated bits of entropy in the collected bytes: the number of events
+   * times the measured min-entropy per extracted bit.
+   */
+  estimatedBits: number;
+
+  /**
+   * Events observed, one output bit each.
+   */
+  sampleCount: number;
+
+  /**
+   * Resolution the event deltas were converted to ticks with, in ms.
+   */
+  timestampResolutionMs: number;
+
+  /**
+   * Measured min-entropy per extracted bit (Most Common Value estimate).
+   * 0 when every event yielded the same bit.
+   */
+  minEntropyPerSample: number;
+
+  /**
+   * Time taken to collect the entropy in milliseconds.
+   */
+  collectionTimeMs: number;
+}
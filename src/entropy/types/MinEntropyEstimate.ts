@@ -0,0 +1,39 @@
+/**
+ * Per-bit min-entropy estimates for a block of raw source output.
+ *
+ * All values are in bits of min-entropy per bit of output (0 to 1).
+ * An estimator is `undefined` when the sample is too small for it.
+ */
+export interface MinEntropyEstimate {
+  /**
+   * Number of bits the estimates were computed over.
+   */
+  sampleBits: number;
+
+  /**
+   * Most Common Value estimate (SP 800-90B, 6.3.1).
+   * Always available for two or more bits.
+   */
+  mostCommonValue: number;
+
+  /**
+   * Collision estimate (SP 800-90B, 6.3.2).
+   */
+  collision: number | undefined;
+
+  /**
+   * Markov estimate (SP 800-90B, 6.3.3).
+   */
+  markov: number | undefined;
+
+  /**
+   * Compression estimate (SP 800-90B, 6.3.4).
+   * Needs more than 6000 bits, so short per-sweep outputs skip it.
+   */
+  compression: number | undefined;
+
+  /**
+   * The most conservative (lowest) of the available estimates.
+   */
+  minEntropyPerBit: number;
+}
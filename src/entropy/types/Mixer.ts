@@ -0,0 +1,23 @@
+/**
+ * A hash function that condenses length-prefixed source outputs into a seed.
+ *
+ * The built-in mixers are selected by name (`MixerAlgorithm`); anything
+ * implementing this interface can be passed instead, e.g. a hardware-backed
+ * hash.
+ */
+export interface Mixer {
+  /**
+   * Name of the hash function, e.g. 'SHA3-256'.
+   */
+  readonly name: string;
+
+  /**
+   * Digest size in bytes. At least 32, so the seed can key HKDF-SHA-256.
+   */
+  readonly digestLength: number;
+
+  /**
+   * Hashes one complete message.
+   */
+  digest(data: Uint8Array): Promise<Uint8Array>;
+}
@@ -0,0 +1,11 @@
+/**
+ * Built-in hash functions for mixing entropy sources.
+ *
+ * | Algorithm  | Digest   | Implementation     | Design             |
+ * |------------|----------|--------------------|--------------------|
+ * | `SHA-256`  | 32 bytes | Web Crypto         | Merkle–Damgård     |
+ * | `SHA-512`  | 64 bytes | Web Crypto         | Merkle–Damgård     |
+ * | `SHA3-256` | 32 bytes | Pure TS (FIPS 202) | Keccak sponge      |
+ * | `BLAKE2b`  | 64 bytes | Pure TS (RFC 7693) | ChaCha-based HAIFA |
+ */
+export type MixerAlgorithm = 'SHA-256' | 'SHA-512' | 'SHA3-256' | 'BLAKE2b';
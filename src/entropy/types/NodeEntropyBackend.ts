@@ -0,0 +1,7 @@
+/**
+ * Where the Node OS source read its bytes from.
+ *
+ * - `node:crypto`: `randomBytes()` (OpenSSL's CSPRNG, seeded by the kernel)
+ * - `device`: a character device such as `/dev/urandom` or `/dev/hwrng`
+ */
+export type NodeEntropyBackend = 'node:crypto' | 'device';
@@ -0,0 +1,37 @@
+/**
+ * Configuration options for Node OS entropy collection.
+ */
+export interface NodeEntropyOptions {
+  /**
+   * Read from this device file instead of calling `randomBytes()`,
+   * e.g. '/dev/urandom' or '/dev/hwrng'.
+   * A device that can't be opened or read fails the collection; there is
+   * no silent fallback to `node:crypto`.
+   */
+  devicePath?: string;
+
+  /**
+   * Entropy credited per byte read from `devicePath`.
+   * Raw hardware RNG output is often biased; the pool's min-entropy
+   * estimators cap this claim either way.
+   * Default: 8 (ignored for `node:crypto`, which is always full entropy)
+   */
+  deviceBitsPerByte?: number;
+
+  /**
+   * Number of bytes to request.
+   * Default: 32 (256 bits)
+   */
+  byteCount?: number;
+
+  /**
+   * Maximum time allowed for collection in milliseconds.
+   * Default: 250ms (a blocking hardware device may be slow)
+   */
+  timeoutMs?: number;
+
+  /**
+   * Cancels collection. Stops waiting for the device and rejects with FlipAbortedError.
+   */
+  signal?: AbortSignal;
+}
@@ -0,0 +1,31 @@
+import type { NodeEntropyBackend } from './NodeEntropyBackend';
+
+/**
+ * The result of collecting entropy from the Node OS source.
+ */
+export interface NodeEntropyResult {
+  /**
+   * Random bytes from the selected backend.
+   */
+  bytes: Uint8Array;
+
+  /**
+   * Estimated bits of entropy in the collected bytes.
+   */
+  estimatedBits: number;
+
+  /**
+   * Time taken to collect the entropy in milliseconds.
+   */
+  collectionTimeMs: number;
+
+  /**
+   * The backend that produced the bytes.
+   */
+  backend: NodeEntropyBackend;
+
+  /**
+   * The device that was read, for the `device` backend.
+   */
+  devicePath?: string;
+}
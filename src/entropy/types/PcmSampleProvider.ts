@@ -0,0 +1,24 @@
+/**
+ * Abstract source of raw PCM audio samples.
+ *
+ * The audio entropy source never touches `navigator.mediaDevices` or the file
+ * system itself. Instead it reads from a provider:
+ * - In the browser, a provider would wrap a microphone stream
+ * - In Node, a provider reads a raw WAV file or buffer
+ *   (see `createWavSampleProvider`)
+ * - In tests, a provider can replay a fixed buffer
+ */
+export interface PcmSampleProvider {
+  /**
+   * Bit depth of the signed integer samples (e.g. 8, 16, 24).
+   * Used to detect clipping at full scale.
+   */
+  readonly bitDepth: number;
+
+  /**
+   * Reads up to `count` signed integer samples.
+   * Multi-channel audio is returned interleaved.
+   * Returns fewer samples (possibly zero) when the stream is exhausted.
+   */
+  read(count: number): Promise<Int32Array>;
+}
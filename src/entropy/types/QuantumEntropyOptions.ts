@@ -0,0 +1,46 @@
+import type { QuantumProvider, QuantumTransport } from './QuantumTransport';
+
+/**
+ * Configuration options for quantum entropy collection.
+ */
+export interface QuantumEntropyOptions {
+  /**
+   * Which QRNG service format to speak.
+   * Default: 'anu'
+   */
+  provider?: QuantumProvider;
+
+  /**
+   * Fetch-like transport used to reach the service.
+   * Default: `globalThis.fetch` when available.
+   */
+  transport?: QuantumTransport;
+
+  /**
+   * Override the service URL, e.g. to point at a local stub server.
+   * Default: the public endpoint of the selected provider.
+   */
+  endpoint?: string;
+
+  /**
+   * API key, required by the `random-org` provider.
+   */
+  apiKey?: string;
+
+  /**
+   * Number of bytes to request.
+   * Default: 32 (256 bits)
+   */
+  byteCount?: number;
+
+  /**
+   * Maximum time allowed for the round trip in milliseconds.
+   * Default: 3000ms (network latency dominates this source)
+   */
+  timeoutMs?: number;
+
+  /**
+   * Cancels collection. Cancels the request and rejects with FlipAbortedError.
+   */
+  signal?: AbortSignal;
+}
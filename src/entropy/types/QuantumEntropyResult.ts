@@ -0,0 +1,28 @@
+import type { QuantumProvider } from './QuantumTransport';
+
+/**
+ * The result of collecting entropy from a quantum RNG service.
+ */
+export interface QuantumEntropyResult {
+  /**
+   * Random bytes returned by the service.
+   */
+  bytes: Uint8Array;
+
+  /**
+   * Estimated bits of entropy in the collected bytes.
+   * Only bytes that were actually received and validated are credited,
+   * never the number that was requested.
+   */
+  estimatedBits: number;
+
+  /**
+   * Time taken for the round trip in milliseconds.
+   */
+  collectionTimeMs: number;
+
+  /**
+   * The service that produced the bytes.
+   */
+  provider: QuantumProvider;
+}
@@ -0,0 +1,49 @@
+/**
+ * Minimal request description handed to a quantum transport.
+ *
+ * This is a deliberately small subset of the Fetch API `RequestInit`, so that
+ * `globalThis.fetch` satisfies it directly while tests can supply a hand-rolled
+ * function that talks to a local stub server (or no server at all).
+ */
+export interface QuantumTransportRequest {
+  method: 'GET' | 'POST';
+  headers?: Record<string, string>;
+  body?: string;
+
+  /**
+   * Aborted by the quantum source when its per-source timeout expires,
+   * so the underlying connection does not outlive the sweep.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Minimal response shape expected back from a quantum transport.
+ * A Fetch API `Response` satisfies this interface.
+ */
+export interface QuantumTransportResponse {
+  ok: boolean;
+  status: number;
+  json(): Promise<unknown>;
+}
+
+/**
+ * Fetch-like function used by the quantum source to reach the QRNG service.
+ *
+ * Example:
+ * ```typescript
+ * const transport: QuantumTransport = (url, init) => fetch(url, init);
+ * ```
+ */
+export type QuantumTransport = (
+  url: string,
+  init: QuantumTransportRequest
+) => Promise<QuantumTransportResponse>;
+
+/**
+ * Supported quantum random number services.
+ *
+ * - `anu`: ANU QRNG JSON API (`{ type, length, data, success }`)
+ * - `random-org`: random.org JSON-RPC `generateIntegers` (requires an API key)
+ */
+export type QuantumProvider = 'anu' | 'random-org';
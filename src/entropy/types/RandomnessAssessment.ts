@@ -0,0 +1,60 @@
+import type { RandomnessTestResult } from './RandomnessTestResult';
+
+/**
+ * Results of the SP 800-22 subset run by `assessRandomness()`.
+ *
+ * A test is `undefined` when the sequence is too short for it.
+ */
+export interface RandomnessAssessment {
+  /**
+   * Number of bits the tests ran over.
+   */
+  sampleBits: number;
+
+  /**
+   * Significance level each p-value was compared against.
+   */
+  alpha: number;
+
+  /**
+   * Frequency (monobit) test (SP 800-22, 2.1).
+   */
+  frequency: RandomnessTestResult;
+
+  /**
+   * Frequency test within a block (SP 800-22, 2.2).
+   */
+  blockFrequency: RandomnessTestResult;
+
+  /**
+   * Runs test (SP 800-22, 2.3).
+   */
+  runs: RandomnessTestResult;
+
+  /**
+   * Test for the longest run of ones in a block (SP 800-22, 2.4).
+   * Needs at least 128 bits.
+   */
+  longestRun: RandomnessTestResult | undefined;
+
+  /**
+   * Serial test (SP 800-22, 2.11): p-values for ∇ψ²m and ∇²ψ²m.
+   */
+  serial: RandomnessTestResult;
+
+  /**
+   * Approximate entropy test (SP 800-22, 2.12).
+   * Needs at least 128 bits unless a block length is given.
+   */
+  approximateEntropy: RandomnessTestResult | undefined;
+
+  /**
+   * Cumulative sums test (SP 800-22, 2.13): forward, then backward.
+   */
+  cumulativeSums: RandomnessTestResult;
+
+  /**
+   * Whether every test that ran passed.
+   */
+  passed: boolean;
+}
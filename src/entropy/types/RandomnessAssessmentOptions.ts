@@ -0,0 +1,31 @@
+/**
+ * Options for `assessRandomness()`.
+ *
+ * Block lengths default to the largest value SP 800-22 recommends for the
+ * sequence length (capped at the values the NIST reference suite uses).
+ */
+export interface RandomnessAssessmentOptions {
+  /**
+   * Significance level: a test fails when a p-value is below it.
+   * Default: 0.01
+   */
+  alpha?: number;
+
+  /**
+   * Block length M for the block frequency test.
+   * Default: the smallest M ≥ 20 giving fewer than 100 blocks
+   */
+  blockFrequencyBlockLength?: number;
+
+  /**
+   * Pattern length m for the serial test (m ≥ 2).
+   * Default: min(16, ⌊log2 n⌋ − 3)
+   */
+  serialBlockLength?: number;
+
+  /**
+   * Pattern length m for the approximate entropy test (m ≥ 1).
+   * Default: min(10, ⌊log2 n⌋ − 6)
+   */
+  approximateEntropyBlockLength?: number;
+}
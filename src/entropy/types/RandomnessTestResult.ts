@@ -0,0 +1,20 @@
+/**
+ * Outcome of one SP 800-22 statistical test.
+ */
+export interface RandomnessTestResult {
+  /**
+   * The test's p-values. Most tests produce one; serial and cumulative
+   * sums produce two (see the test's documentation for their order).
+   */
+  pValues: number[];
+
+  /**
+   * The smallest of `pValues`.
+   */
+  pValue: number;
+
+  /**
+   * Whether every p-value is at least the significance level.
+   */
+  passed: boolean;
+}
@@ -0,0 +1,9 @@
+/**
+ * Public facts a source reports about one result, recorded next to its
+ * contribution in the provenance record (e.g. `{ rounds: [1234] }` from
+ * the beacon source, so a third party can fetch the same rounds).
+ *
+ * Plain JSON values only. Kept even with `redactSeed`, so it must never
+ * reveal anything about the bytes themselves.
+ */
+export type SourceMetadata = Record<string, string | number | boolean | number[] | string[]>;
@@ -0,0 +1,89 @@
+import type { HealthTestName } from './HealthTestName';
+import type { SourceMetadata } from './SourceMetadata';
+
+/**
+ * What happened to a source during one collection.
+ *
+ * - `contributed`: at least one result went into the mix
+ * - `failed`: queried, but every collect() threw or timed out
+ * - `unhealthy`: failed a health test; its output was discarded
+ * - `unavailable`: isAvailable() was false, never queried
+ */
+export type SourceProvenanceStatus = 'contributed' | 'failed' | 'unhealthy' | 'unavailable';
+
+/**
+ * One result a source added to the mix.
+ */
+export interface ContributionProvenance {
+  /**
+   * Raw bytes delivered.
+   */
+  bytes: number;
+
+  /**
+   * Bits the source claimed for this result.
+   */
+  estimatedBits: number;
+
+  /**
+   * Wall-clock time of the collect() call in milliseconds.
+   */
+  durationMs: number;
+
+  /**
+   * SHA-256 of the raw bytes, hex encoded.
+   * Identifies the contribution without revealing it. The pool keeps no
+   * copy of the bytes: only a source that kept its own can open it.
+   * Omitted from flips with `redactSeed`.
+   */
+  commitment?: string;
+
+  /**
+   * What the source reported about this contribution, e.g. the beacon's
+   * round numbers. Public by contract, so kept even with `redactSeed`.
+   */
+  metadata?: SourceMetadata;
+}
+
+/**
+ * Audit entry for one source.
+ */
+export interface SourceProvenance {
+  name: string;
+  status: SourceProvenanceStatus;
+
+  /**
+   * `passed`, the test that failed, or `untested` if nothing was tested.
+   */
+  health: 'passed' | 'untested' | HealthTestName;
+
+  /**
+   * Number of collect() calls, successful or not.
+   */
+  attempts: number;
+
+  /**
+   * Total bytes in the mix (sum over contributions).
+   */
+  bytes: number;
+
+  /**
+   * Total bits claimed by the source (sum over contributions).
+   */
+  estimatedBits: number;
+
+  /**
+   * Bits credited after the min-entropy estimators.
+   */
+  creditedBits: number;
+
+  /**
+   * Total time spent in collect() in milliseconds, including failed calls.
+   */
+  collectionTimeMs: number;
+
+  /**
+   * Every result that went into the mix, in order.
+   */
+  contributions: ContributionProvenance[];
+}
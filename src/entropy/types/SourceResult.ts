@@ -1,3 +1,5 @@
+import type { SourceMetadata } from './SourceMetadata';
+
 /**
  * Result from a single entropy source.
  */
@@ -6,4 +8,19 @@ export interface SourceResult {
   bytes: Uint8Array;
   estimatedBits: number;
   success: boolean;
+
+  /**
+   * Wall-clock time of the collect() call in milliseconds.
+   */
+  durationMs?: number;
+
+  /**
+   * Why collection failed, when `success` is false.
+   */
+  error?: Error;
+
+  /**
+   * What the source reported about this result, if anything.
+   */
+  metadata?: SourceMetadata;
 }
@@ -1,3 +1,5 @@
+import type { TimingExtractor } from './TimingExtractor';
+
 /**
  * Configuration options for timing entropy collection.
  */
@@ -15,4 +17,31 @@ export interface TimingEntropyOptions {
    * Default: 200ms
    */
   timeoutMs?: number;
+
+  /**
+   * How samples are turned into output bits (see TimingExtractor).
+   * Default: 'xor-fold'
+   */
+  extractor?: TimingExtractor;
+
+  /**
+   * Clock resolution in milliseconds, skipping detection. Useful when the
+   * environment's timer precision is known (e.g. 0.1 for a clamped browser
+   * timer).
+   * Default: detected once with `detectClockResolution()`
+   */
+  clockResolutionMs?: number;
+
+  /**
+   * Samples in a Web Worker or `node:worker_threads` worker instead of on
+   * the calling thread. Falls back to the calling thread where no worker
+   * can be started; `result.thread` reports which one was used.
+   * Default: false
+   */
+  worker?: boolean;
+
+  /**
+   * Cancels collection. Stops sampling and rejects with FlipAbortedError.
+   */
+  signal?: AbortSignal;
 }
@@ -1,3 +1,6 @@
+import type { TimingExtractor } from './TimingExtractor';
+import type { TimingThread } from './TimingThread';
+
 /**
  * The result of collecting entropy from the timing source.
  */
@@ -8,11 +11,44 @@ export interface TimingEntropyResult {
   bytes: Uint8Array;
 
   /**
-   * Estimated bits of entropy in the collected bytes.
-   * This is a conservative estimate (approximately 1 bit per sample).
+   * Estimated bits of entropy in the collected bytes, from the selected
+   * extractor (see `estimates`).
    */
   estimatedBits: number;
 
+  /**
+   * The extractor that produced `bytes`.
+   */
+  extractor: TimingExtractor;
+
+  /**
+   * The thread the samples were taken on.
+   */
+  thread: TimingThread;
+
+  /**
+   * Number of timing samples taken.
+   */
+  sampleCount: number;
+
+  /**
+   * Clock resolution the samples were converted to ticks with, in ms.
+   */
+  clockResolutionMs: number;
+
+  /**
+   * Measured min-entropy per sample: the SP 800-90B estimators over the
+   * xor-fold bits, so at most 1. 0 when the clock is too coarse to see any
+   * jitter.
+   */
+  minEntropyPerSample: number;
+
+  /**
+   * Bits each extractor would have credited for the same samples, so
+   * strategies can be compared on the current machine.
+   */
+  estimates: Record<TimingExtractor, number>;
+
   /**
    * Time taken to collect the entropy in milliseconds.
    */
@@ -0,0 +1,16 @@
+/**
+ * How the timing source turns timer deltas into output bits.
+ *
+ * Every strategy starts from the same samples: the duration of a burst of
+ * chaotic work, in clock ticks (delta / detected clock resolution).
+ *
+ * | Extractor     | Output per sample    | Removes                          |
+ * |---------------|----------------------|----------------------------------|
+ * | `xor-fold`    | 1 bit                | Nothing (XOR of the 4 low bits)  |
+ * | `von-neumann` | ~1/4 bit             | Bias of independent bits         |
+ * | `jitter-fold` | 1/2 bit              | Stuck samples (jitterentropy)    |
+ * | `toeplitz`    | H/2 bits             | Bias and correlation (seeded)    |
+ *
+ * H is the measured min-entropy per sample, capped at 1.
+ */
+export type TimingExtractor = 'xor-fold' | 'von-neumann' | 'jitter-fold' | 'toeplitz';
@@ -0,0 +1,7 @@
+/**
+ * Where the timing source took its samples.
+ *
+ * - `main`: the calling thread, yielding every 64 samples
+ * - `worker`: a Web Worker or `node:worker_threads` worker
+ */
+export type TimingThread = 'main' | 'worker';
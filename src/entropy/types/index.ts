@@ -7,13 +7,91 @@
 
 export type { TimingEntropyResult } from './TimingEntropyResult';
 export type { TimingEntropyOptions } from './TimingEntropyOptions';
+export type { TimingExtractor } from './TimingExtractor';
+export type { TimingThread } from './TimingThread';
 
 export type { CryptoEntropyResult } from './CryptoEntropyResult';
 export type { CryptoEntropyOptions } from './CryptoEntropyOptions';
 
+export type { NodeEntropyResult } from './NodeEntropyResult';
+export type { NodeEntropyOptions } from './NodeEntropyOptions';
+export type { NodeEntropyBackend } from './NodeEntropyBackend';
+
+export type { HardwareEntropyResult } from './HardwareEntropyResult';
+export type { HardwareEntropyOptions } from './HardwareEntropyOptions';
+export type { HardwareByteStream } from './HardwareByteStream';
+
+export type { QuantumEntropyResult } from './QuantumEntropyResult';
+export type { QuantumEntropyOptions } from './QuantumEntropyOptions';
+export type {
+  QuantumTransport,
+  QuantumTransportRequest,
+  QuantumTransportResponse,
+  QuantumProvider,
+} from './QuantumTransport';
+
+export type { BeaconEntropyResult } from './BeaconEntropyResult';
+export type { BeaconEntropyOptions } from './BeaconEntropyOptions';
+export type { BeaconRound, BeaconScheme, BeaconSignatureVerifier } from './BeaconRound';
+
+export type { InputEntropyResult } from './InputEntropyResult';
+export type { InputEntropyOptions } from './InputEntropyOptions';
+
+export type { AudioEntropyResult } from './AudioEntropyResult';
+export type { AudioEntropyOptions } from './AudioEntropyOptions';
+export type { PcmSampleProvider } from './PcmSampleProvider';
+
 export type { EntropyLevel } from './EntropyLevel';
 export type { EntropyLevelConfig } from './EntropyLevelConfig';
+export type { EntropyLevelName } from './EntropyLevelName';
+export type { EntropyLevelSpec } from './EntropyLevelSpec';
 export type { EntropyStats } from './EntropyStats';
 export type { EntropyResult } from './EntropyResult';
 export type { EntropyPoolOptions } from './EntropyPoolOptions';
 export type { SourceResult } from './SourceResult';
+export type { SourceMetadata } from './SourceMetadata';
+export type { HealthTestName } from './HealthTestName';
+export type { MinEntropyEstimate } from './MinEntropyEstimate';
+export type { RandomnessAssessment } from './RandomnessAssessment';
+export type { RandomnessAssessmentOptions } from './RandomnessAssessmentOptions';
+export type { RandomnessTestResult } from './RandomnessTestResult';
+export type { HkdfHash } from './HkdfHash';
+export type { Mixer } from './Mixer';
+export type { MixerAlgorithm } from './MixerAlgorithm';
+export type { EntropyLabel } from './EntropyLabel';
+export type { HmacDrbg } from './HmacDrbg';
+export type { HmacDrbgOptions } from './HmacDrbgOptions';
+export type { EntropyProvenance } from './EntropyProvenance';
+export type {
+  SourceProvenance,
+  SourceProvenanceStatus,
+  ContributionProvenance,
+} from './SourceProvenance';
+export type {
+  EntropySource,
+  EntropySourceRequest,
+  EntropySourceOutput,
+} from './EntropySource';
+
+export type { EntropyAccumulator } from './EntropyAccumulator';
+export type { EntropyAccumulatorOptions } from './EntropyAccumulatorOptions';
+export type { EntropyAccumulatorStats } from './EntropyAccumulatorStats';
+export type { EntropyPrefetcher } from './EntropyPrefetcher';
+export type { EntropyPrefetcherOptions } from './EntropyPrefetcherOptions';
+export type { EntropyPrefetcherStats } from './EntropyPrefetcherStats';
+export type { EntropyPrefetchRequirements } from './EntropyPrefetchRequirements';
+export type {
+  EntropyHooks,
+  EntropySweepStartEvent,
+  EntropySourceResultEvent,
+  EntropyDegradedEvent,
+  EntropyCompleteEvent,
+} from './EntropyHooks';
+export type { CommitRevealOptions } from './CommitRevealOptions';
+export type { CommitRevealSession, CommitRevealPhase } from './CommitRevealSession';
+export type {
+  CommitRevealTranscript,
+  CommitRevealEntry,
+  CommitRevealPolicy,
+  CommitRevealStatus,
+} from './CommitRevealTranscript';
@@ -0,0 +1,81 @@
+/**
+ * Buffer lifecycle: wiping entropy once it has been used.
+ *
+ * ## Why?
+ *
+ * Source output, the mixed seed and every HKDF block derived from it are
+ * plain `Uint8Array`s. Left alone, they stay on the heap until the garbage
+ * collector reuses the memory, and anyone who can read the process memory
+ * afterwards (a heap snapshot, a core dump, a compromised dependency) can
+ * recompute the flip. Overwriting a buffer with zeros as soon as it is no
+ * longer needed shortens that window to the flip itself.
+ *
+ * ## Who Wipes What
+ *
+ * - Scratch buffers (framing, HMAC inputs, HKDF blocks, DRBG state) are
+ *   wiped by the function that allocated them, before it returns.
+ * - Source output is copied when `collect()` returns, and the pool's copy
+ *   is wiped when the collection ends. The buffer the source returned
+ *   stays the source's to wipe, cache or share.
+ * - The returned `EntropyResult` belongs to the caller, who disposes of it
+ *   with `result[DISPOSE]()`.
+ *
+ * ## Limits
+ *
+ * This is best effort. JavaScript gives no control over copies the engine
+ * makes on its own (a compacting GC moving a buffer, Web Crypto's internal
+ * copies, imported CryptoKeys), and hex strings can't be wiped at all.
+ * Wiping removes the copies we own, not every copy there is.
+ */
+
+/**
+ * `Symbol.dispose`, or the registered symbol polyfills use on runtimes
+ * that don't have it yet (`Symbol.for('Symbol.dispose')`). Use it instead
+ * of `Symbol.dispose` to define or call a dispose method.
+ *
+ * Typed as its own `unique symbol` (the assertion narrows `symbol` to
+ * exactly that) so the published declarations don't need the
+ * `ESNext.Disposable` lib. At runtime it is the same symbol, so
+ * `using` declarations still dispose of our objects where the runtime
+ * supports them.
+ *
+ * Our `engines` range includes Node 18 releases before 18.18, which have
+ * no `Symbol.dispose`. There DISPOSE is the registered symbol:
+ * `result[DISPOSE]()` works as everywhere else, but `using` only does if
+ * a polyfill installs that same symbol as `Symbol.dispose`.
+ */
+export const DISPOSE: unique symbol =
+  ((Symbol as { dispose?: symbol }).dispose ?? Symbol.for('Symbol.dispose')) as typeof DISPOSE;
+
+/**
+ * Overwrites every buffer with zeros. Undefined entries are skipped.
+ *
+ * Example:
+ * → const prk = await hkdfExtract(salt, seed)
+ * → try { ... } finally { zeroize(prk) }
+ *
+ * @param buffers The buffers to wipe
+ */
+export function zeroize(...buffers: (Uint8Array | undefined)[]): void {
+  for (const buffer of buffers) {
+    buffer?.fill(0);
+  }
+}
+
+/**
+ * Makes an object holding entropy bytes disposable: `[DISPOSE]()` wipes
+ * `bytes`. Disposing twice is harmless.
+ *
+ * The method is non-enumerable, so the object still serializes and
+ * compares as before.
+ *
+ * @param value An object with a `bytes` buffer, e.g. an EntropyResult
+ * @returns The same object, now disposable
+ */
+export function makeDisposable<T extends { bytes: Uint8Array }>(value: T): T & { [DISPOSE](): void } {
+  Object.defineProperty(value, DISPOSE, {
+    value: (): void => zeroize(value.bytes),
+    configurable: true,
+  });
+  return value as T & { [DISPOSE](): void };
+}
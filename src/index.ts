@@ -11,8 +11,107 @@ export type { FlipResult } from './types/flip-result';
 export type { CoinConfig } from './types/coin-config';
 export type { TossProfile } from './types/toss-profile';
 export type { EntropyLevel } from './types/entropy-level';
+export type {
+    EntropyLevelConfig,
+    EntropyLevelName,
+    EntropyLevelSpec,
+    Mixer,
+    MixerAlgorithm,
+    EntropySource,
+    EntropySourceRequest,
+    EntropySourceOutput,
+    SourceMetadata,
+    EntropyStats,
+    HealthTestName,
+    TimingEntropyOptions,
+    TimingEntropyResult,
+    TimingExtractor,
+    TimingThread,
+    NodeEntropyOptions,
+    NodeEntropyResult,
+    NodeEntropyBackend,
+    HardwareEntropyOptions,
+    HardwareEntropyResult,
+    HardwareByteStream,
+    QuantumEntropyOptions,
+    BeaconEntropyOptions,
+    BeaconEntropyResult,
+    BeaconRound,
+    BeaconScheme,
+    BeaconSignatureVerifier,
+    InputEntropyOptions,
+    AudioEntropyOptions,
+    PcmSampleProvider,
+    EntropyAccumulator,
+    EntropyAccumulatorOptions,
+    EntropyAccumulatorStats,
+    EntropyPrefetcher,
+    EntropyPrefetcherOptions,
+    EntropyPrefetcherStats,
+    EntropyPrefetchRequirements,
+    EntropyHooks,
+    EntropySweepStartEvent,
+    EntropySourceResultEvent,
+    EntropyDegradedEvent,
+    EntropyCompleteEvent,
+    EntropyProvenance,
+    SourceProvenance,
+    SourceProvenanceStatus,
+    ContributionProvenance,
+    RandomnessAssessment,
+    RandomnessAssessmentOptions,
+    RandomnessTestResult,
+    CommitRevealOptions,
+    CommitRevealSession,
+    CommitRevealPhase,
+    CommitRevealTranscript,
+    CommitRevealEntry,
+    CommitRevealPolicy,
+    CommitRevealStatus,
+} from './entropy/types';
+
+export {
+    registerEntropySource,
+    unregisterEntropySource,
+    getRegisteredEntropySources,
+} from './entropy/registry';
+export {
+    registerEntropyLevel,
+    unregisterEntropyLevel,
+    getEntropyLevelNames,
+    getEntropyLevelConfig,
+} from './entropy/levels';
+export { createTimingEntropySource } from './entropy/sources/timing';
+export { createNodeEntropySource } from './entropy/sources/node';
+export { createHardwareEntropySource } from './entropy/sources/hardware';
+export { createQuantumEntropySource } from './entropy/sources/quantum';
+export { createBeaconEntropySource } from './entropy/sources/beacon';
+export { createInputEntropySource } from './entropy/sources/input';
+export {
+    createAudioEntropySource,
+    createPcmBufferProvider,
+    createWavSampleProvider,
+} from './entropy/sources/audio';
+export { createEntropyAccumulator } from './entropy/accumulator';
+export { createEntropyPrefetcher } from './entropy/prefetcher';
+export { assessRandomness } from './entropy/assessment';
+export { DISPOSE } from './entropy/zeroize';
+export {
+    createCommitReveal,
+    commitContribution,
+    verifyCommitRevealTranscript,
+} from './entropy/commit-reveal';
+export { EntropySourceRegistrationError } from './entropy/errors/EntropySourceRegistrationError';
+export { EntropyLevelRegistrationError } from './entropy/errors/EntropyLevelRegistrationError';
+export { InvalidEntropyLevelError } from './entropy/errors/InvalidEntropyLevelError';
+export { InsufficientEntropyError } from './entropy/errors/InsufficientEntropyError';
+export { EntropySourceHealthError } from './entropy/errors/EntropySourceHealthError';
+export { EntropyAccumulatorNotSeededError } from './entropy/errors/EntropyAccumulatorNotSeededError';
+export { BeaconVerificationError } from './entropy/errors/BeaconVerificationError';
+export { CommitRevealError } from './entropy/errors/CommitRevealError';
 
 export { SimulationTimeoutError } from './simulation/errors/simulation-timeout-error';
 export { EdgeRetryExhaustedError } from './simulation/errors/edge-retry-exhausted-error';
 
 export { BaseError } from './common/errors/BaseError';
+export { FlipAbortedError } from './common/errors/FlipAbortedError';
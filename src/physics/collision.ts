@@ -2,6 +2,7 @@ import { Vec3 } from './math/vec3';
 import { RigidBody } from './rigid-body';
 import type { CollisionConfig } from './types/collision-config';
 import type { CollisionResult } from './types/collision-result';
+import type { ContactType } from './types/contact-type';
 import { DEFAULT_COLLISION_CONFIG } from './types/collision-config';
 
 /**
@@ -21,44 +22,44 @@ const GROUND_Y = 0;
 const GROUND_NORMAL = Vec3.UP;
 
 /**
- * Detects collisions between a coin (modeled as a thin disc) and the ground plane.
+ * Detects collisions between a coin (modeled as a cylinder) and the ground plane.
  *
- * The coin is approximated as a cylinder with radius `r` and thickness `h`.
- * To find the lowest point on the disc, we need to account for its orientation:
+ * The coin is a cylinder with radius `r` and thickness `h`, centred on its
+ * position, with its local "up" axis (0, 1, 0) along the cylinder axis. To find
+ * the lowest point we account for both dimensions:
  *
- * 1. The coin's local "up" axis (0, 1, 0) in its own frame
- * 2. Rotate this by the coin's orientation quaternion to get world-space "up"
- * 3. The lowest point is at: center - (h/2) * up_world
+ * 1. Rotate local "up" by the orientation quaternion to get the axis `n` in world space
+ * 2. The lower face is the one whose normal points down: centre - sign(n.y) * (h/2) * n
+ * 3. On that face's rim, the lowest point lies in the direction of world "down"
+ *    projected into the disc plane: d = (0, -1, 0) + n.y * n
+ * 4. The lowest point is: lowerFaceCentre + r * d / |d|
  *
  * If this lowest point has y < 0, we have a collision.
  *
  * ## Geometric Intuition
  *
- * When the coin is flat (horizontal), its "up" vector is ±(0, 1, 0), so the lowest
- * point is simply at y = position.y - thickness/2.
+ * For a tilt angle θ (between the coin axis and vertical), |n.y| = cos θ and
+ * |d| = sin θ, so the lowest point sits at:
  *
- * When the coin is tilted, the "up" vector points at an angle. The coin extends
- * further down in the direction opposite to "up", and we need to account for this
- * to avoid the coin incorrectly sinking into the ground.
+ * -> y_lowest = position.y - (h/2) * cos θ - r * sin θ
  *
- * Example: Coin at position (0, 0.05, 0), thickness = 0.002m, lying flat:
- * -> up_world = (0, 1, 0)
- * -> lowest point = (0, 0.05, 0) - (0, 0.001, 0) = (0, 0.049, 0)
- * -> y = 0.049 > 0, no collision
+ * Example: Coin with r = 0.012m, h = 0.002m:
+ * -> θ = 0° (flat): y_lowest = y - 0.001 (the face)
+ * -> θ = 45°: y_lowest = y - 0.000707 - 0.008485 = y - 0.00919 (a rim point)
+ * -> θ = 90° (on edge): y_lowest = y - 0.012 (the edge line)
  *
- * Example: Same coin tilted 90° (on its edge):
- * -> up_world = (1, 0, 0) (pointing horizontally)
- * -> lowest point = (0, 0.05, 0) - (0.001, 0, 0) = (-0.001, 0.05, 0)
- * -> We need to find the actual lowest rim point considering the radius!
+ * ## Contact Types
  *
- * ## Simplified Model (Current Implementation)
+ * The lowest feature is reported as `contactType`:
+ * -> 'face': flat, the rim dips less than `penetrationTolerance` below the face
+ *    centre (r * sin θ). Contact at the face centre, so a resting coin gets no
+ *    spurious torque from an arbitrary rim point.
+ * -> 'edge-line': upright, the two rim points across the thickness differ by less
+ *    than `penetrationTolerance` (h * cos θ). Contact at the middle of that line.
+ * -> 'rim': everything in between. Contact at the single lowest rim point.
  *
- * For simplicity, we currently ignore the radius and only consider the coin as two
- * flat faces separated by thickness. This is acceptable for a first implementation
- * and avoids the complexity of finding the lowest edge point on a tilted disc.
- *
- * A more accurate model would compute: lowest_point = center - (h/2) * up_world - r * down
- * where "down" is (0, -1, 0). This will be refined in future iterations if needed.
+ * The penetration depth is always measured at the true lowest point, so the
+ * coin never rests partly below the ground.
  *
  * @param body - The rigid body (coin) to check
  * @param config - Optional collision configuration overrides
@@ -72,54 +73,44 @@ export function detectCollision(
         ...DEFAULT_COLLISION_CONFIG,
         ...config,
     };
+    const tolerance = resolvedConfig.penetrationTolerance;
 
     /**
-     * Step 1: Find the coin's local "up" direction in world space.
-     *
-     * In the coin's local frame, "up" is (0, 1, 0). We rotate this by the coin's
-     * orientation quaternion to get the direction in world space.
+     * Step 1: Find the coin's axis (local "up") in world space.
      *
-     * Example: If the coin is flat (identity quaternion), up_world = (0, 1, 0).
-     * If tilted 90° around X-axis, up_world might be (0, 0, 1) (pointing forward).
+     * Example: If the coin is flat (identity quaternion), upWorld = (0, 1, 0).
+     * If tilted 90° around X-axis, upWorld = (0, 0, 1) (pointing forward).
      */
-    const localUp = Vec3.UP;
-    const upWorld = body.orientation.rotateVector(localUp);
+    const upWorld = body.orientation.rotateVector(Vec3.UP);
+    const halfThickness = body.thickness / 2;
 
     /**
-     * Step 2: Compute the lowest point on the coin disc.
-     *
-     * The coin extends from its center by ±(thickness/2) along the "up" direction.
-     * The lowest point is at: center - (thickness/2) * up_world
+     * Step 2: Find the centre of the face pointing down.
      *
-     * Example: Center at (0, 0.1, 0), thickness = 0.002m, up = (0, 1, 0):
-     * -> lowest = (0, 0.1, 0) - (0, 0.001, 0) = (0, 0.099, 0)
+     * If the axis points up (n.y >= 0) the lower face is at centre - (h/2) * n,
+     * otherwise at centre + (h/2) * n.
      */
-    const halfThickness = body.thickness / 2;
+    const faceSign = upWorld.y >= 0 ? -1 : 1;
+    const lowerFaceCentre = body.position.add(upWorld.scale(faceSign * halfThickness));
 
     /**
-     * Determine which face is pointing down calculating both potential contact points.
-     * point1 = center + (h/2) * upWorld
-     * point2 = center - (h/2) * upWorld
+     * Step 3: Project world "down" into the disc plane.
+     *
+     * d = (0, -1, 0) - ((0, -1, 0) · n) * n = (0, -1, 0) + n.y * n
+     *
+     * |d| = sin θ: zero when flat, one when on edge.
      */
-    const point1 = body.position.add(upWorld.scale(halfThickness));
-    const point2 = body.position.subtract(upWorld.scale(halfThickness));
+    const downInPlane = new Vec3(0, -1, 0).add(upWorld.scale(upWorld.y));
+    const rimDirection = downInPlane.normalize();
+    const rimDrop = body.radius * downInPlane.magnitude();
 
     /**
-     * Choose the rim point that is physically lowest.
-     *
-     * point1 and point2 represent the two faces of the coin along its local
-     * "up" axis. Only the face with the smaller y-coordinate can touch the
-     * ground first. Selecting the minimum y ensures we do not falsely report
-     * a collision from the upward-facing face.
-     *
-     * Example:
-     * -> point1.y = 0.05, point2.y = 0.047
-     * -> lowestPoint = point2 because 0.047 < 0.05
+     * Step 4: The lowest point on the lower face's rim.
      */
-    const lowestPoint = point1.y < point2.y ? point1 : point2;
+    const lowestPoint = lowerFaceCentre.add(rimDirection.scale(body.radius));
 
     /**
-     * Step 3: Check if the lowest point has penetrated the ground (y < 0).
+     * Step 5: Check if the lowest point has penetrated the ground (y < 0).
      */
     const penetrationDepth = GROUND_Y - lowestPoint.y;
 
@@ -129,26 +120,44 @@ export function detectCollision(
      * Small positive values (< tolerance) are ignored to prevent jitter from
      * floating-point rounding errors.
      */
-    if (penetrationDepth < resolvedConfig.penetrationTolerance) {
+    if (penetrationDepth < tolerance) {
         return { colliding: false };
     }
 
     /**
-     * Collision detected! Return details for response calculation.
+     * Step 6: Classify the contact and pick its representative point.
      *
-     * Contact point: We use the lowest point projected back onto the ground plane.
-     * This is the point where the coin is touching (or would touch if not penetrating).
+     * Example: Coin on edge at (0, 0.011, 0), axis (0, 0, 1), r = 0.012:
+     * -> h * |n.y| = 0 < tolerance, so 'edge-line'
+     * -> contact = (0, 0.011, 0) + (0, -0.012, 0) = (0, -0.001, 0), projected to (0, 0, 0)
+     */
+    let contactType: ContactType;
+    let contact: Vec3;
+    if (rimDrop <= tolerance) {
+        contactType = 'face';
+        contact = lowerFaceCentre;
+    } else if (body.thickness * Math.abs(upWorld.y) <= tolerance) {
+        contactType = 'edge-line';
+        contact = body.position.add(rimDirection.scale(body.radius));
+    } else {
+        contactType = 'rim';
+        contact = lowestPoint;
+    }
+
+    /**
+     * Contact point: the contact feature projected onto the ground plane.
      *
-     * Example: Lowest point at (0.5, -0.002, 0.3) with penetration 0.002m:
+     * Example: Lowest rim point at (0.5, -0.002, 0.3) with penetration 0.002m:
      * -> Contact point: (0.5, 0, 0.3) (same x,z but y clamped to ground)
      */
-    const contactPoint = new Vec3(lowestPoint.x, GROUND_Y, lowestPoint.z);
+    const contactPoint = new Vec3(contact.x, GROUND_Y, contact.z);
 
     return {
         colliding: true,
         normal: GROUND_NORMAL,
         penetrationDepth,
         contactPoint,
+        contactType,
     };
 }
 
@@ -1,4 +1,5 @@
 import { Vec3 } from '../math/vec3';
+import type { ContactType } from './contact-type';
 
 /**
  * Result of a collision detection check.
@@ -42,9 +43,9 @@ export interface CollisionResult {
     /**
      * Contact point in world space where collision occurred.
      *
-     * This is the position on the coin's surface that is touching (or penetrating) the ground.
-     * For a disc, this is typically a point on the edge rim when tilted, or the center
-     * when the coin is flat.
+     * This is the position on the coin's surface that is touching (or penetrating) the ground,
+     * projected onto the ground plane: the lowest rim point when tilted, the face centre
+     * when flat, or the middle of the edge line when standing on edge.
      *
      * Used for calculating realistic friction torques (friction acts at contact point,
      * which may be offset from center of mass).
@@ -52,4 +53,12 @@ export interface CollisionResult {
      * Only defined when colliding = true.
      */
     contactPoint?: Vec3;
+
+    /**
+     * Which feature of the coin is touching the ground: a face, a single rim
+     * point, or the edge line across the thickness.
+     *
+     * Only defined when colliding = true.
+     */
+    contactType?: ContactType;
 }
@@ -0,0 +1,14 @@
+/**
+ * Which part of the coin is touching the ground.
+ *
+ * The coin is a cylinder, so its lowest point is one of three features:
+ * -> 'face': lying flat, a whole face is down (contact at the face centre)
+ * -> 'rim': tilted, a single point on the circular rim of the lower face
+ * -> 'edge-line': standing on its edge, the rim segment across the thickness
+ *    is down (contact at the segment's midpoint)
+ *
+ * 'face' and 'edge-line' are reported when the coin is within
+ * `penetrationTolerance` of lying flat or standing upright, so a coin resting
+ * on one of them doesn't flicker between rim points.
+ */
+export type ContactType = 'face' | 'rim' | 'edge-line';
@@ -6,3 +6,4 @@ export type { StateDerivative } from './state-derivative';
 export type { CollisionConfig } from './collision-config';
 export { DEFAULT_COLLISION_CONFIG } from './collision-config';
 export type { CollisionResult } from './collision-result';
+export type { ContactType } from './contact-type';
@@ -1,4 +1,8 @@
 import { collectEntropy } from '../entropy/pool';
+import { deriveEntropy } from '../entropy/mixer';
+import { redactProvenance } from '../entropy/provenance';
+import { zeroize } from '../entropy/zeroize';
+import type { EntropyLabel } from '../entropy/types';
 import { generateInitialCondition } from './initial';
 import { integrate } from '../physics/integrator';
 import { handleCollision } from '../physics/collision';
@@ -16,6 +20,7 @@ import type { LaunchParameters } from './types/launch-parameters';
 import { DEFAULT_LAUNCH_PARAMETERS } from './types/launch-parameters';
 import { SimulationTimeoutError } from './errors/simulation-timeout-error';
 import { EdgeRetryExhaustedError } from './errors/edge-retry-exhausted-error';
+import { throwIfAborted, abortableSleep } from '../common/abort';
 
 /**
  * Orchestrates the coin flip simulation.
@@ -33,6 +38,7 @@ import { EdgeRetryExhaustedError } from './errors/edge-retry-exhausted-error';
  *
  * @param options Configuration for the flip simulation.
  * @returns Promise resolving to the flip result.
+ * @throws FlipAbortedError if `options.signal` aborts during collection or simulation.
  */
 export async function flipCoin(options: FlipOptions = {}): Promise<FlipResult> {
     /**
@@ -42,6 +48,14 @@ export async function flipCoin(options: FlipOptions = {}): Promise<FlipResult> {
      */
     const {
         entropyLevel = 'standard',
+        entropySources,
+        strict = false,
+        provenance = false,
+        signal,
+        entropyAccumulator,
+        entropyPrefetcher,
+        entropyHooks,
+        redactSeed = false,
         coinConfig: userCoinConfig = {},
         tossProfile = {},
         timeout = 10000,
@@ -81,21 +95,52 @@ export async function flipCoin(options: FlipOptions = {}): Promise<FlipResult> {
      */
     const maxConsecutiveStableFrames = 10;
 
+    /**
+     * With a signal, the physics loop yields to the event loop every this
+     * many steps (0.2s simulated), so an abort can get through.
+     */
+    const abortCheckIntervalSteps = 2000;
+
     let retries = 0;
     while (true) {
+        throwIfAborted(signal);
+
         /**
          * Collect Entropy
          * We collect fresh entropy for every attempt (including retries).
          */
-        const entropyResult = await collectEntropy({ level: entropyLevel });
-        const entropyBytes = entropyResult.bytes;
+        const entropyResult = await collectEntropy({
+            level: entropyLevel,
+            sources: entropySources,
+            strict,
+            provenance,
+            signal,
+            accumulator: entropyAccumulator,
+            prefetcher: entropyPrefetcher,
+            hooks: entropyHooks,
+        });
+
+        /**
+         * Derive one stream per purpose (HKDF info labels), so the launch
+         * bytes of an attempt and its axis wobble are unrelated, and no
+         * retry reuses the launch stream.
+         */
+        const attemptLabel: EntropyLabel = retries === 0 ? 'launch' : `retry-${retries}`;
+        const entropyBytes = await deriveEntropy(entropyResult.bytes, attemptLabel, 64);
+        const perturbationBytes = await deriveEntropy(entropyResult.bytes, 'perturbation', 64);
 
         /**
          * Generate Initial Conditions
          * Convert public TossProfile to internal LaunchParameters
          */
         const launchParams = mapTossProfileToLaunchParams(tossProfile, DEFAULT_LAUNCH_PARAMETERS);
-        const initialState = generateInitialCondition(entropyBytes, launchParams);
+        const initialState = generateInitialCondition(entropyBytes, launchParams, perturbationBytes);
+
+        /**
+         * The initial state is all the physics needs: wipe the entropy
+         * before the (comparatively long) simulation runs.
+         */
+        zeroize(entropyResult.bytes, entropyBytes, perturbationBytes);
 
         /**
          * Setup Physics Body
@@ -139,6 +184,7 @@ export async function flipCoin(options: FlipOptions = {}): Promise<FlipResult> {
         let bounceCount = 0;
         let consecutiveStableCount = 0;
         let elapsedSimulationTime = 0;
+        let steps = 0;
 
         /**
          * Safety break against infinite loops.
@@ -183,14 +229,19 @@ export async function flipCoin(options: FlipOptions = {}): Promise<FlipResult> {
             }
 
             elapsedSimulationTime += dt * 1000;
+            steps++;
 
             /**
              * Allow event loop to breathe
              * Since this is a busy loop in JS, it blocks.
-             * For very long simulations, we might want to await setImmediate/setTimeout every N steps.
              * Given 10kHz, 5000 steps is 0.5s simulated time.
              * 5000 steps might take 10-100ms real time. Blocking is likely fine for 'standard' throws.
+             * Only a cancellable flip pays for yielding: without a signal there
+             * is nothing to wait for.
              */
+            if (signal && steps % abortCheckIntervalSteps === 0) {
+                await abortableSleep(0, signal);
+            }
         }
 
         const endTime = performance.now();
@@ -225,7 +276,13 @@ export async function flipCoin(options: FlipOptions = {}): Promise<FlipResult> {
                  * Placeholder until physics hooks are added.
                  */
                 retryCount: retries,
+                degraded: entropyResult.stats.degraded,
+                healthErrors: entropyResult.stats.healthErrors,
+                prefetch: entropyPrefetcher?.getStats(),
             },
+            provenance: redactSeed && entropyResult.provenance
+                ? redactProvenance(entropyResult.provenance)
+                : entropyResult.provenance,
         };
     }
 }
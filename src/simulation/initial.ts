@@ -2,6 +2,9 @@ import type { RigidBodyState } from '../physics/types/rigid-body-state';
 import type { LaunchParameters } from './types/launch-parameters';
 import { DEFAULT_LAUNCH_PARAMETERS } from './types/launch-parameters';
 import { Vec3 } from '../physics/math/vec3';
+import { createHmacDrbg } from '../entropy/drbg';
+import type { HmacDrbg } from '../entropy/types';
+import { zeroize, DISPOSE } from '../entropy/zeroize';
 
 /**
  * Generates the initial physical state of the coin for a new simulation.
@@ -12,7 +15,7 @@ import { Vec3 } from '../physics/math/vec3';
  *
  * ## Process
  *
- * 1. **Stream Entropy**: Wraps the entropy buffer to consume bytes sequentially.
+ * 1. **Stream Entropy**: Seeds an HMAC-DRBG with the entropy buffer and reads from it.
  * 2. **Sample Impulse**: Generates a Gaussian-distributed vertical impulse.
  * 3. **Sample Spin**: Generates a Gaussian-distributed angular speed.
  * 4. **Micro-variations**: Perturbs the spin axis to introduce wobble.
@@ -20,20 +23,39 @@ import { Vec3 } from '../physics/math/vec3';
  *
  * ## Random Number Generation
  *
+ * The entropy bytes seed an SP 800-90A HMAC-DRBG, so there is no limit on
+ * how many values can be drawn, and the same bytes always give the same
+ * state (deterministic replay). There is no Math.random() fallback.
+ *
  * We use the Box-Muller transform to turn Uniform(0,1) entropy into
  * Normal(mean, stdDev) values.
  * -> z0 = sqrt(-2 ln(u1)) * cos(2 pi u2)
  * -> z1 = sqrt(-2 ln(u1)) * sin(2 pi u2)
  *
- * @param entropy - Raw entropy bytes from the EntropyPool (recommended >= 32 bytes).
+ * ## Separate Perturbation Stream
+ *
+ * The axis wobble can be drawn from its own buffer (derived with the
+ * "perturbation" HKDF label), so it is unrelated to the launch bytes.
+ * Without one, the wobble continues reading the main buffer.
+ *
+ * Both readers are disposed of before returning, which wipes their DRBG
+ * state and unread bytes. The entropy buffers belong to the caller.
+ *
+ * @param entropy - Raw entropy bytes from the EntropyPool (at least 32 bytes).
  * @param params - Configuration for the toss (optional, defaults to standard human toss).
+ * @param perturbationEntropy - Optional bytes for the spin axis wobble (at least 32 bytes).
  * @returns A fully populated RigidBodyState ready for integration.
+ * @throws InsufficientEntropyBufferError if a buffer is too short to seed the DRBG.
  */
 export function generateInitialCondition(
     entropy: Uint8Array,
-    params: LaunchParameters = DEFAULT_LAUNCH_PARAMETERS
+    params: LaunchParameters = DEFAULT_LAUNCH_PARAMETERS,
+    perturbationEntropy?: Uint8Array
 ): RigidBodyState {
     const reader = new EntropyReader(entropy);
+    const perturbationReader = perturbationEntropy
+        ? new EntropyReader(perturbationEntropy)
+        : reader;
 
     /**
      * Calculate Linear Velocity (Vertical Impulse)
@@ -60,9 +82,9 @@ export function generateInitialCondition(
      * axis_final = normalize(axis_ideal + random * wobble)
      */
     const perturbation = new Vec3(
-        reader.nextGaussian(0, params.spinAxisStdDev),
-        reader.nextGaussian(0, params.spinAxisStdDev),
-        reader.nextGaussian(0, params.spinAxisStdDev)
+        perturbationReader.nextGaussian(0, params.spinAxisStdDev),
+        perturbationReader.nextGaussian(0, params.spinAxisStdDev),
+        perturbationReader.nextGaussian(0, params.spinAxisStdDev)
     );
 
     /**
@@ -81,7 +103,7 @@ export function generateInitialCondition(
     const finalAxis = axis.add(perturbation).normalize();
     const angularVelocity = finalAxis.scale(spinMag);
 
-    return {
+    const state: RigidBodyState = {
         position: params.initialPosition,
         /**
          * Vec3 is immutable, safe to reuse reference if strict.
@@ -95,6 +117,10 @@ export function generateInitialCondition(
         orientation: params.initialOrientation,
         angularVelocity
     };
+
+    reader[DISPOSE]();
+    perturbationReader[DISPOSE]();
+    return state;
 }
 
 /**
@@ -102,34 +128,43 @@ export function generateInitialCondition(
  * Normally we would have this in a separate class but due to the 
  * nature of this being so tightly coupled with @see generateInitialCondition
  * we will just keep it here.
+ *
+ * Bytes come from an HMAC-DRBG seeded with the entropy buffer, fetched
+ * one block at a time, so the reader never runs dry.
  */
 class EntropyReader {
+    /**
+     * Bytes fetched per DRBG request. One block covers a full launch
+     * (5 Gaussians = 10 uniforms = 40 bytes).
+     */
+    private static readonly BLOCK_SIZE = 64;
+
+    private readonly drbg: HmacDrbg;
+    private block: Uint8Array = new Uint8Array(0);
     private offset = 0;
 
-    constructor(private readonly data: Uint8Array) { }
+    constructor(entropy: Uint8Array) {
+        this.drbg = createHmacDrbg(entropy);
+    }
 
     /**
      * Consumes 4 bytes to generate a uniform float in [0, 1).
      * Uses 32-bit unsigned integer normalization.
      */
     nextUniform(): number {
-        if (this.offset + 4 > this.data.length) {
-            /**
-             * Fallback if we run out of entropy: use Math.random()
-             * In a strict environment we might throw, but for visual simulation,
-             * graceful degradation is preferred.
-             */
-            return Math.random();
+        if (this.offset + 4 > this.block.length) {
+            this.block = this.drbg.generate(EntropyReader.BLOCK_SIZE);
+            this.offset = 0;
         }
 
         /**
          * Read 32-bit integer (Big Endian or Little Endian doesn't matter for randomness)
          * We simply construct a u32.
          */
-        const u32 = (this.data[this.offset]! << 24) |
-            (this.data[this.offset + 1]! << 16) |
-            (this.data[this.offset + 2]! << 8) |
-            (this.data[this.offset + 3]!);
+        const u32 = (this.block[this.offset]! << 24) |
+            (this.block[this.offset + 1]! << 16) |
+            (this.block[this.offset + 2]! << 8) |
+            (this.block[this.offset + 3]!);
 
         this.offset += 4;
 
@@ -157,4 +192,12 @@ class EntropyReader {
 
         return mean + z0 * stdDev;
     }
+
+    /**
+     * Wipes the unread bytes and the DRBG state. Disposing twice is harmless.
+     */
+    [DISPOSE](): void {
+        zeroize(this.block);
+        this.drbg[DISPOSE]();
+    }
 }
@@ -50,11 +50,14 @@ export function isStable(
     /**
      * The coin can be 'stable' (velocity ~ 0) at the apex of its throw
      * while floating in mid-air. We must ensure it is near the ground.
-     * Use 2x thickness or a small constant like 1cm. We consider the 
-     * coin as "stable" if it is "grounded", meaning the y position is
-     * below the given threshold, in this case 1cm.
+     * We consider the coin "grounded" when its centre is no higher than
+     * it can be while resting: leaning on its rim, the centre sits at most
+     * sqrt(r² + (h/2)²) above the ground, which radius + thickness covers.
+     *
+     * Example: r = 0.01213m, h = 0.00175m
+     * -> flat: y ≈ 0.0009, on edge: y ≈ 0.0121, threshold = 0.0139
      */
-    return (body.position.y < 0.01)
+    return (body.position.y < body.radius + body.thickness)
         ? true
         : false;
 }
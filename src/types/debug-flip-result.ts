@@ -12,8 +12,9 @@ export interface DebugFlipResult extends FlipResult {
      * The entropy seed used for this flip.
      * Can be passed to `DebugFlipOptions.seed` to replay this exact flip
      * (assuming code/constants haven't changed).
+     * Omitted with `redactSeed`.
      */
-    seed: Uint8Array;
+    seed?: Uint8Array;
 
     /**
      * The actual initial conditions used for the simulation.
@@ -1,6 +1,10 @@
 import type { CoinConfig } from './coin-config';
-import type { EntropyLevel } from './entropy-level';
 import type { TossProfile } from './toss-profile';
+import type { EntropyLevelSpec } from '../entropy/types/EntropyLevelSpec';
+import type { EntropySource } from '../entropy/types/EntropySource';
+import type { EntropyAccumulator } from '../entropy/types/EntropyAccumulator';
+import type { EntropyPrefetcher } from '../entropy/types/EntropyPrefetcher';
+import type { EntropyHooks } from '../entropy/types/EntropyHooks';
 
 /**
  * Options for configuring a single coin flip simulation.
@@ -11,9 +15,71 @@ export interface FlipOptions {
     /**
      * The desired quality of entropy to collect.
      * Higher levels take longer but collect more random bits.
+     * Accepts a preset, a name registered with `registerEntropyLevel()`,
+     * or an inline `{ minTimeMs, targetBits, maxTimeMs }` config.
      * Default: 'standard'
      */
-    entropyLevel?: EntropyLevel;
+    entropyLevel?: EntropyLevelSpec;
+
+    /**
+     * Extra entropy sources for this flip, swept alongside the registered ones.
+     * Use `registerEntropySource()` instead to add a source to every flip.
+     * A source with a registered name replaces it for this flip, e.g.
+     * `createTimingEntropySource({ extractor: 'von-neumann', worker: true })`.
+     */
+    entropySources?: EntropySource[];
+
+    /**
+     * Strict entropy mode: throw InsufficientEntropyError if the entropy
+     * level's targetBits can't be reached in time, instead of flipping with
+     * less entropy.
+     * Default: false (the flip proceeds and `stats.degraded` is set)
+     */
+    strict?: boolean;
+
+    /**
+     * Attach an entropy audit record to the result (`FlipResult.provenance`):
+     * per-source bytes, bits, timing, health and SHA-256 commitments.
+     * Default: false
+     */
+    provenance?: boolean;
+
+    /**
+     * Cancels the flip: entropy collection and the physics loop both stop
+     * and the promise rejects with FlipAbortedError.
+     */
+    signal?: AbortSignal;
+
+    /**
+     * Running entropy accumulator (see `createEntropyAccumulator()`).
+     * Once seeded, flips are served from it without waiting for collection.
+     */
+    entropyAccumulator?: EntropyAccumulator;
+
+    /**
+     * Running entropy prefetcher (see `createEntropyPrefetcher()`).
+     * Each attempt, retries included, takes a ready result from its queue if
+     * one qualifies, and collects inline otherwise.
+     */
+    entropyPrefetcher?: EntropyPrefetcher;
+
+    /**
+     * Lifecycle callbacks for the entropy collection of every attempt
+     * (see `EntropyHooks`).
+     */
+    entropyHooks?: EntropyHooks;
+
+    /**
+     * Keep the seed out of the result entirely: provenance records drop
+     * their SHA-256 commitments (`outputCommitment` and each contribution's
+     * `commitment`), and the debug API returns no `seed` and wipes it.
+     *
+     * A commitment doesn't reveal the bytes, but it confirms a correct
+     * guess: with weak sources and a fully known implementation, that is
+     * enough to search for the seed offline.
+     * Default: false
+     */
+    redactSeed?: boolean;
 
     /**
      * physical properties of the coin.
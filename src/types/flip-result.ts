@@ -1,4 +1,7 @@
 import type { Face } from '../evaluator/types/face';
+import type { EntropyProvenance } from '../entropy/types/EntropyProvenance';
+import type { EntropyPrefetcherStats } from '../entropy/types/EntropyPrefetcherStats';
+import type { EntropySourceHealthError } from '../entropy/errors/EntropySourceHealthError';
 
 /**
  * The final result of a coin flip simulation.
@@ -33,5 +36,30 @@ export interface FlipResult {
          * Number of times the flip was retried due to edge landings.
          */
         retryCount: number;
+
+        /**
+         * True if the entropy for this flip fell short of the level's target.
+         * Never true with `strict`, which throws instead.
+         */
+        degraded: boolean;
+
+        /**
+         * Sources that failed a continuous health test while collecting the
+         * final attempt's entropy. Their output was left out of the mix.
+         */
+        healthErrors: EntropySourceHealthError[];
+
+        /**
+         * Queue counters of the entropy prefetcher after this flip.
+         * Only present when `entropyPrefetcher` was passed.
+         */
+        prefetch?: EntropyPrefetcherStats;
     };
+
+    /**
+     * Audit record of the entropy behind the outcome (the final attempt's
+     * collection). Only present with `provenance: true`.
+     * Plain JSON: safe to archive next to the outcome.
+     */
+    provenance?: EntropyProvenance;
 }
@@ -0,0 +1,267 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { createEntropyAccumulator, selectReseedPools } from '../../src/entropy/accumulator';
+import { collectEntropy } from '../../src/entropy/pool';
+import type { EntropyAccumulator, EntropySource } from '../../src/entropy/types';
+import { EntropyAccumulatorNotSeededError } from '../../src/entropy/errors';
+
+/**
+ * Cheap source with a generous estimate, so tests seed in a few sweeps.
+ */
+const countingSource = (): EntropySource & { calls: number } => {
+  const source = {
+    name: 'counting',
+    quality: 4,
+    timeoutMs: 100,
+    calls: 0,
+    isAvailable: () => true,
+    collect: async () => {
+      source.calls++;
+      return { bytes: crypto.getRandomValues(new Uint8Array(64)), estimatedBits: 512 };
+    },
+  };
+  return source;
+};
+
+/**
+ * Polls until the accumulator has reseeded, failing after `timeoutMs`.
+ */
+async function waitUntilSeeded(accumulator: EntropyAccumulator, timeoutMs = 5000): Promise<void> {
+  const deadline = performance.now() + timeoutMs;
+  while (!accumulator.isSeeded()) {
+    if (performance.now() > deadline) {
+      throw new Error('accumulator did not seed in time');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+describe('Entropy Accumulator', () => {
+  let accumulator: EntropyAccumulator | undefined;
+
+  afterEach(async () => {
+    await accumulator?.stop();
+    accumulator = undefined;
+  });
+
+  describe('selectReseedPools', () => {
+    it('should drain pool i when 2^i divides the reseed number', () => {
+      expect(selectReseedPools(1, 32)).toEqual([0]);
+      expect(selectReseedPools(2, 32)).toEqual([0, 1]);
+      expect(selectReseedPools(3, 32)).toEqual([0]);
+      expect(selectReseedPools(8, 32)).toEqual([0, 1, 2, 3]);
+      expect(selectReseedPools(12, 32)).toEqual([0, 1, 2]);
+    });
+
+    it('should never return pools beyond poolCount', () => {
+      expect(selectReseedPools(1024, 4)).toEqual([0, 1, 2, 3]);
+    });
+  });
+
+  describe('lifecycle', () => {
+    it('should be stopped and unseeded when created', () => {
+      accumulator = createEntropyAccumulator();
+
+      expect(accumulator.isRunning()).toBe(false);
+      expect(accumulator.isSeeded()).toBe(false);
+      expect(accumulator.getStats().sweepCount).toBe(0);
+    });
+
+    it('should not collect after stop()', async () => {
+      const source = countingSource();
+      accumulator = createEntropyAccumulator({ sources: [source], sweepIntervalMs: 5 });
+
+      accumulator.start();
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      await accumulator.stop();
+
+      expect(accumulator.isRunning()).toBe(false);
+      const calls = source.calls;
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect(source.calls).toBe(calls);
+    });
+
+    it('should ignore a second start()', async () => {
+      const source = countingSource();
+      accumulator = createEntropyAccumulator({ sources: [source], sweepIntervalMs: 1000 });
+
+      accumulator.start();
+      accumulator.start();
+      await accumulator.stop();
+
+      expect(source.calls).toBe(1);
+    });
+
+    it('should reject invalid pool counts', () => {
+      expect(() => createEntropyAccumulator({ poolCount: 0 })).toThrow(RangeError);
+      expect(() => createEntropyAccumulator({ poolCount: 33 })).toThrow(RangeError);
+    });
+  });
+
+  describe('read', () => {
+    it('should throw before the first reseed', async () => {
+      accumulator = createEntropyAccumulator();
+
+      await expect(accumulator.read()).rejects.toThrow(EntropyAccumulatorNotSeededError);
+    });
+
+    it('should serve distinct output once seeded', async () => {
+      accumulator = createEntropyAccumulator({
+        sources: [countingSource()],
+        poolCount: 2,
+        sweepIntervalMs: 5,
+        minReseedIntervalMs: 0,
+      });
+      accumulator.start();
+      await waitUntilSeeded(accumulator);
+
+      const first = await accumulator.read(32);
+      const second = await accumulator.read(32);
+
+      expect(first.bytes.length).toBe(32);
+      expect(second.bytes.length).toBe(32);
+      expect(first.bytes).not.toEqual(second.bytes);
+      expect(first.stats.sourcesUsed).toContain('counting');
+      expect(first.stats.totalBits).toBeGreaterThanOrEqual(128);
+    });
+
+    it('should keep serving after stop()', async () => {
+      accumulator = createEntropyAccumulator({
+        sources: [countingSource()],
+        poolCount: 1,
+        sweepIntervalMs: 5,
+      });
+      accumulator.start();
+      await waitUntilSeeded(accumulator);
+      await accumulator.stop();
+
+      const result = await accumulator.read(16);
+      expect(result.bytes.length).toBe(16);
+    });
+
+    it('should spend the key\'s credit on a read', async () => {
+      accumulator = createEntropyAccumulator({
+        sources: [countingSource()],
+        poolCount: 1,
+        sweepIntervalMs: 5,
+      });
+      accumulator.start();
+      await waitUntilSeeded(accumulator);
+      await accumulator.stop();
+
+      const first = await accumulator.read(16);
+      const second = await accumulator.read(16);
+
+      expect(first.stats.totalBits).toBeGreaterThanOrEqual(128);
+      expect(second.stats.totalBits).toBe(0);
+      expect(second.stats.degraded).toBe(true);
+      expect(accumulator.getStats().keyBits).toBe(0);
+    });
+  });
+
+  describe('pools', () => {
+    it('should spread a source over the pools and drain pool 0 on reseed', async () => {
+      accumulator = createEntropyAccumulator({
+        sources: [countingSource()],
+        poolCount: 4,
+        sweepIntervalMs: 5,
+        minReseedIntervalMs: 0,
+      });
+      accumulator.start();
+      await waitUntilSeeded(accumulator);
+      await accumulator.stop();
+
+      const stats = accumulator.getStats();
+      expect(stats.reseedCount).toBeGreaterThan(0);
+      expect(stats.seedBits).toBeGreaterThan(0);
+      expect(stats.poolBits.length).toBe(4);
+      expect(stats.sweepCount).toBeGreaterThanOrEqual(stats.reseedCount);
+    });
+  });
+
+  describe('pool integration', () => {
+    it('should serve collectEntropy without waiting once seeded', async () => {
+      accumulator = createEntropyAccumulator({
+        sources: [countingSource()],
+        poolCount: 1,
+        sweepIntervalMs: 5,
+      });
+      accumulator.start();
+      await waitUntilSeeded(accumulator);
+
+      const startTime = performance.now();
+      const result = await collectEntropy({ level: 'standard', accumulator });
+
+      /**
+       * Inline collection at 'standard' waits at least minTimeMs = 200ms.
+       */
+      expect(performance.now() - startTime).toBeLessThan(100);
+      expect(result.bytes.length).toBe(64);
+      expect(result.stats.sourcesUsed).toContain('counting');
+    });
+
+    it('should not add up reseeds to serve a level above what one key holds', async () => {
+      accumulator = createEntropyAccumulator({
+        sources: [{
+          name: 'trickle',
+          quality: 4,
+          timeoutMs: 100,
+          isAvailable: () => true,
+          collect: async () => ({ bytes: crypto.getRandomValues(new Uint8Array(32)), estimatedBits: 16 }),
+        }],
+        poolCount: 1,
+        sweepIntervalMs: 1,
+        minReseedBits: 16,
+        minReseedIntervalMs: 0,
+      });
+      accumulator.start();
+      const deadline = performance.now() + 5000;
+      while (accumulator.getStats().seedBits < 256) {
+        if (performance.now() > deadline) {
+          throw new Error('accumulator did not reseed enough in time');
+        }
+        await new Promise((resolve) => setTimeout(resolve, 5));
+      }
+      await accumulator.stop();
+
+      const result = await collectEntropy({
+        level: { minTimeMs: 0, targetBits: 256, maxTimeMs: 300 },
+        accumulator,
+      });
+
+      expect(accumulator.getStats().keyBits).toBeLessThan(256);
+      expect(result.stats.sourcesUsed).not.toContain('trickle');
+    });
+
+    it('should let only one concurrent flip spend a key and collect the other inline', async () => {
+      accumulator = createEntropyAccumulator({
+        sources: [countingSource()],
+        poolCount: 1,
+        sweepIntervalMs: 5,
+      });
+      accumulator.start();
+      await waitUntilSeeded(accumulator);
+      await accumulator.stop();
+
+      const level = { minTimeMs: 0, targetBits: 64, maxTimeMs: 1000 };
+      const results = await Promise.all([
+        collectEntropy({ level, accumulator, strict: true, sources: [countingSource()] }),
+        collectEntropy({ level, accumulator, strict: true, sources: [countingSource()] }),
+      ]);
+
+      for (const result of results) {
+        expect(result.stats.totalBits).toBeGreaterThanOrEqual(64);
+        expect(result.stats.degraded).toBe(false);
+      }
+      expect(accumulator.getStats().keyBits).toBe(0);
+    });
+
+    it('should collect inline while the accumulator is unseeded', async () => {
+      accumulator = createEntropyAccumulator();
+
+      const result = await collectEntropy({ level: 'fast', accumulator });
+
+      expect(result.stats.sourcesUsed).toContain('timing');
+      expect(result.stats.collectionTimeMs).toBeGreaterThanOrEqual(100);
+    });
+  });
+});
@@ -0,0 +1,194 @@
+import { describe, it, expect } from 'vitest';
+import {
+  assessRandomness,
+  frequencyTest,
+  blockFrequencyTest,
+  runsTest,
+  longestRunTest,
+  serialTest,
+  approximateEntropyTest,
+  cumulativeSumsTest,
+} from '../../src/entropy/assessment';
+import { collectEntropy } from '../../src/entropy/pool';
+import { createCryptoEntropySource } from '../../src/entropy/sources/crypto';
+
+const bitsOf = (text: string): number[] => Array.from(text, Number);
+
+/**
+ * The examples from SP 800-22 Rev. 1a, section 2. Most use the first 100
+ * bits of the binary expansion of π.
+ */
+const PI_100 = bitsOf(
+  '1100100100001111110110101010001000100001011010001100001000110100110001001100011001100010100010111000'
+);
+const LONGEST_RUN_128 = bitsOf(
+  '11001100000101010110110001001100111000000000001001001101010100010001001111010110100000001101011111001100111001101101100010110010'
+);
+
+/**
+ * Bits that are 1 with probability `p`, from a seeded LCG so the
+ * assertions below are stable.
+ */
+function biasedBits(count: number, p: number, seed = 42): number[] {
+  const bits: number[] = [];
+  let state = seed;
+  for (let i = 0; i < count; i++) {
+    state = (state * 1103515245 + 12345) & 0x7fffffff;
+    bits.push(state / 0x80000000 < p ? 1 : 0);
+  }
+  return bits;
+}
+
+describe('Randomness Assessment', () => {
+  describe('SP 800-22 examples', () => {
+    it('frequency (2.1.8)', () => {
+      expect(frequencyTest(PI_100)).toBeCloseTo(0.109599, 6);
+    });
+
+    it('block frequency (2.2.8)', () => {
+      expect(blockFrequencyTest(PI_100, 10)).toBeCloseTo(0.706438, 6);
+    });
+
+    it('runs (2.3.8)', () => {
+      expect(runsTest(PI_100)).toBeCloseTo(0.500798, 6);
+    });
+
+    it('longest run of ones (2.4.8)', () => {
+      expect(longestRunTest(LONGEST_RUN_128)).toBeCloseTo(0.180598, 6);
+    });
+
+    it('serial (2.11.4)', () => {
+      const [p1, p2] = serialTest(bitsOf('0011011101'), 3);
+
+      expect(p1).toBeCloseTo(0.808792, 6);
+      expect(p2).toBeCloseTo(0.670320, 6);
+    });
+
+    it('approximate entropy (2.12.4 and 2.12.8)', () => {
+      expect(approximateEntropyTest(bitsOf('0100110101'), 3)).toBeCloseTo(0.261961, 6);
+      expect(approximateEntropyTest(PI_100, 2)).toBeCloseTo(0.235301, 6);
+    });
+
+    it('cumulative sums (2.13.8)', () => {
+      const [forward, backward] = cumulativeSumsTest(PI_100);
+
+      expect(forward).toBeCloseTo(0.219194, 6);
+      expect(backward).toBeCloseTo(0.114866, 6);
+    });
+  });
+
+  describe('individual tests', () => {
+    it('should skip the runs test when the frequency prerequisite fails', () => {
+      expect(runsTest(biasedBits(1000, 0.7))).toBe(0);
+    });
+
+    it('should need 128 bits for the longest run test', () => {
+      expect(longestRunTest(PI_100)).toBeUndefined();
+    });
+
+    it('should reject out-of-range block lengths', () => {
+      expect(() => blockFrequencyTest(PI_100, 0)).toThrow(RangeError);
+      expect(() => blockFrequencyTest(PI_100, 101)).toThrow(RangeError);
+      expect(() => serialTest(PI_100, 1)).toThrow(RangeError);
+      expect(() => approximateEntropyTest(PI_100, 0)).toThrow(RangeError);
+      expect(() => approximateEntropyTest(PI_100, 2.5)).toThrow(RangeError);
+    });
+  });
+
+  describe('assessRandomness', () => {
+    it('should pass crypto.getRandomValues output', () => {
+      /**
+       * Seven tests at α = 0.01: a fair generator fails one about 7% of the
+       * time. Requiring a pass on one of three fresh samples keeps this stable.
+       */
+      const passes = [0, 1, 2].map(() => assessRandomness(crypto.getRandomValues(new Uint8Array(4096))).passed);
+
+      expect(passes).toContain(true);
+    });
+
+    it('should report every test with its p-values', () => {
+      const assessment = assessRandomness(crypto.getRandomValues(new Uint8Array(1024)));
+
+      expect(assessment.sampleBits).toBe(8192);
+      expect(assessment.alpha).toBe(0.01);
+      expect(assessment.serial.pValues).toHaveLength(2);
+      expect(assessment.cumulativeSums.pValues).toHaveLength(2);
+      for (const result of [
+        assessment.frequency,
+        assessment.blockFrequency,
+        assessment.runs,
+        assessment.longestRun!,
+        assessment.serial,
+        assessment.approximateEntropy!,
+        assessment.cumulativeSums,
+      ]) {
+        expect(result.pValue).toBe(Math.min(...result.pValues));
+        expect(result.passed).toBe(result.pValue >= 0.01);
+        for (const p of result.pValues) {
+          expect(p).toBeGreaterThanOrEqual(0);
+          expect(p).toBeLessThanOrEqual(1);
+        }
+      }
+    });
+
+    it('should fail biased and patterned sequences', () => {
+      const biased = assessRandomness(biasedBits(4096, 0.6));
+      const alternating = assessRandomness(Array.from({ length: 4096 }, (_, i) => i % 2));
+
+      expect(biased.frequency.passed).toBe(false);
+      expect(biased.passed).toBe(false);
+      expect(alternating.frequency.passed).toBe(true);
+      expect(alternating.runs.passed).toBe(false);
+      expect(alternating.passed).toBe(false);
+    });
+
+    it('should read plain arrays as one bit per element', () => {
+      const assessment = assessRandomness(PI_100);
+
+      expect(assessment.sampleBits).toBe(100);
+      expect(assessment.frequency.pValue).toBeCloseTo(0.109599, 6);
+      expect(assessment.longestRun).toBeUndefined();
+      expect(assessment.approximateEntropy).toBeUndefined();
+    });
+
+    it('should honour explicit block lengths', () => {
+      const assessment = assessRandomness(PI_100, {
+        blockFrequencyBlockLength: 10,
+        approximateEntropyBlockLength: 2,
+      });
+
+      expect(assessment.blockFrequency.pValue).toBeCloseTo(0.706438, 6);
+      expect(assessment.approximateEntropy!.pValue).toBeCloseTo(0.235301, 6);
+    });
+
+    it('should judge against alpha', () => {
+      expect(assessRandomness(PI_100, { alpha: 0.2 }).frequency.passed).toBe(false);
+      expect(assessRandomness(PI_100, { alpha: 0.1 }).frequency.passed).toBe(true);
+    });
+
+    it('should reject short sequences, non-bits and invalid alpha', () => {
+      expect(() => assessRandomness(new Uint8Array(12))).toThrow(RangeError);
+      expect(() => assessRandomness([...PI_100.slice(0, 99), 2])).toThrow(RangeError);
+      expect(() => assessRandomness(PI_100, { alpha: 0 })).toThrow(RangeError);
+    });
+  });
+
+  describe('entropy output', () => {
+    it('should assess collectEntropy output', async () => {
+      const result = await collectEntropy({ level: 'fast', outputBytes: 1024 });
+      const assessment = assessRandomness(result.bytes);
+
+      expect(assessment.sampleBits).toBe(8192);
+      expect(assessment.frequency.pValue).toBeGreaterThan(0);
+    });
+
+    it('should assess raw source output', async () => {
+      const source = createCryptoEntropySource();
+      const output = await source.collect({ targetBits: 8192, timeoutMs: 100 });
+      const assessment = assessRandomness(output.bytes);
+
+      expect(assessment.sampleBits).toBe(output.bytes.length * 8);
+      expect(assessment.frequency.pValue).toBeGreaterThan(0);
+    });
+  });
+});
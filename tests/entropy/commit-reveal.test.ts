@@ -0,0 +1,260 @@
+import { describe, it, expect } from 'vitest';
+import {
+  commitContribution,
+  createCommitReveal,
+  verifyCommitRevealTranscript,
+} from '../../src/entropy/commit-reveal';
+import { mixEntropy } from '../../src/entropy/mixer';
+import { debugFlipCoin } from '../../src/debug';
+import { CommitRevealError } from '../../src/entropy/errors';
+import { FlipAbortedError } from '../../src/common/errors';
+import type { CommitRevealOptions, CommitRevealSession, CommitRevealTranscript } from '../../src/entropy/types';
+
+const PARTICIPANTS = ['alice', 'bob', 'carol'];
+
+/**
+ * Distinct, recognisable 32-byte contributions.
+ */
+const contributionOf = (name: string): Uint8Array =>
+  new Uint8Array(32).map((_, i) => name.charCodeAt(i % name.length) + i);
+
+function commitAll(session: CommitRevealSession, names: string[]): void {
+  for (const name of names) {
+    session.commit(name, commitContribution(contributionOf(name)));
+  }
+}
+
+function revealAll(session: CommitRevealSession, names: string[]): void {
+  for (const name of names) {
+    session.reveal(name, contributionOf(name));
+  }
+}
+
+async function runSession(
+  options: Omit<CommitRevealOptions, 'participants'> = {}
+): Promise<CommitRevealTranscript> {
+  const session = createCommitReveal({ ...options, participants: PARTICIPANTS });
+  commitAll(session, PARTICIPANTS);
+  revealAll(session, PARTICIPANTS);
+  return session.result();
+}
+
+describe('Commit-Reveal', () => {
+  describe('createCommitReveal', () => {
+    it('should combine every revealed contribution into the seed', async () => {
+      const session = createCommitReveal({ participants: PARTICIPANTS });
+
+      commitAll(session, PARTICIPANTS);
+      expect(session.getPhase()).toBe('reveal');
+      revealAll(session, PARTICIPANTS);
+      const transcript = await session.result();
+
+      const expected = await mixEntropy(PARTICIPANTS.map(contributionOf));
+      expect(session.getPhase()).toBe('complete');
+      expect(transcript.mixer).toBe('SHA-256');
+      expect(transcript.policy).toEqual({ minParticipants: 2, allowWithheld: false });
+      expect(transcript.entries.map((entry) => entry.status)).toEqual(['revealed', 'revealed', 'revealed']);
+      expect(transcript.seed).toBe(Buffer.from(expected).toString('hex'));
+    });
+
+    it('should accept hex messages and keep the configured order', async () => {
+      const session = createCommitReveal({ participants: PARTICIPANTS, mixer: 'BLAKE2b' });
+      const hex = (bytes: Uint8Array): string => Buffer.from(bytes).toString('hex');
+
+      for (const name of [...PARTICIPANTS].reverse()) {
+        session.commit(name, hex(commitContribution(contributionOf(name))));
+      }
+      for (const name of [...PARTICIPANTS].reverse()) {
+        session.reveal(name, hex(contributionOf(name)));
+      }
+      const transcript = await session.result();
+
+      expect(transcript.entries.map((entry) => entry.participant)).toEqual(PARTICIPANTS);
+      expect(transcript.seed.length).toBe(128);
+    });
+
+    it('should refuse reveals before every commitment is in', () => {
+      const session = createCommitReveal({ participants: PARTICIPANTS });
+      session.commit('alice', commitContribution(contributionOf('alice')));
+
+      expect(() => session.reveal('alice', contributionOf('alice'))).toThrow(CommitRevealError);
+    });
+
+    it('should reject a reveal that does not match, and accept a later correct one', async () => {
+      const session = createCommitReveal({ participants: ['alice', 'bob'] });
+      commitAll(session, ['alice', 'bob']);
+
+      expect(() => session.reveal('alice', contributionOf('bob'))).toThrow(/does not match/);
+      revealAll(session, ['alice', 'bob']);
+
+      await expect(session.result()).resolves.toBeDefined();
+    });
+
+    it('should reject unknown participants and repeated commitments', () => {
+      const session = createCommitReveal({ participants: ['alice', 'bob'] });
+      const commitment = commitContribution(contributionOf('alice'));
+      session.commit('alice', commitment);
+
+      expect(() => session.commit('mallory', commitment)).toThrow(CommitRevealError);
+      expect(() => session.commit('alice', commitment)).toThrow(/already committed/);
+      expect(() => session.commit('bob', new Uint8Array(16))).toThrow(RangeError);
+    });
+
+    it('should leave out participants who never commit', async () => {
+      const session = createCommitReveal({ participants: PARTICIPANTS, commitTimeoutMs: 30 });
+      commitAll(session, ['alice', 'carol']);
+
+      await expect.poll(() => session.getPhase()).toBe('reveal');
+      revealAll(session, ['alice', 'carol']);
+      const transcript = await session.result();
+
+      expect(transcript.entries[1]).toEqual({ participant: 'bob', status: 'absent' });
+      expect(transcript.seed).toBe(
+        Buffer.from(await mixEntropy([contributionOf('alice'), contributionOf('carol')])).toString('hex')
+      );
+    });
+
+    it('should fail when too few participants commit', async () => {
+      const session = createCommitReveal({ participants: PARTICIPANTS, commitTimeoutMs: 30 });
+      commitAll(session, ['alice']);
+
+      await expect(session.result()).rejects.toThrow(/only 1 of 2/);
+      expect(session.getPhase()).toBe('failed');
+    });
+
+    it('should fail when a participant withholds their reveal', async () => {
+      const session = createCommitReveal({ participants: PARTICIPANTS, revealTimeoutMs: 30 });
+      commitAll(session, PARTICIPANTS);
+      revealAll(session, ['alice', 'bob']);
+
+      const error = await session.result().catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(CommitRevealError);
+      expect((error as Error).message).toMatch(/withheld by "carol"/);
+    });
+
+    it('should record withheld participants with allowWithheld', async () => {
+      const session = createCommitReveal({ participants: PARTICIPANTS, revealTimeoutMs: 30, allowWithheld: true });
+      commitAll(session, PARTICIPANTS);
+      revealAll(session, ['alice', 'bob']);
+
+      const transcript = await session.result();
+
+      expect(transcript.entries[2]).toMatchObject({ participant: 'carol', status: 'withheld' });
+      expect(transcript.entries[2]!.contribution).toBeUndefined();
+      expect(() => session.reveal('carol', contributionOf('carol'))).toThrow(CommitRevealError);
+      await expect(verifyCommitRevealTranscript(transcript)).resolves.toBeDefined();
+    });
+
+    it('should reject with FlipAbortedError when aborted', async () => {
+      const controller = new AbortController();
+      const session = createCommitReveal({ participants: PARTICIPANTS, signal: controller.signal });
+      commitAll(session, ['alice']);
+
+      controller.abort();
+
+      await expect(session.result()).rejects.toThrow(FlipAbortedError);
+      expect(session.getPhase()).toBe('failed');
+    });
+
+    it('should reject invalid options', () => {
+      expect(() => createCommitReveal({ participants: [] })).toThrow(RangeError);
+      expect(() => createCommitReveal({ participants: ['alice', 'alice'] })).toThrow(RangeError);
+      expect(() => createCommitReveal({ participants: ['alice', ''] })).toThrow(RangeError);
+      expect(() => createCommitReveal({ participants: ['alice'], minParticipants: 2 })).toThrow(RangeError);
+      expect(() => createCommitReveal({ participants: ['alice'], revealTimeoutMs: 0 })).toThrow(RangeError);
+      expect(() => commitContribution(new Uint8Array(8))).toThrow(RangeError);
+    });
+  });
+
+  describe('verifyCommitRevealTranscript', () => {
+    it('should return the seed of a valid transcript, even after a JSON round trip', async () => {
+      const transcript = await runSession();
+
+      const seed = await verifyCommitRevealTranscript(JSON.parse(JSON.stringify(transcript)));
+
+      expect(Buffer.from(seed).toString('hex')).toBe(transcript.seed);
+    });
+
+    it('should reject a contribution swapped after the fact', async () => {
+      const transcript = await runSession();
+      transcript.entries[0] = { ...transcript.entries[0]!, contribution: Buffer.from(contributionOf('mallory')).toString('hex') };
+
+      const error = await verifyCommitRevealTranscript(transcript).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(CommitRevealError);
+      expect((error as CommitRevealError).participant).toBe('alice');
+    });
+
+    it('should reject a seed that does not match', async () => {
+      const transcript = await runSession();
+
+      await expect(verifyCommitRevealTranscript({ ...transcript, seed: '00'.repeat(32) }))
+        .rejects.toThrow(/seed does not match/);
+    });
+
+    it('should reject a participant dropped from the seed but marked revealed elsewhere', async () => {
+      const transcript = await runSession();
+      const { contribution: _dropped, ...withheld } = transcript.entries[1]!;
+      transcript.entries[1] = { ...withheld, status: 'withheld' };
+      transcript.policy = { ...transcript.policy, allowWithheld: true };
+
+      await expect(verifyCommitRevealTranscript(transcript)).rejects.toThrow(/seed does not match/);
+    });
+
+    it('should reject withheld entries the policy does not allow', async () => {
+      const transcript = await runSession({ minParticipants: 1 });
+      const { contribution: _bob, ...bob } = transcript.entries[1]!;
+      const { contribution: _carol, ...carol } = transcript.entries[2]!;
+      transcript.entries[1] = { ...bob, status: 'withheld' };
+      transcript.entries[2] = { ...carol, status: 'withheld' };
+
+      await expect(verifyCommitRevealTranscript(transcript)).rejects.toThrow(/policy does not allow/);
+    });
+
+    it('should reject a transcript with fewer reveals than the policy requires', async () => {
+      const transcript = await runSession({ allowWithheld: true });
+      const { contribution: _bob, ...bob } = transcript.entries[1]!;
+      const { contribution: _carol, ...carol } = transcript.entries[2]!;
+      transcript.entries[1] = { ...bob, status: 'withheld' };
+      transcript.entries[2] = { ...carol, status: 'withheld' };
+
+      await expect(verifyCommitRevealTranscript(transcript)).rejects.toThrow(/only 1 of 2/);
+    });
+
+    it('should reject a missing policy or one that differs from the agreed policy', async () => {
+      const transcript = await runSession();
+      const { policy: _policy, ...unpoliced } = transcript;
+
+      await expect(verifyCommitRevealTranscript(unpoliced as CommitRevealTranscript))
+        .rejects.toThrow(/no valid policy/);
+      await expect(verifyCommitRevealTranscript(transcript, { minParticipants: 3 }))
+        .rejects.toThrow(/minParticipants is 2, expected 3/);
+      await expect(verifyCommitRevealTranscript(transcript, { minParticipants: 2, allowWithheld: false }))
+        .resolves.toBeInstanceOf(Uint8Array);
+    });
+
+    it('should reject inconsistent entries', async () => {
+      const transcript = await runSession();
+
+      await expect(verifyCommitRevealTranscript({
+        ...transcript,
+        entries: [{ ...transcript.entries[0]!, status: 'absent' }],
+      })).rejects.toThrow(/has a commitment/);
+      await expect(verifyCommitRevealTranscript({ ...transcript, entries: [] }))
+        .rejects.toThrow(CommitRevealError);
+    });
+  });
+
+  describe('simulation', () => {
+    it('should replay the same flip from a verified seed', async () => {
+      const seed = await verifyCommitRevealTranscript(await runSession());
+
+      const run1 = await debugFlipCoin({ seed, recordTrajectory: false });
+      const run2 = await debugFlipCoin({ seed, recordTrajectory: false });
+
+      expect(run2.outcome).toBe(run1.outcome);
+      expect(run2.initialConditions.linearVelocity.equals(run1.initialConditions.linearVelocity)).toBe(true);
+    });
+  });
+});
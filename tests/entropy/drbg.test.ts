@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import { createHmacDrbg } from '../../src/entropy/drbg';
+import { DISPOSE } from '../../src/entropy/zeroize';
+import { DrbgReseedRequiredError, InsufficientEntropyBufferError } from '../../src/entropy/errors';
+
+const hex = (value: string): Uint8Array =>
+  new Uint8Array(value.match(/../g)!.map((byte) => parseInt(byte, 16)));
+
+const seed = (fill: number): Uint8Array => new Uint8Array(32).fill(fill);
+
+describe('HMAC-DRBG', () => {
+  describe('known answers', () => {
+    it('should match NIST CAVP HMAC_DRBG SHA-256 (no reseed, count 0)', () => {
+      /**
+       * CAVS 14.3, [SHA-256] [PredictionResistance = False]
+       * [EntropyInputLen = 256] [NonceLen = 128] [PersonalizationStringLen = 0]
+       * [AdditionalInputLen = 0] [ReturnedBitsLen = 1024], COUNT = 0.
+       * The test procedure generates twice and checks the second output.
+       */
+      const drbg = createHmacDrbg(
+        hex('ca851911349384bffe89de1cbdc46e6831e44d34a4fb935ee285dd14b71a7488'),
+        { nonce: hex('659ba96c601dc69fc902940805ec0ca8') }
+      );
+
+      drbg.generate(128);
+      expect(drbg.generate(128)).toEqual(hex(
+        'e528e9abf2dece54d47c7e75e5fe302149f817ea9fb4bee6f4199697d04d5b89' +
+        'd54fbb978a15b5c443c9ec21036d2460b6f73ebad0dc2aba6e624abf07745bc1' +
+        '07694bb7547bb0995f70de25d6b29e2d3011bb19d27676c07162c8b5ccde0668' +
+        '961df86803482cb37ed6d5c0bb8d50cf1f50d476aa0458bdaba806f48be9dcb8'
+      ));
+    });
+  });
+
+  describe('determinism', () => {
+    it('should produce the same stream for the same seed', () => {
+      const a = createHmacDrbg(seed(7));
+      const b = createHmacDrbg(seed(7));
+
+      expect(a.generate(100)).toEqual(b.generate(100));
+      expect(a.generate(16)).toEqual(b.generate(16));
+    });
+
+    it('should separate instances by personalization', () => {
+      const a = createHmacDrbg(seed(7), { personalization: 'launch' });
+      const b = createHmacDrbg(seed(7), { personalization: 'perturbation' });
+
+      expect(a.generate(32)).not.toEqual(b.generate(32));
+    });
+
+    it('should change the output with additional input', () => {
+      const a = createHmacDrbg(seed(7));
+      const b = createHmacDrbg(seed(7));
+
+      expect(a.generate(32, new Uint8Array([1]))).not.toEqual(b.generate(32));
+    });
+  });
+
+  describe('reseeding', () => {
+    it('should count generate requests and reset on reseed', () => {
+      const drbg = createHmacDrbg(seed(1));
+      expect(drbg.getReseedCounter()).toBe(1);
+
+      drbg.generate(8);
+      drbg.generate(8);
+      expect(drbg.getReseedCounter()).toBe(3);
+
+      drbg.reseed(seed(2));
+      expect(drbg.getReseedCounter()).toBe(1);
+      expect(drbg.getGenerateCount()).toBe(2);
+    });
+
+    it('should require a reseed once the interval is used up', () => {
+      const drbg = createHmacDrbg(seed(1), { reseedInterval: 2 });
+
+      drbg.generate(8);
+      drbg.generate(8);
+      expect(() => drbg.generate(8)).toThrow(DrbgReseedRequiredError);
+
+      drbg.reseed(seed(2));
+      expect(drbg.generate(8)).toHaveLength(8);
+    });
+
+    it('should diverge from an unreseeded twin after reseed', () => {
+      const a = createHmacDrbg(seed(1));
+      const b = createHmacDrbg(seed(1));
+      a.reseed(seed(2));
+
+      expect(a.generate(32)).not.toEqual(b.generate(32));
+    });
+  });
+
+  describe('limits', () => {
+    it('should reject entropy below the 256-bit security strength', () => {
+      expect(() => createHmacDrbg(new Uint8Array(31))).toThrow(InsufficientEntropyBufferError);
+      expect(() => createHmacDrbg(seed(1)).reseed(new Uint8Array(0))).toThrow(InsufficientEntropyBufferError);
+    });
+
+    it('should enforce the 2^19-bit request limit', () => {
+      const drbg = createHmacDrbg(seed(1));
+
+      expect(drbg.generate(65536)).toHaveLength(65536);
+      expect(() => drbg.generate(65537)).toThrow(RangeError);
+      expect(() => drbg.generate(0)).toThrow(RangeError);
+    });
+
+    it('should reject invalid reseed intervals', () => {
+      expect(() => createHmacDrbg(seed(1), { reseedInterval: 0 })).toThrow(RangeError);
+      expect(() => createHmacDrbg(seed(1), { reseedInterval: 2 ** 48 + 1 })).toThrow(RangeError);
+    });
+  });
+
+  describe('disposal', () => {
+    it('should refuse to generate once disposed, until reseeded', () => {
+      const drbg = createHmacDrbg(seed(1));
+      drbg.generate(32);
+
+      drbg[DISPOSE]();
+
+      expect(() => drbg.generate(32)).toThrow(DrbgReseedRequiredError);
+      drbg.reseed(seed(2));
+      expect(drbg.generate(32)).toHaveLength(32);
+    });
+
+    it('should restart from the wiped state, not the old one', () => {
+      const disposed = createHmacDrbg(seed(1));
+      const kept = createHmacDrbg(seed(1));
+
+      disposed[DISPOSE]();
+      disposed.reseed(seed(2));
+      kept.reseed(seed(2));
+
+      expect(disposed.generate(32)).not.toEqual(kept.generate(32));
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import { describe, it, expect } from 'vitest';
+import {
+  estimateMinEntropy,
+  creditEntropy,
+  unpackBits,
+  mostCommonValueEstimate,
+  collisionEstimate,
+  markovEstimate,
+  compressionEstimate,
+  MAX_ESTIMATION_BYTES,
+} from '../../src/entropy/estimators';
+import { collectEntropy } from '../../src/entropy/pool';
+import type { EntropySource } from '../../src/entropy/types';
+
+/**
+ * Bits that are 1 with probability `p`, from a seeded LCG so the
+ * assertions below are stable.
+ */
+function biasedBits(count: number, p: number, seed = 42): Uint8Array {
+  const bits = new Uint8Array(count);
+  let state = seed;
+  for (let i = 0; i < count; i++) {
+    state = (state * 1103515245 + 12345) & 0x7fffffff;
+    bits[i] = state / 0x80000000 < p ? 1 : 0;
+  }
+  return bits;
+}
+
+describe('Min-Entropy Estimators', () => {
+  describe('unpackBits', () => {
+    it('should unpack MSB first', () => {
+      expect(Array.from(unpackBits(new Uint8Array([0b10100000, 0xff])))).toEqual([
+        1, 0, 1, 0, 0, 0, 0, 0, 1, 1, 1, 1, 1, 1, 1, 1,
+      ]);
+    });
+  });
+
+  describe('mostCommonValueEstimate', () => {
+    it('should match the SP 800-90B formula', () => {
+      /**
+       * 128 bits, 64 ones: p_u = 0.5 + 2.576 * sqrt(0.25 / 127)
+       */
+      const bits = new Uint8Array(128).map((_, i) => i % 2);
+      const pUpper = 0.5 + 2.576 * Math.sqrt(0.25 / 127);
+
+      expect(mostCommonValueEstimate(bits)).toBeCloseTo(-Math.log2(pUpper), 10);
+    });
+
+    it('should return 0 for constant data', () => {
+      expect(mostCommonValueEstimate(new Uint8Array(1000))).toBe(0);
+    });
+
+    it('should return 0 for fewer than 2 samples', () => {
+      expect(mostCommonValueEstimate([1])).toBe(0);
+    });
+  });
+
+  describe('collisionEstimate', () => {
+    it('should return 0 for constant data', () => {
+      expect(collisionEstimate(new Uint8Array(1000))).toBe(0);
+    });
+
+    it('should approach 1 for unbiased data with many samples', () => {
+      expect(collisionEstimate(biasedBits(100000, 0.5))).toBeGreaterThan(0.8);
+    });
+
+    it('should be lower for biased data', () => {
+      expect(collisionEstimate(biasedBits(100000, 0.8))!).toBeLessThan(collisionEstimate(biasedBits(100000, 0.5))!);
+    });
+
+    it('should be undefined for too few bits', () => {
+      expect(collisionEstimate([0, 1])).toBeUndefined();
+    });
+  });
+
+  describe('markovEstimate', () => {
+    it('should catch perfectly alternating bits that fool MCV', () => {
+      /**
+       * 0101...: perfectly balanced (MCV near 1), but fully predictable.
+       * The sequence 0101... has probability 0.5, so H = 1/128.
+       */
+      const bits = new Uint8Array(4096).map((_, i) => i % 2);
+
+      expect(mostCommonValueEstimate(bits)).toBeGreaterThan(0.9);
+      expect(markovEstimate(bits)).toBeCloseTo(1 / 128, 10);
+    });
+
+    it('should be close to 1 for independent unbiased bits', () => {
+      expect(markovEstimate(biasedBits(100000, 0.5))).toBeGreaterThan(0.95);
+    });
+
+    it('should never exceed 1', () => {
+      expect(markovEstimate([0, 1])).toBeLessThanOrEqual(1);
+    });
+  });
+
+  describe('compressionEstimate', () => {
+    it('should be undefined for 6006 bits or fewer', () => {
+      expect(compressionEstimate(biasedBits(6006, 0.5))).toBeUndefined();
+    });
+
+    it('should credit random data substantially', () => {
+      const bits = unpackBits(crypto.getRandomValues(new Uint8Array(8192)));
+
+      expect(compressionEstimate(bits)).toBeGreaterThan(0.5);
+    });
+
+    it('should catch a repeating pattern', () => {
+      const pattern = biasedBits(60, 0.5);
+      const bits = new Uint8Array(12000).map((_, i) => pattern[i % 60]!);
+
+      expect(compressionEstimate(bits)).toBeLessThan(0.2);
+    });
+  });
+
+  describe('estimateMinEntropy', () => {
+    it('should report the minimum of the available estimates', () => {
+      const estimate = estimateMinEntropy(crypto.getRandomValues(new Uint8Array(1024)));
+      const available = [
+        estimate.mostCommonValue,
+        estimate.collision,
+        estimate.markov,
+        estimate.compression,
+      ].filter((value): value is number => value !== undefined);
+
+      expect(estimate.sampleBits).toBe(8192);
+      expect(estimate.compression).toBeDefined();
+      expect(estimate.minEntropyPerBit).toBe(Math.min(...available));
+    });
+  });
+
+  describe('creditEntropy', () => {
+    it('should never credit more than claimed', () => {
+      const bytes = crypto.getRandomValues(new Uint8Array(256));
+
+      expect(creditEntropy(bytes, 100)).toBeLessThanOrEqual(100);
+    });
+
+    it('should credit less than the claim for biased output', () => {
+      /**
+       * A timing source claiming 1 bit per sample on bits that are
+       * 1 only 10% of the time.
+       */
+      const bits = biasedBits(2048, 0.1);
+      const bytes = new Uint8Array(256);
+      bits.forEach((bit, i) => (bytes[i >> 3] = bytes[i >> 3]! | (bit << (7 - (i & 7)))));
+
+      expect(creditEntropy(bytes, 2048)).toBeLessThan(2048 * 0.2);
+    });
+
+    it('should credit nothing for empty output', () => {
+      expect(creditEntropy(new Uint8Array(0), 64)).toBe(0);
+    });
+
+    it('should estimate long samples on their last MAX_ESTIMATION_BYTES', () => {
+      /**
+       * Constant output followed by a random window: only the window is
+       * measured, and its rate is applied to the whole sample.
+       */
+      const window = crypto.getRandomValues(new Uint8Array(MAX_ESTIMATION_BYTES));
+      const bytes = new Uint8Array(4 * MAX_ESTIMATION_BYTES);
+      bytes.set(window, bytes.length - window.length);
+
+      const perBit = estimateMinEntropy(window).minEntropyPerBit;
+
+      expect(creditEntropy(bytes, Infinity)).toBe(Math.floor(bytes.length * 8 * perBit));
+    });
+  });
+
+  describe('pool integration', () => {
+    it('should credit totalBits below the claimed bits', async () => {
+      const result = await collectEntropy({ level: 'fast' });
+
+      expect(result.stats.claimedBits).toBeGreaterThan(0);
+      expect(result.stats.totalBits).toBeLessThanOrEqual(result.stats.claimedBits);
+    });
+
+    it('should not take an overclaiming source at its word', async () => {
+      /**
+       * Claims 8 bits per byte, but only ever emits 0x00 or 0xFF, so each
+       * byte carries at most 1 bit. Whether the health tests drop it or the
+       * estimators credit it, most of its claim must not count.
+       */
+      let calls = 0;
+      const overclaiming: EntropySource = {
+        name: 'overclaiming',
+        quality: 5,
+        timeoutMs: 100,
+        isAvailable: () => true,
+        collect: async () => {
+          const bytes = unpackBits(crypto.getRandomValues(new Uint8Array(8))).map((bit) => bit * 0xff);
+          calls++;
+          return { bytes, estimatedBits: bytes.length * 8 };
+        },
+      };
+
+      const withSource = await collectEntropy({ level: 'fast', sources: [overclaiming] });
+      const claimedBySource = calls * 64 * 8;
+
+      expect(withSource.stats.claimedBits - withSource.stats.totalBits).toBeGreaterThan(claimedBySource / 2);
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { createHash } from 'node:crypto';
+import { blake2b } from '../../../src/entropy/hashes';
+
+const hex = (bytes: Uint8Array): string =>
+  Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+const ascii = (text: string): Uint8Array => new TextEncoder().encode(text);
+
+describe('BLAKE2b', () => {
+  it('should hash the empty message', () => {
+    expect(hex(blake2b(new Uint8Array(0)))).toBe(
+      '786a02f742015903c6c6fd852552d272912f4740e15847618a86e217f71f5419' +
+      'd25e1031afee585313896444934eb04b903a685b1448b755d56f701afe9be2ce'
+    );
+  });
+
+  it('should hash "abc" (RFC 7693 Appendix A)', () => {
+    expect(hex(blake2b(ascii('abc')))).toBe(
+      'ba80a53f981c4d0d6a2797b69f12f6e94c212f14685ac4b74b12bb6fdbffa2d1' +
+      '7d87c5392aab792dc252d5de4533cc9518d38aa8dbf1925ab92386edd4009923'
+    );
+  });
+
+  it('should hash the 448-bit message', () => {
+    expect(hex(blake2b(ascii('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq')))).toBe(
+      '7285ff3e8bd768d69be62b3bf18765a325917fa9744ac2f582a20850bc2b1141' +
+      'ed1b3e4528595acc90772bdf2d37dc8a47130b44f33a02e8730e5ad8e166e888'
+    );
+  });
+
+  it('should match node:crypto on every block boundary', () => {
+    /**
+     * Block size is 128 bytes; an exact multiple must not add an empty
+     * final block.
+     */
+    for (let length = 120; length <= 264; length++) {
+      const data = new Uint8Array(length).map((_, i) => (i * 31 + length) & 0xff);
+      const expected = createHash('blake2b512').update(data).digest('hex');
+
+      expect(hex(blake2b(data))).toBe(expected);
+    }
+  });
+
+  it('should fold the digest length into the parameter block', () => {
+    /**
+     * BLAKE2b-256 is not a prefix of BLAKE2b-512.
+     */
+    expect(hex(blake2b(ascii('abc'), 32)))
+      .toBe('bddd813c634239723171ef3fee98579b94964e3bb1cb3e427262c8c068d52319');
+  });
+
+  it('should reject out-of-range digest lengths', () => {
+    expect(() => blake2b(new Uint8Array(0), 0)).toThrow(RangeError);
+    expect(() => blake2b(new Uint8Array(0), 65)).toThrow(RangeError);
+    expect(() => blake2b(new Uint8Array(0), 1.5)).toThrow(RangeError);
+  });
+});
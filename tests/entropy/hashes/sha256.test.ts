@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { sha256, hmacSha256 } from '../../../src/entropy/hashes';
+
+const hex = (bytes: Uint8Array): string =>
+  Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+const ascii = (text: string): Uint8Array => new TextEncoder().encode(text);
+
+describe('SHA-256', () => {
+  /**
+   * FIPS 180-4 examples (NIST CSRC "SHA256.pdf").
+   */
+  it('should hash the empty message', () => {
+    expect(hex(sha256(new Uint8Array(0))))
+      .toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+  });
+
+  it('should hash "abc" (one block)', () => {
+    expect(hex(sha256(ascii('abc'))))
+      .toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+  });
+
+  it('should hash the 448-bit message (two blocks)', () => {
+    expect(hex(sha256(ascii('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq'))))
+      .toBe('248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1');
+  });
+
+  it('should hash one million "a"', () => {
+    expect(hex(sha256(new Uint8Array(1_000_000).fill(0x61))))
+      .toBe('cdc76e5c9914fb9281a1c7e284d73e67f1809a48a497200e046d39ccc7112cd0');
+  });
+
+  it('should match Web Crypto on every padding boundary', async () => {
+    for (let length = 50; length <= 130; length++) {
+      const data = new Uint8Array(length).map((_, i) => (i * 31 + length) & 0xff);
+      const expected = new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+
+      expect(sha256(data)).toEqual(expected);
+    }
+  });
+});
+
+describe('HMAC-SHA-256', () => {
+  /**
+   * RFC 4231 test cases 1 and 6.
+   */
+  it('should match RFC 4231 test case 1', () => {
+    expect(hex(hmacSha256(new Uint8Array(20).fill(0x0b), ascii('Hi There'))))
+      .toBe('b0344c61d8db38535ca8afceaf0bf12b881dc200c9833da726e9376c2e32cff7');
+  });
+
+  it('should hash keys longer than the block size (test case 6)', () => {
+    const key = new Uint8Array(131).fill(0xaa);
+    const data = ascii('Test Using Larger Than Block-Size Key - Hash Key First');
+
+    expect(hex(hmacSha256(key, data)))
+      .toBe('60e431591ee0b67f0d8a26aacbf5b77f8e0bc6213728c5140546040f0ee37f54');
+  });
+});
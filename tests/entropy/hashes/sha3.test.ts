@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { createHash } from 'node:crypto';
+import { sha3_256 } from '../../../src/entropy/hashes';
+
+const hex = (bytes: Uint8Array): string =>
+  Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+const ascii = (text: string): Uint8Array => new TextEncoder().encode(text);
+
+describe('SHA3-256', () => {
+  /**
+   * FIPS 202 examples (NIST CSRC "SHA3-256_Msg0.pdf" and friends).
+   */
+  it('should hash the empty message', () => {
+    expect(hex(sha3_256(new Uint8Array(0))))
+      .toBe('a7ffc6f8bf1ed76651c14756a061d662f580ff4de43b49fa82d80a4b80f8434a');
+  });
+
+  it('should hash "abc"', () => {
+    expect(hex(sha3_256(ascii('abc'))))
+      .toBe('3a985da74fe225b2045c172d6bd390bd855f086e3e9d525b46bfe24511431532');
+  });
+
+  it('should hash the 448-bit message', () => {
+    expect(hex(sha3_256(ascii('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq'))))
+      .toBe('41c0dba2a9d6240849100376a8235e2c82e1b9998a999e21db32dd97496d3376');
+  });
+
+  it('should hash one million "a"', () => {
+    expect(hex(sha3_256(new Uint8Array(1_000_000).fill(0x61))))
+      .toBe('5c8875ae474a3634ba4fd55ec85bffd661f32aca75c6d699d0cdcb6c115891c1');
+  });
+
+  it('should match node:crypto on every padding boundary', () => {
+    /**
+     * Rate is 136 bytes: covers 135 (0x86 shared pad byte), 136 and 137,
+     * and the same around the second block.
+     */
+    for (let length = 120; length <= 280; length++) {
+      const data = new Uint8Array(length).map((_, i) => (i * 31 + length) & 0xff);
+      const expected = createHash('sha3-256').update(data).digest('hex');
+
+      expect(hex(sha3_256(data))).toBe(expected);
+    }
+  });
+});
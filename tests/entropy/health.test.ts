@@ -0,0 +1,209 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  createHealthMonitor,
+  repetitionCountCutoff,
+  adaptiveProportionCutoff,
+} from '../../src/entropy/health';
+import { collectEntropy } from '../../src/entropy/pool';
+import { registerEntropySource, unregisterEntropySource } from '../../src/entropy/registry';
+import type { EntropySource, SourceResult } from '../../src/entropy/types';
+import { EntropySourceHealthError } from '../../src/entropy/errors';
+
+function result(name: string, bytes: number[] | Uint8Array, estimatedBits?: number): SourceResult {
+  const data = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  return { name, bytes: data, estimatedBits: estimatedBits ?? data.length * 8, success: true };
+}
+
+/**
+ * A timing source on a coarse clock: all-zero bits, full entropy claim.
+ */
+const stuckSource: EntropySource = {
+  name: 'stuck',
+  quality: 3,
+  timeoutMs: 100,
+  isAvailable: () => true,
+  collect: async () => ({ bytes: new Uint8Array(16), estimatedBits: 128 }),
+};
+
+describe('Continuous Health Tests', () => {
+  describe('cutoffs', () => {
+    it('should compute the repetition count cutoff from SP 800-90B', () => {
+      /**
+       * C = 1 + ceil(20 / H)
+       */
+      expect(repetitionCountCutoff(8)).toBe(4);
+      expect(repetitionCountCutoff(2)).toBe(11);
+      expect(repetitionCountCutoff(1)).toBe(21);
+      expect(repetitionCountCutoff(0.5)).toBe(41);
+    });
+
+    it('should compute adaptive proportion cutoffs inside the window', () => {
+      const cutoffs = [0.5, 1, 2, 4, 8].map((h) => adaptiveProportionCutoff(h));
+
+      /**
+       * Higher claimed entropy means the first sample may recur less often.
+       */
+      for (let i = 1; i < cutoffs.length; i++) {
+        expect(cutoffs[i]).toBeLessThan(cutoffs[i - 1]!);
+      }
+      for (const cutoff of cutoffs) {
+        expect(cutoff).toBeGreaterThan(1);
+        expect(cutoff).toBeLessThanOrEqual(512);
+      }
+    });
+
+    it('should match the binomial critical value for a binary source', () => {
+      /**
+       * Bin(1024, 0.5): mean 512, sd 16. A tail of 2^-20 sits ~4.9 sd out,
+       * so CRITBINOM lands a little under 512 + 80.
+       */
+      const cutoff = adaptiveProportionCutoff(1, 1024);
+      expect(cutoff).toBeGreaterThan(580);
+      expect(cutoff).toBeLessThan(600);
+    });
+  });
+
+  describe('createHealthMonitor', () => {
+    it('should pass random bytes', () => {
+      const monitor = createHealthMonitor();
+      for (let i = 0; i < 20; i++) {
+        expect(monitor.check(result('crypto', crypto.getRandomValues(new Uint8Array(256))))).toBeUndefined();
+      }
+      expect(monitor.isHealthy('crypto')).toBe(true);
+      expect(monitor.getFailures()).toEqual([]);
+    });
+
+    it('should fail the repetition count test on a stuck source', () => {
+      const monitor = createHealthMonitor();
+      const failure = monitor.check(result('timing', new Uint8Array(16)));
+
+      expect(failure).toBeInstanceOf(EntropySourceHealthError);
+      expect(failure?.test).toBe('repetition-count');
+      expect(failure?.source).toBe('timing');
+      expect(monitor.isHealthy('timing')).toBe(false);
+    });
+
+    it('should carry repetition state across results', () => {
+      /**
+       * Two identical bytes at the end of one sweep, two at the start of
+       * the next: 4 in a row at H = 8.
+       */
+      const monitor = createHealthMonitor();
+      expect(monitor.check(result('timing', [1, 2, 7, 7]))).toBeUndefined();
+      expect(monitor.check(result('timing', [7, 7, 3, 4]))?.test).toBe('repetition-count');
+    });
+
+    it('should scale the cutoff with the claimed entropy', () => {
+      /**
+       * At 1 bit per byte, ten repeats are plausible (cutoff 21).
+       */
+      const monitor = createHealthMonitor();
+      expect(monitor.check(result('audio', new Uint8Array(10).fill(5), 10))).toBeUndefined();
+    });
+
+    it('should take the cutoffs from the assessed entropy, not an optimistic claim', () => {
+      /**
+       * Claims 8 bits per byte: 4 repeats fail. Assessed at 4 bits per
+       * byte, the cutoff is 6 and the same run passes.
+       */
+      const run = [1, 2, 7, 7, 7, 7, 3];
+      expect(createHealthMonitor().check(result('timing', run))?.test).toBe('repetition-count');
+      expect(createHealthMonitor().check(result('timing', run), 4)).toBeUndefined();
+      expect(createHealthMonitor().check(result('timing', [...run.slice(0, 6), 7, 7]), 4)?.test)
+        .toBe('repetition-count');
+    });
+
+    it('should keep the claim when it is lower than the assessment', () => {
+      const monitor = createHealthMonitor();
+      expect(monitor.check(result('audio', new Uint8Array(10).fill(5), 10), 8)).toBeUndefined();
+    });
+
+    it('should fail the adaptive proportion test on a mostly constant source', () => {
+      /**
+       * Never repeats 4 times in a row, but 0xAA makes up half the output:
+       * far above the 1/256 expected at a claimed 8 bits per byte.
+       */
+      const bytes = new Uint8Array(512);
+      for (let i = 0; i < bytes.length; i++) {
+        bytes[i] = i % 2 === 0 ? 0xaa : i & 0xff;
+      }
+
+      const monitor = createHealthMonitor();
+      const failure = monitor.check(result('flaky', bytes));
+
+      expect(failure?.test).toBe('adaptive-proportion');
+    });
+
+    it('should stay unhealthy once failed', () => {
+      const monitor = createHealthMonitor();
+      monitor.check(result('timing', new Uint8Array(8)));
+
+      expect(monitor.check(result('timing', crypto.getRandomValues(new Uint8Array(32))))).toBeInstanceOf(
+        EntropySourceHealthError
+      );
+      expect(monitor.getFailures().length).toBe(1);
+    });
+
+    it('should track sources independently', () => {
+      const monitor = createHealthMonitor();
+      monitor.check(result('a', [9, 9]));
+      monitor.check(result('b', [9, 9]));
+
+      expect(monitor.isHealthy('a')).toBe(true);
+      expect(monitor.isHealthy('b')).toBe(true);
+    });
+  });
+
+  describe('pool integration', () => {
+    afterEach(() => {
+      unregisterEntropySource('stuck');
+    });
+
+    it('should exclude an unhealthy source and report the error', async () => {
+      const result = await collectEntropy({ level: 'fast', sources: [stuckSource] });
+
+      expect(result.stats.sourcesUsed).not.toContain('stuck');
+      expect(result.stats.healthErrors.map((error) => error.source)).toEqual(['stuck']);
+      expect(result.stats.healthErrors[0]).toBeInstanceOf(EntropySourceHealthError);
+    });
+
+    it('should not credit bits from an unhealthy registered source', async () => {
+      registerEntropySource(stuckSource);
+
+      const result = await collectEntropy({ level: 'fast' });
+
+      expect(result.stats.sourcesUsed).not.toContain('stuck');
+      expect(result.stats.healthErrors.length).toBe(1);
+    });
+
+    it('should hold a source to its assessed entropy per byte', async () => {
+      /**
+       * Random bytes with a run of 4 repeats: fails at a claimed 8 bits per
+       * byte, passes at the assessed 4.
+       */
+      const repeating: EntropySource = {
+        name: 'repeating',
+        quality: 3,
+        timeoutMs: 100,
+        assessedEntropyPerByte: 4,
+        isAvailable: () => true,
+        collect: async () => {
+          const bytes = crypto.getRandomValues(new Uint8Array(16));
+          bytes.fill(bytes[0]!, 0, 4);
+          return { bytes, estimatedBits: 128 };
+        },
+      };
+
+      const result = await collectEntropy({ level: 'fast', sources: [repeating] });
+
+      expect(result.stats.healthErrors).toEqual([]);
+      expect(result.stats.sourcesUsed).toContain('repeating');
+    });
+
+    it('should report no health errors for healthy sources', async () => {
+      const result = await collectEntropy({ level: 'fast' });
+
+      expect(result.stats.healthErrors).toEqual([]);
+    });
+  });
+});
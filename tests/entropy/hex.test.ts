@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { bytesToHex, equalBytes, hexToBytes, isHex } from '../../src/entropy/hex';
+
+describe('Hex Encoding', () => {
+  it('should round-trip bytes through lowercase hex', () => {
+    const bytes = new Uint8Array([0, 1, 15, 16, 255]);
+
+    expect(bytesToHex(bytes)).toBe('00010f10ff');
+    expect(hexToBytes('00010F10ff')).toEqual(bytes);
+    expect(hexToBytes('')).toEqual(new Uint8Array(0));
+  });
+
+  it('should accept only even-length hex strings', () => {
+    expect(isHex('00ffAB')).toBe(true);
+    expect(isHex('')).toBe(true);
+    expect(isHex('abc')).toBe(false);
+    expect(isHex('0x00')).toBe(false);
+    expect(isHex('zz')).toBe(false);
+    expect(isHex(42)).toBe(false);
+  });
+
+  it('should compare bytes by length and content', () => {
+    expect(equalBytes(new Uint8Array([1, 2]), new Uint8Array([1, 2]))).toBe(true);
+    expect(equalBytes(new Uint8Array([1, 2]), new Uint8Array([1, 3]))).toBe(false);
+    expect(equalBytes(new Uint8Array([1, 2]), new Uint8Array([1, 2, 0]))).toBe(false);
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  registerEntropyLevel,
+  unregisterEntropyLevel,
+  getEntropyLevelNames,
+  getEntropyLevelConfig,
+  resolveEntropyLevel,
+  validateEntropyLevelConfig,
+} from '../../src/entropy/levels';
+import { collectEntropy } from '../../src/entropy/pool';
+import { createEntropyAccumulator } from '../../src/entropy/accumulator';
+import { EntropyLevelRegistrationError, InvalidEntropyLevelError } from '../../src/entropy/errors';
+
+/**
+ * Between 'fast' and 'standard': short enough to keep the tests quick.
+ */
+const BUDGET = { minTimeMs: 50, targetBits: 96, maxTimeMs: 400 };
+
+describe('Entropy Levels', () => {
+  afterEach(() => {
+    unregisterEntropyLevel('budget');
+  });
+
+  describe('presets', () => {
+    it('should resolve the four presets', () => {
+      expect(getEntropyLevelConfig('standard')).toEqual({ minTimeMs: 200, targetBits: 128, maxTimeMs: 1000 });
+      expect(getEntropyLevelNames()).toEqual(['fast', 'standard', 'high', 'paranoid']);
+    });
+
+    it('should hand out copies', () => {
+      getEntropyLevelConfig('fast').targetBits = 1;
+
+      expect(getEntropyLevelConfig('fast').targetBits).toBe(64);
+    });
+
+    it('should reject unknown names', () => {
+      expect(() => getEntropyLevelConfig('turbo')).toThrow(InvalidEntropyLevelError);
+      expect(() => getEntropyLevelConfig('toString')).toThrow(InvalidEntropyLevelError);
+    });
+  });
+
+  describe('validation', () => {
+    it('should accept a config with equal min and max time', () => {
+      expect(() => validateEntropyLevelConfig({ minTimeMs: 100, targetBits: 1, maxTimeMs: 100 })).not.toThrow();
+    });
+
+    it.each([
+      ['negative minTimeMs', { minTimeMs: -1, targetBits: 64, maxTimeMs: 500 }],
+      ['zero targetBits', { minTimeMs: 0, targetBits: 0, maxTimeMs: 500 }],
+      ['NaN targetBits', { minTimeMs: 0, targetBits: NaN, maxTimeMs: 500 }],
+      ['infinite maxTimeMs', { minTimeMs: 0, targetBits: 64, maxTimeMs: Infinity }],
+      ['maxTimeMs below minTimeMs', { minTimeMs: 500, targetBits: 64, maxTimeMs: 100 }],
+    ])('should reject %s', (_, config) => {
+      expect(() => resolveEntropyLevel(config)).toThrow(InvalidEntropyLevelError);
+    });
+  });
+
+  describe('registration', () => {
+    it('should add and remove a named level', () => {
+      registerEntropyLevel('budget', BUDGET);
+
+      expect(getEntropyLevelNames()).toContain('budget');
+      expect(getEntropyLevelConfig('budget')).toEqual(BUDGET);
+
+      expect(unregisterEntropyLevel('budget')).toBe(true);
+      expect(unregisterEntropyLevel('budget')).toBe(false);
+      expect(() => getEntropyLevelConfig('budget')).toThrow(InvalidEntropyLevelError);
+    });
+
+    it('should not be affected by later changes to the registered object', () => {
+      const config = { ...BUDGET };
+      registerEntropyLevel('budget', config);
+      config.targetBits = 1;
+
+      expect(getEntropyLevelConfig('budget').targetBits).toBe(96);
+    });
+
+    it('should reject reserved, empty and duplicate names', () => {
+      expect(() => registerEntropyLevel('paranoid', BUDGET)).toThrow(EntropyLevelRegistrationError);
+      expect(() => registerEntropyLevel('custom', BUDGET)).toThrow(EntropyLevelRegistrationError);
+      expect(() => registerEntropyLevel('', BUDGET)).toThrow(EntropyLevelRegistrationError);
+
+      registerEntropyLevel('budget', BUDGET);
+      expect(() => registerEntropyLevel('budget', BUDGET)).toThrow(EntropyLevelRegistrationError);
+    });
+
+    it('should reject invalid configs', () => {
+      expect(() => registerEntropyLevel('budget', { ...BUDGET, maxTimeMs: 10 })).toThrow(InvalidEntropyLevelError);
+      expect(getEntropyLevelNames()).not.toContain('budget');
+    });
+  });
+
+  describe('pool integration', () => {
+    it('should echo a preset in the stats', async () => {
+      const result = await collectEntropy({ level: 'fast' });
+
+      expect(result.stats.level).toBe('fast');
+      expect(result.stats.levelConfig).toEqual(getEntropyLevelConfig('fast'));
+    });
+
+    it('should collect with an inline config', async () => {
+      const startTime = performance.now();
+      const result = await collectEntropy({ level: BUDGET });
+
+      expect(result.stats.level).toBe('custom');
+      expect(result.stats.levelConfig).toEqual(BUDGET);
+      expect(performance.now() - startTime).toBeGreaterThanOrEqual(BUDGET.minTimeMs);
+    });
+
+    it('should collect with a registered level', async () => {
+      registerEntropyLevel('budget', BUDGET);
+
+      const result = await collectEntropy({ level: 'budget' });
+
+      expect(result.stats.level).toBe('budget');
+      expect(result.stats.levelConfig).toEqual(BUDGET);
+    });
+
+    it('should fail before collecting for an invalid level', async () => {
+      await expect(collectEntropy({ level: { ...BUDGET, targetBits: -1 } })).rejects.toThrow(InvalidEntropyLevelError);
+      await expect(collectEntropy({ level: 'unregistered' })).rejects.toThrow(InvalidEntropyLevelError);
+    });
+
+    it('should validate the accumulator level at creation', () => {
+      expect(() => createEntropyAccumulator({ level: 'unregistered' })).toThrow(InvalidEntropyLevelError);
+    });
+  });
+});
@@ -1,10 +1,25 @@
 import { describe, it, expect } from 'vitest';
 import {
   mixEntropy,
+  getMixer,
+  frameSources,
   expandEntropy,
+  hkdfExtract,
+  hkdfExpand,
+  deriveEntropy,
+  maxExpansionLength,
   bytesToFloat,
   bytesToFloatRange,
 } from '../../src/entropy/mixer';
+import { collectEntropy } from '../../src/entropy/pool';
+import { EntropyExpansionLengthError } from '../../src/entropy/errors';
+import type { Mixer, MixerAlgorithm } from '../../src/entropy/types';
+
+const hex = (value: string): Uint8Array =>
+  new Uint8Array(value.match(/../g)!.map((byte) => parseInt(byte, 16)));
+
+const range = (from: number, to: number): Uint8Array =>
+  new Uint8Array(to - from + 1).map((_, i) => from + i);
 
 describe('Entropy Mixer', () => {
   describe('mixEntropy', () => {
@@ -115,6 +130,115 @@ describe('Entropy Mixer', () => {
 
       expect(result1).not.toEqual(result2);
     });
+
+    it('should not be fooled by moving a source boundary', async () => {
+      /**
+       * Plain concatenation maps ['ab', 'c'] and ['a', 'bc'] to the same
+       * input; the length prefixes keep them apart.
+       */
+      const result1 = await mixEntropy([new Uint8Array([0x61, 0x62]), new Uint8Array([0x63])]);
+      const result2 = await mixEntropy([new Uint8Array([0x61]), new Uint8Array([0x62, 0x63])]);
+
+      expect(result1).not.toEqual(result2);
+    });
+  });
+
+  describe('frameSources', () => {
+    it('should prefix each source with its 4-byte big-endian length', () => {
+      const framed = frameSources([new Uint8Array([0x61, 0x62, 0x63]), new Uint8Array(0), new Uint8Array([0x64])]);
+
+      expect(framed).toEqual(hex('00000003616263' + '00000000' + '0000000164'));
+    });
+  });
+
+  describe('mixers', () => {
+    /**
+     * Digests of the framed input 00000003 616263 (one source, "abc"),
+     * computed independently with Python's hashlib.
+     */
+    const vectors: { algorithm: MixerAlgorithm; digest: string }[] = [
+      {
+        algorithm: 'SHA-256',
+        digest: 'd04b72a650ce0f8ce4963330a53ee2832733d2baeffff3c1d8e256cca096d120',
+      },
+      {
+        algorithm: 'SHA-512',
+        digest:
+          'b518290e11bf937f9498ce3e6a7c0ae0f5a3441f43d0682c74d7a9429c3f7cbe' +
+          '9715639dfd01342bc17c2c9287064615912e3b6985da411fbbfe60aac8193e2d',
+      },
+      {
+        algorithm: 'SHA3-256',
+        digest: 'de28586f082f31f719b989653eba3ea78381b2c0122ab529b39a5e9a6e22c38c',
+      },
+      {
+        algorithm: 'BLAKE2b',
+        digest:
+          '74d00f607a24fa8a76d7eaaccb6c20196860f666de1c419eb554420bb15d08ff' +
+          'ab0e8abe3dd0a214a326b5a886e870c1f02df71cd4f91e542710343cd75fd13b',
+      },
+    ];
+
+    for (const vector of vectors) {
+      it(`should match the ${vector.algorithm} known answer`, async () => {
+        const result = await mixEntropy([new TextEncoder().encode('abc')], vector.algorithm);
+
+        expect(result).toEqual(hex(vector.digest));
+        expect(result.length).toBe(getMixer(vector.algorithm).digestLength);
+      });
+    }
+
+    it('should default to SHA-256', async () => {
+      const input = [new Uint8Array([1, 2, 3])];
+
+      expect(await mixEntropy(input)).toEqual(await mixEntropy(input, 'SHA-256'));
+      expect(getMixer().name).toBe('SHA-256');
+    });
+
+    it('should reject unknown algorithm names', () => {
+      expect(() => getMixer('MD5' as MixerAlgorithm)).toThrow(RangeError);
+      expect(() => getMixer('toString' as MixerAlgorithm)).toThrow(RangeError);
+    });
+
+    it('should hand the framed sources to a custom mixer', async () => {
+      let received: Uint8Array | undefined;
+      const mixer: Mixer = {
+        name: 'recording',
+        digestLength: 32,
+        digest: async (data) => {
+          received = data.slice();
+          return new Uint8Array(32).fill(7);
+        },
+      };
+
+      const result = await mixEntropy([new Uint8Array([1]), new Uint8Array([2, 3])], mixer);
+
+      expect(result).toEqual(new Uint8Array(32).fill(7));
+      expect(received).toEqual(hex('0000000101' + '000000020203'));
+    });
+
+    it('should reject custom mixers with a digest shorter than 32 bytes', () => {
+      const mixer: Mixer = { name: 'short', digestLength: 16, digest: async () => new Uint8Array(16) };
+
+      expect(() => getMixer(mixer)).toThrow(RangeError);
+    });
+
+    it('should be selectable through the pool options', async () => {
+      let calls = 0;
+      const mixer: Mixer = {
+        name: 'counting',
+        digestLength: 64,
+        digest: async (data) => {
+          calls++;
+          return (await getMixer('BLAKE2b').digest(data));
+        },
+      };
+
+      const result = await collectEntropy({ level: 'fast', mixer });
+
+      expect(calls).toBe(1);
+      expect(result.bytes.length).toBe(64);
+    });
   });
 
   describe('expandEntropy', () => {
@@ -198,6 +322,118 @@ describe('Entropy Mixer', () => {
     });
   });
 
+  describe('HKDF (RFC 5869)', () => {
+    /**
+     * Test cases 1-3 from RFC 5869, Appendix A (SHA-256).
+     */
+    const vectors = [
+      {
+        name: 'test case 1 (basic)',
+        ikm: new Uint8Array(22).fill(0x0b),
+        salt: range(0x00, 0x0c),
+        info: range(0xf0, 0xf9),
+        length: 42,
+        prk: '077709362c2e32df0ddc3f0dc47bba6390b6c73bb50f9c3122ec844ad7c2b3e5',
+        okm: '3cb25f25faacd57a90434f64d0362f2a2d2d0a90cf1a5a4c5db02d56ecc4c5bf34007208d5b887185865',
+      },
+      {
+        name: 'test case 2 (long inputs and outputs)',
+        ikm: range(0x00, 0x4f),
+        salt: range(0x60, 0xaf),
+        info: range(0xb0, 0xff),
+        length: 82,
+        prk: '06a6b88c5853361a06104c9ceb35b45cef760014904671014a193f40c15fc244',
+        okm:
+          'b11e398dc80327a1c8e7f78c596a49344f012eda2d4efad8a050cc4c19afa97c' +
+          '59045a99cac7827271cb41c65e590e09da3275600c2f09b8367793a9aca3db71' +
+          'cc30c58179ec3e87c14c01d5c1f3434f1d87',
+      },
+      {
+        name: 'test case 3 (empty salt and info)',
+        ikm: new Uint8Array(22).fill(0x0b),
+        salt: new Uint8Array(0),
+        info: new Uint8Array(0),
+        length: 42,
+        prk: '19ef24a32c717b167f33a91d6f648bdf96596776afdb6377ac434c1c293ccb04',
+        okm: '8da4e775a563c18f715f802a063c5a31b8a11f5c5ee1879ec3454e5f3c738d2d9d201395faa4b61a96c8',
+      },
+    ];
+
+    for (const vector of vectors) {
+      it(`should match SHA-256 ${vector.name}`, async () => {
+        const prk = await hkdfExtract(vector.salt, vector.ikm);
+        expect(prk).toEqual(hex(vector.prk));
+
+        const okm = await hkdfExpand(prk, vector.info, vector.length);
+        expect(okm).toEqual(hex(vector.okm));
+
+        expect(await deriveEntropy(vector.ikm, vector.info, vector.length, 'SHA-256', vector.salt))
+          .toEqual(hex(vector.okm));
+      });
+    }
+
+    it('should match SHA-512 with the test case 1 inputs', async () => {
+      /**
+       * RFC 5869 has no SHA-512 vectors; this is the commonly published
+       * SHA-512 variant of test case 1 (matches OpenSSL).
+       */
+      const okm = await deriveEntropy(
+        new Uint8Array(22).fill(0x0b),
+        range(0xf0, 0xf9),
+        42,
+        'SHA-512',
+        range(0x00, 0x0c)
+      );
+
+      expect(okm).toEqual(hex(
+        '832390086cda71fb47625bb5ceb168e4c8e26a1a16ed34d9fc7fe92c1481579338da362cb8d9f925d7cb'
+      ));
+    });
+
+    it('should separate streams by info label', async () => {
+      const seed = range(0, 31);
+
+      const launch = await expandEntropy(seed, 64, 'launch');
+      const retry = await expandEntropy(seed, 64, 'retry-1');
+      const perturbation = await expandEntropy(seed, 64, 'perturbation');
+
+      expect(launch).not.toEqual(retry);
+      expect(launch).not.toEqual(perturbation);
+      expect(retry).not.toEqual(perturbation);
+    });
+
+    it('should not repeat blocks up to the maximum length', async () => {
+      /**
+       * The old single-byte counter wrapped after 256 blocks (8192 bytes).
+       * HKDF chains each block into the next, so no two blocks match.
+       */
+      const output = await expandEntropy(range(0, 31), maxExpansionLength());
+      const blocks = new Set<string>();
+      for (let i = 0; i < output.length; i += 32) {
+        blocks.add(output.slice(i, i + 32).join(','));
+      }
+
+      expect(blocks.size).toBe(255);
+    });
+
+    it('should enforce 255 × HashLen as the output limit', async () => {
+      const seed = range(0, 31);
+
+      expect(maxExpansionLength('SHA-256')).toBe(8160);
+      expect(maxExpansionLength('SHA-512')).toBe(16320);
+
+      await expect(expandEntropy(seed, 8161)).rejects.toThrow(EntropyExpansionLengthError);
+      await expect(expandEntropy(seed, 16320, '', 'SHA-512')).resolves.toHaveLength(16320);
+      await expect(expandEntropy(seed, 16321, '', 'SHA-512')).rejects.toThrow(EntropyExpansionLengthError);
+      await expect(expandEntropy(seed, -1)).rejects.toThrow(EntropyExpansionLengthError);
+      await expect(expandEntropy(seed, 1.5)).rejects.toThrow(EntropyExpansionLengthError);
+    });
+
+    it('should return an empty output for length 0', async () => {
+      expect(await expandEntropy(range(0, 31), 0)).toHaveLength(0);
+    });
+  });
+
   describe('bytesToFloat', () => {
     it('should return a value in [0, 1)', () => {
       /**
@@ -1,9 +1,48 @@
 import { describe, it, expect } from 'vitest';
 import { collectEntropy, fromSeed } from '../../src/entropy/pool';
 import type { EntropyLevel } from '../../src/entropy/types';
-import { isCryptoEntropyAvailable } from '../../src/entropy/sources/crypto';
+import {
+  isCryptoEntropyAvailable,
+  createCryptoEntropySource,
+} from '../../src/entropy/sources/crypto';
+import { createTimingEntropySource } from '../../src/entropy/sources/timing';
+import {
+  registerEntropySource,
+  unregisterEntropySource,
+} from '../../src/entropy/registry';
+import type {
+  EntropySource,
+  EntropySourceResultEvent,
+  EntropySweepStartEvent,
+} from '../../src/entropy/types';
+import { EntropyCollectionTimeoutError, InsufficientEntropyError } from '../../src/entropy/errors';
+import { FlipAbortedError } from '../../src/common/errors';
 
 describe('Entropy Pool', () => {
+  /**
+   * A source that only ever delivers a few bits, so no level's target can
+   * be met. Built-ins are unregistered for these tests to make sure
+   * nothing else fills the gap.
+   */
+  const trickle: EntropySource = {
+    name: 'trickle',
+    quality: 1,
+    timeoutMs: 50,
+    isAvailable: () => true,
+    collect: async () => ({ bytes: crypto.getRandomValues(new Uint8Array(1)), estimatedBits: 1 }),
+  };
+
+  const withOnlyTrickle = async <T>(fn: () => Promise<T>): Promise<T> => {
+    unregisterEntropySource('timing');
+    unregisterEntropySource('crypto');
+    try {
+      return await fn();
+    } finally {
+      registerEntropySource(createTimingEntropySource());
+      registerEntropySource(createCryptoEntropySource());
+    }
+  };
+
   describe('collectEntropy', () => {
     it('should return bytes and stats', async () => {
       /**
@@ -362,4 +401,209 @@ describe('Entropy Pool', () => {
       expect(correlation).toBeLessThan(0.1);
     });
   });
+
+  describe('Strict Mode', () => {
+    it('should flag a missed target as degraded by default', async () => {
+      const result = await withOnlyTrickle(() => collectEntropy({ level: 'fast', sources: [trickle] }));
+
+      expect(result.stats.degraded).toBe(true);
+      expect(result.stats.totalBits).toBeLessThan(64);
+      expect(result.bytes.length).toBe(64);
+    });
+
+    it('should throw InsufficientEntropyError in strict mode', async () => {
+      const error = await withOnlyTrickle(() =>
+        collectEntropy({ level: 'fast', sources: [trickle], strict: true }).catch((e: unknown) => e)
+      );
+
+      expect(error).toBeInstanceOf(InsufficientEntropyError);
+      const insufficient = error as InsufficientEntropyError;
+      expect(insufficient.targetBits).toBe(64);
+      expect(insufficient.collectedBits).toBeLessThan(64);
+      expect(insufficient.sourcesTried).toEqual(['trickle']);
+    });
+
+    it('should not be degraded when the target is met', async () => {
+      const result = await collectEntropy({ level: 'fast', strict: true });
+
+      expect(result.stats.degraded).toBe(false);
+      expect(result.stats.totalBits).toBeGreaterThanOrEqual(64);
+    });
+  });
+
+  describe('Cancellation', () => {
+    it('should reject right away with an already aborted signal', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(collectEntropy({ level: 'fast', signal: controller.signal }))
+        .rejects.toThrow(FlipAbortedError);
+    });
+
+    it('should stop a paranoid collection on abort', async () => {
+      const controller = new AbortController();
+      const startTime = performance.now();
+      setTimeout(() => controller.abort(), 50);
+
+      await expect(collectEntropy({ level: 'paranoid', signal: controller.signal }))
+        .rejects.toThrow(FlipAbortedError);
+
+      /**
+       * Paranoid waits at least minTimeMs = 2000ms when left alone.
+       */
+      expect(performance.now() - startTime).toBeLessThan(1000);
+    });
+
+    it('should pass the signal to sources and stop waiting for them', async () => {
+      const controller = new AbortController();
+      let received: AbortSignal | undefined;
+      const hanging: EntropySource = {
+        name: 'hanging',
+        quality: 4,
+        timeoutMs: 10000,
+        isAvailable: () => true,
+        collect: ({ signal }) => {
+          received = signal;
+          return new Promise(() => { });
+        },
+      };
+      setTimeout(() => controller.abort(), 20);
+
+      await expect(collectEntropy({ level: 'fast', sources: [hanging], signal: controller.signal }))
+        .rejects.toThrow(FlipAbortedError);
+      expect(received).toBe(controller.signal);
+    });
+  });
+
+  describe('Hooks', () => {
+    const broken: EntropySource = {
+      name: 'broken',
+      quality: 1,
+      timeoutMs: 50,
+      isAvailable: () => true,
+      collect: async () => {
+        throw new Error('device unplugged');
+      },
+    };
+
+    const hanging: EntropySource = {
+      name: 'hanging',
+      quality: 1,
+      timeoutMs: 20,
+      isAvailable: () => true,
+      collect: () => new Promise(() => { }),
+    };
+
+    it('should report sweeps, source results and completion in order', async () => {
+      const events: string[] = [];
+      const sweeps: EntropySweepStartEvent[] = [];
+      const results: EntropySourceResultEvent[] = [];
+      let completed: unknown;
+
+      const result = await collectEntropy({
+        level: 'fast',
+        sources: [broken],
+        hooks: {
+          onSweepStart: (event) => {
+            events.push(`sweep ${event.sweep}`);
+            sweeps.push(event);
+          },
+          onSourceResult: (event) => {
+            events.push(`result ${event.sweep}`);
+            results.push(event);
+          },
+          onComplete: (event) => {
+            events.push('complete');
+            completed = event;
+          },
+        },
+      });
+
+      expect(events[0]).toBe('sweep 1');
+      expect(events.at(-1)).toBe('complete');
+      expect(sweeps[0]!.sources).toEqual(expect.arrayContaining(['timing', 'crypto', 'broken']));
+      expect(sweeps[0]!.totalBits).toBe(0);
+      expect(results.filter((event) => event.sweep === 1)).toHaveLength(sweeps[0]!.sources.length);
+      expect(completed).toEqual({ stats: result.stats, servedBy: 'sweep', sweeps: sweeps.length });
+
+      const crypto = results.find((event) => event.name === 'crypto')!;
+      expect(crypto.success).toBe(true);
+      expect(crypto.bits).toBeGreaterThan(0);
+      expect(crypto.error).toBeUndefined();
+    });
+
+    it('should report why a source failed', async () => {
+      const results: EntropySourceResultEvent[] = [];
+
+      await collectEntropy({
+        level: 'fast',
+        sources: [broken, hanging],
+        hooks: { onSourceResult: (event) => results.push(event) },
+      });
+
+      const failure = results.find((event) => event.name === 'broken')!;
+      expect(failure.success).toBe(false);
+      expect(failure.bits).toBe(0);
+      expect(failure.error?.message).toBe('device unplugged');
+
+      const timeout = results.find((event) => event.name === 'hanging')!;
+      expect(timeout.success).toBe(false);
+      expect(timeout.error).toBeInstanceOf(EntropyCollectionTimeoutError);
+      expect(timeout.durationMs).toBeGreaterThanOrEqual(15);
+    });
+
+    it('should report a missed target before completing', async () => {
+      const events: string[] = [];
+      let degraded: unknown;
+
+      const result = await withOnlyTrickle(() => collectEntropy({
+        level: 'fast',
+        sources: [trickle],
+        hooks: {
+          onDegraded: (event) => {
+            events.push('degraded');
+            degraded = event;
+          },
+          onComplete: () => events.push('complete'),
+        },
+      }));
+
+      expect(result.stats.degraded).toBe(true);
+      expect(events).toEqual(['degraded', 'complete']);
+      expect(degraded).toMatchObject({
+        totalBits: result.stats.totalBits,
+        targetBits: 64,
+        sourcesTried: ['trickle'],
+      });
+    });
+
+    it('should not call onDegraded or onComplete when strict mode throws', async () => {
+      const events: string[] = [];
+
+      await expect(withOnlyTrickle(() => collectEntropy({
+        level: 'fast',
+        sources: [trickle],
+        strict: true,
+        hooks: {
+          onDegraded: () => events.push('degraded'),
+          onComplete: () => events.push('complete'),
+        },
+      }))).rejects.toThrow(InsufficientEntropyError);
+
+      expect(events).toEqual([]);
+    });
+
+    it('should ignore errors thrown by hooks', async () => {
+      const fail = (): never => {
+        throw new Error('telemetry backend down');
+      };
+
+      const result = await collectEntropy({
+        level: 'fast',
+        hooks: { onSweepStart: fail, onSourceResult: fail, onDegraded: fail, onComplete: fail },
+      });
+
+      expect(result.bytes.length).toBe(64);
+    });
+  });
 });
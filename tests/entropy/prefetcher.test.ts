@@ -0,0 +1,241 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { createEntropyPrefetcher } from '../../src/entropy/prefetcher';
+import { collectEntropy } from '../../src/entropy/pool';
+import type { EntropyPrefetcher, EntropySource } from '../../src/entropy/types';
+import { InvalidEntropyLevelError } from '../../src/entropy/errors';
+
+/**
+ * Pass-through spy, so tests can reach the results the prefetcher queued.
+ */
+vi.mock('../../src/entropy/pool', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../src/entropy/pool')>();
+  return { ...actual, collectEntropy: vi.fn(actual.collectEntropy) };
+});
+
+/**
+ * Cheap source with a generous estimate, so one sweep meets the target.
+ */
+const countingSource = (): EntropySource & { calls: number } => {
+  const source = {
+    name: 'counting',
+    quality: 4,
+    timeoutMs: 100,
+    calls: 0,
+    isAvailable: () => true,
+    collect: async () => {
+      source.calls++;
+      return { bytes: crypto.getRandomValues(new Uint8Array(64)), estimatedBits: 512 };
+    },
+  };
+  return source;
+};
+
+/**
+ * Short budget: each background collection finishes after a sweep or two.
+ */
+const QUICK_LEVEL = { minTimeMs: 0, targetBits: 64, maxTimeMs: 300 };
+
+/**
+ * Polls until the prefetcher has queued `count` results, failing after `timeoutMs`.
+ */
+async function waitUntilQueued(prefetcher: EntropyPrefetcher, count: number, timeoutMs = 5000): Promise<void> {
+  const deadline = performance.now() + timeoutMs;
+  while (prefetcher.getStats().queued < count) {
+    if (performance.now() > deadline) {
+      throw new Error(`prefetcher did not queue ${count} results in time`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+describe('Entropy Prefetcher', () => {
+  let prefetcher: EntropyPrefetcher | undefined;
+
+  afterEach(async () => {
+    await prefetcher?.stop();
+    prefetcher = undefined;
+  });
+
+  describe('lifecycle', () => {
+    it('should be stopped and empty when created', () => {
+      prefetcher = createEntropyPrefetcher();
+
+      expect(prefetcher.isRunning()).toBe(false);
+      expect(prefetcher.getStats()).toEqual({
+        capacity: 4,
+        queued: 0,
+        collected: 0,
+        served: 0,
+        misses: 0,
+        failures: 0,
+      });
+    });
+
+    it('should reject invalid capacities and levels', () => {
+      expect(() => createEntropyPrefetcher({ capacity: 0 })).toThrow(RangeError);
+      expect(() => createEntropyPrefetcher({ capacity: 1.5 })).toThrow(RangeError);
+      expect(() => createEntropyPrefetcher({ level: 'unregistered' })).toThrow(InvalidEntropyLevelError);
+    });
+
+    it('should stop collecting when stopped and dispose of the queue', async () => {
+      vi.mocked(collectEntropy).mockClear();
+      prefetcher = createEntropyPrefetcher({ level: QUICK_LEVEL, sources: [countingSource()], capacity: 2 });
+      prefetcher.start();
+      await waitUntilQueued(prefetcher, 2);
+      const taken = prefetcher.take()!;
+      await waitUntilQueued(prefetcher, 2);
+      await prefetcher.stop();
+
+      expect(prefetcher.isRunning()).toBe(false);
+      const { collected, queued } = prefetcher.getStats();
+      expect(queued).toBe(0);
+      expect(prefetcher.take()).toBeUndefined();
+
+      const dropped = vi.mocked(collectEntropy).mock.settledResults
+        .flatMap((settled) => (settled.type === 'fulfilled' ? [settled.value] : []))
+        .filter((result) => result !== taken);
+      expect(dropped).toHaveLength(2);
+      expect(dropped.every((result) => result.bytes.every((byte) => byte === 0))).toBe(true);
+      expect(taken.bytes.some((byte) => byte !== 0)).toBe(true);
+
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect(prefetcher.getStats().collected).toBe(collected);
+    });
+
+    it('should cancel an in-flight collection on stop()', async () => {
+      prefetcher = createEntropyPrefetcher({ level: { minTimeMs: 5000, targetBits: 64, maxTimeMs: 10000 } });
+      prefetcher.start();
+
+      const startTime = performance.now();
+      await prefetcher.stop();
+
+      expect(performance.now() - startTime).toBeLessThan(1000);
+      expect(prefetcher.getStats().failures).toBe(0);
+    });
+  });
+
+  describe('queue', () => {
+    it('should fill up to capacity and pause there', async () => {
+      const source = countingSource();
+      prefetcher = createEntropyPrefetcher({ level: QUICK_LEVEL, sources: [source], capacity: 2 });
+      prefetcher.start();
+      await waitUntilQueued(prefetcher, 2);
+
+      const calls = source.calls;
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(prefetcher.getStats().queued).toBe(2);
+      expect(prefetcher.getStats().collected).toBe(2);
+      expect(source.calls).toBe(calls);
+    });
+
+    it('should hand out each result exactly once and refill', async () => {
+      prefetcher = createEntropyPrefetcher({ level: QUICK_LEVEL, sources: [countingSource()], capacity: 2 });
+      prefetcher.start();
+      await waitUntilQueued(prefetcher, 2);
+
+      const first = prefetcher.take();
+      const second = prefetcher.take();
+
+      expect(first).toBeDefined();
+      expect(second).toBeDefined();
+      expect(first).not.toBe(second);
+      expect(first!.bytes).not.toEqual(second!.bytes);
+      expect(prefetcher.getStats().served).toBe(2);
+
+      await waitUntilQueued(prefetcher, 2);
+      expect(prefetcher.getStats().collected).toBe(4);
+    });
+
+    it('should count a miss when nothing qualifies', async () => {
+      prefetcher = createEntropyPrefetcher({ level: QUICK_LEVEL, sources: [countingSource()], capacity: 1 });
+
+      expect(prefetcher.take()).toBeUndefined();
+
+      prefetcher.start();
+      await waitUntilQueued(prefetcher, 1);
+
+      expect(prefetcher.take({ minBits: 1_000_000 })).toBeUndefined();
+      expect(prefetcher.take({ outputBytes: 32 })).toBeUndefined();
+      expect(prefetcher.take({ provenance: true })).toBeUndefined();
+      expect(prefetcher.getStats()).toMatchObject({ queued: 1, misses: 4, served: 0 });
+    });
+
+    it('should only serve requests for sources and a mixer it collects with', async () => {
+      const source = countingSource();
+      prefetcher = createEntropyPrefetcher({ level: QUICK_LEVEL, sources: [source], mixer: 'BLAKE2b', capacity: 1 });
+      prefetcher.start();
+      await waitUntilQueued(prefetcher, 1);
+
+      expect(prefetcher.take({ sources: [countingSource()] })).toBeUndefined();
+      expect(prefetcher.take({ mixer: 'SHA-256' })).toBeUndefined();
+      expect(prefetcher.getStats()).toMatchObject({ queued: 1, misses: 2 });
+
+      expect(prefetcher.take({ sources: [source], mixer: 'BLAKE2b' })).toBeDefined();
+    });
+
+    it('should not serve a degraded result to a strict request', async () => {
+      prefetcher = createEntropyPrefetcher({
+        level: { minTimeMs: 0, targetBits: 1_000_000, maxTimeMs: 20 },
+        sources: [countingSource()],
+        capacity: 1,
+      });
+      prefetcher.start();
+      await waitUntilQueued(prefetcher, 1);
+
+      expect(prefetcher.take({ strict: true })).toBeUndefined();
+      expect(prefetcher.take()).toMatchObject({ stats: { degraded: true } });
+    });
+
+    it('should count failed collections and keep retrying', async () => {
+      prefetcher = createEntropyPrefetcher({
+        level: { minTimeMs: 0, targetBits: 1_000_000, maxTimeMs: 20 },
+        strict: true,
+        retryDelayMs: 5,
+      });
+      prefetcher.start();
+
+      const deadline = performance.now() + 5000;
+      while (prefetcher.getStats().failures < 2 && performance.now() < deadline) {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+      }
+
+      expect(prefetcher.getStats().failures).toBeGreaterThanOrEqual(2);
+      expect(prefetcher.getStats().queued).toBe(0);
+    });
+  });
+
+  describe('pool integration', () => {
+    it('should serve collectEntropy from the queue without waiting', async () => {
+      prefetcher = createEntropyPrefetcher({ level: 'standard', sources: [countingSource()], capacity: 1 });
+      prefetcher.start();
+      await waitUntilQueued(prefetcher, 1);
+
+      let servedBy: string | undefined;
+      const startTime = performance.now();
+      const result = await collectEntropy({
+        level: 'standard',
+        prefetcher,
+        hooks: { onComplete: (event) => (servedBy = event.servedBy) },
+      });
+
+      /**
+       * Inline collection at 'standard' waits at least minTimeMs = 200ms.
+       */
+      expect(performance.now() - startTime).toBeLessThan(100);
+      expect(result.stats.level).toBe('standard');
+      expect(prefetcher.getStats().served).toBe(1);
+      expect(servedBy).toBe('prefetcher');
+    });
+
+    it('should collect inline when the queue is empty', async () => {
+      prefetcher = createEntropyPrefetcher({ level: QUICK_LEVEL, sources: [countingSource()], capacity: 1 });
+
+      const result = await collectEntropy({ level: 'fast', prefetcher });
+
+      expect(result.stats.level).toBe('fast');
+      expect(result.stats.collectionTimeMs).toBeGreaterThanOrEqual(100);
+      expect(prefetcher.getStats().misses).toBe(1);
+    });
+  });
+});
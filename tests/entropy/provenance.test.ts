@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import { collectEntropy } from '../../src/entropy/pool';
+import { createEntropyAccumulator } from '../../src/entropy/accumulator';
+import type { EntropySource } from '../../src/entropy/types';
+
+const hex = (bytes: Uint8Array): string =>
+  Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+const sha256Hex = async (bytes: Uint8Array): Promise<string> =>
+  hex(new Uint8Array(await crypto.subtle.digest('SHA-256', new Uint8Array(bytes))));
+
+/**
+ * Source that keeps a copy of everything it returns.
+ */
+function recordingSource(name: string): EntropySource & { delivered: Uint8Array[] } {
+  const source = {
+    name,
+    quality: 4,
+    timeoutMs: 100,
+    delivered: [] as Uint8Array[],
+    isAvailable: () => true,
+    collect: async () => {
+      const bytes = crypto.getRandomValues(new Uint8Array(32));
+      source.delivered.push(bytes.slice());
+      return { bytes, estimatedBits: 64 };
+    },
+  };
+  return source;
+}
+
+function staticSource(name: string, overrides: Partial<EntropySource>): EntropySource {
+  return {
+    name,
+    quality: 4,
+    timeoutMs: 100,
+    isAvailable: () => true,
+    collect: async () => ({ bytes: crypto.getRandomValues(new Uint8Array(16)), estimatedBits: 8 }),
+    ...overrides,
+  };
+}
+
+describe('Entropy Provenance', () => {
+  it('should not attach a record unless asked for', async () => {
+    const result = await collectEntropy({ level: 'fast' });
+
+    expect(result.provenance).toBeUndefined();
+  });
+
+  it('should record every source with its status', async () => {
+    const recording = recordingSource('recording');
+    const result = await collectEntropy({
+      level: 'fast',
+      provenance: true,
+      sources: [
+        recording,
+        staticSource('broken', {
+          collect: async () => {
+            throw new Error('device unplugged');
+          },
+        }),
+        staticSource('offline', { isAvailable: () => false }),
+        staticSource('stuck', {
+          collect: async () => ({ bytes: new Uint8Array(32), estimatedBits: 256 }),
+        }),
+      ],
+    });
+
+    const provenance = result.provenance!;
+    const byName = new Map(provenance.sources.map((source) => [source.name, source]));
+
+    expect(provenance.version).toBe(1);
+    expect(provenance.mode).toBe('inline');
+    expect(provenance.level).toBe('fast');
+    expect(provenance.totalBits).toBe(result.stats.totalBits);
+    expect(byName.get('timing')?.status).toBe('contributed');
+    expect(byName.get('recording')?.status).toBe('contributed');
+    expect(byName.get('recording')?.health).toBe('passed');
+    expect(byName.get('broken')?.status).toBe('failed');
+    expect(byName.get('broken')?.attempts).toBeGreaterThan(0);
+    expect(byName.get('offline')?.status).toBe('unavailable');
+    expect(byName.get('offline')?.attempts).toBe(0);
+    expect(byName.get('stuck')?.status).toBe('unhealthy');
+    expect(byName.get('stuck')?.health).toBe('repetition-count');
+    expect(byName.get('stuck')?.contributions).toEqual([]);
+  });
+
+  it('should commit to each contribution with SHA-256', async () => {
+    const recording = recordingSource('recording');
+    const result = await collectEntropy({ level: 'fast', provenance: true, sources: [recording] });
+
+    const entry = result.provenance!.sources.find((source) => source.name === 'recording')!;
+    const expected = await Promise.all(recording.delivered.map(sha256Hex));
+
+    expect(entry.contributions.map((c) => c.commitment)).toEqual(expected);
+    expect(entry.bytes).toBe(32 * recording.delivered.length);
+    expect(entry.estimatedBits).toBe(64 * recording.delivered.length);
+    expect(entry.creditedBits).toBeLessThanOrEqual(entry.estimatedBits);
+    expect(entry.collectionTimeMs).toBeGreaterThanOrEqual(0);
+    expect(result.provenance!.outputCommitment).toBe(await sha256Hex(result.bytes));
+  });
+
+  it('should survive a JSON round trip', async () => {
+    const result = await collectEntropy({ level: 'fast', provenance: true });
+
+    const archived = JSON.parse(JSON.stringify(result.provenance));
+
+    expect(archived).toEqual(result.provenance);
+    expect(Number.isNaN(Date.parse(archived.startedAt))).toBe(false);
+  });
+
+  it('should mark accumulator-served requests', async () => {
+    const accumulator = createEntropyAccumulator({
+      sources: [recordingSource('recording')],
+      poolCount: 1,
+      sweepIntervalMs: 5,
+    });
+    accumulator.start();
+    try {
+      const deadline = performance.now() + 5000;
+      while (!accumulator.isSeeded() || accumulator.getStats().keyBits < 64) {
+        if (performance.now() > deadline) {
+          throw new Error('accumulator did not seed in time');
+        }
+        await new Promise((resolve) => setTimeout(resolve, 5));
+      }
+
+      const result = await collectEntropy({ level: 'fast', accumulator, provenance: true });
+
+      expect(result.provenance?.mode).toBe('accumulator');
+      expect(result.provenance?.sources).toEqual([]);
+      expect(result.provenance?.outputCommitment).toBe(await sha256Hex(result.bytes));
+    } finally {
+      await accumulator.stop();
+    }
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  registerEntropySource,
+  unregisterEntropySource,
+  getRegisteredEntropySources,
+} from '../../src/entropy/registry';
+import { collectEntropy } from '../../src/entropy/pool';
+import { createTimingEntropySource } from '../../src/entropy/sources/timing';
+import type { EntropySource } from '../../src/entropy/types';
+import { EntropySourceRegistrationError } from '../../src/entropy/errors';
+
+/**
+ * Minimal custom source returning random bytes.
+ * Good enough to check the plumbing: the pool treats every source the same.
+ */
+function customSource(name: string, overrides: Partial<EntropySource> = {}): EntropySource {
+  return {
+    name,
+    quality: 4,
+    timeoutMs: 100,
+    isAvailable: () => true,
+    collect: async () => ({ bytes: crypto.getRandomValues(new Uint8Array(32)), estimatedBits: 8 }),
+    ...overrides,
+  };
+}
+
+describe('Entropy Source Registry', () => {
+  afterEach(() => {
+    unregisterEntropySource('custom');
+  });
+
+  describe('registration', () => {
+    it('should register timing and crypto by default', () => {
+      const names = getRegisteredEntropySources().map((source) => source.name);
+
+      expect(names).toEqual(['timing', 'crypto']);
+    });
+
+    it('should add and remove a custom source', () => {
+      registerEntropySource(customSource('custom'));
+      expect(getRegisteredEntropySources().map((source) => source.name)).toContain('custom');
+
+      expect(unregisterEntropySource('custom')).toBe(true);
+      expect(unregisterEntropySource('custom')).toBe(false);
+      expect(getRegisteredEntropySources().map((source) => source.name)).not.toContain('custom');
+    });
+
+    it('should reject duplicate names', () => {
+      expect(() => registerEntropySource(customSource('timing'))).toThrow(EntropySourceRegistrationError);
+    });
+
+    it('should reject empty names', () => {
+      expect(() => registerEntropySource(customSource(''))).toThrow(EntropySourceRegistrationError);
+    });
+  });
+
+  describe('pool integration', () => {
+    it('should sweep registered custom sources', async () => {
+      registerEntropySource(customSource('custom'));
+
+      const result = await collectEntropy({ level: 'fast' });
+
+      expect(result.stats.sourcesUsed).toContain('custom');
+    });
+
+    it('should sweep per-call sources from options', async () => {
+      const result = await collectEntropy({
+        level: 'fast',
+        sources: [customSource('per-call')],
+      });
+
+      expect(result.stats.sourcesUsed).toContain('per-call');
+      expect(getRegisteredEntropySources().map((source) => source.name)).not.toContain('per-call');
+    });
+
+    it('should let a per-call source replace a registered one', async () => {
+      let calls = 0;
+      const result = await collectEntropy({
+        level: 'fast',
+        sources: [customSource('crypto', {
+          collect: async () => {
+            calls++;
+            return { bytes: crypto.getRandomValues(new Uint8Array(16)), estimatedBits: 8 };
+          },
+        })],
+      });
+
+      expect(calls).toBeGreaterThan(0);
+      expect(result.stats.sourcesUsed).toContain('crypto');
+    });
+
+    it('should skip a failing source', async () => {
+      const result = await collectEntropy({
+        level: 'fast',
+        sources: [customSource('broken', {
+          collect: async () => {
+            throw new Error('device unplugged');
+          },
+        })],
+      });
+
+      expect(result.stats.sourcesUsed).not.toContain('broken');
+      expect(result.stats.sourcesUsed).toContain('timing');
+    });
+
+    it('should skip an unavailable source without collecting', async () => {
+      let calls = 0;
+      const result = await collectEntropy({
+        level: 'fast',
+        sources: [customSource('offline', {
+          isAvailable: () => false,
+          collect: async () => {
+            calls++;
+            return { bytes: new Uint8Array(16), estimatedBits: 8 };
+          },
+        })],
+      });
+
+      expect(calls).toBe(0);
+      expect(result.stats.sourcesUsed).not.toContain('offline');
+    });
+
+    it('should enforce the timeout of a source that never settles', async () => {
+      const startTime = performance.now();
+      const result = await collectEntropy({
+        level: 'fast',
+        sources: [customSource('hanging', {
+          timeoutMs: 30,
+          collect: () => new Promise(() => { }),
+        })],
+      });
+
+      expect(result.stats.sourcesUsed).not.toContain('hanging');
+      expect(performance.now() - startTime).toBeLessThan(2000);
+    });
+
+    it('should sweep without a removed built-in source', async () => {
+      unregisterEntropySource('timing');
+      try {
+        const result = await collectEntropy({ level: 'fast' });
+
+        expect(result.stats.sourcesUsed).not.toContain('timing');
+        expect(result.stats.sourcesUsed).toContain('crypto');
+      } finally {
+        registerEntropySource(createTimingEntropySource());
+      }
+    });
+  });
+});
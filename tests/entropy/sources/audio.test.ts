@@ -0,0 +1,197 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtempSync, writeFileSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  collectAudioEntropy,
+  createPcmBufferProvider,
+  createWavSampleProvider,
+} from '../../../src/entropy/sources/audio';
+import { collectEntropy } from '../../../src/entropy/pool';
+import type { PcmSampleProvider } from '../../../src/entropy/types';
+import {
+  AudioSignalRejectedError,
+  EntropyCollectionTimeoutError,
+} from '../../../src/entropy/errors';
+
+/**
+ * Deterministic low-amplitude "microphone hiss" for tests.
+ * A small LCG is fine here: we are testing the extraction pipeline,
+ * not the quality of the noise itself.
+ */
+function hiss(count: number, amplitude: number, seed = 12345): Int16Array {
+  const samples = new Int16Array(count);
+  let state = seed;
+  for (let i = 0; i < count; i++) {
+    state = (state * 1103515245 + 12345) & 0x7fffffff;
+    samples[i] = (state % (2 * amplitude + 1)) - amplitude;
+  }
+  return samples;
+}
+
+/**
+ * Encodes 16-bit mono samples as a minimal RIFF/WAVE file.
+ */
+function encodeWav16(samples: Int16Array, sampleRate = 44100): Uint8Array {
+  const dataSize = samples.length * 2;
+  const bytes = new Uint8Array(44 + dataSize);
+  const view = new DataView(bytes.buffer);
+  const writeTag = (offset: number, tag: string): void => {
+    for (let i = 0; i < 4; i++) bytes[offset + i] = tag.charCodeAt(i);
+  };
+
+  writeTag(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeTag(8, 'WAVE');
+  writeTag(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeTag(36, 'data');
+  view.setUint32(40, dataSize, true);
+  samples.forEach((sample, i) => view.setInt16(44 + i * 2, sample, true));
+
+  return bytes;
+}
+
+describe('Audio Entropy Source', () => {
+  describe('collectAudioEntropy', () => {
+    it('should return bytes, estimatedBits, samplesRead and collectionTimeMs', async () => {
+      const provider = createPcmBufferProvider(hiss(1024, 40), 16);
+      const result = await collectAudioEntropy({ provider, sampleCount: 1024 });
+
+      expect(result.bytes).toBeInstanceOf(Uint8Array);
+      expect(result.bytes.length).toBe(128);
+      expect(result.samplesRead).toBe(1024);
+      expect(typeof result.collectionTimeMs).toBe('number');
+    });
+
+    it('should pack the least significant bit of each sample', async () => {
+      const samples = [1, 0, 3, 2, 5, 4, 7, 6, -1, -2, 9, 8, 11, 10, 13, 12];
+      const provider = createPcmBufferProvider(samples, 16);
+      const result = await collectAudioEntropy({ provider, sampleCount: 16 });
+
+      /**
+       * LSBs: 1,0,1,0,1,0,1,0 | 1,0,1,0,1,0,1,0 → 0xAA 0xAA
+       */
+      expect(Array.from(result.bytes)).toEqual([0xaa, 0xaa]);
+    });
+
+    it('should credit at most half a bit per sample', async () => {
+      const provider = createPcmBufferProvider(hiss(4096, 100), 16);
+      const result = await collectAudioEntropy({ provider, sampleCount: 4096 });
+
+      expect(result.estimatedBits).toBeGreaterThan(0);
+      expect(result.estimatedBits).toBeLessThanOrEqual(2048);
+    });
+
+    it('should credit less for a biased LSB', async () => {
+      /**
+       * 3 of 4 samples are even: p_max = 0.75, H_min ≈ 0.415.
+       */
+      const samples = Array.from({ length: 1024 }, (_, i) => (i % 4 === 0 ? 2 * i + 1 : 2 * i) % 200 - 100);
+      const provider = createPcmBufferProvider(samples, 16);
+      const result = await collectAudioEntropy({ provider, sampleCount: 1024 });
+
+      expect(result.estimatedBits).toBe(Math.floor((1024 * -Math.log2(0.75)) / 2));
+    });
+
+    it('should reject silent input', async () => {
+      const provider = createPcmBufferProvider(new Int16Array(2048), 16);
+
+      await expect(collectAudioEntropy({ provider })).rejects.toThrow(/silent/);
+    });
+
+    it('should reject clipped input', async () => {
+      const samples = hiss(2048, 50);
+      for (let i = 0; i < 200; i++) {
+        samples[i * 10] = i % 2 === 0 ? 32767 : -32768;
+      }
+      const provider = createPcmBufferProvider(samples, 16);
+
+      await expect(collectAudioEntropy({ provider })).rejects.toThrow(/clipped/);
+    });
+
+    it('should reject an empty provider', async () => {
+      const provider = createPcmBufferProvider([], 16);
+
+      await expect(collectAudioEntropy({ provider })).rejects.toThrow(AudioSignalRejectedError);
+    });
+
+    it('should time out on a stalled provider', async () => {
+      const stalled: PcmSampleProvider = {
+        bitDepth: 16,
+        read: () => new Promise(() => { }),
+      };
+
+      await expect(
+        collectAudioEntropy({ provider: stalled, timeoutMs: 30 })
+      ).rejects.toThrow(EntropyCollectionTimeoutError);
+    });
+  });
+
+  describe('createWavSampleProvider', () => {
+    it('should decode 16-bit PCM WAV data', async () => {
+      const samples = new Int16Array([0, 1, -1, 32767, -32768, 1234]);
+      const provider = createWavSampleProvider(encodeWav16(samples));
+
+      expect(provider.bitDepth).toBe(16);
+      expect(Array.from(await provider.read(10))).toEqual(Array.from(samples));
+      expect((await provider.read(10)).length).toBe(0);
+    });
+
+    it('should read a WAV file from disk', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'flip-coin-audio-'));
+      try {
+        const path = join(dir, 'noise.wav');
+        writeFileSync(path, encodeWav16(hiss(2048, 60)));
+
+        const provider = createWavSampleProvider(new Uint8Array(readFileSync(path)));
+        const result = await collectAudioEntropy({ provider, sampleCount: 2048 });
+
+        expect(result.samplesRead).toBe(2048);
+        expect(result.estimatedBits).toBeGreaterThan(0);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should reject data that is not a WAV file', () => {
+      expect(() => createWavSampleProvider(new Uint8Array(64))).toThrow(AudioSignalRejectedError);
+    });
+
+    it('should reject a truncated or undersized fmt chunk', () => {
+      const wav = encodeWav16(new Int16Array([1, -1, 2, -2]));
+      const undersized = wav.slice();
+      new DataView(undersized.buffer).setUint32(16, 8, true);
+
+      expect(() => createWavSampleProvider(wav.subarray(0, 30))).toThrow(AudioSignalRejectedError);
+      expect(() => createWavSampleProvider(undersized)).toThrow(/fmt chunk is truncated/);
+    });
+  });
+
+  describe('pool integration', () => {
+    it('should include the audio source when configured', async () => {
+      const result = await collectEntropy({
+        level: 'fast',
+        audioOptions: { provider: createPcmBufferProvider(hiss(8192, 80), 16) },
+      });
+
+      expect(result.stats.sourcesUsed).toContain('audio');
+    });
+
+    it('should skip a silent audio source without failing', async () => {
+      const result = await collectEntropy({
+        level: 'fast',
+        audioOptions: { provider: createPcmBufferProvider(new Int16Array(8192), 16) },
+      });
+
+      expect(result.stats.sourcesUsed).not.toContain('audio');
+      expect(result.stats.sourcesUsed).toContain('timing');
+    });
+  });
+});
@@ -0,0 +1,264 @@
+import { describe, it, expect } from 'vitest';
+import {
+  collectBeaconEntropy,
+  isBeaconEntropyAvailable,
+  roundMessage,
+} from '../../../src/entropy/sources/beacon';
+import { collectEntropy } from '../../../src/entropy/pool';
+import { sha256, hmacSha256 } from '../../../src/entropy/hashes';
+import type {
+  BeaconRound,
+  BeaconScheme,
+  BeaconSignatureVerifier,
+  QuantumTransport,
+} from '../../../src/entropy/types';
+import {
+  BeaconVerificationError,
+  EntropyCollectionTimeoutError,
+  EntropySourceResponseError,
+} from '../../../src/entropy/errors';
+
+/**
+ * A stand-in for BLS: the "signature" is HMAC-SHA-256 keyed with the
+ * public key. It has the one property the source relies on: only the
+ * right key produces a signature that verifies.
+ */
+const PUBLIC_KEY = new TextEncoder().encode('beacon test group key');
+const OTHER_KEY = new TextEncoder().encode('some other group key');
+
+const verifySignature: BeaconSignatureVerifier = (publicKey, message, signature) =>
+  toHex(hmacSha256(publicKey, message)) === toHex(signature);
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Builds a signed chain of rounds 1..count, as a beacon would serve it.
+ */
+function buildChain(count: number, scheme: BeaconScheme, key = PUBLIC_KEY, genesis = 'genesis'): BeaconRound[] {
+  const rounds: BeaconRound[] = [];
+  let previousSignature = toHex(sha256(new TextEncoder().encode(genesis)));
+
+  for (let round = 1; round <= count; round++) {
+    const unsigned: BeaconRound = {
+      round,
+      randomness: '',
+      signature: '',
+      ...(scheme === 'chained' && { previous_signature: previousSignature }),
+    };
+    const signature = hmacSha256(key, roundMessage(unsigned, scheme));
+    rounds.push({ ...unsigned, signature: toHex(signature), randomness: toHex(sha256(signature)) });
+    previousSignature = toHex(signature);
+  }
+  return rounds;
+}
+
+/**
+ * Serves `<endpoint>/public/latest` and `<endpoint>/public/<n>` from a
+ * list of rounds, recording every URL asked for.
+ */
+function beaconTransport(rounds: BeaconRound[], requested: string[] = []): QuantumTransport {
+  return async (url) => {
+    requested.push(url);
+    const path = url.split('/public/')[1];
+    const round = path === 'latest' ? rounds[rounds.length - 1] : rounds.find((r) => r.round === Number(path));
+    return {
+      ok: round !== undefined,
+      status: round ? 200 : 404,
+      json: async () => round,
+    };
+  };
+}
+
+describe('Beacon Entropy Source', () => {
+  describe('isBeaconEntropyAvailable', () => {
+    it('should be available with a transport or global fetch', () => {
+      expect(isBeaconEntropyAvailable({ transport: beaconTransport([]) })).toBe(true);
+      expect(isBeaconEntropyAvailable()).toBe(typeof globalThis.fetch === 'function');
+    });
+  });
+
+  describe('roundMessage', () => {
+    it('should hash the big-endian round number, after the previous signature when chained', () => {
+      const round: BeaconRound = { round: 258, randomness: '', signature: '', previous_signature: 'abcd' };
+
+      expect(roundMessage(round, 'unchained')).toEqual(sha256(new Uint8Array([0, 0, 0, 0, 0, 0, 1, 2])));
+      expect(roundMessage(round, 'chained')).toEqual(sha256(new Uint8Array([0xab, 0xcd, 0, 0, 0, 0, 0, 0, 1, 2])));
+    });
+  });
+
+  describe('collectBeaconEntropy', () => {
+    it('should verify the latest round and return its randomness without crediting it', async () => {
+      const chain = buildChain(5, 'chained');
+      const requested: string[] = [];
+
+      const result = await collectBeaconEntropy({
+        publicKey: toHex(PUBLIC_KEY),
+        verifySignature,
+        endpoint: 'https://beacon.test/',
+        transport: beaconTransport(chain, requested),
+      });
+
+      expect(requested).toEqual(['https://beacon.test/public/latest']);
+      expect(result.rounds).toEqual([chain[4]]);
+      expect(toHex(result.bytes)).toBe(chain[4]!.randomness);
+      expect(result.estimatedBits).toBe(0);
+    });
+
+    it('should verify a chain of consecutive rounds, oldest first', async () => {
+      const chain = buildChain(5, 'chained');
+
+      const result = await collectBeaconEntropy({
+        publicKey: PUBLIC_KEY,
+        verifySignature,
+        rounds: 3,
+        transport: beaconTransport(chain),
+      });
+
+      expect(result.rounds.map((r) => r.round)).toEqual([3, 4, 5]);
+      expect(result.bytes.length).toBe(96);
+      expect(toHex(result.bytes.subarray(0, 32))).toBe(chain[2]!.randomness);
+    });
+
+    it('should fetch a pinned round', async () => {
+      const chain = buildChain(5, 'unchained');
+      const requested: string[] = [];
+
+      const result = await collectBeaconEntropy({
+        publicKey: PUBLIC_KEY,
+        verifySignature,
+        scheme: 'unchained',
+        round: 2,
+        transport: beaconTransport(chain, requested),
+      });
+
+      expect(requested).toEqual(['https://api.drand.sh/public/2']);
+      expect(result.rounds[0]!.round).toBe(2);
+    });
+
+    it('should reject rounds signed with a different key', async () => {
+      const chain = buildChain(3, 'chained', OTHER_KEY);
+
+      await expect(collectBeaconEntropy({
+        publicKey: PUBLIC_KEY,
+        verifySignature,
+        transport: beaconTransport(chain),
+      })).rejects.toThrow(BeaconVerificationError);
+    });
+
+    it('should reject randomness that is not derived from the signature', async () => {
+      const chain = buildChain(3, 'chained');
+      chain[2] = { ...chain[2]!, randomness: chain[1]!.randomness };
+
+      await expect(collectBeaconEntropy({
+        publicKey: PUBLIC_KEY,
+        verifySignature,
+        transport: beaconTransport(chain),
+      })).rejects.toThrow(/SHA-256 of the signature/);
+    });
+
+    it('should reject a broken chain even when every round verifies on its own', async () => {
+      /**
+       * Round 3 is correctly signed, but continues a different chain.
+       */
+      const chain = buildChain(3, 'chained');
+      chain[2] = buildChain(3, 'chained', PUBLIC_KEY, 'another genesis')[2]!;
+
+      await expect(collectBeaconEntropy({
+        publicKey: PUBLIC_KEY,
+        verifySignature,
+        rounds: 2,
+        transport: beaconTransport(chain),
+      })).rejects.toThrow(/previous_signature does not match round 2/);
+    });
+
+    it('should wrap a failing verifier in a BeaconVerificationError', async () => {
+      const error = await collectBeaconEntropy({
+        publicKey: PUBLIC_KEY,
+        verifySignature: () => {
+          throw new Error('bad point encoding');
+        },
+        transport: beaconTransport(buildChain(1, 'chained')),
+      }).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(BeaconVerificationError);
+      expect((error as BeaconVerificationError).round).toBe(1);
+    });
+
+    it('should reject malformed and missing rounds', async () => {
+      const malformed: QuantumTransport = async () => ({
+        ok: true,
+        status: 200,
+        json: async () => ({ round: 1, randomness: 'not hex', signature: 'aa' }),
+      });
+
+      await expect(collectBeaconEntropy({ publicKey: PUBLIC_KEY, verifySignature, transport: malformed }))
+        .rejects.toThrow(EntropySourceResponseError);
+      await expect(collectBeaconEntropy({
+        publicKey: PUBLIC_KEY,
+        verifySignature,
+        round: 99,
+        transport: beaconTransport(buildChain(3, 'chained')),
+      })).rejects.toThrow(/HTTP status 404/);
+    });
+
+    it('should reject invalid options', async () => {
+      const transport = beaconTransport(buildChain(3, 'chained'));
+
+      await expect(collectBeaconEntropy({ publicKey: PUBLIC_KEY, verifySignature, transport, rounds: 0 }))
+        .rejects.toThrow(RangeError);
+      await expect(collectBeaconEntropy({ publicKey: PUBLIC_KEY, verifySignature, transport, round: 1.5 }))
+        .rejects.toThrow(RangeError);
+      await expect(collectBeaconEntropy({ publicKey: 'xyz', verifySignature, transport }))
+        .rejects.toThrow(RangeError);
+    });
+
+    it('should time out and abort the request on a hanging beacon', async () => {
+      let aborted = false;
+      const transport: QuantumTransport = (_url, init) =>
+        new Promise((_resolve, reject) => {
+          init.signal?.addEventListener('abort', () => {
+            aborted = true;
+            reject(new Error('aborted'));
+          });
+        });
+
+      await expect(collectBeaconEntropy({ publicKey: PUBLIC_KEY, verifySignature, transport, timeoutMs: 50 }))
+        .rejects.toThrow(EntropyCollectionTimeoutError);
+      expect(aborted).toBe(true);
+    });
+  });
+
+  describe('pool integration', () => {
+    it('should mix a verified round in without crediting it', async () => {
+      const result = await collectEntropy({
+        level: 'fast',
+        provenance: true,
+        beaconOptions: {
+          publicKey: PUBLIC_KEY,
+          verifySignature,
+          transport: beaconTransport(buildChain(2, 'chained')),
+        },
+      });
+
+      const beacon = result.provenance!.sources.find((source) => source.name === 'beacon');
+      expect(result.stats.sourcesUsed).toContain('beacon');
+      expect(beacon).toMatchObject({ status: 'contributed', creditedBits: 0 });
+      expect(beacon!.contributions[0]!.metadata).toEqual({ rounds: [2] });
+    });
+
+    it('should skip the beacon when verification fails', async () => {
+      const result = await collectEntropy({
+        level: 'fast',
+        beaconOptions: {
+          publicKey: PUBLIC_KEY,
+          verifySignature: () => false,
+          transport: beaconTransport(buildChain(2, 'chained')),
+        },
+      });
+
+      expect(result.stats.sourcesUsed).not.toContain('beacon');
+    });
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { collectCryptoEntropy, isCryptoEntropyAvailable } from '../../../src/entropy/sources/crypto';
+import { FlipAbortedError } from '../../../src/common/errors';
 
 describe('Crypto Entropy Source', () => {
   describe('isCryptoEntropyAvailable', () => {
@@ -273,4 +274,11 @@ describe('Crypto Entropy Source', () => {
       expect(correlation).toBeLessThan(0.1);
     });
   });
+
+  describe('Cancellation', () => {
+    it('should reject with an aborted signal', async () => {
+      await expect(collectCryptoEntropy({ signal: AbortSignal.abort() }))
+        .rejects.toThrow(FlipAbortedError);
+    });
+  });
 });
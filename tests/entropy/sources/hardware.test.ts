@@ -0,0 +1,223 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createWriteStream, existsSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import { execFileSync } from 'node:child_process';
+import { randomBytes } from 'node:crypto';
+import { PassThrough } from 'node:stream';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  collectHardwareEntropy,
+  createHardwareEntropySource,
+  isHardwareEntropyAvailable,
+} from '../../../src/entropy/sources/hardware';
+import { collectEntropy } from '../../../src/entropy/pool';
+import {
+  EntropyCollectionTimeoutError,
+  EntropySourceResponseError,
+  EntropySourceUnavailableError,
+} from '../../../src/entropy/errors';
+
+/**
+ * An in-memory stand-in for a serial port: bytes written now are readable.
+ */
+function streamOf(...chunks: number[][]): PassThrough {
+  const stream = new PassThrough();
+  for (const chunk of chunks) {
+    stream.write(new Uint8Array(chunk));
+  }
+  return stream;
+}
+
+const sequence = (start: number, length: number): number[] => Array.from({ length }, (_, i) => start + i);
+
+describe('Hardware Entropy Source', () => {
+  let directory: string;
+
+  beforeAll(() => {
+    directory = mkdtempSync(join(tmpdir(), 'flip-coin-hardware-'));
+    writeFileSync(join(directory, 'device'), new Uint8Array(sequence(0, 100)));
+    writeFileSync(join(directory, 'empty'), new Uint8Array(0));
+  });
+
+  afterAll(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  describe('isHardwareEntropyAvailable', () => {
+    it('should need a stream or a path', () => {
+      expect(isHardwareEntropyAvailable({ stream: streamOf() })).toBe(true);
+      expect(isHardwareEntropyAvailable({ path: '/dev/hwrng' })).toBe(true);
+      expect(isHardwareEntropyAvailable({})).toBe(false);
+    });
+  });
+
+  describe('streams', () => {
+    it('should read a bounded number of bytes and leave the rest on the stream', async () => {
+      const stream = streamOf(sequence(0, 48), sequence(48, 16));
+
+      const first = await collectHardwareEntropy({ stream, byteCount: 40 });
+      const second = await collectHardwareEntropy({ stream, byteCount: 24 });
+
+      expect(Array.from(first.bytes)).toEqual(sequence(0, 40));
+      expect(Array.from(second.bytes)).toEqual(sequence(40, 24));
+      expect(first.estimatedBits).toBe(320);
+      expect(first.path).toBeUndefined();
+    });
+
+    it('should collect chunks as they arrive', async () => {
+      const stream = streamOf(sequence(0, 8));
+      setTimeout(() => stream.write(new Uint8Array(sequence(8, 8))), 20);
+
+      const result = await collectHardwareEntropy({ stream, byteCount: 16, readTimeoutMs: 200 });
+
+      expect(Array.from(result.bytes)).toEqual(sequence(0, 16));
+    });
+
+    it('should keep what it has when the next chunk is late', async () => {
+      const stream = streamOf(sequence(0, 10));
+
+      const result = await collectHardwareEntropy({ stream, byteCount: 32, readTimeoutMs: 20, bitsPerByte: 2 });
+
+      expect(result.bytes.length).toBe(10);
+      expect(result.estimatedBits).toBe(20);
+    });
+
+    it('should cap reads at maxBytes', async () => {
+      const result = await collectHardwareEntropy({ stream: streamOf(sequence(0, 64)), byteCount: 64, maxBytes: 16 });
+
+      expect(result.bytes.length).toBe(16);
+    });
+
+    it('should time out when nothing arrives', async () => {
+      await expect(collectHardwareEntropy({ stream: streamOf(), readTimeoutMs: 20 }))
+        .rejects.toThrow(EntropyCollectionTimeoutError);
+    });
+
+    it('should fail on an ended stream without data', async () => {
+      const stream = streamOf();
+      stream.end();
+
+      await expect(collectHardwareEntropy({ stream })).rejects.toThrow(EntropySourceResponseError);
+    });
+
+    it('should report stream errors as unavailable', async () => {
+      const stream = streamOf();
+      setTimeout(() => stream.destroy(new Error('device unplugged')), 10);
+
+      await expect(collectHardwareEntropy({ stream, readTimeoutMs: 200 }))
+        .rejects.toThrow(EntropySourceUnavailableError);
+    });
+
+    it('should not leave listeners behind on a long-lived stream', async () => {
+      const stream = streamOf(sequence(0, 20));
+
+      for (let i = 0; i < 3; i++) {
+        await collectHardwareEntropy({ stream, byteCount: 10, readTimeoutMs: 10 }).catch(() => undefined);
+      }
+
+      expect(stream.listenerCount('readable')).toBe(0);
+      expect(stream.listenerCount('end')).toBe(0);
+      expect(stream.listenerCount('error')).toBe(0);
+    });
+  });
+
+  describe('device paths', () => {
+    it('should read a file and report its path', async () => {
+      const path = join(directory, 'device');
+
+      const result = await collectHardwareEntropy({ path, byteCount: 32 });
+
+      expect(Array.from(result.bytes)).toEqual(sequence(0, 32));
+      expect(result.path).toBe(path);
+    });
+
+    it.skipIf(process.platform === 'win32')('should read from a FIFO', async () => {
+      const fifo = join(directory, 'fifo');
+      execFileSync('mkfifo', [fifo]);
+
+      /**
+       * Opening the writer waits for the reader, like a device that only
+       * produces output once someone listens.
+       */
+      const writer = createWriteStream(fifo);
+      writer.write(new Uint8Array(sequence(0, 64)));
+
+      const result = await collectHardwareEntropy({ path: fifo, byteCount: 32, readTimeoutMs: 500, timeoutMs: 2000 });
+      writer.end();
+
+      expect(Array.from(result.bytes)).toEqual(sequence(0, 32));
+    });
+
+    it.skipIf(process.platform === 'win32')('should time out on a FIFO with no writer without tying up a thread', async () => {
+      const fifo = join(directory, 'silent-fifo');
+      execFileSync('mkfifo', [fifo]);
+
+      /**
+       * More collections than libuv has threadpool threads (4): if the open
+       * blocked a thread, the file read below would never get one.
+       */
+      for (let i = 0; i < 6; i++) {
+        await expect(collectHardwareEntropy({ path: fifo, readTimeoutMs: 20, timeoutMs: 200 }))
+          .rejects.toThrow(EntropyCollectionTimeoutError);
+      }
+
+      const startTime = performance.now();
+      await readFile(join(directory, 'device'));
+      expect(performance.now() - startTime).toBeLessThan(500);
+    });
+
+    it.skipIf(!existsSync('/dev/urandom'))('should read a character device', async () => {
+      const result = await collectHardwareEntropy({ path: '/dev/urandom', byteCount: 32 });
+
+      expect(result.bytes.length).toBe(32);
+    });
+
+    it.skipIf(!existsSync('/dev/ptmx'))('should time out on a silent character device without tying up a thread', async () => {
+      /**
+       * A fresh pseudo-terminal master has nothing to read, like an idle
+       * hwrng: a blocking read would hold a threadpool thread until data came.
+       */
+      for (let i = 0; i < 6; i++) {
+        await expect(collectHardwareEntropy({ path: '/dev/ptmx', readTimeoutMs: 20, timeoutMs: 200 }))
+          .rejects.toThrow(EntropyCollectionTimeoutError);
+      }
+
+      const startTime = performance.now();
+      await readFile(join(directory, 'device'));
+      expect(performance.now() - startTime).toBeLessThan(500);
+    });
+
+    it('should fail on missing and empty devices', async () => {
+      await expect(collectHardwareEntropy({ path: join(directory, 'missing') }))
+        .rejects.toThrow(EntropySourceUnavailableError);
+      await expect(collectHardwareEntropy({ path: join(directory, 'empty') }))
+        .rejects.toThrow(EntropySourceResponseError);
+    });
+
+    it('should need exactly one of path and stream', async () => {
+      await expect(collectHardwareEntropy({})).rejects.toThrow(RangeError);
+      await expect(collectHardwareEntropy({ path: '/dev/hwrng', stream: streamOf() })).rejects.toThrow(RangeError);
+    });
+  });
+
+  describe('pool integration', () => {
+    it('should size reads from the target', async () => {
+      const stream = streamOf(Array.from(randomBytes(256)));
+      const source = createHardwareEntropySource({ stream, bitsPerByte: 4 });
+
+      const result = await source.collect({ targetBits: 256, timeoutMs: 500 });
+
+      expect(result.bytes.length).toBe(64);
+      expect(result.estimatedBits).toBe(256);
+    });
+
+    it('should contribute to collectEntropy as "hardware"', async () => {
+      const stream = streamOf(Array.from(randomBytes(1024)));
+
+      const result = await collectEntropy({ level: 'fast', hardwareOptions: { stream } });
+
+      expect(result.stats.sourcesUsed).toContain('hardware');
+    });
+  });
+});
@@ -0,0 +1,221 @@
+import { describe, it, expect } from 'vitest';
+import { collectInputEntropy } from '../../../src/entropy/sources/input';
+import { collectEntropy } from '../../../src/entropy/pool';
+import { EntropySourceUnavailableError } from '../../../src/entropy/errors';
+
+/**
+ * Synthetic event emitter.
+ *
+ * Node ships `EventTarget` and `Event`, so we can dispatch events that look
+ * like pointer/keyboard events without any DOM. We pin `timeStamp` so the
+ * extracted bits are deterministic.
+ */
+function dispatch(
+  target: EventTarget,
+  type: string,
+  timeStamp: number,
+  coords?: { clientX: number; clientY: number }
+): void {
+  const event = new Event(type);
+  Object.defineProperty(event, 'timeStamp', { value: timeStamp });
+  if (coords) {
+    Object.assign(event, coords);
+  }
+  target.dispatchEvent(event);
+}
+
+describe('Input Entropy Source', () => {
+  describe('collectInputEntropy', () => {
+    it('should return bytes, estimatedBits, and collectionTimeMs', async () => {
+      const target = new EventTarget();
+      const pending = collectInputEntropy({ target, sampleCount: 8, timeoutMs: 200 });
+
+      for (let i = 0; i < 8; i++) {
+        dispatch(target, 'keydown', 1000 + i * 13.37);
+      }
+
+      const result = await pending;
+
+      expect(result.bytes).toBeInstanceOf(Uint8Array);
+      expect(result.bytes.length).toBe(1);
+      expect(result.sampleCount).toBe(8);
+      expect(result.estimatedBits).toBeLessThanOrEqual(8);
+      expect(typeof result.collectionTimeMs).toBe('number');
+    });
+
+    it('should resolve early once sampleCount is reached', async () => {
+      /**
+       * With a long timeout, collection should still finish as soon as
+       * enough events were observed.
+       */
+      const target = new EventTarget();
+      const startTime = performance.now();
+      const pending = collectInputEntropy({ target, sampleCount: 4, timeoutMs: 5000 });
+
+      for (let i = 0; i < 4; i++) {
+        dispatch(target, 'pointermove', 500 + i, { clientX: i * 3, clientY: i * 7 });
+      }
+
+      await pending;
+      expect(performance.now() - startTime).toBeLessThan(1000);
+    });
+
+    it('should return partial entropy when the timeout expires', async () => {
+      const target = new EventTarget();
+      const pending = collectInputEntropy({ target, sampleCount: 64, timeoutMs: 50 });
+
+      dispatch(target, 'keydown', 100.123);
+      dispatch(target, 'keyup', 180.456);
+      dispatch(target, 'keydown', 260.789);
+
+      const result = await pending;
+
+      expect(result.sampleCount).toBe(3);
+      expect(result.bytes.length).toBe(1);
+    });
+
+    it('should throw when there is no interaction', async () => {
+      const target = new EventTarget();
+
+      await expect(
+        collectInputEntropy({ target, timeoutMs: 20 })
+      ).rejects.toThrow(EntropySourceUnavailableError);
+    });
+
+    it('should only listen to the configured event types', async () => {
+      const target = new EventTarget();
+      const pending = collectInputEntropy({
+        target,
+        eventTypes: ['keydown'],
+        timeoutMs: 30,
+      });
+
+      dispatch(target, 'pointermove', 10, { clientX: 1, clientY: 2 });
+      dispatch(target, 'keydown', 20);
+
+      const result = await pending;
+      expect(result.sampleCount).toBe(1);
+    });
+
+    it('should extract varying bits from coarsened timestamps', async () => {
+      /**
+       * Deltas of 5-20ms on a 0.1ms grid, as browsers report them.
+       * Scaled by 1e9 instead of counted in ticks, every bit would be 0.
+       */
+      const target = new EventTarget();
+      const pending = collectInputEntropy({ target, sampleCount: 2000, timeoutMs: 1000, timestampResolutionMs: 0.1 });
+
+      let state = 12345;
+      let ticks = 0;
+      for (let i = 0; i < 2000; i++) {
+        state = (state * 1103515245 + 12345) % 2 ** 31;
+        ticks += 50 + (state % 151);
+        dispatch(target, 'keydown', ticks / 10);
+      }
+
+      const result = await pending;
+      const ones = Array.from(result.bytes).reduce((count, byte) => count + byte.toString(2).split('1').length - 1, 0);
+
+      expect(ones).toBeGreaterThan(800);
+      expect(ones).toBeLessThan(1200);
+      expect(result.estimatedBits).toBeGreaterThan(1000);
+      expect(result.estimatedBits).toBeLessThan(2000);
+    });
+
+    it('should credit nothing when every event yields the same bit', async () => {
+      const target = new EventTarget();
+      const pending = collectInputEntropy({ target, sampleCount: 256, timeoutMs: 1000, timestampResolutionMs: 1 });
+
+      for (let i = 1; i <= 256; i++) {
+        dispatch(target, 'keydown', i * 16);
+      }
+
+      const result = await pending;
+      expect(result.sampleCount).toBe(256);
+      expect(result.minEntropyPerSample).toBe(0);
+      expect(result.estimatedBits).toBe(0);
+    });
+
+    it('should reject a non-positive timestamp resolution', async () => {
+      await expect(
+        collectInputEntropy({ target: new EventTarget(), timestampResolutionMs: 0 })
+      ).rejects.toThrow(RangeError);
+    });
+
+    it('should remove its listeners after collection', async () => {
+      const target = new EventTarget();
+      const pending = collectInputEntropy({ target, sampleCount: 1, timeoutMs: 100 });
+      dispatch(target, 'keydown', 42);
+      const result = await pending;
+
+      /**
+       * Late events must not mutate the already returned buffer.
+       */
+      const snapshot = Array.from(result.bytes);
+      for (let i = 0; i < 16; i++) {
+        dispatch(target, 'keydown', 43 + i * 0.1234567);
+      }
+      expect(Array.from(result.bytes)).toEqual(snapshot);
+    });
+
+    it('should be deterministic for identical event streams', async () => {
+      /**
+       * The extraction is a pure function of timestamps and coordinates.
+       * This documents that, and guards the debiasing against regressions.
+       */
+      const run = async (): Promise<Uint8Array> => {
+        const target = new EventTarget();
+        const pending = collectInputEntropy({ target, sampleCount: 16, timeoutMs: 200 });
+        for (let i = 0; i < 16; i++) {
+          dispatch(target, 'pointermove', 1000 + i * 16.6789 + (i % 3) * 0.0421, {
+            clientX: 100 + i * i,
+            clientY: 200 - i * 3,
+          });
+        }
+        return (await pending).bytes;
+      };
+
+      const first = await run();
+      const second = await run();
+
+      /**
+       * The first bit is measured against the wall-clock start of
+       * collection, so only the bits after it are reproducible.
+       */
+      first[0] = first[0]! & 0x7f;
+      second[0] = second[0]! & 0x7f;
+      expect(first).toEqual(second);
+    });
+  });
+
+  describe('pool integration', () => {
+    it('should include the input source when events arrive', async () => {
+      const target = new EventTarget();
+      let t = 0;
+      const interval = setInterval(() => {
+        t += 7.3191;
+        dispatch(target, 'pointermove', t, { clientX: Math.floor(t), clientY: Math.floor(t * 2) });
+      }, 5);
+
+      try {
+        const result = await collectEntropy({
+          level: 'fast',
+          inputOptions: { target },
+        });
+        expect(result.stats.sourcesUsed).toContain('input');
+      } finally {
+        clearInterval(interval);
+      }
+    });
+
+    it('should skip the input source when the user is idle', async () => {
+      const result = await collectEntropy({
+        level: 'fast',
+        inputOptions: { target: new EventTarget(), timeoutMs: 20 },
+      });
+
+      expect(result.stats.sourcesUsed).not.toContain('input');
+      expect(result.stats.sourcesUsed).toContain('timing');
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  collectNodeEntropy,
+  createNodeEntropySource,
+  isNodeEntropyAvailable,
+} from '../../../src/entropy/sources/node';
+import { collectEntropy } from '../../../src/entropy/pool';
+import {
+  EntropyCollectionTimeoutError,
+  EntropySourceResponseError,
+  EntropySourceUnavailableError,
+} from '../../../src/entropy/errors';
+import { FlipAbortedError } from '../../../src/common/errors';
+
+describe('Node OS Entropy Source', () => {
+  /**
+   * Regular files stand in for devices: they go through the same open/read
+   * path, but with contents we control.
+   */
+  let directory: string;
+
+  beforeAll(() => {
+    directory = mkdtempSync(join(tmpdir(), 'flip-coin-node-'));
+    writeFileSync(join(directory, 'short'), new Uint8Array([1, 2, 3, 4, 5, 6, 7, 8]));
+    writeFileSync(join(directory, 'empty'), new Uint8Array(0));
+  });
+
+  afterAll(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  describe('isNodeEntropyAvailable', () => {
+    it('should detect the Node runtime', () => {
+      expect(isNodeEntropyAvailable()).toBe(true);
+    });
+  });
+
+  describe('node:crypto backend', () => {
+    it('should return full-entropy bytes and report the backend', async () => {
+      const result = await collectNodeEntropy({ byteCount: 48 });
+
+      expect(result.bytes).toBeInstanceOf(Uint8Array);
+      expect(result.bytes.length).toBe(48);
+      expect(result.estimatedBits).toBe(384);
+      expect(result.backend).toBe('node:crypto');
+      expect(result.devicePath).toBeUndefined();
+    });
+
+    it('should produce different bytes on each call', async () => {
+      const first = await collectNodeEntropy();
+      const second = await collectNodeEntropy();
+
+      expect(first.bytes).not.toEqual(second.bytes);
+    });
+  });
+
+  describe('device backend', () => {
+    it('should read /dev/urandom', async () => {
+      const result = await collectNodeEntropy({ devicePath: '/dev/urandom', byteCount: 32 });
+
+      expect(result.bytes.length).toBe(32);
+      expect(result.estimatedBits).toBe(256);
+      expect(result.backend).toBe('device');
+      expect(result.devicePath).toBe('/dev/urandom');
+    });
+
+    it('should credit only the bytes read, at deviceBitsPerByte', async () => {
+      const result = await collectNodeEntropy({
+        devicePath: join(directory, 'short'),
+        byteCount: 32,
+        deviceBitsPerByte: 2,
+      });
+
+      expect(result.bytes).toEqual(new Uint8Array([1, 2, 3, 4, 5, 6, 7, 8]));
+      expect(result.estimatedBits).toBe(16);
+    });
+
+    it('should fail instead of falling back when the device is missing', async () => {
+      await expect(collectNodeEntropy({ devicePath: join(directory, 'missing') }))
+        .rejects.toThrow(EntropySourceUnavailableError);
+    });
+
+    it('should reject a device that returns no data', async () => {
+      await expect(collectNodeEntropy({ devicePath: join(directory, 'empty') }))
+        .rejects.toThrow(EntropySourceResponseError);
+    });
+
+    it.skipIf(!existsSync('/dev/ptmx'))('should time out on a silent device without tying up a thread', async () => {
+      /**
+       * A fresh pseudo-terminal master never has data, like an idle hwrng.
+       * More collections than libuv has threadpool threads (4): a blocking
+       * read would leave none for the file read below.
+       */
+      for (let i = 0; i < 6; i++) {
+        await expect(collectNodeEntropy({ devicePath: '/dev/ptmx', timeoutMs: 20 }))
+          .rejects.toThrow(EntropyCollectionTimeoutError);
+      }
+
+      const startTime = performance.now();
+      await readFile(join(directory, 'short'));
+      expect(performance.now() - startTime).toBeLessThan(500);
+    });
+  });
+
+  describe('cancellation', () => {
+    it('should reject with FlipAbortedError when already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(collectNodeEntropy({ signal: controller.signal })).rejects.toThrow(FlipAbortedError);
+    });
+  });
+
+  describe('pool integration', () => {
+    it('should be swept when nodeOptions is set', async () => {
+      const result = await collectEntropy({ level: 'fast', nodeOptions: {} });
+
+      expect(result.stats.sourcesUsed).toContain('node');
+    });
+
+    it('should size its request from targetBits', async () => {
+      const source = createNodeEntropySource();
+      const output = await source.collect({ targetBits: 512, timeoutMs: 250 });
+
+      expect(output.bytes.length).toBe(64);
+    });
+  });
+});
@@ -0,0 +1,261 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import { randomBytes } from 'node:crypto';
+import type { AddressInfo } from 'node:net';
+import {
+  collectQuantumEntropy,
+  isQuantumEntropyAvailable,
+} from '../../../src/entropy/sources/quantum';
+import { collectEntropy } from '../../../src/entropy/pool';
+import type { QuantumTransport } from '../../../src/entropy/types';
+import {
+  EntropyCollectionTimeoutError,
+  EntropySourceResponseError,
+  EntropySourceUnavailableError,
+} from '../../../src/entropy/errors';
+import { FlipAbortedError } from '../../../src/common/errors';
+
+/**
+ * Local stub server speaking both QRNG formats.
+ *
+ * - GET  /anu?length=N&type=uint8  → ANU QRNG envelope (fixed pattern)
+ * - GET  /anu-random?length=N      → ANU QRNG envelope (fresh random bytes,
+ *                                    so repeated sweeps pass the health tests)
+ * - POST /random-org               → random.org JSON-RPC envelope
+ * - GET  /broken                   → HTTP 500
+ * - GET  /hang                     → never answers
+ */
+function startStubServer(): Promise<Server> {
+  const server = createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    if (url.pathname === '/anu' || url.pathname === '/anu-random') {
+      const length = Number(url.searchParams.get('length'));
+      const data = url.pathname === '/anu'
+        ? Array.from({ length }, (_, i) => (i * 37) % 256)
+        : Array.from(randomBytes(length));
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ type: 'uint8', length, data, success: true }));
+      return;
+    }
+
+    if (url.pathname === '/random-org') {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        const rpc = JSON.parse(body);
+        const data = Array.from({ length: rpc.params.n }, (_, i) => (i * 11) % 256);
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({ jsonrpc: '2.0', result: { random: { data } }, id: rpc.id }));
+      });
+      return;
+    }
+
+    if (url.pathname === '/broken') {
+      res.statusCode = 500;
+      res.end('internal error');
+      return;
+    }
+
+    /**
+     * /hang: deliberately leave the request open.
+     */
+  });
+
+  return new Promise((resolve) => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+/**
+ * Builds a transport that answers with a fixed JSON body, no network involved.
+ */
+function stubTransport(body: unknown, status = 200): QuantumTransport {
+  return async () => ({
+    ok: status >= 200 && status < 300,
+    status,
+    json: async () => body,
+  });
+}
+
+describe('Quantum Entropy Source', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = await startStubServer();
+    const { port } = server.address() as AddressInfo;
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  describe('isQuantumEntropyAvailable', () => {
+    it('should be available when a transport is supplied', () => {
+      expect(isQuantumEntropyAvailable({ transport: stubTransport({}) })).toBe(true);
+    });
+
+    it('should fall back to global fetch', () => {
+      /**
+       * Node 18+ ships fetch globally, so the default transport exists.
+       */
+      expect(isQuantumEntropyAvailable()).toBe(typeof globalThis.fetch === 'function');
+    });
+  });
+
+  describe('collectQuantumEntropy (stub server)', () => {
+    it('should parse the ANU QRNG format', async () => {
+      const result = await collectQuantumEntropy({
+        provider: 'anu',
+        endpoint: `${baseUrl}/anu`,
+        byteCount: 16,
+      });
+
+      expect(result.provider).toBe('anu');
+      expect(result.bytes.length).toBe(16);
+      expect(result.bytes[1]).toBe(37);
+      expect(result.estimatedBits).toBe(128);
+      expect(result.collectionTimeMs).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should parse the random.org JSON-RPC format', async () => {
+      const result = await collectQuantumEntropy({
+        provider: 'random-org',
+        endpoint: `${baseUrl}/random-org`,
+        apiKey: 'test-key',
+        byteCount: 8,
+      });
+
+      expect(result.provider).toBe('random-org');
+      expect(result.bytes.length).toBe(8);
+      expect(result.bytes[2]).toBe(22);
+      expect(result.estimatedBits).toBe(64);
+    });
+
+    it('should reject non-2xx responses', async () => {
+      await expect(
+        collectQuantumEntropy({ endpoint: `${baseUrl}/broken` })
+      ).rejects.toThrow(EntropySourceResponseError);
+    });
+
+    it('should time out on a hanging server', async () => {
+      await expect(
+        collectQuantumEntropy({ endpoint: `${baseUrl}/hang`, timeoutMs: 50 })
+      ).rejects.toThrow(EntropyCollectionTimeoutError);
+    });
+  });
+
+  describe('collectQuantumEntropy (stub transport)', () => {
+    it('should credit only the bytes actually received', async () => {
+      /**
+       * We ask for 32 bytes but the service only delivers 4.
+       * Honest accounting means 32 bits, not 256.
+       */
+      const result = await collectQuantumEntropy({
+        byteCount: 32,
+        transport: stubTransport({ type: 'uint8', length: 4, data: [1, 2, 3, 4], success: true }),
+      });
+
+      expect(result.bytes.length).toBe(4);
+      expect(result.estimatedBits).toBe(32);
+    });
+
+    it('should reject values outside the byte range', async () => {
+      await expect(
+        collectQuantumEntropy({
+          transport: stubTransport({ type: 'uint8', data: [1, 256, 3], success: true }),
+        })
+      ).rejects.toThrow(EntropySourceResponseError);
+    });
+
+    it('should reject an ANU response that did not succeed', async () => {
+      await expect(
+        collectQuantumEntropy({
+          transport: stubTransport({ success: false }),
+        })
+      ).rejects.toThrow(EntropySourceResponseError);
+    });
+
+    it('should surface random.org JSON-RPC errors', async () => {
+      await expect(
+        collectQuantumEntropy({
+          provider: 'random-org',
+          apiKey: 'bad-key',
+          transport: stubTransport({ jsonrpc: '2.0', error: { code: 401, message: 'bad key' }, id: 1 }),
+        })
+      ).rejects.toThrow(/bad key/);
+    });
+
+    it('should require an API key for random.org', async () => {
+      await expect(
+        collectQuantumEntropy({ provider: 'random-org', transport: stubTransport({}) })
+      ).rejects.toThrow(EntropySourceUnavailableError);
+    });
+
+    it('should abort the transport when the timeout fires', async () => {
+      let aborted = false;
+      const transport: QuantumTransport = (_url, init) =>
+        new Promise((_resolve, reject) => {
+          init.signal?.addEventListener('abort', () => {
+            aborted = true;
+            reject(new Error('aborted'));
+          });
+        });
+
+      await expect(collectQuantumEntropy({ transport, timeoutMs: 20 })).rejects.toThrow(
+        EntropyCollectionTimeoutError
+      );
+      expect(aborted).toBe(true);
+    });
+
+    it('should abort the transport when the caller aborts', async () => {
+      let aborted = false;
+      const transport: QuantumTransport = (_url, init) =>
+        new Promise((_resolve, reject) => {
+          init.signal?.addEventListener('abort', () => {
+            aborted = true;
+            reject(new Error('aborted'));
+          });
+        });
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 20);
+
+      await expect(collectQuantumEntropy({ transport, timeoutMs: 5000, signal: controller.signal }))
+        .rejects.toThrow(FlipAbortedError);
+      expect(aborted).toBe(true);
+    });
+  });
+
+  describe('pool integration', () => {
+    it('should include the quantum source when configured', async () => {
+      const result = await collectEntropy({
+        level: 'fast',
+        quantumOptions: { endpoint: `${baseUrl}/anu-random` },
+      });
+
+      expect(result.stats.sourcesUsed).toContain('quantum');
+    });
+
+    it('should skip the quantum source without failing when the network is down', async () => {
+      const offline: QuantumTransport = async () => {
+        throw new TypeError('fetch failed');
+      };
+
+      const result = await collectEntropy({
+        level: 'fast',
+        quantumOptions: { transport: offline },
+      });
+
+      expect(result.stats.sourcesUsed).not.toContain('quantum');
+      expect(result.stats.sourcesUsed).toContain('timing');
+      expect(result.bytes.length).toBe(64);
+    });
+
+    it('should not query the quantum source unless configured', async () => {
+      const result = await collectEntropy({ level: 'fast' });
+
+      expect(result.stats.sourcesUsed).not.toContain('quantum');
+    });
+  });
+});
@@ -1,5 +1,8 @@
-import { describe, it, expect } from 'vitest';
-import { collectTimingEntropy } from '../../../src/entropy/sources/timing';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { collectTimingEntropy, detectClockResolution } from '../../../src/entropy/sources/timing';
+import { estimateBitMinEntropy, unpackBits } from '../../../src/entropy/estimators';
+import type { TimingExtractor } from '../../../src/entropy/types';
+import { FlipAbortedError } from '../../../src/common/errors';
 
 describe('Timing Entropy Source', () => {
   /**
@@ -218,4 +221,191 @@ describe('Timing Entropy Source', () => {
       expect(result.collectionTimeMs).toBeLessThan(elapsed + 10);
     });
   });
+
+  describe('Clock Resolution', () => {
+    it('should detect a positive resolution and cache it', () => {
+      const resolution = detectClockResolution();
+
+      expect(resolution).toBeGreaterThan(0);
+      expect(resolution).toBeLessThan(20);
+      expect(detectClockResolution()).toBe(resolution);
+    });
+
+    it('should give up on a frozen clock within its time bound', async () => {
+      vi.resetModules();
+      const timing = await import('../../../src/entropy/sources/timing');
+      const now = vi.spyOn(performance, 'now').mockReturnValue(1000);
+
+      try {
+        const began = Date.now();
+
+        expect(timing.detectClockResolution()).toBe(Infinity);
+        expect(Date.now() - began).toBeLessThan(200);
+      } finally {
+        now.mockRestore();
+        vi.resetModules();
+      }
+    });
+
+    it('should not detect the resolution when the default registry loads', async () => {
+      vi.resetModules();
+      const now = vi.spyOn(performance, 'now');
+
+      try {
+        const registry = await import('../../../src/entropy/registry');
+
+        expect(registry.getRegisteredEntropySources().map((source) => source.name)).toContain('timing');
+        expect(now).not.toHaveBeenCalled();
+      } finally {
+        now.mockRestore();
+        vi.resetModules();
+      }
+    });
+
+    it('should report the resolution the ticks were counted in', async () => {
+      const detected = await collectTimingEntropy({ sampleCount: 16 });
+      const overridden = await collectTimingEntropy({ sampleCount: 16, clockResolutionMs: 0.1 });
+
+      expect(detected.clockResolutionMs).toBe(detectClockResolution());
+      expect(overridden.clockResolutionMs).toBe(0.1);
+    });
+
+    it('should credit nothing when the clock is too coarse to see jitter', async () => {
+      /**
+       * Every chaotic-work burst takes far less than a second: all deltas
+       * round to 0 ticks, like a 1ms-clamped browser timer on fast work.
+       */
+      const result = await collectTimingEntropy({ sampleCount: 128, clockResolutionMs: 1000 });
+
+      expect(result.minEntropyPerSample).toBe(0);
+      expect(result.estimatedBits).toBe(0);
+      expect(Object.values(result.estimates)).toEqual([0, 0, 0, 0]);
+      expect(result.bytes.every((byte) => byte === 0)).toBe(true);
+    });
+
+    it('should reject a non-positive resolution', async () => {
+      await expect(collectTimingEntropy({ clockResolutionMs: 0 })).rejects.toThrow(RangeError);
+    });
+  });
+
+  describe('Extractors', () => {
+    const extractors: TimingExtractor[] = ['xor-fold', 'von-neumann', 'jitter-fold', 'toeplitz'];
+
+    for (const extractor of extractors) {
+      it(`should report ${extractor} output and its estimate`, async () => {
+        const result = await collectTimingEntropy({ sampleCount: 256, extractor });
+
+        expect(result.extractor).toBe(extractor);
+        expect(result.sampleCount).toBe(256);
+        expect(result.estimatedBits).toBe(result.estimates[extractor]);
+        expect(result.estimatedBits).toBeLessThanOrEqual(result.bytes.length * 8);
+        expect(result.estimatedBits).toBeLessThanOrEqual(
+          Math.floor(result.sampleCount * Math.min(1, result.minEntropyPerSample))
+        );
+      });
+    }
+
+    it('should measure the min-entropy of the bits it credits', async () => {
+      /**
+       * xor-fold output is the folded bits themselves, packed MSB-first.
+       */
+      const result = await collectTimingEntropy({ sampleCount: 256, extractor: 'xor-fold', clockResolutionMs: 0.000001 });
+      const bits = unpackBits(result.bytes).slice(0, result.sampleCount);
+
+      expect(result.minEntropyPerSample).toBeLessThanOrEqual(1);
+      expect(result.minEntropyPerSample).toBe(estimateBitMinEntropy(bits).minEntropyPerBit);
+      expect(result.estimatedBits).toBe(Math.floor(result.sampleCount * result.minEntropyPerSample));
+    });
+
+    it('should default to xor-fold, one bit per sample', async () => {
+      const result = await collectTimingEntropy({ sampleCount: 64 });
+
+      expect(result.extractor).toBe('xor-fold');
+      expect(result.bytes.length).toBe(8);
+    });
+
+    it('should keep at most one bit per pair with von-neumann', async () => {
+      const result = await collectTimingEntropy({ sampleCount: 256, extractor: 'von-neumann' });
+
+      expect(result.bytes.length).toBeLessThanOrEqual(16);
+    });
+
+    it('should fold two samples per bit with jitter-fold', async () => {
+      const result = await collectTimingEntropy({ sampleCount: 256, extractor: 'jitter-fold' });
+
+      expect(result.bytes.length).toBeLessThanOrEqual(16);
+    });
+
+    it('should compress to half the measured min-entropy with toeplitz', async () => {
+      const result = await collectTimingEntropy({ sampleCount: 256, extractor: 'toeplitz' });
+      const m = Math.floor((256 * Math.min(1, result.minEntropyPerSample)) / 2);
+
+      expect(result.estimatedBits).toBe(m);
+      expect(result.bytes.length).toBe(Math.ceil(m / 8));
+    });
+  });
+
+  describe('Cancellation', () => {
+    it('should stop sampling when the signal aborts', async () => {
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 10);
+
+      await expect(collectTimingEntropy({
+        sampleCount: 1_000_000,
+        timeoutMs: 10000,
+        signal: controller.signal,
+      })).rejects.toThrow(FlipAbortedError);
+    });
+  });
+
+  describe('Worker Threads', () => {
+    afterEach(() => {
+      vi.doUnmock('../../../src/entropy/sources/runtime');
+      vi.resetModules();
+    });
+
+    it('should sample on the calling thread by default', async () => {
+      const result = await collectTimingEntropy({ sampleCount: 64 });
+
+      expect(result.thread).toBe('main');
+    });
+
+    it('should sample in a worker and extract the streamed deltas', async () => {
+      const result = await collectTimingEntropy({ sampleCount: 256, timeoutMs: 5000, worker: true });
+
+      expect(result.thread).toBe('worker');
+      expect(result.sampleCount).toBe(256);
+      expect(result.bytes.length).toBe(32);
+      expect(result.estimatedBits).toBeLessThanOrEqual(256);
+    });
+
+    it('should fall back to the calling thread when no worker can start', async () => {
+      /**
+       * Node has no global Worker, so hiding Node leaves no worker API.
+       */
+      vi.doMock('../../../src/entropy/sources/runtime', async (importOriginal) => ({
+        ...await importOriginal<typeof import('../../../src/entropy/sources/runtime')>(),
+        isNodeRuntime: () => false,
+      }));
+      vi.resetModules();
+      const timing = await import('../../../src/entropy/sources/timing');
+
+      const result = await timing.collectTimingEntropy({ sampleCount: 64, worker: true });
+
+      expect(result.thread).toBe('main');
+      expect(result.sampleCount).toBe(64);
+    });
+
+    it('should terminate the worker when the signal aborts', async () => {
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 10);
+
+      await expect(collectTimingEntropy({
+        sampleCount: 100_000_000,
+        timeoutMs: 10000,
+        worker: true,
+        signal: controller.signal,
+      })).rejects.toThrow(FlipAbortedError);
+    });
+  });
 });
@@ -0,0 +1,197 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { zeroize, makeDisposable, DISPOSE } from '../../src/entropy/zeroize';
+import { collectEntropy } from '../../src/entropy/pool';
+import { mixEntropy, expandEntropy, deriveEntropy } from '../../src/entropy/mixer';
+import { createEntropyAccumulator } from '../../src/entropy/accumulator';
+import type { EntropySource, Mixer } from '../../src/entropy/types';
+import { FlipAbortedError } from '../../src/common/errors';
+
+const isWiped = (bytes: Uint8Array): boolean => bytes.every((byte) => byte === 0);
+
+/**
+ * A source that keeps a reference to every buffer it hands over.
+ */
+function recordingSource(handedOver: Uint8Array[]): EntropySource {
+  return {
+    name: 'recording',
+    quality: 5,
+    timeoutMs: 100,
+    isAvailable: () => true,
+    collect: async () => {
+      const bytes = crypto.getRandomValues(new Uint8Array(64));
+      handedOver.push(bytes);
+      return { bytes, estimatedBits: 512 };
+    },
+  };
+}
+
+describe('Zeroization', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('zeroize', () => {
+    it('should overwrite every buffer and skip undefined ones', () => {
+      const a = new Uint8Array([1, 2, 3]);
+      const b = new Uint8Array([4, 5]);
+
+      zeroize(a, undefined, b);
+
+      expect(isWiped(a) && isWiped(b)).toBe(true);
+    });
+  });
+
+  describe('makeDisposable', () => {
+    it('should wipe bytes on dispose without changing how the object serializes', () => {
+      const value = makeDisposable({ bytes: new Uint8Array([9, 9]), label: 'x' });
+
+      expect(Object.keys(value)).toEqual(['bytes', 'label']);
+      value[DISPOSE]();
+      value[DISPOSE]();
+
+      expect(value.bytes).toEqual(new Uint8Array(2));
+    });
+  });
+
+  describe('mixing and expansion', () => {
+    it('should wipe the framed input once the mixer has hashed it', async () => {
+      let framed: Uint8Array | undefined;
+      const mixer: Mixer = {
+        name: 'recording',
+        digestLength: 32,
+        digest: async (data) => {
+          framed = data;
+          return new Uint8Array(32).fill(7);
+        },
+      };
+
+      await mixEntropy([new Uint8Array([1, 2]), new Uint8Array([3])], mixer);
+
+      expect(framed).toHaveLength(11);
+      expect(isWiped(framed!)).toBe(true);
+    });
+
+    it('should wipe every HMAC key and input copy during HKDF', async () => {
+      const imported: Uint8Array[] = [];
+      const signed: Uint8Array[] = [];
+      const importKey = crypto.subtle.importKey.bind(crypto.subtle);
+      const sign = crypto.subtle.sign.bind(crypto.subtle);
+      vi.spyOn(crypto.subtle, 'importKey').mockImplementation(((format: 'raw', key: Uint8Array, ...rest: never[]) => {
+        imported.push(key);
+        return importKey(format, key, ...rest);
+      }) as typeof crypto.subtle.importKey);
+      vi.spyOn(crypto.subtle, 'sign').mockImplementation(((algorithm: string, key: CryptoKey, data: Uint8Array) => {
+        signed.push(data);
+        return sign(algorithm, key, data);
+      }) as typeof crypto.subtle.sign);
+
+      const seed = new Uint8Array(32).fill(5);
+      const output = await expandEntropy(seed, 100, 'launch');
+      await deriveEntropy(seed, 'perturbation', 64);
+
+      expect(output.some((byte) => byte !== 0)).toBe(true);
+      expect(imported.length).toBeGreaterThan(0);
+      expect(imported.every(isWiped)).toBe(true);
+      expect(signed.every(isWiped)).toBe(true);
+      expect(seed.every((byte) => byte === 5)).toBe(true);
+    });
+  });
+
+  describe('collectEntropy', () => {
+    it('should leave source output intact and return a disposable result', async () => {
+      const handedOver: Uint8Array[] = [];
+
+      const result = await collectEntropy({ level: 'fast', sources: [recordingSource(handedOver)] });
+
+      expect(handedOver.length).toBeGreaterThan(0);
+      expect(handedOver.some(isWiped)).toBe(false);
+      expect(isWiped(result.bytes)).toBe(false);
+
+      result[DISPOSE]();
+      expect(isWiped(result.bytes)).toBe(true);
+    });
+
+    it('should leave a cached source buffer intact across collections', async () => {
+      const cached = crypto.getRandomValues(new Uint8Array(64));
+      const snapshot = cached.slice();
+      const source: EntropySource = {
+        name: 'cached',
+        quality: 5,
+        timeoutMs: 100,
+        isAvailable: () => true,
+        collect: async () => ({ bytes: cached, estimatedBits: 512 }),
+      };
+
+      await collectEntropy({ level: 'fast', sources: [source] });
+      const result = await collectEntropy({ level: 'fast', sources: [source] });
+
+      expect(cached).toEqual(snapshot);
+      expect(isWiped(result.bytes)).toBe(false);
+    });
+
+    it('should leave source output intact when the collection is aborted', async () => {
+      const handedOver: Uint8Array[] = [];
+      const controller = new AbortController();
+      let beforeAbort = 0;
+
+      /**
+       * An unreachable target keeps it sweeping; abort as sweep 2 starts.
+       */
+      const collection = collectEntropy({
+        level: { targetBits: 1_000_000, minTimeMs: 0, maxTimeMs: 5000 },
+        sources: [recordingSource(handedOver)],
+        signal: controller.signal,
+        hooks: {
+          onSweepStart: ({ sweep }) => {
+            if (sweep === 2) {
+              beforeAbort = handedOver.length;
+              controller.abort();
+            }
+          },
+        },
+      });
+
+      await expect(collection).rejects.toThrow(FlipAbortedError);
+      expect(beforeAbort).toBeGreaterThan(0);
+      expect(handedOver.slice(0, beforeAbort).some(isWiped)).toBe(false);
+    });
+  });
+
+  describe('accumulator', () => {
+    it('should leave source output intact and serve disposable reads', async () => {
+      const handedOver: Uint8Array[] = [];
+      const accumulator = createEntropyAccumulator({
+        level: 'fast',
+        sources: [recordingSource(handedOver)],
+        sweepIntervalMs: 5,
+        minReseedIntervalMs: 0,
+      });
+
+      accumulator.start();
+      await vi.waitFor(() => expect(accumulator.isSeeded()).toBe(true));
+      await accumulator.stop();
+      const result = await accumulator.read(32);
+
+      expect(handedOver.some(isWiped)).toBe(false);
+      result[DISPOSE]();
+      expect(isWiped(result.bytes)).toBe(true);
+    });
+  });
+
+  describe('provenance', () => {
+    it('should wipe the copies it hashes for commitments', async () => {
+      const hashed: Uint8Array[] = [];
+      const digest = crypto.subtle.digest.bind(crypto.subtle);
+      vi.spyOn(crypto.subtle, 'digest').mockImplementation(((algorithm: string, data: Uint8Array) => {
+        hashed.push(data);
+        return digest(algorithm, data);
+      }) as typeof crypto.subtle.digest);
+
+      const result = await collectEntropy({ level: 'fast', sources: [recordingSource([])], provenance: true });
+
+      expect(result.provenance!.outputCommitment).toMatch(/^[0-9a-f]{64}$/);
+      expect(hashed.length).toBeGreaterThan(0);
+      expect(hashed.every(isWiped)).toBe(true);
+    });
+  });
+});
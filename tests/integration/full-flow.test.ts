@@ -1,5 +1,5 @@
-import { describe, it, expect } from 'vitest';
-import { flipCoin } from '../../src/index';
+import { describe, it, expect, vi } from 'vitest';
+import { createTimingEntropySource, flipCoin } from '../../src/index';
 import { debugFlipCoin } from '../../src/debug';
 import { Vec3 } from '../../src/physics/math/vec3';
 import { Quaternion } from '../../src/physics/math/quaternion';
@@ -105,4 +105,37 @@ describe('Integration: Full Flow', () => {
         expect(result.initialConditions.position.y).toBeCloseTo(startHeight);
         expect(result.initialConditions.angularVelocity.magnitude()).toBe(0);
     });
+
+    /**
+     * With redactSeed, nothing in the result can confirm a guess of the
+     * seed: no commitments, and no seed from the debug API.
+     */
+    it('should keep the seed out of the result with redactSeed', async () => {
+        const result = await flipCoin({ entropyLevel: 'fast', provenance: true, redactSeed: true });
+        const debug = await debugFlipCoin({ entropyLevel: 'fast', provenance: true, redactSeed: true });
+
+        for (const provenance of [result.provenance!, debug.provenance!]) {
+            expect(provenance.outputCommitment).toBeUndefined();
+            expect(provenance.sources.some((source) => source.contributions.length > 0)).toBe(true);
+            for (const source of provenance.sources) {
+                expect(source.contributions.every((c) => c.commitment === undefined)).toBe(true);
+            }
+        }
+        expect(debug.seed).toBeUndefined();
+    });
+
+    /**
+     * Timing options (extractor, worker, ...) are set on a timing source
+     * passed per flip, which replaces the registered one.
+     */
+    it('should use a timing source configured through the public API', async () => {
+        const timing = createTimingEntropySource({ extractor: 'von-neumann', clockResolutionMs: 0.001 });
+        const collect = vi.spyOn(timing, 'collect');
+
+        const result = await flipCoin({ entropyLevel: 'fast', entropySources: [timing] });
+
+        expect(result.outcome).toMatch(/^(HEADS|TAILS)$/);
+        expect(collect).toHaveBeenCalled();
+        await expect(collect.mock.results[0]!.value).resolves.toMatchObject({ extractor: 'von-neumann' });
+    });
 });
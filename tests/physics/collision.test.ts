@@ -207,28 +207,107 @@ describe('detectCollision', () => {
     it('should account for coin orientation when detecting collision', () => {
         /**
          * Coin tilted 90° around X-axis (standing on edge).
-         * When the coin is tilted, its "up" direction changes, affecting
-         * the lowest point calculation.
+         * The thickness now extends along Z, and the radius along Y.
          *
-         * With coin at y = 0.01 and tilted 90°:
-         * -> Local up = (0, 1, 0) rotates to (0, 0, 1) in world space
-         * -> Lowest point = (0, 0.01, 0) - (0, 0, 0.001) = (0, 0.01, -0.001)
-         * -> Lowest y = 0.01, so no collision expected
+         * With coin at y = 0.013 and radius = 0.012:
+         * -> Lowest point y = 0.013 - 0.012 = 0.001 > 0
+         * -> No collision expected
          */
         const tiltedOrientation = Quaternion.fromAxisAngle(Vec3.RIGHT, Math.PI / 2);
         const coin = createCoin({
-            position: new Vec3(0, 0.01, 0),
+            position: new Vec3(0, 0.013, 0),
             orientation: tiltedOrientation,
         });
 
+        expect(detectCollision(coin).colliding).toBe(false);
+
+        /**
+         * Lowered to y = 0.01, the rim reaches y = -0.002.
+         */
+        coin.position = new Vec3(0, 0.01, 0);
         const result = detectCollision(coin);
 
+        expect(result.colliding).toBe(true);
+        expect(result.penetrationDepth).toBeCloseTo(0.002, 6);
+    });
+
+    it('should report an edge-line contact for a coin standing on its edge', () => {
         /**
-         * The coin is standing on its edge, with center at y = 0.01.
-         * The "thickness" now extends in the Z direction, not Y.
-         * So the lowest Y point is just the center Y = 0.01 > 0.
+         * Upright coin at (1, 0.011, 2), axis along Z:
+         * -> The whole rim segment across the thickness is at y = -0.001
+         * -> Contact at its middle: (1, 0.011 - 0.012, 2), projected to (1, 0, 2)
          */
-        expect(result.colliding).toBe(false);
+        const coin = createCoin({
+            position: new Vec3(1, 0.011, 2),
+            orientation: Quaternion.fromAxisAngle(Vec3.RIGHT, Math.PI / 2),
+        });
+
+        const result = detectCollision(coin);
+
+        expect(result.contactType).toBe('edge-line');
+        expect(result.penetrationDepth).toBeCloseTo(0.001, 6);
+        expect(result.contactPoint?.x).toBeCloseTo(1, 6);
+        expect(result.contactPoint?.y).toBeCloseTo(0, 6);
+        expect(result.contactPoint?.z).toBeCloseTo(2, 6);
+    });
+
+    it('should find the lowest rim point of a tilted coin', () => {
+        /**
+         * Coin tilted 30° around X-axis:
+         * -> n = (0, cos 30°, sin 30°) = (0, 0.866, 0.5)
+         * -> Lower face centre = -(h/2) * n = (0, -0.000866, -0.0005)
+         * -> Rim direction = (0, -1, 0) + 0.866 * n = (0, -0.25, 0.433), normalized (0, -0.5, 0.866)
+         * -> Lowest point = (0, -0.000866 - 0.006, -0.0005 + 0.010392)
+         */
+        const tilt = Math.PI / 6;
+        const coin = createCoin({
+            position: new Vec3(0, 0, 0),
+            orientation: Quaternion.fromAxisAngle(Vec3.RIGHT, tilt),
+        });
+
+        const result = detectCollision(coin);
+
+        const expectedDepth = 0.001 * Math.cos(tilt) + 0.012 * Math.sin(tilt);
+        expect(result.contactType).toBe('rim');
+        expect(result.penetrationDepth).toBeCloseTo(expectedDepth, 9);
+        expect(result.contactPoint?.x).toBeCloseTo(0, 9);
+        expect(result.contactPoint?.y).toBeCloseTo(0, 9);
+        expect(result.contactPoint?.z).toBeCloseTo(0.012 * Math.cos(tilt) - 0.001 * Math.sin(tilt), 9);
+    });
+
+    it('should not let a tilted coin sink its rim into the floor', () => {
+        /**
+         * A coin tilted 10° whose face centre is above the ground still has its
+         * rim 0.012 * sin 10° ≈ 2.08mm lower.
+         */
+        const coin = createCoin({
+            position: new Vec3(0, 0.002, 0),
+            orientation: Quaternion.fromAxisAngle(Vec3.FORWARD, Math.PI / 18),
+        });
+
+        const result = detectCollision(coin);
+
+        expect(result.colliding).toBe(true);
+        expect(result.contactType).toBe('rim');
+        expect(result.penetrationDepth).toBeGreaterThan(0.001);
+    });
+
+    it('should report a face contact at the lower face centre for a flat coin', () => {
+        /**
+         * Upside down (tails up), the lower face is at centre + (h/2) * n, with
+         * n = (0, -1, 0). Either way the contact is under the centre.
+         */
+        const coin = createCoin({
+            position: new Vec3(0.3, 0, -0.4),
+            orientation: Quaternion.fromAxisAngle(Vec3.RIGHT, Math.PI),
+        });
+
+        const result = detectCollision(coin);
+
+        expect(result.contactType).toBe('face');
+        expect(result.penetrationDepth).toBeCloseTo(0.001, 6);
+        expect(result.contactPoint?.x).toBeCloseTo(0.3, 6);
+        expect(result.contactPoint?.z).toBeCloseTo(-0.4, 6);
     });
 
     it('should detect collision for tilted coin close to ground', () => {
@@ -247,8 +326,7 @@ describe('detectCollision', () => {
         /**
          * When tilted 45°, the "up" vector is at an angle.
          * up_world ≈ (0, 0.707, 0.707) (pointing up and forward)
-         * Lowest point = (0, 0, 0) - (0, 0.707, 0.707) * 0.001
-         * Lowest y ≈ -0.0007m < 0
+         * Lowest y = -(0.001 * 0.707) - (0.012 * 0.707) ≈ -0.0092m < 0
          */
         const result = detectCollision(coin);
         expect(result.colliding).toBe(true);
@@ -4,17 +4,23 @@ import * as entropyPool from '../../src/entropy/pool';
 import * as stability from '../../src/simulation/stability';
 import * as faceEvaluator from '../../src/evaluator/face';
 import * as integrator from '../../src/physics/integrator';
+import * as initial from '../../src/simulation/initial';
 import { SimulationTimeoutError } from '../../src/simulation/errors/simulation-timeout-error';
 import { EdgeRetryExhaustedError } from '../../src/simulation/errors/edge-retry-exhausted-error';
+import { FlipAbortedError } from '../../src/common/errors';
+import { EntropySourceHealthError } from '../../src/entropy/errors';
 
 function mockEntropy(bytes: Uint8Array = new Uint8Array(32)) {
     vi.spyOn(entropyPool, 'collectEntropy').mockResolvedValue({
         bytes,
         stats: {
             totalBits: bytes.length * 8,
+            claimedBits: bytes.length * 8,
             collectionTimeMs: 0,
             sourcesUsed: [],
-            level: 'standard'
+            level: 'standard',
+            healthErrors: [],
+            degraded: false
         }
     });
 }
@@ -40,6 +46,125 @@ describe('flipCoin', () => {
         expect(entropyPool.collectEntropy).toHaveBeenCalledTimes(1);
     });
 
+    it('should pass entropySources through to entropy collection', async () => {
+        const source = {
+            name: 'custom',
+            quality: 4,
+            timeoutMs: 100,
+            isAvailable: () => true,
+            collect: async () => ({ bytes: new Uint8Array(16), estimatedBits: 8 }),
+        };
+
+        await flipCoin({ entropySources: [source] });
+
+        expect(entropyPool.collectEntropy).toHaveBeenCalledWith(
+            expect.objectContaining({ sources: [source] })
+        );
+    });
+
+    it('should pass strict through and report degraded entropy', async () => {
+        vi.spyOn(entropyPool, 'collectEntropy').mockResolvedValue({
+            bytes: new Uint8Array(32),
+            stats: {
+                totalBits: 40,
+                claimedBits: 64,
+                collectionTimeMs: 0,
+                sourcesUsed: ['timing'],
+                level: 'fast',
+                healthErrors: [],
+                degraded: true
+            }
+        });
+
+        const result = await flipCoin({ entropyLevel: 'fast' });
+
+        expect(result.stats.degraded).toBe(true);
+
+        await flipCoin({ strict: true });
+        expect(entropyPool.collectEntropy).toHaveBeenLastCalledWith(
+            expect.objectContaining({ strict: true })
+        );
+    });
+
+    it('should report sources that failed a health test', async () => {
+        const healthError = new EntropySourceHealthError('timing', 'repetition-count', 6, 6);
+        vi.spyOn(entropyPool, 'collectEntropy').mockResolvedValue({
+            bytes: new Uint8Array(32),
+            stats: {
+                totalBits: 256,
+                claimedBits: 256,
+                collectionTimeMs: 0,
+                sourcesUsed: ['crypto'],
+                level: 'standard',
+                healthErrors: [healthError],
+                degraded: false
+            }
+        });
+
+        const result = await flipCoin();
+
+        expect(result.stats.healthErrors).toEqual([healthError]);
+    });
+
+    it('should surface the entropy provenance when asked for', async () => {
+        const provenance = {
+            version: 1 as const,
+            mode: 'inline' as const,
+            level: 'standard' as const,
+            startedAt: new Date(0).toISOString(),
+            collectionTimeMs: 0,
+            totalBits: 256,
+            claimedBits: 256,
+            degraded: false,
+            sources: [],
+            outputCommitment: '00',
+        };
+        vi.spyOn(entropyPool, 'collectEntropy').mockResolvedValue({
+            bytes: new Uint8Array(32),
+            stats: {
+                totalBits: 256,
+                claimedBits: 256,
+                collectionTimeMs: 0,
+                sourcesUsed: [],
+                level: 'standard',
+                healthErrors: [],
+                degraded: false
+            },
+            provenance
+        });
+
+        const result = await flipCoin({ provenance: true });
+
+        expect(entropyPool.collectEntropy).toHaveBeenCalledWith(
+            expect.objectContaining({ provenance: true })
+        );
+        expect(result.provenance).toEqual(provenance);
+    });
+
+    it('should pass the prefetcher through and report its queue stats', async () => {
+        const stats = { capacity: 4, queued: 3, collected: 5, served: 2, misses: 1, failures: 0 };
+        const prefetcher = {
+            start: () => { },
+            stop: async () => { },
+            isRunning: () => true,
+            take: () => undefined,
+            getStats: () => stats,
+        };
+
+        const result = await flipCoin({ entropyPrefetcher: prefetcher });
+
+        expect(entropyPool.collectEntropy).toHaveBeenCalledWith(
+            expect.objectContaining({ prefetcher })
+        );
+        expect(result.stats.prefetch).toEqual(stats);
+    });
+
+    it('should omit prefetch stats without a prefetcher', async () => {
+        const result = await flipCoin();
+
+        expect(result.stats.prefetch).toBeUndefined();
+    });
+
     it('should handle edge retries', async () => {
         const faceSpy = vi.spyOn(faceEvaluator, 'determineFace');
         faceSpy
@@ -53,6 +178,33 @@ describe('flipCoin', () => {
         expect(entropyPool.collectEntropy).toHaveBeenCalledTimes(2);
     });
 
+    it('should derive a separate launch stream for every retry', async () => {
+        /**
+         * The controller wipes the buffers once the state is generated,
+         * so record copies.
+         */
+        const generateInitialCondition = initial.generateInitialCondition;
+        const calls: (Uint8Array | undefined)[][] = [];
+        vi.spyOn(initial, 'generateInitialCondition').mockImplementation((entropy, params, perturbation) => {
+            calls.push([entropy.slice(), perturbation?.slice()]);
+            return generateInitialCondition(entropy, params, perturbation);
+        });
+        vi.spyOn(faceEvaluator, 'determineFace')
+            .mockReturnValueOnce('EDGE')
+            .mockReturnValueOnce('TAILS');
+
+        await flipCoin({ maxEdgeRetries: 5 });
+
+        /**
+         * collectEntropy is mocked to the same bytes for both attempts,
+         * so only the 'launch' / 'retry-1' labels tell them apart.
+         */
+        const [launchCall, retryCall] = calls;
+        expect(launchCall![0]).not.toEqual(retryCall![0]);
+        expect(launchCall![1]).toBeDefined();
+        expect(launchCall![1]).not.toEqual(launchCall![0]);
+    });
+
     it('should throw EdgeRetryExhaustedError if max retries exceeded', async () => {
         vi.spyOn(faceEvaluator, 'determineFace').mockReturnValue('EDGE');
 
@@ -85,6 +237,36 @@ describe('flipCoin', () => {
         expect(callCount).toBeGreaterThanOrEqual(15);
     });
 
+    it('should pass the signal to entropy collection', async () => {
+        const controller = new AbortController();
+
+        await flipCoin({ signal: controller.signal });
+
+        expect(entropyPool.collectEntropy).toHaveBeenCalledWith(
+            expect.objectContaining({ signal: controller.signal })
+        );
+    });
+
+    it('should reject with FlipAbortedError before collecting if already aborted', async () => {
+        await expect(flipCoin({ signal: AbortSignal.abort() }))
+            .rejects.toThrow(FlipAbortedError);
+
+        expect(entropyPool.collectEntropy).not.toHaveBeenCalled();
+    });
+
+    it('should abort a running physics loop', async () => {
+        vi.spyOn(stability, 'isStable').mockReturnValue(false);
+        const controller = new AbortController();
+        setTimeout(() => controller.abort(), 20);
+
+        /**
+         * Never settles and the timeout is an hour of simulated time:
+         * only the abort can end this flip.
+         */
+        await expect(flipCoin({ timeout: 3_600_000, signal: controller.signal }))
+            .rejects.toThrow(FlipAbortedError);
+    });
+
     it('should throw SimulationTimeoutError if coin never settles', async () => {
         vi.spyOn(stability, 'isStable').mockReturnValue(false);
         /**
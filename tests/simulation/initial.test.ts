@@ -1,8 +1,11 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import { generateInitialCondition } from '../../src/simulation/initial';
 import { DEFAULT_LAUNCH_PARAMETERS, LaunchParameters } from '../../src/simulation/types/launch-parameters';
 import { Vec3 } from '../../src/physics/math/vec3';
 import { Quaternion } from '../../src/physics/math/quaternion';
+import { InsufficientEntropyBufferError, DrbgReseedRequiredError } from '../../src/entropy/errors';
+import * as drbg from '../../src/entropy/drbg';
+import type { HmacDrbg } from '../../src/entropy/types';
 
 describe('Initial Condition Generator', () => {
     const mockEntropy = new Uint8Array(64).fill(128);
@@ -48,17 +51,26 @@ describe('Initial Condition Generator', () => {
         expect(state.linearVelocity.y).toBeLessThan(1100);
     });
 
-    it('should handle entropy exhaustion gracefully (fallback to Math.random)', () => {
-        const emptyEntropy = new Uint8Array(0);
+    it('should draw beyond the entropy buffer without Math.random', () => {
+        const randomSpy = vi.spyOn(Math, 'random');
+        const entropy = new Uint8Array(32).map((_, i) => i);
+
         /**
-         * No bytes provided by the entropy pool
-         * but still, we should be able to generate a valid state
-         * and it should not throw
+         * A full launch needs 40 bytes (5 Gaussians), more than the
+         * 32-byte buffer holds; the DRBG provides the rest.
          */
-        const state = generateInitialCondition(emptyEntropy);
+        const state1 = generateInitialCondition(entropy);
+        const state2 = generateInitialCondition(entropy);
+
+        expect(randomSpy).not.toHaveBeenCalled();
+        expect(state1.angularVelocity.equals(state2.angularVelocity)).toBe(true);
+        expect(state1.linearVelocity.y).not.toBeNaN();
+        randomSpy.mockRestore();
+    });
 
-        expect(state.linearVelocity).toBeDefined();
-        expect(state.linearVelocity.y).not.toBeNaN();
+    it('should reject a buffer too short to seed the DRBG', () => {
+        expect(() => generateInitialCondition(new Uint8Array(0)))
+            .toThrow(InsufficientEntropyBufferError);
     });
 
     it('should produce variations in spin axis', () => {
@@ -89,4 +101,41 @@ describe('Initial Condition Generator', () => {
 
         expect(axisA.equals(axisB)).toBe(false);
     });
+
+    it('should draw the spin axis wobble from a separate perturbation stream', () => {
+        const entropy = new Uint8Array(64).map((_, i) => i);
+        const perturbationA = new Uint8Array(64).map((_, i) => 255 - i);
+        const perturbationB = new Uint8Array(64).map((_, i) => (i * 7) & 0xff);
+
+        const stateA = generateInitialCondition(entropy, undefined, perturbationA);
+        const stateB = generateInitialCondition(entropy, undefined, perturbationB);
+
+        /**
+         * Same launch bytes: same impulse and spin magnitude.
+         * Different perturbation bytes: different axis.
+         */
+        expect(stateA.linearVelocity.equals(stateB.linearVelocity)).toBe(true);
+        expect(stateA.angularVelocity.magnitude()).toBeCloseTo(stateB.angularVelocity.magnitude(), 10);
+        expect(stateA.angularVelocity.normalize().equals(stateB.angularVelocity.normalize())).toBe(false);
+    });
+
+    it('should wipe the DRBG state of both readers, but not the caller\'s buffers', () => {
+        const createHmacDrbg = drbg.createHmacDrbg;
+        const instances: HmacDrbg[] = [];
+        const drbgSpy = vi.spyOn(drbg, 'createHmacDrbg').mockImplementation((entropy, options) => {
+            const instance = createHmacDrbg(entropy, options);
+            instances.push(instance);
+            return instance;
+        });
+        const entropy = new Uint8Array(64).fill(1);
+
+        generateInitialCondition(entropy, undefined, new Uint8Array(64).fill(2));
+
+        expect(instances).toHaveLength(2);
+        for (const instance of instances) {
+            expect(() => instance.generate(32)).toThrow(DrbgReseedRequiredError);
+        }
+        expect(entropy.every((byte) => byte === 1)).toBe(true);
+        drbgSpy.mockRestore();
+    });
 });
@@ -86,4 +86,18 @@ describe('isStable', () => {
         expect(isStable(coin)).toBe(false);
         expect(isStable(coin, { angularVelocityThreshold: 3.0 })).toBe(true);
     });
+
+    it('should count a coin at rest on its edge as grounded, but not one in mid-air', () => {
+        /**
+         * radius = 0.01, thickness = 0.002 -> grounded below y = 0.012.
+         * Standing on its edge, the centre is at y = radius.
+         */
+        const coin = createCoin({});
+
+        coin.position = new Vec3(0, 0.01, 0);
+        expect(isStable(coin)).toBe(true);
+
+        coin.position = new Vec3(0, 0.05, 0);
+        expect(isStable(coin)).toBe(false);
+    });
 });